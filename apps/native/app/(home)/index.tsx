@@ -1,5 +1,15 @@
 import React, { useEffect, useRef, useState, useMemo } from 'react';
-import { Text, View, TouchableOpacity, KeyboardAvoidingView, Platform, Alert } from 'react-native';
+import {
+  Text,
+  View,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+  ActivityIndicator,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+} from 'react-native';
 import { EnhancedFlashList } from '@/components/ui/enhanced-flash-list';
 import type { EnhancedFlashListRef } from '@/components/ui/enhanced-flash-list';
 import { MaterialIcons } from '@expo/vector-icons';
@@ -8,26 +18,41 @@ import { useChat } from '@ai-sdk/react';
 import { fetch as expoFetch } from 'expo/fetch';
 import { AppContainer } from '@/components/app-container';
 import { AutoResizingInput } from '@/components/ui/auto-resizing-input';
+import { useModelSupportsTools } from '@/components/ui/tool-tray';
 import { SuggestedPrompts } from '@/components/ui/suggested-prompts';
 import { ThemeToggle } from '@/components/ui/theme-toggle';
 import { MessageRenderer } from '@/components/messages';
 import { TypingShimmer } from '@/components/ui/shimmer-text';
 import { useColorScheme } from '@/lib/use-color-scheme';
-import { chatAPI, Thread } from '@/lib/api/chat-api';
+import { chatAPI, parseQuotaError, Thread, Message as APIMessage } from '@/lib/api/chat-api';
 import { generateConvexApiUrl } from '@/lib/convex-utils';
+import { getAuthToken, withAuthFetch } from '@/lib/auth-token';
+import { useStreamReattach } from '@/lib/use-stream-reattach';
+import { getRenderableContent, getSavedMessageParts } from '@/lib/message-parts';
 import { DrawerActions } from '@react-navigation/native';
 import { useNavigation, useLocalSearchParams } from 'expo-router';
 import { useThreadVersion } from '@/store/thread-version-store';
 import { useModelsStore } from '@/store/models-store';
+import { useToolsStore } from '@/store/tools-store';
+import { usePersonasStore } from '@/store/personas-store';
 import { cn } from '@/lib/utils';
 import { ImageAttachment, PDFAttachment } from '@/lib/types/attachments';
 
+// Messages fetched per page; older pages load as the user scrolls up
+const MESSAGES_PAGE_SIZE = 50;
+// Distance in px from the top of the list at which the next older page is requested
+const LOAD_OLDER_THRESHOLD = 200;
+// Distance in px from the bottom within which new messages keep the list scrolled down
+const AUTO_SCROLL_THRESHOLD = 120;
+
 export default function HomePage() {
   const { user } = useUser();
   const navigation = useNavigation();
   const params = useLocalSearchParams();
   const newChat = (params as Record<string, string>).newChat;
   const threadParam = (params as Record<string, string>).id as string | undefined;
+  // Message to scroll to after opening the thread (set by search results)
+  const messageParam = (params as Record<string, string>).messageId as string | undefined;
   const listRef = useRef<EnhancedFlashListRef>(null);
   const { isDarkColorScheme } = useColorScheme();
   const { bump } = useThreadVersion();
@@ -35,8 +60,10 @@ export default function HomePage() {
 
   const [currentThread, setCurrentThread] = useState<Thread | null>(null);
   const [selectedModel, setSelectedModel] = useState<string>('gemini-2.5-flash');
+  const [selectedPersonaId, setSelectedPersonaId] = useState<string | null>(null);
   const [isLoadingMessages, setIsLoadingMessages] = useState(false);
-  const [webSearchEnabled, setWebSearchEnabled] = useState(false);
+  const { tools, enabledTools, setEnabledTools } = useToolsStore();
+  const supportsTools = useModelSupportsTools(selectedModel);
 
   // Track whether we should auto-scroll to the bottom when new messages arrive.
   // The default behaviour is to auto-scroll, but if the user scrolls away from
@@ -44,6 +71,18 @@ export default function HomePage() {
   const [shouldAutoScroll, setShouldAutoScroll] = useState(true);
 
   const lastHandledRef = useRef<string | undefined>(undefined);
+  // Server-side stream behind the in-flight request, used to reattach if the connection drops
+  const activeStreamRef = useRef<{ streamId: string; threadId: string } | null>(null);
+  // Assistant answers the user stopped early, which can be continued
+  const [stoppedMessageIds, setStoppedMessageIds] = useState<Set<string>>(new Set());
+  // Alternate versions (edits or retries) of each message on the active branch
+  const [branchInfo, setBranchInfo] = useState<
+    Record<string, { siblingIds: string[]; siblingIndex: number }>
+  >({});
+  // Cursor for the next older page of the open thread, null once the start is loaded
+  const [olderCursor, setOlderCursor] = useState<string | null>(null);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const loadingOlderRef = useRef(false);
 
   useEffect(() => {
     if (newChat && newChat !== lastHandledRef.current) {
@@ -56,22 +95,30 @@ export default function HomePage() {
   // The latest AI SDK returns a `status` string instead of the previous
   // boolean `isLoading`. We still need a boolean throughout the component,
   // so we derive it from the status value for backwards-compatibility.
-  const { messages, status, error, append, setMessages, stop } = useChat({
-    fetch: expoFetch as unknown as typeof globalThis.fetch,
+  const { messages, status, error, append, setMessages, stop, reload } = useChat({
+    fetch: withAuthFetch(expoFetch as unknown as typeof globalThis.fetch),
     api: generateConvexApiUrl('/api/chat/completions'),
     body: {
-      clerkId: user?.id,
       model: selectedModel,
       thread_id: currentThread?._id,
+      persona_id: selectedPersonaId,
       generate_title: true,
-      enabledTools: webSearchEnabled ? ['web_search'] : [],
+      enabledTools: supportsTools ? enabledTools : [],
       maxSteps: 5,
       // Reduce UI updates while streaming so the JS thread stays responsive
       experimental_throttle: 80, // ms
     },
+    onResponse: response => {
+      const streamId = response.headers.get('X-Stream-ID');
+      const threadId = response.headers.get('X-Thread-ID');
+      activeStreamRef.current = streamId && threadId ? { streamId, threadId } : null;
+    },
     onError: error => {
       console.error('Chat error:', error);
 
+      const streamId = activeStreamRef.current?.streamId;
+      activeStreamRef.current = null;
+
       // Don't show error for cancelled requests (when user clicks stop)
       if (
         error.message?.includes('Cancelled request') ||
@@ -81,14 +128,48 @@ export default function HomePage() {
         return; // Silently ignore cancelled requests
       }
 
+      // Over-quota requests are refused before anything is generated, so retrying won't help yet
+      const quotaError = parseQuotaError(error.message);
+      if (quotaError) {
+        const resetAt = new Date(quotaError.resetAt).toLocaleString('en-US', {
+          month: 'short',
+          day: 'numeric',
+          hour: 'numeric',
+          minute: '2-digit',
+        });
+        Alert.alert(
+          'Usage Limit Reached',
+          `${quotaError.message}\n\nYou can send more messages after ${resetAt}, or switch to a model in another tier.`
+        );
+        return;
+      }
+
+      // The server keeps generating after the connection drops, so follow its saved stream
+      if (streamId) {
+        const lastMessage = messagesRef.current[messagesRef.current.length - 1];
+        const partial = lastMessage?.role === 'assistant' ? lastMessage : null;
+        reattach({
+          streamId,
+          messageId: partial?.id ?? `stream-${streamId}`,
+          text: partial?.content ?? '',
+          offset: partial?.content.length ?? 0,
+        });
+        return;
+      }
+
       // Handle specific tool-related errors
       let errorMessage = error.message || 'Unknown error occurred';
       let errorTitle = 'Chat Error';
 
+      // A tool named in the error can be switched off from the alert
+      const failingTool = tools.find(
+        tool => enabledTools.includes(tool.id) && error.message?.includes(tool.id)
+      );
+
       if (error.message?.includes('tool')) {
         errorTitle = 'Tool Error';
-        if (error.message?.includes('web_search')) {
-          errorMessage = 'Web search failed. Please try again or disable web search.';
+        if (failingTool) {
+          errorMessage = `${failingTool.name} failed. Please try again or disable it.`;
         } else if (error.message?.includes('NoSuchToolError')) {
           errorMessage = 'The requested tool is not available. Please try a different approach.';
         } else if (error.message?.includes('InvalidToolArgumentsError')) {
@@ -107,12 +188,12 @@ export default function HomePage() {
 
       Alert.alert(errorTitle, errorMessage, [
         { text: 'OK', style: 'default' },
-        ...(webSearchEnabled && error.message?.includes('web_search')
+        ...(failingTool
           ? [
               {
-                text: 'Disable Web Search',
+                text: `Disable ${failingTool.name}`,
                 style: 'destructive' as const,
-                onPress: () => setWebSearchEnabled(false),
+                onPress: () => setEnabledTools(enabledTools.filter(id => id !== failingTool.id)),
               },
             ]
           : []),
@@ -132,28 +213,61 @@ export default function HomePage() {
       ]);
     },
     onFinish: () => {
+      const finishedStream = activeStreamRef.current;
+      activeStreamRef.current = null;
       setTimeout(() => {
         refreshCurrentThread();
+        // Swap client ids for saved ones so the new messages can be retried, edited and forked
+        if (finishedStream) {
+          loadThreadMessages(finishedStream.threadId, { silent: true });
+        }
       }, 1500);
     },
     initialMessages: [],
   });
 
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+  const currentThreadRef = useRef(currentThread?._id);
+  currentThreadRef.current = currentThread?._id;
+
+  // Follow generations that outlived the live response (dropped connection or reopened thread)
+  const { reattach, stopReattach, cancelReattach, isReattaching } = useStreamReattach({
+    setMessages,
+    onDone: replay => {
+      if (!replay) return;
+
+      if (replay.status === 'error') {
+        Alert.alert('Chat Error', replay.errorMessage || 'The response could not be completed.');
+      }
+
+      // Swap the replayed text for the saved messages
+      loadThreadMessages(replay.threadId);
+      refreshCurrentThread();
+    },
+  });
+
   // Derive isStreaming via useMemo
-  const isLoading = useMemo(() => status === 'submitted' || status === 'streaming', [status]);
+  const isLoading = useMemo(
+    () => status === 'submitted' || status === 'streaming' || isReattaching,
+    [status, isReattaching]
+  );
 
   // Sync user with Convex database
   const syncUserWithConvex = async () => {
     if (!user) return;
 
     try {
+      const token = await getAuthToken();
+      if (!token) return;
+
       const response = await fetch(generateConvexApiUrl('/api/user/sync'), {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
         },
         body: JSON.stringify({
-          clerkId: user.id,
           email: user.emailAddresses?.[0]?.emailAddress || '',
           name: user.fullName || '',
           imageUrl: user.imageUrl || '',
@@ -191,29 +305,112 @@ export default function HomePage() {
 
   // (scroll listener removed – FlashList handles it)
 
+  // Show a branch of saved messages along with their stopped and sibling state
+  // With prepend, an older page is added above the messages already shown
+  const showServerMessages = (
+    serverMessages: APIMessage[],
+    nextCursor: string | null,
+    { prepend = false }: { prepend?: boolean } = {}
+  ) => {
+    const withIds = serverMessages.map(msg => ({ ...msg, id: (msg._id || msg.id) as string }));
+
+    // Convert API messages to useChat format
+    const formattedMessages = withIds.map((msg: any) => ({
+      id: msg.id,
+      role: msg.role,
+      content: msg.content,
+      parts: getSavedMessageParts(msg),
+      createdAt: msg.createdAt ? new Date(msg.createdAt) : undefined,
+    }));
+    const stoppedIds = withIds.filter(msg => msg.metadata?.stopped).map(msg => msg.id);
+    const pageBranchInfo = Object.fromEntries(
+      withIds.map(msg => [
+        msg.id,
+        { siblingIds: msg.siblingIds ?? [msg.id], siblingIndex: msg.siblingIndex ?? 0 },
+      ])
+    );
+
+    setOlderCursor(nextCursor);
+
+    if (prepend) {
+      setMessages(current => {
+        const shown = new Set(current.map(message => message.id));
+        return [...formattedMessages.filter(message => !shown.has(message.id)), ...current];
+      });
+      setStoppedMessageIds(prev => new Set([...stoppedIds, ...prev]));
+      setBranchInfo(prev => ({ ...pageBranchInfo, ...prev }));
+      return;
+    }
+
+    // Set messages in useChat hook
+    setMessages(formattedMessages);
+    setStoppedMessageIds(new Set(stoppedIds));
+    setBranchInfo(pageBranchInfo);
+  };
+
   // Load thread messages and set them in useChat
-  const loadThreadMessages = async (threadId: string) => {
+  const loadThreadMessages = async (
+    threadId: string,
+    { silent = false }: { silent?: boolean } = {}
+  ) => {
     if (!user?.id) return;
 
-    setIsLoadingMessages(true);
+    if (!silent) setIsLoadingMessages(true);
     try {
-      const result = await chatAPI.getThreadMessages(user.id, threadId);
-
-      // Convert API messages to useChat format
-      const formattedMessages = result.messages.map((msg: any) => ({
-        id: msg._id || msg.id,
-        role: msg.role,
-        content: msg.content,
-        createdAt: msg.createdAt ? new Date(msg.createdAt) : undefined,
-      }));
-
-      // Set messages in useChat hook
-      setMessages(formattedMessages);
+      const result = await chatAPI.getThreadMessages(threadId, MESSAGES_PAGE_SIZE);
+      showServerMessages(result.messages, result.pagination?.nextCursor ?? null);
+
+      // Pick up an answer that is still being generated for this thread
+      if (result.activeStream) {
+        reattach({
+          streamId: result.activeStream.streamId,
+          messageId: `stream-${result.activeStream.streamId}`,
+          text: result.activeStream.text,
+          offset: result.activeStream.offset,
+        });
+      }
     } catch (error) {
       console.error('Failed to load messages:', error);
-      Alert.alert('Error', 'Failed to load conversation history');
+      if (!silent) Alert.alert('Error', 'Failed to load conversation history');
     } finally {
-      setIsLoadingMessages(false);
+      if (!silent) setIsLoadingMessages(false);
+    }
+  };
+
+  // Fetch the next older page of the open thread and keep the viewport on the same message
+  const loadOlderMessages = async () => {
+    if (!currentThread?._id || !olderCursor || loadingOlderRef.current) return;
+
+    const threadId = currentThread._id;
+    loadingOlderRef.current = true;
+    setIsLoadingOlder(true);
+    try {
+      const result = await chatAPI.getThreadMessages(threadId, MESSAGES_PAGE_SIZE, olderCursor);
+      // The user may have switched threads while the page was loading
+      if (currentThreadRef.current !== threadId) return;
+
+      showServerMessages(result.messages, result.pagination?.nextCursor ?? null, {
+        prepend: true,
+      });
+      setTimeout(() => {
+        listRef.current?.scrollToIndex(result.messages.length, false);
+      }, 50);
+    } catch (error) {
+      console.warn('Failed to load older messages:', error);
+    } finally {
+      loadingOlderRef.current = false;
+      setIsLoadingOlder(false);
+    }
+  };
+
+  // Follow new messages only while the user is at the bottom, and page in history at the top
+  const handleMessagesScroll = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const { contentOffset, contentSize, layoutMeasurement } = event.nativeEvent;
+    const distanceFromBottom = contentSize.height - layoutMeasurement.height - contentOffset.y;
+    setShouldAutoScroll(distanceFromBottom < AUTO_SCROLL_THRESHOLD);
+
+    if (contentOffset.y < LOAD_OLDER_THRESHOLD && olderCursor) {
+      loadOlderMessages();
     }
   };
 
@@ -222,10 +419,7 @@ export default function HomePage() {
     if (!currentThread?._id || !user?.id) return;
 
     try {
-      const threadsResponse = await fetch(
-        generateConvexApiUrl(`/api/chat/threads?clerkId=${user.id}&limit=1`)
-      );
-      const threadsData = await threadsResponse.json();
+      const threadsData = await chatAPI.getThreads(1);
 
       const updatedThread = threadsData.threads?.find((t: Thread) => t._id === currentThread._id);
       if (updatedThread && updatedThread.title !== currentThread.title) {
@@ -239,8 +433,10 @@ export default function HomePage() {
 
   // Handle thread selection
   const handleThreadSelect = async (thread: Thread) => {
+    stopReattach();
     setCurrentThread(thread);
     setSelectedModel(thread.settings?.modelId || 'gemini-2.5-flash');
+    setSelectedPersonaId(thread.settings?.personaId ?? null);
 
     // Load messages for the selected thread
     await loadThreadMessages(thread._id!);
@@ -248,10 +444,14 @@ export default function HomePage() {
 
   // Handle new thread creation
   const handleNewThread = () => {
+    stopReattach();
     setCurrentThread(null);
+    setSelectedPersonaId(null);
 
     // Clear messages for fresh chat
     setMessages([]);
+    setOlderCursor(null);
+    setShouldAutoScroll(true);
   };
 
   // Custom input handler with image, PDF, and tool support
@@ -281,7 +481,7 @@ export default function HomePage() {
     if (shouldFetchThreadAfter && user?.id) {
       setTimeout(async () => {
         try {
-          const { threads } = await chatAPI.getThreads(user.id, 1, 0, false);
+          const { threads } = await chatAPI.getThreads(1, null, false);
           if (threads && threads.length > 0) {
             setCurrentThread(threads[0]);
             bump();
@@ -293,19 +493,137 @@ export default function HomePage() {
     }
   };
 
-  // Handle web search toggle
-  const handleWebSearchToggle = (enabled: boolean) => {
-    setWebSearchEnabled(enabled);
+  // Handle model selection - persist it on the current thread so reopening restores it
+  const handleModelChange = (modelId: string) => {
+    setSelectedModel(modelId);
+
+    if (currentThread?._id && currentThread.settings?.modelId !== modelId) {
+      const settings = { ...currentThread.settings, modelId };
+      setCurrentThread({ ...currentThread, settings });
+      chatAPI.updateThreadSettings(currentThread._id, { modelId }).catch(err => {
+        console.warn('Failed to save thread model:', err);
+      });
+    }
+  };
+
+  // Handle persona selection - switch to the persona's default model and persist it on the thread
+  const handlePersonaChange = (personaId: string | null) => {
+    setSelectedPersonaId(personaId);
+
+    const persona = usePersonasStore.getState().getPersonaById(personaId);
+    if (persona?.defaultModelId) {
+      handleModelChange(persona.defaultModelId);
+    }
+
+    if (currentThread?._id && (currentThread.settings?.personaId ?? null) !== personaId) {
+      setCurrentThread(current =>
+        current ? { ...current, settings: { ...current.settings, personaId } } : current
+      );
+      chatAPI.updateThreadSettings(currentThread._id, { personaId }).catch(err => {
+        console.warn('Failed to save thread persona:', err);
+      });
+    }
+  };
+
+  // Stop generating - dropping the connection alone leaves the server running, so cancel its
+  // stream and follow it until the partial answer is saved, then show it with its saved id
+  const handleStop = () => {
+    const activeStream = activeStreamRef.current;
+    activeStreamRef.current = null;
+    stop();
+
+    if (activeStream) {
+      const lastMessage = messagesRef.current[messagesRef.current.length - 1];
+      const partial = lastMessage?.role === 'assistant' ? lastMessage : null;
+      chatAPI
+        .cancelStream(activeStream.streamId)
+        .catch(err => console.warn('Failed to cancel stream:', err))
+        .finally(() =>
+          reattach({
+            streamId: activeStream.streamId,
+            messageId: partial?.id ?? `stream-${activeStream.streamId}`,
+            text: partial?.content ?? '',
+            offset: partial?.content.length ?? 0,
+          })
+        );
+    }
+  };
+
+  // Continue a stopped answer; the server replays it and appends the rest
+  const handleContinue = async (messageId: string) => {
+    if (isLoading || !currentThread?._id) return;
+
+    setStoppedMessageIds(current => {
+      const next = new Set(current);
+      next.delete(messageId);
+      return next;
+    });
+    await reload({ body: { continue_message_id: messageId } });
+  };
+
+  // Open a thread on the branch containing a message and scroll to it
+  const openThreadAtMessage = async (threadId: string, messageId: string) => {
+    stopReattach();
+    setIsLoadingMessages(true);
+    try {
+      const firstPage = await chatAPI.getThreadMessages(threadId, MESSAGES_PAGE_SIZE);
+      setCurrentThread(firstPage.thread);
+      setSelectedModel(firstPage.thread.settings?.modelId || 'gemini-2.5-flash');
+      setSelectedPersonaId(firstPage.thread.settings?.personaId ?? null);
+
+      let loaded = firstPage.messages;
+      let cursor = firstPage.pagination?.nextCursor ?? null;
+      const indexOfTarget = () => loaded.findIndex(msg => (msg._id || msg.id) === messageId);
+      const pageBackToTarget = async () => {
+        while (indexOfTarget() === -1 && cursor) {
+          const older = await chatAPI.getThreadMessages(threadId, MESSAGES_PAGE_SIZE, cursor);
+          loaded = [...older.messages, ...loaded];
+          cursor = older.pagination?.nextCursor ?? null;
+        }
+      };
+
+      await pageBackToTarget();
+      // The hit is on another branch (an earlier edit or retry), so switch to it first
+      if (indexOfTarget() === -1) {
+        const branch = await chatAPI.selectBranch(messageId);
+        loaded = branch.messages;
+        cursor = branch.pagination?.nextCursor ?? null;
+        await pageBackToTarget();
+      }
+
+      setShouldAutoScroll(false);
+      showServerMessages(loaded, cursor);
+
+      const targetIndex = indexOfTarget();
+      if (targetIndex >= 0) {
+        setTimeout(() => {
+          listRef.current?.scrollToIndex(targetIndex, true);
+        }, 300);
+      }
+    } catch (error) {
+      console.error('Failed to open message:', error);
+      Alert.alert('Error', 'Failed to open that message');
+    } finally {
+      setIsLoadingMessages(false);
+    }
   };
 
   // Load thread when param provided from drawer
   useEffect(() => {
-    if (!threadParam || currentThread?._id === threadParam) return;
+    if (!threadParam) return;
+    if (messageParam) {
+      if (user?.id) openThreadAtMessage(threadParam, messageParam);
+      return;
+    }
+    if (currentThread?._id === threadParam) return;
     const fetchThread = async () => {
       if (!user?.id) return;
       try {
-        const { threads } = await chatAPI.getThreads(user.id, 30, 0, false);
-        const target = threads.find((t: Thread) => t._id === threadParam);
+        const { threads } = await chatAPI.getThreads(30, null, false);
+        // Older threads are not in the first page, so fall back to the thread's own lookup
+        const target =
+          threads.find((t: Thread) => t._id === threadParam) ||
+          (await chatAPI.getThreadMessages(threadParam, 1)).thread;
         if (target) {
           await handleThreadSelect(target);
         }
@@ -314,7 +632,7 @@ export default function HomePage() {
       }
     };
     fetchThread();
-  }, [threadParam, user?.id]);
+  }, [threadParam, messageParam, user?.id]);
 
   // Message action handlers
   const handleCopy = async (messageId: string) => {
@@ -322,6 +640,7 @@ export default function HomePage() {
     // Copy functionality is handled in the MessageActionButtons component
   };
 
+  // Retry answers a user message again as a new branch, keeping the earlier answers
   const handleRetry = async (messageId: string, selectedModel?: string) => {
     if (!user?.id || !currentThread?._id) return;
 
@@ -329,24 +648,24 @@ export default function HomePage() {
       const messageIndex = messages.findIndex(msg => msg.id === messageId);
       if (messageIndex === -1) return;
 
-      const message = messages[messageIndex];
-
-      // Delete messages from backend starting from this index
-      await chatAPI.deleteMessagesFromIndex(user.id, currentThread._id, messageIndex);
-
-      // Update local state
-      const newMessages = messages.slice(0, messageIndex);
-      setMessages(newMessages);
+      // Retrying an answer re-asks the user message before it
+      const userIndex = messages[messageIndex].role === 'user' ? messageIndex : messageIndex - 1;
+      const userMessage = messages[userIndex];
+      if (!userMessage || userMessage.role !== 'user') return;
 
       // Update model if specified
       if (selectedModel) {
         setSelectedModel(selectedModel);
       }
 
-      // Resend the message
-      await append({
-        role: 'user',
-        content: message.content as unknown as string,
+      // Show the new answer in place of the current one
+      setMessages(messages.slice(0, userIndex + 1));
+
+      await reload({
+        body: {
+          retry_message_id: userMessage.id,
+          ...(selectedModel && { model: selectedModel }),
+        },
       });
     } catch (error) {
       console.error('Retry failed:', error);
@@ -354,6 +673,7 @@ export default function HomePage() {
     }
   };
 
+  // Editing sends the new text as a sibling branch of the original message
   const handleEdit = async (messageId: string, editedText?: string) => {
     if (!user?.id || !currentThread?._id) return;
 
@@ -368,23 +688,15 @@ export default function HomePage() {
 
       // Only allow editing user messages
       if (message.role === 'user' && editedText.trim()) {
-        try {
-          // Delete messages from backend starting from this index
-          await chatAPI.deleteMessagesFromIndex(user.id, currentThread._id, messageIndex);
-
-          // Update local state
-          const newMessages = messages.slice(0, messageIndex);
-          setMessages(newMessages);
+        setMessages(messages.slice(0, messageIndex));
 
-          // Resend with edited content
-          await append({
+        await append(
+          {
             role: 'user',
             content: editedText.trim(),
-          });
-        } catch (error) {
-          console.error('Edit failed:', error);
-          Alert.alert('Edit Failed', 'Unable to edit the message. Please try again.');
-        }
+          },
+          { body: { edit_message_id: messageId } }
+        );
       }
     } catch (error) {
       console.error('Edit operation failed:', error);
@@ -392,6 +704,33 @@ export default function HomePage() {
     }
   };
 
+  // Switch to the previous or next version of a message
+  const handleBranchChange = async (messageId: string, direction: -1 | 1) => {
+    const info = branchInfo[messageId];
+    const targetId = info?.siblingIds[info.siblingIndex + direction];
+    if (!targetId || isLoading) return;
+
+    try {
+      const result = await chatAPI.selectBranch(targetId);
+      showServerMessages(result.messages, result.pagination?.nextCursor ?? null);
+    } catch (error) {
+      console.error('Branch switch failed:', error);
+      Alert.alert('Error', 'Unable to switch to that version. Please try again.');
+    }
+  };
+
+  // Copy the branch ending at a message into a new thread and open it
+  const handleFork = async (messageId: string) => {
+    try {
+      const thread = await chatAPI.forkThread(messageId);
+      bump();
+      await handleThreadSelect(thread);
+    } catch (error) {
+      console.error('Fork failed:', error);
+      Alert.alert('Fork Failed', 'Unable to fork this conversation. Please try again.');
+    }
+  };
+
   if (error) {
     return (
       <AppContainer>
@@ -474,7 +813,7 @@ export default function HomePage() {
                       message={{
                         id: item.id,
                         role: item.role as 'user' | 'assistant' | 'system',
-                        content: item.content,
+                        content: getRenderableContent(item),
                         createdAt: item.createdAt,
                       }}
                       onCopy={handleCopy}
@@ -505,7 +844,7 @@ export default function HomePage() {
                     message={{
                       id: item.id,
                       role: item.role as 'user' | 'assistant' | 'system',
-                      content: item.content,
+                      content: getRenderableContent(item),
                       createdAt: item.createdAt,
                     }}
                     onCopy={handleCopy}
@@ -513,6 +852,12 @@ export default function HomePage() {
                     onEdit={handleEdit}
                     isStreaming={isLoading}
                     isLastMessage={index === messages.length - 1}
+                    isStopped={stoppedMessageIds.has(item.id)}
+                    onContinue={handleContinue}
+                    branchIndex={branchInfo[item.id]?.siblingIndex}
+                    branchCount={branchInfo[item.id]?.siblingIds.length}
+                    onBranchChange={handleBranchChange}
+                    onFork={handleFork}
                   />
                 )}
                 keyExtractor={item => item.id}
@@ -524,6 +869,15 @@ export default function HomePage() {
                 // Allow tap outside to dismiss keyboard
                 keyboardShouldPersistTaps='handled'
                 showsVerticalScrollIndicator={false}
+                onScroll={handleMessagesScroll}
+                scrollEventThrottle={16}
+                ListHeaderComponent={
+                  isLoadingOlder ? (
+                    <View className={cn('py-3 items-center')}>
+                      <ActivityIndicator size='small' />
+                    </View>
+                  ) : null
+                }
               />
 
               {/* Typing indicator */}
@@ -547,11 +901,11 @@ export default function HomePage() {
             onSend={handleSendMessage}
             placeholder='Type your message...'
             selectedModel={selectedModel}
-            onModelChange={setSelectedModel}
+            onModelChange={handleModelChange}
+            selectedPersonaId={selectedPersonaId}
+            onPersonaChange={handlePersonaChange}
             isStreaming={isLoading}
-            onStop={stop}
-            webSearchEnabled={webSearchEnabled}
-            onWebSearchToggle={handleWebSearchToggle}
+            onStop={isReattaching ? cancelReattach : handleStop}
           />
         </View>
       </KeyboardAvoidingView>
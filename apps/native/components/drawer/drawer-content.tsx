@@ -2,7 +2,7 @@ import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { View, InteractionManager, Text } from 'react-native';
 import { DrawerContentComponentProps } from '@react-navigation/drawer';
 import { useUser } from '@clerk/clerk-expo';
-import { chatAPI, Thread } from '@/lib/api/chat-api';
+import { chatAPI, Thread, MessageSearchResult } from '@/lib/api/chat-api';
 import { useThreadVersion } from '@/store/thread-version-store';
 import { useColorScheme } from '@/lib/use-color-scheme';
 import { CHATZO_COLORS } from '@/lib/constants';
@@ -13,6 +13,7 @@ import { useSearchDebounce } from '@/lib/utils/debounce';
 import { AppHeader } from './app-header';
 import { NewChatButton } from './new-chat-button';
 import { EnhancedThreadList } from './enhanced-thread-list';
+import { SearchResultsList } from './search-results-list';
 import { SearchInput } from './search-input';
 import { SettingsButton } from './settings-button';
 import {
@@ -56,6 +57,7 @@ interface SearchState {
   query: string;
   isSearching: boolean;
   searchResults: Thread[];
+  messageResults: MessageSearchResult[];
   searchError: string | null;
   searchTotal: number;
   hasSearched: boolean;
@@ -77,12 +79,15 @@ export const DrawerContent = React.memo<DrawerContentProps>(props => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [refreshing, setRefreshing] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
 
   // Search state management
   const [searchState, setSearchState] = useState<SearchState>({
     query: '',
     isSearching: false,
     searchResults: [],
+    messageResults: [],
     searchError: null,
     searchTotal: 0,
     hasSearched: false,
@@ -111,6 +116,7 @@ export const DrawerContent = React.memo<DrawerContentProps>(props => {
           ...prev,
           isSearching: false,
           searchResults: [],
+          messageResults: [],
           searchError: null,
           searchTotal: 0,
           hasSearched: false,
@@ -125,12 +131,13 @@ export const DrawerContent = React.memo<DrawerContentProps>(props => {
           searchError: null,
         }));
 
-        const result = await chatAPI.searchThreads(user.id, query.trim(), 50, 0, false);
+        const result = await chatAPI.searchThreads(query.trim(), 50, 0, false);
 
         setSearchState(prev => ({
           ...prev,
           isSearching: false,
           searchResults: result.threads || [],
+          messageResults: result.messages || [],
           searchTotal: result.total || 0,
           hasSearched: true,
         }));
@@ -140,6 +147,7 @@ export const DrawerContent = React.memo<DrawerContentProps>(props => {
           isSearching: false,
           searchError: err instanceof Error ? err.message : 'Search failed',
           searchResults: [],
+          messageResults: [],
           searchTotal: 0,
           hasSearched: true,
         }));
@@ -192,6 +200,7 @@ export const DrawerContent = React.memo<DrawerContentProps>(props => {
           ...prev,
           isSearching: false,
           searchResults: [],
+          messageResults: [],
           searchError: null,
           searchTotal: 0,
           hasSearched: false,
@@ -208,6 +217,7 @@ export const DrawerContent = React.memo<DrawerContentProps>(props => {
       query: '',
       isSearching: false,
       searchResults: [],
+      messageResults: [],
       searchError: null,
       searchTotal: 0,
       hasSearched: false,
@@ -238,8 +248,13 @@ export const DrawerContent = React.memo<DrawerContentProps>(props => {
         await new Promise(resolve => {
           InteractionManager.runAfterInteractions(async () => {
             try {
-              const { threads: fetchedThreads } = await chatAPI.getThreads(user.id, 30, 0, false);
+              const { threads: fetchedThreads, pagination } = await chatAPI.getThreads(
+                30,
+                null,
+                false
+              );
               setThreads(fetchedThreads || []);
+              setNextCursor(pagination?.nextCursor ?? null);
               resolve(void 0);
             } catch (err) {
               setError(err instanceof Error ? err.message : 'Failed to load threads');
@@ -257,6 +272,25 @@ export const DrawerContent = React.memo<DrawerContentProps>(props => {
     [user?.id]
   );
 
+  // Append the next page of older threads when the list is scrolled to the end
+  const loadMoreThreads = useCallback(async () => {
+    if (!user?.id || !nextCursor || loadingMore || loading || refreshing) return;
+
+    try {
+      setLoadingMore(true);
+      const { threads: olderThreads, pagination } = await chatAPI.getThreads(30, nextCursor, false);
+      setThreads(prev => {
+        const seen = new Set(prev.map(t => t._id));
+        return [...prev, ...(olderThreads || []).filter(t => !seen.has(t._id))];
+      });
+      setNextCursor(pagination?.nextCursor ?? null);
+    } catch (err) {
+      console.warn('Failed to load more threads:', err);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [user?.id, nextCursor, loadingMore, loading, refreshing]);
+
   // Load threads on mount and version change
   useEffect(() => {
     loadThreads();
@@ -296,6 +330,15 @@ export const DrawerContent = React.memo<DrawerContentProps>(props => {
     [props.navigation]
   );
 
+  // Open the thread of a search hit, scrolled to the matching message
+  const handleMessageSelect = useCallback(
+    (result: MessageSearchResult) => {
+      props.navigation.navigate('[id]', { id: result.threadId, messageId: result.messageId });
+      props.navigation.closeDrawer();
+    },
+    [props.navigation]
+  );
+
   const handleRetry = useCallback(() => {
     loadThreads(false);
   }, [loadThreads]);
@@ -324,7 +367,7 @@ export const DrawerContent = React.memo<DrawerContentProps>(props => {
       if (!user?.id) return;
 
       try {
-        await chatAPI.updateThreadTitle(user.id, threadId, newTitle);
+        await chatAPI.updateThreadTitle(threadId, newTitle);
 
         // Update thread in both regular threads and search results
         setThreads(prev =>
@@ -349,13 +392,14 @@ export const DrawerContent = React.memo<DrawerContentProps>(props => {
 
     try {
       setDeleteLoading(true);
-      await chatAPI.deleteThread(user.id, threadToDelete._id);
+      await chatAPI.deleteThread(threadToDelete._id);
 
       // Remove thread from both regular threads and search results
       setThreads(prev => prev.filter(t => t._id !== threadToDelete._id));
       setSearchState(prev => ({
         ...prev,
         searchResults: prev.searchResults.filter(t => t._id !== threadToDelete._id),
+        messageResults: prev.messageResults.filter(m => m.threadId !== threadToDelete._id),
         searchTotal: Math.max(0, prev.searchTotal - 1),
       }));
 
@@ -406,26 +450,30 @@ export const DrawerContent = React.memo<DrawerContentProps>(props => {
         );
       }
 
-      if (searchState.hasSearched && searchState.searchResults.length === 0) {
+      const hasResults =
+        searchState.searchResults.length > 0 || searchState.messageResults.length > 0;
+
+      if (searchState.hasSearched && !hasResults) {
         return <SearchEmpty query={searchState.query.trim()} onClear={handleClearSearch} />;
       }
 
-      if (searchState.searchResults.length > 0) {
+      if (hasResults) {
         // Show search results
         return (
           <View className='flex-1'>
-            <SearchResultsCount count={searchState.searchTotal} query={searchState.query.trim()} />
-            <EnhancedThreadList
+            <SearchResultsCount
+              count={searchState.searchTotal}
+              messageCount={searchState.messageResults.length}
+              query={searchState.query.trim()}
+            />
+            <SearchResultsList
               threads={searchState.searchResults}
-              loading={false}
-              error={null}
+              messages={searchState.messageResults}
               currentThreadId={currentThreadId}
               onThreadSelect={handleThreadSelect}
+              onMessageSelect={handleMessageSelect}
               onThreadDelete={handleThreadDelete}
               onThreadEdit={handleThreadEdit}
-              onRetry={handleRetrySearch}
-              onRefresh={handleRetrySearch}
-              refreshing={false}
             />
           </View>
         );
@@ -448,6 +496,8 @@ export const DrawerContent = React.memo<DrawerContentProps>(props => {
         onRetry={handleRetry}
         onRefresh={handleRefresh}
         refreshing={refreshing}
+        onEndReached={loadMoreThreads}
+        loadingMore={loadingMore}
       />
     );
   };
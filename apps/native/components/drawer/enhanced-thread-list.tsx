@@ -1,5 +1,5 @@
 import React, { useMemo, useCallback } from 'react';
-import { View, InteractionManager } from 'react-native';
+import { View, InteractionManager, ActivityIndicator } from 'react-native';
 import { Thread } from '@/lib/api/chat-api';
 import { ThreadItem } from './thread-item';
 import { SectionHeader } from './section-header';
@@ -22,6 +22,9 @@ interface EnhancedThreadListProps {
   onRetry: () => void;
   onRefresh?: () => void;
   refreshing?: boolean;
+  // Called near the bottom of the list to load the next page of older threads
+  onEndReached?: () => void;
+  loadingMore?: boolean;
 }
 
 // Types for flattened list items
@@ -47,6 +50,8 @@ const arePropsEqual = (prevProps: EnhancedThreadListProps, nextProps: EnhancedTh
     prevProps.error === nextProps.error &&
     prevProps.currentThreadId === nextProps.currentThreadId &&
     prevProps.refreshing === nextProps.refreshing &&
+    prevProps.loadingMore === nextProps.loadingMore &&
+    prevProps.onEndReached === nextProps.onEndReached &&
     prevProps.onThreadDelete === nextProps.onThreadDelete &&
     prevProps.onThreadEdit === nextProps.onThreadEdit &&
     prevProps.threads.length === nextProps.threads.length &&
@@ -71,6 +76,8 @@ export const EnhancedThreadList = React.memo<EnhancedThreadListProps>(
     onRetry,
     onRefresh,
     refreshing = false,
+    onEndReached,
+    loadingMore = false,
   }) => {
     const { isDarkColorScheme } = useColorScheme();
 
@@ -175,6 +182,17 @@ export const EnhancedThreadList = React.memo<EnhancedThreadListProps>(
       });
     }, [onRetry]);
 
+    // Spinner under the list while an older page is loading
+    const listFooter = useMemo(
+      () =>
+        loadingMore ? (
+          <View className='py-4 items-center'>
+            <ActivityIndicator size='small' color={colors.primary} />
+          </View>
+        ) : null,
+      [loadingMore, colors.primary]
+    );
+
     // Memoized container style
     const containerStyle = useMemo(
       () => ({
@@ -203,6 +221,10 @@ export const EnhancedThreadList = React.memo<EnhancedThreadListProps>(
         loading={loading}
         refreshing={refreshing}
         onRefresh={handleRefresh}
+        // Pagination
+        onEndReached={onEndReached}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={listFooter}
         // State components
         emptyComponent={EmptyThreadList}
         loadingComponent={ThreadListLoadingComponent}
@@ -4,6 +4,7 @@ export { AppHeader } from './app-header';
 export { NewChatButton } from './new-chat-button';
 export { ThreadItem } from './thread-item';
 export { EnhancedThreadList } from './enhanced-thread-list';
+export { SearchResultsList } from './search-results-list';
 export { SectionHeader } from './section-header';
 export { SearchInput } from './search-input';
 export { SettingsButton } from './settings-button';
@@ -16,6 +17,7 @@ export {
   SearchEmpty,
   SearchError,
   SearchResultsCount,
+  SearchMessageItem,
 } from './states/search-states';
 
 // Utilities
@@ -0,0 +1,113 @@
+import React, { useMemo, useCallback } from 'react';
+import { InteractionManager } from 'react-native';
+import { MessageSearchResult, Thread } from '@/lib/api/chat-api';
+import { EnhancedFlashList } from '@/components/ui/enhanced-flash-list';
+import { ThreadItem } from './thread-item';
+import { SectionHeader } from './section-header';
+import { SearchMessageItem } from './states/search-states';
+
+interface SearchResultsListProps {
+  threads: Thread[];
+  messages: MessageSearchResult[];
+  currentThreadId?: string;
+  onThreadSelect: (thread: Thread) => void;
+  onMessageSelect: (result: MessageSearchResult) => void;
+  onThreadDelete?: (threadId: string) => void;
+  onThreadEdit?: (threadId: string, newTitle: string) => void;
+}
+
+// Types for flattened list items
+type ListItem =
+  | { type: 'header'; data: string; id: string }
+  | { type: 'message'; data: MessageSearchResult; id: string }
+  | { type: 'thread'; data: Thread; id: string };
+
+/**
+ * Search results: matching messages first, then conversations whose title matched
+ */
+export const SearchResultsList = React.memo<SearchResultsListProps>(
+  ({
+    threads,
+    messages,
+    currentThreadId,
+    onThreadSelect,
+    onMessageSelect,
+    onThreadDelete,
+    onThreadEdit,
+  }) => {
+    const flattenedData = useMemo(() => {
+      const flattened: ListItem[] = [];
+
+      if (messages.length > 0) {
+        flattened.push({ type: 'header', data: 'Messages', id: 'header-messages' });
+        messages.forEach(result => {
+          flattened.push({ type: 'message', data: result, id: `message-${result.messageId}` });
+        });
+      }
+
+      if (threads.length > 0) {
+        flattened.push({ type: 'header', data: 'Conversations', id: 'header-threads' });
+        threads.forEach(thread => {
+          flattened.push({ type: 'thread', data: thread, id: `thread-${thread._id}` });
+        });
+      }
+
+      return flattened;
+    }, [threads, messages]);
+
+    const handleMessagePress = useCallback(
+      (result: MessageSearchResult) => {
+        InteractionManager.runAfterInteractions(() => {
+          onMessageSelect(result);
+        });
+      },
+      [onMessageSelect]
+    );
+
+    const renderItem = useCallback(
+      ({ item }: { item: ListItem }) => {
+        if (item.type === 'header') {
+          return <SectionHeader title={item.data} />;
+        }
+
+        if (item.type === 'message') {
+          return <SearchMessageItem result={item.data} onPress={handleMessagePress} />;
+        }
+
+        return (
+          <ThreadItem
+            thread={item.data}
+            isActive={currentThreadId === item.data._id}
+            onPress={() => {
+              InteractionManager.runAfterInteractions(() => {
+                onThreadSelect(item.data);
+              });
+            }}
+            onDelete={onThreadDelete}
+            onEdit={onThreadEdit}
+          />
+        );
+      },
+      [currentThreadId, onThreadSelect, handleMessagePress, onThreadDelete, onThreadEdit]
+    );
+
+    const keyExtractor = useCallback((item: ListItem) => item.id, []);
+
+    const getItemType = useCallback((item: ListItem) => item.type, []);
+
+    return (
+      <EnhancedFlashList
+        data={flattenedData}
+        renderItem={renderItem}
+        keyExtractor={keyExtractor}
+        getItemType={getItemType}
+        showSeparator={false}
+        estimatedItemSize={80}
+        contentContainerStyle={{ paddingHorizontal: 16, paddingVertical: 8 }}
+        accessibilityLabel='Search results'
+      />
+    );
+  }
+);
+
+SearchResultsList.displayName = 'SearchResultsList';
@@ -4,6 +4,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { useColorScheme } from '@/lib/use-color-scheme';
 import { CHATZO_COLORS } from '@/lib/constants';
 import { SkeletonThreadItem } from '@/components/ui/skeleton';
+import { MessageSearchResult } from '@/lib/api/chat-api';
 
 interface SearchLoadingProps {
   query: string;
@@ -217,18 +218,87 @@ export const SearchError: React.FC<SearchErrorProps> = ({ query, error, onRetry,
 /**
  * Search results count indicator
  */
-export const SearchResultsCount: React.FC<{ count: number; query: string }> = ({
-  count,
-  query,
-}) => {
+export const SearchResultsCount: React.FC<{
+  count: number;
+  messageCount?: number;
+  query: string;
+}> = ({ count, messageCount = 0, query }) => {
   const { isDarkColorScheme } = useColorScheme();
   const colors = isDarkColorScheme ? CHATZO_COLORS.dark : CHATZO_COLORS.light;
 
   return (
     <View className='px-4 py-2 border-b' style={{ borderColor: colors.border }}>
       <Text className='text-sm font-medium font-lora' style={{ color: colors.textSecondary }}>
-        {count} {count === 1 ? 'conversation' : 'conversations'} found for "{query}"
+        {count} {count === 1 ? 'conversation' : 'conversations'}
+        {messageCount > 0 &&
+          ` and ${messageCount} ${messageCount === 1 ? 'message' : 'messages'}`}{' '}
+        found for "{query}"
       </Text>
     </View>
   );
 };
+
+/**
+ * A message that matched the search, with its thread title and the matched terms highlighted
+ */
+export const SearchMessageItem: React.FC<{
+  result: MessageSearchResult;
+  onPress: (result: MessageSearchResult) => void;
+}> = ({ result, onPress }) => {
+  const { isDarkColorScheme } = useColorScheme();
+  const colors = isDarkColorScheme ? CHATZO_COLORS.dark : CHATZO_COLORS.light;
+
+  // Split the snippet into plain and highlighted runs
+  const segments: { text: string; highlighted: boolean }[] = [];
+  let position = 0;
+  for (const { start, end } of result.highlights) {
+    if (start > position) {
+      segments.push({ text: result.snippet.slice(position, start), highlighted: false });
+    }
+    segments.push({ text: result.snippet.slice(start, end), highlighted: true });
+    position = end;
+  }
+  if (position < result.snippet.length) {
+    segments.push({ text: result.snippet.slice(position), highlighted: false });
+  }
+
+  return (
+    <TouchableOpacity
+      onPress={() => onPress(result)}
+      className='px-3 py-3 mb-1 rounded-xl'
+      style={{ backgroundColor: colors.surface }}
+      activeOpacity={0.7}
+    >
+      <View className='flex-row items-center mb-1'>
+        <Ionicons
+          name={result.role === 'user' ? 'person-outline' : 'sparkles-outline'}
+          size={12}
+          color={colors.textSecondary}
+          style={{ marginRight: 6 }}
+        />
+        <Text
+          className='text-xs font-medium font-lora flex-1'
+          style={{ color: colors.textSecondary }}
+          numberOfLines={1}
+        >
+          {result.thread.title}
+        </Text>
+      </View>
+      <Text
+        className='text-sm font-lora leading-5'
+        style={{ color: colors.text }}
+        numberOfLines={3}
+      >
+        {segments.map((segment, index) =>
+          segment.highlighted ? (
+            <Text key={index} className='font-semibold' style={{ color: colors.primary }}>
+              {segment.text}
+            </Text>
+          ) : (
+            segment.text
+          )
+        )}
+      </Text>
+    </TouchableOpacity>
+  );
+};
@@ -0,0 +1,57 @@
+import React from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import { ChevronLeft, ChevronRight } from 'lucide-react-native';
+import { useColorScheme } from '@/lib/use-color-scheme';
+import { CHATZO_COLORS } from '@/lib/constants';
+
+interface BranchNavigatorProps {
+  // Zero-based position among the message's siblings
+  index: number;
+  count: number;
+  onChange: (direction: -1 | 1) => void;
+  disabled?: boolean;
+}
+
+/**
+ * "< 2/3 >" switcher between alternate versions of a message (edits or retries)
+ */
+export const BranchNavigator: React.FC<BranchNavigatorProps> = ({
+  index,
+  count,
+  onChange,
+  disabled = false,
+}) => {
+  const { isDarkColorScheme } = useColorScheme();
+  const theme = isDarkColorScheme ? CHATZO_COLORS.dark : CHATZO_COLORS.light;
+
+  if (count <= 1) return null;
+
+  const canGoBack = !disabled && index > 0;
+  const canGoForward = !disabled && index < count - 1;
+
+  return (
+    <View className='flex-row items-center gap-1 mt-2'>
+      <TouchableOpacity
+        onPress={() => onChange(-1)}
+        disabled={!canGoBack}
+        className='p-1 rounded-md'
+        style={{ opacity: canGoBack ? 1 : 0.4 }}
+        activeOpacity={0.7}
+      >
+        <ChevronLeft size={14} color={theme.textSecondary} />
+      </TouchableOpacity>
+      <Text className='font-nunito text-xs' style={{ color: theme.textSecondary }}>
+        {index + 1}/{count}
+      </Text>
+      <TouchableOpacity
+        onPress={() => onChange(1)}
+        disabled={!canGoForward}
+        className='p-1 rounded-md'
+        style={{ opacity: canGoForward ? 1 : 0.4 }}
+        activeOpacity={0.7}
+      >
+        <ChevronRight size={14} color={theme.textSecondary} />
+      </TouchableOpacity>
+    </View>
+  );
+};
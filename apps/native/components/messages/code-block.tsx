@@ -1,3 +1,124 @@
-// This component is no longer needed as react-native-markdown-display handles code blocks internally
-// All code block styling is now handled in the MarkdownContent component
-export const CodeBlock = () => null;
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import CodeHighlighter from 'react-native-code-highlighter';
+import { atomOneDarkReasonable, atomOneLight } from 'react-syntax-highlighter/dist/esm/styles/hljs';
+import * as Clipboard from 'expo-clipboard';
+import { Copy, Check } from 'lucide-react-native';
+import { useColorScheme } from '@/lib/use-color-scheme';
+import { CHATZO_COLORS } from '@/lib/constants';
+
+interface CodeBlockProps {
+  code: string;
+  language?: string;
+  // Shown in the header instead of the language, e.g. "stdout"
+  title?: string;
+}
+
+/**
+ * Syntax-highlighted code with a header showing its language and a copy button
+ * Used for fenced code in markdown and for code run by tools
+ */
+export const CodeBlock: React.FC<CodeBlockProps> = ({ code, language = 'text', title }) => {
+  const { isDarkColorScheme } = useColorScheme();
+  const theme = isDarkColorScheme ? CHATZO_COLORS.dark : CHATZO_COLORS.light;
+  const [isCopied, setIsCopied] = useState(false);
+
+  const handleCopyCode = async () => {
+    try {
+      await Clipboard.setStringAsync(code);
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy code:', error);
+    }
+  };
+
+  return (
+    <View
+      style={{
+        backgroundColor: isDarkColorScheme ? '#1a202c' : '#f7fafc',
+        borderColor: theme.border,
+        borderWidth: 1,
+        borderRadius: 8,
+        marginVertical: 8,
+        overflow: 'hidden',
+      }}
+    >
+      {/* Header with language and copy button */}
+      <View
+        style={{
+          flexDirection: 'row',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          paddingHorizontal: 12,
+          paddingVertical: 8,
+          backgroundColor: isDarkColorScheme ? '#2d3748' : '#edf2f7',
+          borderBottomWidth: 1,
+          borderBottomColor: theme.border,
+        }}
+      >
+        <Text
+          style={{
+            fontFamily: 'Fira Code',
+            fontSize: 11,
+            color: theme.textSecondary,
+            textTransform: 'uppercase',
+            letterSpacing: 0.5,
+          }}
+        >
+          {title ?? language}
+        </Text>
+
+        <TouchableOpacity
+          onPress={handleCopyCode}
+          style={{
+            flexDirection: 'row',
+            alignItems: 'center',
+            paddingHorizontal: 8,
+            paddingVertical: 4,
+            borderRadius: 6,
+            backgroundColor: isCopied ? CHATZO_COLORS.success + '20' : theme.surface,
+          }}
+        >
+          {isCopied ? (
+            <Check size={12} color={CHATZO_COLORS.success} />
+          ) : (
+            <Copy size={12} color={theme.textSecondary} />
+          )}
+          <Text
+            style={{
+              fontFamily: 'Nunito Sans',
+              fontSize: 11,
+              fontWeight: '500',
+              color: isCopied ? CHATZO_COLORS.success : theme.textSecondary,
+              marginLeft: 4,
+            }}
+          >
+            {isCopied ? 'Copied!' : 'Copy'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Code content with syntax highlighting */}
+      <CodeHighlighter
+        hljsStyle={isDarkColorScheme ? atomOneDarkReasonable : atomOneLight}
+        textStyle={{
+          fontFamily: 'Fira Code',
+          fontSize: 13,
+          lineHeight: 18,
+        }}
+        scrollViewProps={{
+          contentContainerStyle: {
+            padding: 12,
+            minWidth: '100%',
+          },
+          showsHorizontalScrollIndicator: false,
+          showsVerticalScrollIndicator: false,
+        }}
+        language={language}
+      >
+        {code}
+      </CodeHighlighter>
+    </View>
+  );
+};
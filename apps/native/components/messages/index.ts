@@ -3,4 +3,5 @@ export * from './markdown-content';
 export * from './message-renderer';
 export * from './message-list';
 export * from './message-action-buttons';
+export * from './branch-navigator';
 export * from './tool-invocation';
@@ -1,12 +1,9 @@
-import React, { useState } from 'react';
-import { View, Text, TouchableOpacity } from 'react-native';
+import React from 'react';
+import { View } from 'react-native';
 import Markdown from '@ukdanceblue/react-native-markdown-display';
-import CodeHighlighter from 'react-native-code-highlighter';
-import { atomOneDarkReasonable, atomOneLight } from 'react-syntax-highlighter/dist/esm/styles/hljs';
-import * as Clipboard from 'expo-clipboard';
-import { Copy, Check } from 'lucide-react-native';
 import { useColorScheme } from '@/lib/use-color-scheme';
 import { CHATZO_COLORS } from '@/lib/constants';
+import { CodeBlock } from './code-block';
 
 interface MarkdownContentProps {
   content: string;
@@ -16,213 +13,18 @@ interface MarkdownContentProps {
 export const MarkdownContent: React.FC<MarkdownContentProps> = ({ content, className }) => {
   const { isDarkColorScheme } = useColorScheme();
   const theme = isDarkColorScheme ? CHATZO_COLORS.dark : CHATZO_COLORS.light;
-  const [copiedCode, setCopiedCode] = useState<string | null>(null);
-
-  const handleCopyCode = async (code: string) => {
-    try {
-      await Clipboard.setStringAsync(code);
-      setCopiedCode(code);
-      setTimeout(() => setCopiedCode(null), 2000);
-    } catch (error) {
-      console.error('Failed to copy code:', error);
-    }
-  };
 
   // Custom rules for react-native-markdown-display
   const customRules = {
     // Custom code block rule with syntax highlighting
-    code_block: (node: any, children: any, parent: any, styles: any) => {
-      const code = node.content || '';
-      const language = node.sourceInfo || 'text';
-      const isCopied = copiedCode === code;
-
-      return (
-        <View
-          key={node.key}
-          style={{
-            backgroundColor: isDarkColorScheme ? '#1a202c' : '#f7fafc',
-            borderColor: theme.border,
-            borderWidth: 1,
-            borderRadius: 8,
-            marginVertical: 8,
-            overflow: 'hidden',
-          }}
-        >
-          {/* Header with language and copy button */}
-          <View
-            style={{
-              flexDirection: 'row',
-              alignItems: 'center',
-              justifyContent: 'space-between',
-              paddingHorizontal: 12,
-              paddingVertical: 8,
-              backgroundColor: isDarkColorScheme ? '#2d3748' : '#edf2f7',
-              borderBottomWidth: 1,
-              borderBottomColor: theme.border,
-            }}
-          >
-            <Text
-              style={{
-                fontFamily: 'Fira Code',
-                fontSize: 11,
-                color: theme.textSecondary,
-                textTransform: 'uppercase',
-                letterSpacing: 0.5,
-              }}
-            >
-              {language}
-            </Text>
-
-            <TouchableOpacity
-              onPress={() => handleCopyCode(code)}
-              style={{
-                flexDirection: 'row',
-                alignItems: 'center',
-                paddingHorizontal: 8,
-                paddingVertical: 4,
-                borderRadius: 6,
-                backgroundColor: isCopied ? CHATZO_COLORS.success + '20' : theme.surface,
-              }}
-            >
-              {isCopied ? (
-                <Check size={12} color={CHATZO_COLORS.success} />
-              ) : (
-                <Copy size={12} color={theme.textSecondary} />
-              )}
-              <Text
-                style={{
-                  fontFamily: 'Nunito Sans',
-                  fontSize: 11,
-                  fontWeight: '500',
-                  color: isCopied ? CHATZO_COLORS.success : theme.textSecondary,
-                  marginLeft: 4,
-                }}
-              >
-                {isCopied ? 'Copied!' : 'Copy'}
-              </Text>
-            </TouchableOpacity>
-          </View>
-
-          {/* Code content with syntax highlighting */}
-          <CodeHighlighter
-            hljsStyle={isDarkColorScheme ? atomOneDarkReasonable : atomOneLight}
-            textStyle={{
-              fontFamily: 'Fira Code',
-              fontSize: 13,
-              lineHeight: 18,
-            }}
-            scrollViewProps={{
-              contentContainerStyle: {
-                padding: 12,
-                minWidth: '100%',
-              },
-              showsHorizontalScrollIndicator: false,
-              showsVerticalScrollIndicator: false,
-            }}
-            language={language}
-          >
-            {code}
-          </CodeHighlighter>
-        </View>
-      );
-    },
+    code_block: (node: any, children: any, parent: any, styles: any) => (
+      <CodeBlock key={node.key} code={node.content || ''} language={node.sourceInfo || 'text'} />
+    ),
 
     // Custom fence rule (for ```code``` blocks)
-    fence: (node: any, children: any, parent: any, styles: any) => {
-      const code = node.content || '';
-      const language = node.sourceInfo || 'text';
-      const isCopied = copiedCode === code;
-
-      return (
-        <View
-          key={node.key}
-          style={{
-            backgroundColor: isDarkColorScheme ? '#1a202c' : '#f7fafc',
-            borderColor: theme.border,
-            borderWidth: 1,
-            borderRadius: 8,
-            marginVertical: 8,
-            overflow: 'hidden',
-          }}
-        >
-          {/* Header with language and copy button */}
-          <View
-            style={{
-              flexDirection: 'row',
-              alignItems: 'center',
-              justifyContent: 'space-between',
-              paddingHorizontal: 12,
-              paddingVertical: 8,
-              backgroundColor: isDarkColorScheme ? '#2d3748' : '#edf2f7',
-              borderBottomWidth: 1,
-              borderBottomColor: theme.border,
-            }}
-          >
-            <Text
-              style={{
-                fontFamily: 'Fira Code',
-                fontSize: 11,
-                color: theme.textSecondary,
-                textTransform: 'uppercase',
-                letterSpacing: 0.5,
-              }}
-            >
-              {language}
-            </Text>
-
-            <TouchableOpacity
-              onPress={() => handleCopyCode(code)}
-              style={{
-                flexDirection: 'row',
-                alignItems: 'center',
-                paddingHorizontal: 8,
-                paddingVertical: 4,
-                borderRadius: 6,
-                backgroundColor: isCopied ? CHATZO_COLORS.success + '20' : theme.surface,
-              }}
-            >
-              {isCopied ? (
-                <Check size={12} color={CHATZO_COLORS.success} />
-              ) : (
-                <Copy size={12} color={theme.textSecondary} />
-              )}
-              <Text
-                style={{
-                  fontFamily: 'Nunito Sans',
-                  fontSize: 11,
-                  fontWeight: '500',
-                  color: isCopied ? CHATZO_COLORS.success : theme.textSecondary,
-                  marginLeft: 4,
-                }}
-              >
-                {isCopied ? 'Copied!' : 'Copy'}
-              </Text>
-            </TouchableOpacity>
-          </View>
-
-          {/* Code content with syntax highlighting */}
-          <CodeHighlighter
-            hljsStyle={isDarkColorScheme ? atomOneDarkReasonable : atomOneLight}
-            textStyle={{
-              fontFamily: 'Fira Code',
-              fontSize: 13,
-              lineHeight: 18,
-            }}
-            scrollViewProps={{
-              contentContainerStyle: {
-                padding: 12,
-                minWidth: '100%',
-              },
-              showsHorizontalScrollIndicator: false,
-              showsVerticalScrollIndicator: false,
-            }}
-            language={language}
-          >
-            {code}
-          </CodeHighlighter>
-        </View>
-      );
-    },
+    fence: (node: any, children: any, parent: any, styles: any) => (
+      <CodeBlock key={node.key} code={node.content || ''} language={node.sourceInfo || 'text'} />
+    ),
   };
 
   // Custom styles for react-native-markdown-display
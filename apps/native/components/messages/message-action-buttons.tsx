@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { View, TouchableOpacity, Text, Alert, Pressable } from 'react-native';
-import { Copy, RotateCcw, Edit3, X } from 'lucide-react-native';
+import { Copy, RotateCcw, Edit3, GitBranch, X } from 'lucide-react-native';
 import * as Clipboard from 'expo-clipboard';
 import { useColorScheme } from '@/lib/use-color-scheme';
 import { cn } from '@/lib/utils';
@@ -14,6 +14,7 @@ interface MessageActionButtonsProps {
   onCopy?: () => void;
   onRetry?: (messageId: string, selectedModel?: string) => void;
   onEdit?: () => void;
+  onFork?: () => void;
   onCancel?: () => void;
 }
 
@@ -25,6 +26,7 @@ export const MessageActionButtons: React.FC<MessageActionButtonsProps> = ({
   onCopy,
   onRetry,
   onEdit,
+  onFork,
   onCancel,
 }) => {
   const { isDarkColorScheme } = useColorScheme();
@@ -160,6 +162,24 @@ export const MessageActionButtons: React.FC<MessageActionButtonsProps> = ({
             </Text>
           </TouchableOpacity>
         )}
+
+        {/* Fork Button - Only for assistant messages */}
+        {role === 'assistant' && onFork && (
+          <TouchableOpacity
+            onPress={onFork}
+            className={cn(
+              'flex-row items-center gap-1 px-2 py-1.5 rounded-md',
+              'active:scale-95 transition-transform'
+            )}
+            style={{ backgroundColor: colors.button }}
+            activeOpacity={0.7}
+          >
+            <GitBranch size={14} color={colors.text} />
+            <Text className='text-xs font-medium' style={{ color: colors.text }}>
+              Fork
+            </Text>
+          </TouchableOpacity>
+        )}
       </View>
 
       {/* Model Picker Modal */}
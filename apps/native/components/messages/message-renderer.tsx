@@ -1,6 +1,6 @@
 import React, { memo, useState } from 'react';
 import { View, Text, TouchableOpacity, Dimensions, Alert, TextInput } from 'react-native';
-import { Check, X } from 'lucide-react-native';
+import { Check, Play, X } from 'lucide-react-native';
 import { MarkdownContent } from './markdown-content';
 import { ToolInvocation } from './tool-invocation';
 import { EnhancedImage } from '@/components/images';
@@ -16,6 +16,7 @@ import {
   FileContentPart,
 } from '@/lib/api/chat-api';
 import { MessageActionButtons } from './message-action-buttons';
+import { BranchNavigator } from './branch-navigator';
 
 interface Message {
   id: string;
@@ -31,12 +32,32 @@ interface MessageRendererProps {
   onEdit?: (messageId: string, editedText?: string) => void;
   isStreaming?: boolean;
   isLastMessage?: boolean;
+  isStopped?: boolean;
+  onContinue?: (messageId: string) => void;
+  // Position among alternate versions of this message (edits or retries)
+  branchIndex?: number;
+  branchCount?: number;
+  onBranchChange?: (messageId: string, direction: -1 | 1) => void;
+  onFork?: (messageId: string) => void;
 }
 
 const { width: screenWidth } = Dimensions.get('window');
 
 export const MessageRenderer: React.FC<MessageRendererProps> = memo(
-  ({ message, onCopy, onRetry, onEdit, isStreaming = false, isLastMessage = false }) => {
+  ({
+    message,
+    onCopy,
+    onRetry,
+    onEdit,
+    isStreaming = false,
+    isLastMessage = false,
+    isStopped = false,
+    onContinue,
+    branchIndex = 0,
+    branchCount = 1,
+    onBranchChange,
+    onFork,
+  }) => {
     const { isDarkColorScheme } = useColorScheme();
     const theme = isDarkColorScheme ? CHATZO_COLORS.dark : CHATZO_COLORS.light;
 
@@ -410,6 +431,16 @@ export const MessageRenderer: React.FC<MessageRendererProps> = memo(
             </View>
           )}
 
+          {/* Navigation between edited versions */}
+          {!isEditing && onBranchChange && (
+            <BranchNavigator
+              index={branchIndex}
+              count={branchCount}
+              disabled={isStreaming}
+              onChange={direction => onBranchChange(message.id, direction)}
+            />
+          )}
+
           {/* Action buttons for user messages */}
           {!isEditing && (
             <MessageActionButtons
@@ -434,6 +465,38 @@ export const MessageRenderer: React.FC<MessageRendererProps> = memo(
         <View className={cn('mb-4 px-4')}>
           <View className={cn('w-full')}>{renderContent(message.content)}</View>
 
+          {/* Stopped answers can be picked up where they were cut off */}
+          {isStopped && (
+            <View className='flex-row items-center mt-2 gap-3'>
+              <Text className='font-nunito text-xs' style={{ color: theme.textSecondary }}>
+                Response stopped
+              </Text>
+              {isLastMessage && !isStreaming && onContinue && (
+                <TouchableOpacity
+                  onPress={() => onContinue(message.id)}
+                  className='flex-row items-center px-3 py-1 rounded-full border gap-1'
+                  style={{ borderColor: theme.border }}
+                  activeOpacity={0.7}
+                >
+                  <Play size={12} color={theme.text} />
+                  <Text className='font-nunito text-xs' style={{ color: theme.text }}>
+                    Continue generating
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+
+          {/* Navigation between retried answers */}
+          {showActionButtons && onBranchChange && (
+            <BranchNavigator
+              index={branchIndex}
+              count={branchCount}
+              disabled={isStreaming}
+              onChange={direction => onBranchChange(message.id, direction)}
+            />
+          )}
+
           {/* Action buttons for assistant messages - only show when response is complete */}
           {showActionButtons && (
             <MessageActionButtons
@@ -443,6 +506,7 @@ export const MessageRenderer: React.FC<MessageRendererProps> = memo(
               onCopy={() => onCopy?.(message.id)}
               onRetry={(messageId, selectedModel) => onRetry?.(messageId, selectedModel)}
               onEdit={() => onEdit?.(message.id)}
+              onFork={onFork ? () => onFork(message.id) : undefined}
             />
           )}
         </View>
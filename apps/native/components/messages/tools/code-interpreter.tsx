@@ -0,0 +1,114 @@
+import React from 'react';
+import { View, Text, ScrollView } from 'react-native';
+import { cn } from '@/lib/utils';
+import { CodeBlock } from '../code-block';
+import type { ToolRenderer, ToolRendererProps } from './registry';
+import { ToolSection, type ToolColors } from './shared';
+
+const SandboxTable: React.FC<{ table: any; colors: ToolColors }> = ({ table, colors }) => (
+  <View className='mt-2'>
+    {table.title && (
+      <Text style={{ color: colors.text, fontSize: 12 }} className='font-medium mb-1'>
+        {table.title}
+      </Text>
+    )}
+    <ScrollView className='max-h-64' nestedScrollEnabled={true}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} nestedScrollEnabled={true}>
+        <View
+          className='rounded-lg border'
+          style={{ backgroundColor: colors.searchResult, borderColor: colors.border }}
+        >
+          {[table.columns, ...table.rows].map((row: any[], rowIndex: number) => (
+            <View
+              key={rowIndex}
+              className='flex-row'
+              style={{ borderTopWidth: rowIndex > 0 ? 1 : 0, borderTopColor: colors.border }}
+            >
+              {row.map((cell, cellIndex) => (
+                <Text
+                  key={cellIndex}
+                  style={{
+                    color: rowIndex === 0 ? colors.muted : colors.text,
+                    fontSize: 12,
+                    width: 112,
+                  }}
+                  className={cn('px-2 py-1.5 font-mono', rowIndex === 0 && 'font-semibold')}
+                  numberOfLines={2}
+                >
+                  {cell === null ? '' : String(cell)}
+                </Text>
+              ))}
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+    </ScrollView>
+  </View>
+);
+
+// The code, then its output, tables and errors; the code folds away once it has run
+const CodeInterpreterContent: React.FC<ToolRendererProps> = ({ toolInvocation, colors }) => {
+  const { state, args, result } = toolInvocation;
+  const hasResult = state === 'result' && !!result;
+  const errorText = [result?.stderr?.trimEnd(), result?.error].filter(Boolean).join('\n');
+
+  return (
+    <View>
+      {args?.code && (
+        <ToolSection title='Code' defaultExpanded={!hasResult} color={colors.muted}>
+          <CodeBlock code={args.code} language='javascript' />
+        </ToolSection>
+      )}
+
+      {hasResult && (result.stdout || result.result !== undefined) && (
+        <ToolSection title='Output' defaultExpanded={true} color={colors.muted}>
+          {!!result.stdout && <CodeBlock code={result.stdout.trimEnd()} title='stdout' />}
+          {result.result !== undefined && <CodeBlock code={result.result} title='Result' />}
+        </ToolSection>
+      )}
+
+      {hasResult && result.tables?.length > 0 && (
+        <ToolSection
+          title={result.tables.length === 1 ? 'Table' : `Tables (${result.tables.length})`}
+          defaultExpanded={true}
+          color={colors.muted}
+        >
+          {result.tables.map((table: any, index: number) => (
+            <SandboxTable key={index} table={table} colors={colors} />
+          ))}
+        </ToolSection>
+      )}
+
+      {hasResult && !!errorText && (
+        <ToolSection
+          title={result.success ? 'Warnings' : 'Errors'}
+          defaultExpanded={true}
+          color={result.success ? colors.warning : colors.error}
+        >
+          <CodeBlock code={errorText} title={result.success ? 'stderr' : 'error'} />
+        </ToolSection>
+      )}
+
+      {hasResult && result.truncated && (
+        <Text style={{ color: colors.muted, fontSize: 11 }} className='mt-2'>
+          Some output went over the sandbox's limits and was cut off
+        </Text>
+      )}
+    </View>
+  );
+};
+
+export const CodeInterpreterRenderer: ToolRenderer = {
+  title: 'Code Interpreter',
+  getStateText: ({ state, result }) => {
+    switch (state) {
+      case 'partial-call':
+        return 'Writing code...';
+      case 'call':
+        return 'Running code...';
+      case 'result':
+        return result?.success ? `Ran in ${result.durationMs}ms` : 'Failed';
+    }
+  },
+  Content: CodeInterpreterContent,
+};
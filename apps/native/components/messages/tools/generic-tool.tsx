@@ -0,0 +1,50 @@
+import React from 'react';
+import { View, Text } from 'react-native';
+import { CodeBlock } from '../code-block';
+import type { ToolRendererProps } from './registry';
+import { ToolErrorLine, ToolSection, formatToolDuration, getToolError } from './shared';
+
+const toJson = (value: unknown) => {
+  try {
+    return JSON.stringify(value, null, 2) ?? String(value);
+  } catch {
+    return String(value);
+  }
+};
+
+/**
+ * The fallback for tools without a renderer: name, arguments, result, errors and duration
+ */
+export const GenericToolContent: React.FC<ToolRendererProps> = ({ toolInvocation, colors }) => {
+  const { state, toolName, args, result, durationMs } = toolInvocation;
+  const error = getToolError(toolInvocation);
+  const hasResult = state === 'result' && result !== undefined;
+
+  return (
+    <View>
+      <Text style={{ color: colors.muted, fontSize: 12 }} className='font-mono'>
+        {toolName}
+      </Text>
+
+      {args !== undefined && (
+        <ToolSection title='Arguments' defaultExpanded={!hasResult} color={colors.muted}>
+          <CodeBlock code={toJson(args)} language='json' />
+        </ToolSection>
+      )}
+
+      {hasResult && (
+        <ToolSection title='Result' defaultExpanded={!error} color={colors.muted}>
+          <CodeBlock code={toJson(result)} language='json' />
+        </ToolSection>
+      )}
+
+      {!!error && <ToolErrorLine error={error} colors={colors} />}
+
+      {durationMs !== undefined && (
+        <Text style={{ color: colors.muted, fontSize: 11 }} className='mt-2'>
+          Took {formatToolDuration(durationMs)}
+        </Text>
+      )}
+    </View>
+  );
+};
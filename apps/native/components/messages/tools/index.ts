@@ -0,0 +1,17 @@
+import { registerToolRenderer } from './registry';
+import { WebSearchRenderer } from './web-search';
+import { ReadUrlRenderer } from './read-url';
+import { CodeInterpreterRenderer } from './code-interpreter';
+import { CalculatorRenderer, DatetimeRenderer, UnitConversionRenderer } from './utility-tools';
+
+// Built-in tools; anything else, including MCP tools, falls back to the generic renderer
+registerToolRenderer('web_search', WebSearchRenderer);
+registerToolRenderer('read_url', ReadUrlRenderer);
+registerToolRenderer('code_interpreter', CodeInterpreterRenderer);
+registerToolRenderer('calculator', CalculatorRenderer);
+registerToolRenderer('datetime', DatetimeRenderer);
+registerToolRenderer('unit_conversion', UnitConversionRenderer);
+
+export * from './registry';
+export { GenericToolContent } from './generic-tool';
+export { ToolSection, ToolErrorLine, useToolColors, getToolError, type ToolColors } from './shared';
@@ -0,0 +1,84 @@
+import React from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import { Globe, FileText, ExternalLink } from 'lucide-react-native';
+import type { ToolRenderer, ToolRendererProps } from './registry';
+import { ToolErrorLine, getHostname, openUrl } from './shared';
+
+// A link card for the page being read, with its title and an excerpt once it's loaded
+const ReadUrlContent: React.FC<ToolRendererProps> = ({ toolInvocation, colors }) => {
+  const { state, args, result } = toolInvocation;
+  const url: string | undefined = result?.url || args?.url;
+  const failed = state === 'result' && (!result || !result.success);
+  const isPdf = result?.contentType === 'pdf';
+
+  return (
+    <View className='mt-2'>
+      <TouchableOpacity
+        className='p-3 rounded-lg border'
+        style={{ backgroundColor: colors.searchResult, borderColor: colors.border }}
+        onPress={() => openUrl(url)}
+        disabled={!url}
+      >
+        <View className='flex-row items-start'>
+          {isPdf ? (
+            <FileText size={16} color={colors.accent} />
+          ) : (
+            <Globe size={16} color={colors.accent} />
+          )}
+          <View className='flex-1 mx-2'>
+            <Text
+              style={{ color: colors.accent, fontSize: 14 }}
+              className='font-semibold'
+              numberOfLines={2}
+            >
+              {result?.title || getHostname(url) || 'Page'}
+            </Text>
+            {url && (
+              <Text style={{ color: colors.muted, fontSize: 11 }} numberOfLines={1}>
+                {url}
+              </Text>
+            )}
+          </View>
+          <ExternalLink size={14} color={colors.muted} />
+        </View>
+
+        {state === 'result' && result?.success && (
+          <>
+            {(result.description || result.content) && (
+              <Text
+                style={{ color: colors.text, fontSize: 12 }}
+                className='mt-2 leading-4'
+                numberOfLines={3}
+              >
+                {result.description || result.content.substring(0, 300)}
+              </Text>
+            )}
+            <Text style={{ color: colors.muted, fontSize: 11 }} className='mt-2'>
+              {isPdf ? 'PDF' : 'Web page'} • {result.length?.toLocaleString()} characters
+              {result.truncated ? ' (truncated for the model)' : ''}
+            </Text>
+          </>
+        )}
+      </TouchableOpacity>
+
+      {failed && (
+        <ToolErrorLine error={result?.error || 'Could not read the page'} colors={colors} />
+      )}
+    </View>
+  );
+};
+
+export const ReadUrlRenderer: ToolRenderer = {
+  title: 'Read Page',
+  getStateText: ({ state }) => {
+    switch (state) {
+      case 'partial-call':
+        return 'Preparing to read...';
+      case 'call':
+        return 'Reading page...';
+      case 'result':
+        return 'Page read';
+    }
+  },
+  Content: ReadUrlContent,
+};
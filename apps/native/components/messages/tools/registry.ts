@@ -0,0 +1,73 @@
+import type React from 'react';
+import type { ToolInvocationContentPart } from '@/lib/api/chat-api';
+import { formatToolDuration, getToolError, type ToolColors } from './shared';
+import { GenericToolContent } from './generic-tool';
+
+// Tools from MCP servers are named <server>__<tool>
+const MCP_TOOL_SEPARATOR = '__';
+
+export type ToolInvocationData = ToolInvocationContentPart['toolInvocation'];
+
+export interface ToolRendererProps {
+  toolInvocation: ToolInvocationData;
+  colors: ToolColors;
+}
+
+/**
+ * How a tool's calls are shown in a message
+ * Content fills the standard card below its header; Card replaces the whole card
+ */
+export interface ToolRenderer {
+  title?: string;
+  getStateText?: (toolInvocation: ToolInvocationData) => string;
+  Content?: React.ComponentType<ToolRendererProps>;
+  Card?: React.ComponentType<ToolRendererProps>;
+}
+
+const TOOL_RENDERERS: Record<string, ToolRenderer> = {};
+
+/**
+ * Register how calls to a tool are shown, replacing any earlier renderer for it
+ */
+export const registerToolRenderer = (toolName: string, renderer: ToolRenderer) => {
+  TOOL_RENDERERS[toolName] = renderer;
+};
+
+const getDefaultTitle = (toolName: string) => {
+  const separator = toolName.indexOf(MCP_TOOL_SEPARATOR);
+  if (separator > 0) {
+    const server = toolName.slice(0, separator);
+    const tool = toolName.slice(separator + MCP_TOOL_SEPARATOR.length);
+    return `${tool} · ${server}`;
+  }
+  return toolName;
+};
+
+const getDefaultStateText = (toolInvocation: ToolInvocationData) => {
+  switch (toolInvocation.state) {
+    case 'partial-call':
+      return 'Preparing...';
+    case 'call':
+      return 'Running...';
+    case 'result':
+      if (getToolError(toolInvocation)) return 'Failed';
+      return toolInvocation.durationMs !== undefined
+        ? `Done in ${formatToolDuration(toolInvocation.durationMs)}`
+        : 'Done';
+  }
+};
+
+/**
+ * The renderer registered for a tool, filled in with the generic fallback
+ * Unknown tools, including MCP ones, show their arguments and result as JSON
+ */
+export const getToolRenderer = (toolName: string) => {
+  const renderer = TOOL_RENDERERS[toolName];
+
+  return {
+    title: renderer?.title ?? getDefaultTitle(toolName),
+    getStateText: renderer?.getStateText ?? getDefaultStateText,
+    Content: renderer?.Content ?? GenericToolContent,
+    Card: renderer?.Card,
+  };
+};
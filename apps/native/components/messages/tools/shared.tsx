@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, Linking } from 'react-native';
+import { ChevronDown, ChevronRight, XCircle } from 'lucide-react-native';
+import { useColorScheme } from '@/lib/use-color-scheme';
+import type { ToolInvocationData } from './registry';
+
+export const useToolColors = () => {
+  const { isDarkColorScheme } = useColorScheme();
+
+  return {
+    background: isDarkColorScheme ? '#1f2937' : '#f8fafc',
+    border: isDarkColorScheme ? '#374151' : '#e2e8f0',
+    text: isDarkColorScheme ? '#f9fafb' : '#1e293b',
+    muted: isDarkColorScheme ? '#9ca3af' : '#64748b',
+    accent: isDarkColorScheme ? '#3b82f6' : '#2563eb',
+    success: isDarkColorScheme ? '#10b981' : '#059669',
+    warning: isDarkColorScheme ? '#f59e0b' : '#d97706',
+    error: isDarkColorScheme ? '#ef4444' : '#dc2626',
+    searchResult: isDarkColorScheme ? '#111827' : '#ffffff',
+  };
+};
+
+export type ToolColors = ReturnType<typeof useToolColors>;
+
+/**
+ * The error a finished tool call reported, matching the backend's tool usage tracking
+ */
+export const getToolError = (toolInvocation: ToolInvocationData): string | undefined => {
+  const { state, result } = toolInvocation;
+  if (state !== 'result') return undefined;
+  if (!result || typeof result !== 'object') {
+    return result === undefined ? 'Tool call failed' : undefined;
+  }
+  if (result.isError === true) {
+    const text = Array.isArray(result.content)
+      ? result.content
+          .filter((part: any) => part?.type === 'text')
+          .map((part: any) => part.text)
+          .join('\n')
+      : '';
+    return text || 'Tool call failed';
+  }
+  if (result.success !== false) return undefined;
+  return String(result.error ?? 'Tool call failed');
+};
+
+export const formatToolDuration = (durationMs: number) =>
+  durationMs < 1000 ? `${durationMs}ms` : `${(durationMs / 1000).toFixed(1)}s`;
+
+export const getHostname = (url?: string) => {
+  if (!url) return '';
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+};
+
+export const openUrl = (url?: string) => {
+  if (url) {
+    Linking.openURL(url).catch(err => console.error('Failed to open URL:', err));
+  }
+};
+
+/**
+ * A titled section that can be collapsed, open by default when defaultExpanded
+ */
+export const ToolSection: React.FC<{
+  title: string;
+  defaultExpanded: boolean;
+  color: string;
+  children: React.ReactNode;
+}> = ({ title, defaultExpanded, color, children }) => {
+  // Follows defaultExpanded until the user opens or closes it
+  const [toggled, setToggled] = useState<boolean>();
+  const isExpanded = toggled ?? defaultExpanded;
+
+  return (
+    <View className='mt-2'>
+      <TouchableOpacity
+        className='flex-row items-center'
+        onPress={() => setToggled(!isExpanded)}
+        activeOpacity={0.7}
+      >
+        {isExpanded ? (
+          <ChevronDown size={14} color={color} />
+        ) : (
+          <ChevronRight size={14} color={color} />
+        )}
+        <Text style={{ color, fontSize: 12 }} className='ml-1 font-medium'>
+          {title}
+        </Text>
+      </TouchableOpacity>
+      {isExpanded && children}
+    </View>
+  );
+};
+
+export const ToolErrorLine: React.FC<{ error: string; colors: ToolColors }> = ({
+  error,
+  colors,
+}) => (
+  <View className='flex-row items-center mt-2'>
+    <XCircle size={14} color={colors.error} />
+    <Text style={{ color: colors.error, fontSize: 12 }} className='ml-2 flex-1'>
+      {error}
+    </Text>
+  </View>
+);
@@ -0,0 +1,104 @@
+import React from 'react';
+import { View, Text } from 'react-native';
+import { XCircle } from 'lucide-react-native';
+import type { ToolInvocationData, ToolRenderer, ToolRendererProps } from './registry';
+
+// Answer instantly, so there is no progress worth describing
+const getUtilityStateText = ({ state, result }: ToolInvocationData) => {
+  if (state !== 'result') {
+    return 'Working...';
+  }
+  return result?.success ? 'Done' : 'Failed';
+};
+
+// One line of monospace text, e.g. "2^10 = 1024", with any error below it
+const CompactLine: React.FC<ToolRendererProps & { text?: string; note?: string }> = ({
+  toolInvocation: { state, result },
+  colors,
+  text,
+  note,
+}) => {
+  const failed = state === 'result' && (!result || !result.success);
+
+  return (
+    <View>
+      {!!text && (
+        <Text style={{ color: colors.text, fontSize: 13 }} className='font-mono' selectable>
+          {text}
+        </Text>
+      )}
+      {!!note && (
+        <Text style={{ color: colors.muted, fontSize: 11 }} className='mt-1'>
+          {note}
+        </Text>
+      )}
+      {failed && (
+        <View className='flex-row items-center mt-1'>
+          <XCircle size={14} color={colors.error} />
+          <Text style={{ color: colors.error, fontSize: 12 }} className='ml-2 flex-1'>
+            {result?.error || 'Unknown error occurred'}
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+export const CalculatorRenderer: ToolRenderer = {
+  title: 'Calculator',
+  getStateText: getUtilityStateText,
+  Content: props => {
+    const { args, result } = props.toolInvocation;
+    const expression = result?.expression ?? args?.expression;
+    if (!result?.success) {
+      return <CompactLine {...props} text={expression} />;
+    }
+
+    return (
+      <CompactLine
+        {...props}
+        text={`${expression} ${result.exact ? '=' : '≈'} ${result.result}`}
+        note={result.fraction && !result.exact ? `Exactly ${result.fraction}` : undefined}
+      />
+    );
+  },
+};
+
+export const DatetimeRenderer: ToolRenderer = {
+  title: 'Date & Time',
+  getStateText: getUtilityStateText,
+  Content: props => {
+    const { args, result } = props.toolInvocation;
+    if (!result?.success) {
+      return <CompactLine {...props} text={args?.time} />;
+    }
+
+    return (
+      <CompactLine
+        {...props}
+        text={result.times
+          .map((time: any) => `${time.formatted} (${time.timezone}, UTC${time.utcOffset})`)
+          .join('\n')}
+      />
+    );
+  },
+};
+
+export const UnitConversionRenderer: ToolRenderer = {
+  title: 'Unit Conversion',
+  getStateText: getUtilityStateText,
+  Content: props => {
+    const { args, result } = props.toolInvocation;
+    if (!result?.success) {
+      return <CompactLine {...props} text={args && `${args.value} ${args.from} → ${args.to}`} />;
+    }
+
+    return (
+      <CompactLine
+        {...props}
+        text={result.formatted}
+        note={result.ratesDate ? `Currency rates from ${result.ratesDate}, not live` : undefined}
+      />
+    );
+  },
+};
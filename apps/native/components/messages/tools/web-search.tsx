@@ -0,0 +1,152 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, ScrollView } from 'react-native';
+import { Search, ExternalLink, XCircle } from 'lucide-react-native';
+import type { ToolRenderer, ToolRendererProps } from './registry';
+import { openUrl } from './shared';
+
+const SEARCH_PROVIDER_LABELS: Record<string, string> = {
+  serper: 'Serper',
+  tavily: 'Tavily',
+  firecrawl: 'Firecrawl',
+  searxng: 'SearXNG',
+};
+
+const WebSearchArgs: React.FC<ToolRendererProps> = ({ toolInvocation: { args }, colors }) => {
+  if (!args) return null;
+
+  return (
+    <View className='mt-2'>
+      <Text style={{ color: colors.muted, fontSize: 12 }} className='font-medium mb-1'>
+        Search Query:
+      </Text>
+      <Text style={{ color: colors.text, fontSize: 14 }} className='italic'>
+        "{args.query}"
+      </Text>
+      {args.scrapeContent && (
+        <Text style={{ color: colors.muted, fontSize: 12 }} className='mt-1'>
+          • Including detailed content
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const WebSearchResults: React.FC<ToolRendererProps> = ({ toolInvocation: { result }, colors }) => {
+  if (!result || !result.success) {
+    return (
+      <View className='mt-3'>
+        <View className='flex-row items-center mb-2'>
+          <XCircle size={16} color={colors.error} />
+          <Text style={{ color: colors.error, fontSize: 14 }} className='ml-2 font-medium'>
+            Search Failed
+          </Text>
+        </View>
+        <Text style={{ color: colors.muted, fontSize: 12 }}>
+          {result?.error || 'Unknown error occurred'}
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View className='mt-3'>
+      <View className='flex-row items-center justify-between mb-3'>
+        <View className='flex-row items-center'>
+          <Search size={16} color={colors.success} />
+          <Text style={{ color: colors.success, fontSize: 14 }} className='ml-2 font-medium'>
+            Found {result.count} results
+          </Text>
+        </View>
+        <Text style={{ color: colors.muted, fontSize: 12 }}>for "{result.query}"</Text>
+      </View>
+
+      {result.provider && (
+        <Text style={{ color: colors.muted, fontSize: 11 }} className='mb-3 -mt-1'>
+          via {SEARCH_PROVIDER_LABELS[result.provider] ?? result.provider}
+          {result.failedProviders?.length
+            ? ` (after ${result.failedProviders
+                .map((failure: any) => SEARCH_PROVIDER_LABELS[failure.provider] ?? failure.provider)
+                .join(', ')} failed)`
+            : ''}
+        </Text>
+      )}
+
+      <ScrollView
+        className='max-h-64'
+        showsVerticalScrollIndicator={false}
+        nestedScrollEnabled={true}
+      >
+        {result.results?.map((item: any, index: number) => (
+          <TouchableOpacity
+            key={index}
+            className='mb-3 p-3 rounded-lg border'
+            style={{
+              backgroundColor: colors.searchResult,
+              borderColor: colors.border,
+            }}
+            onPress={() => openUrl(item.url)}
+          >
+            <View className='flex-row items-start justify-between mb-2'>
+              <Text
+                style={{ color: colors.accent, fontSize: 14 }}
+                className='font-semibold flex-1 mr-2'
+                numberOfLines={2}
+              >
+                {item.title}
+              </Text>
+              <ExternalLink size={14} color={colors.muted} />
+            </View>
+
+            {item.description && (
+              <Text
+                style={{ color: colors.text, fontSize: 12 }}
+                className='mb-2 leading-4'
+                numberOfLines={3}
+              >
+                {item.description}
+              </Text>
+            )}
+
+            {item.url && (
+              <Text style={{ color: colors.muted, fontSize: 11 }} numberOfLines={1}>
+                {item.url}
+              </Text>
+            )}
+
+            {item.content && (
+              <View className='mt-2 pt-2 border-t' style={{ borderTopColor: colors.border }}>
+                <Text style={{ color: colors.muted, fontSize: 11 }} className='mb-1'>
+                  Content Preview:
+                </Text>
+                <Text style={{ color: colors.text, fontSize: 11 }} numberOfLines={4}>
+                  {item.content.substring(0, 200)}...
+                </Text>
+              </View>
+            )}
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </View>
+  );
+};
+
+export const WebSearchRenderer: ToolRenderer = {
+  title: 'Web Search',
+  getStateText: ({ state }) => {
+    switch (state) {
+      case 'partial-call':
+        return 'Preparing search...';
+      case 'call':
+        return 'Searching the web...';
+      case 'result':
+        return 'Search completed';
+    }
+  },
+  // The query while searching, then the results
+  Content: props =>
+    props.toolInvocation.state === 'result' ? (
+      <WebSearchResults {...props} />
+    ) : (
+      <WebSearchArgs {...props} />
+    ),
+};
@@ -6,6 +6,8 @@ import { useColorScheme } from '@/lib/use-color-scheme';
 import { CHATZO_COLORS } from '@/lib/constants';
 import { AppContainer } from '@/components/app-container';
 import { SettingsHeader } from './extras/settings-header';
+import { ApiKeysSection } from './api-keys-section';
+import { ApiTokensSection } from './api-tokens-section';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 
@@ -198,6 +200,12 @@ export default function AccountDetails() {
           </View>
         </View>
 
+        {/* Provider API Keys */}
+        <ApiKeysSection />
+
+        {/* Personal Access Tokens */}
+        <ApiTokensSection />
+
         {/* Security Section */}
         <View
           className='p-6 rounded-2xl mb-6'
@@ -8,24 +8,58 @@ import { AppContainer } from '@/components/app-container';
 import { SettingsHeader } from './extras/settings-header';
 import { chatAPI } from '@/lib/api/chat-api';
 import Skeleton from '@/components/ui/skeleton';
+import { QuotaSection } from './quota-section';
 
 interface AnalyticsData {
   usage: {
     totalRequests: number;
     totalTokens: number;
+    totalCost: number;
     period: string;
-    dailyUsage: Array<{ date: string; requests: number; tokens: number }>;
+    dailyUsage: Array<{ date: string; requests: number; tokens: number; cost: number }>;
     averageRequestsPerDay: number;
     averageTokensPerRequest: number;
+    averageCostPerDay: number;
   } | null;
   models: Array<{
     modelId: string;
     modelName: string;
     requests: number;
     totalTokens: number;
+    totalCost: number;
     requestsPercentage: number;
+    costPercentage: number;
     averageTokensPerRequest: number;
   }>;
+  threads: Array<{
+    threadId: string;
+    title: string;
+    requests: number;
+    totalTokens: number;
+    totalCost: number;
+  }>;
+  performance: {
+    models: Array<{
+      modelId: string;
+      modelName: string;
+      requests: number;
+      errorCount: number;
+      errorRate: number;
+      timeToFirstToken: { p50: number; p95: number } | null;
+      latency: { p50: number; p95: number } | null;
+    }>;
+    totalRequests: number;
+    totalErrors: number;
+    errorRate: number;
+    topErrors: Array<{ message: string; count: number }>;
+  } | null;
+  tools: Array<{
+    toolName: string;
+    calls: number;
+    failures: number;
+    failureRate: number;
+    scrapes: number;
+  }>;
 }
 
 export default function AnalyticsDetails() {
@@ -37,11 +71,16 @@ export default function AnalyticsDetails() {
   const [analyticsData, setAnalyticsData] = useState<AnalyticsData>({
     usage: null,
     models: [],
+    threads: [],
+    performance: null,
+    tools: [],
   });
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [selectedPeriod, setSelectedPeriod] = useState<7 | 30 | 90>(30);
+  // Bumped on pull-to-refresh so the quota card refetches too
+  const [quotaRefreshKey, setQuotaRefreshKey] = useState(0);
 
   const fetchAnalytics = useCallback(
     async (isRefresh = false, days = selectedPeriod) => {
@@ -55,14 +94,20 @@ export default function AnalyticsDetails() {
         }
         setError(null);
 
-        const [usageData, modelsData] = await Promise.all([
-          chatAPI.getUserUsage(user.id, days),
-          chatAPI.getModelUsage(user.id, days),
+        const [usageData, modelsData, threadsData, performanceData, toolsData] = await Promise.all([
+          chatAPI.getUserUsage(days),
+          chatAPI.getModelUsage(days),
+          chatAPI.getThreadSpend(days),
+          chatAPI.getPerformanceStats(days),
+          chatAPI.getToolUsage(days),
         ]);
 
         setAnalyticsData({
           usage: usageData,
           models: modelsData,
+          threads: threadsData,
+          performance: performanceData,
+          tools: toolsData,
         });
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load analytics');
@@ -80,6 +125,7 @@ export default function AnalyticsDetails() {
 
   const handleRefresh = useCallback(() => {
     fetchAnalytics(true);
+    setQuotaRefreshKey(key => key + 1);
   }, [fetchAnalytics]);
 
   const handlePeriodChange = (period: 7 | 30 | 90) => {
@@ -96,6 +142,26 @@ export default function AnalyticsDetails() {
     return num.toString();
   };
 
+  const formatCost = (usd: number) => {
+    if (usd === 0) return '$0';
+    // Sub-cent spend would otherwise round to $0.00
+    return usd < 0.01 ? '<$0.01' : `$${usd.toFixed(2)}`;
+  };
+
+  // Percentiles are bucket bounds, so they read as "within"
+  const formatLatency = (ms: number) => (ms < 1000 ? `${ms}ms` : `${ms / 1000}s`);
+
+  const formatPercentiles = (percentiles: { p50: number; p95: number } | null) =>
+    percentiles
+      ? `≤${formatLatency(percentiles.p50)} p50 • ≤${formatLatency(percentiles.p95)} p95`
+      : 'No data';
+
+  const formatToolName = (toolName: string) =>
+    toolName
+      .split('_')
+      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(' ');
+
   const getModelColor = (index: number) => {
     const modelColors = [
       CHATZO_COLORS.accent.blue,
@@ -106,6 +172,32 @@ export default function AnalyticsDetails() {
     return modelColors[index % modelColors.length];
   };
 
+  // Bars for the last two weeks, scaled against the busiest day in the period
+  const renderDailyChart = (metric: 'requests' | 'cost', color: string) => {
+    const dailyUsage = analyticsData.usage?.dailyUsage ?? [];
+    const maxValue = Math.max(...dailyUsage.map(d => d[metric]));
+
+    return (
+      <View className='flex-row items-end space-x-1' style={{ height: 80 }}>
+        {dailyUsage.slice(-14).map(day => {
+          const height = maxValue > 0 ? (day[metric] / maxValue) * 70 : 2;
+
+          return (
+            <View
+              key={day.date}
+              className='flex-1 rounded-t-md'
+              style={{
+                height: Math.max(height, 2),
+                backgroundColor: day[metric] > 0 ? color : colors.border,
+                opacity: day[metric] > 0 ? 1 : 0.3,
+              }}
+            />
+          );
+        })}
+      </View>
+    );
+  };
+
   const renderLoadingState = () => (
     <View className='space-y-6'>
       <View className='space-y-4'>
@@ -210,6 +302,9 @@ export default function AnalyticsDetails() {
               </View>
             </View>
 
+            {/* Usage Limits */}
+            <QuotaSection refreshKey={quotaRefreshKey} />
+
             {/* Usage Overview */}
             {analyticsData.usage && (
               <View
@@ -274,6 +369,16 @@ export default function AnalyticsDetails() {
                       {analyticsData.usage.averageTokensPerRequest} tokens
                     </Text>
                   </View>
+
+                  <View className='flex-row justify-between'>
+                    <Text className='text-sm' style={{ color: colors.textSecondary }}>
+                      Total Spend
+                    </Text>
+                    <Text className='text-sm font-medium' style={{ color: colors.text }}>
+                      {formatCost(analyticsData.usage.totalCost)} (
+                      {formatCost(analyticsData.usage.averageCostPerDay)}/day)
+                    </Text>
+                  </View>
                 </View>
 
                 {/* Activity Chart */}
@@ -281,26 +386,15 @@ export default function AnalyticsDetails() {
                   <Text className='text-sm mb-3' style={{ color: colors.textSecondary }}>
                     Daily Activity
                   </Text>
-                  <View className='flex-row items-end space-x-1' style={{ height: 80 }}>
-                    {analyticsData.usage.dailyUsage.slice(-14).map((day, index) => {
-                      const maxRequests = Math.max(
-                        ...analyticsData.usage!.dailyUsage.map(d => d.requests)
-                      );
-                      const height = maxRequests > 0 ? (day.requests / maxRequests) * 70 : 2;
-
-                      return (
-                        <View
-                          key={day.date}
-                          className='flex-1 rounded-t-md'
-                          style={{
-                            height: Math.max(height, 2),
-                            backgroundColor: day.requests > 0 ? colors.primary : colors.border,
-                            opacity: day.requests > 0 ? 1 : 0.3,
-                          }}
-                        />
-                      );
-                    })}
-                  </View>
+                  {renderDailyChart('requests', colors.primary)}
+                </View>
+
+                {/* Spend Chart */}
+                <View className='mt-6'>
+                  <Text className='text-sm mb-3' style={{ color: colors.textSecondary }}>
+                    Daily Spend
+                  </Text>
+                  {renderDailyChart('cost', CHATZO_COLORS.accent.orange)}
                 </View>
               </View>
             )}
@@ -334,7 +428,8 @@ export default function AnalyticsDetails() {
                             {model.modelName}
                           </Text>
                           <Text className='text-sm' style={{ color: colors.textSecondary }}>
-                            {model.requests} requests • {formatNumber(model.totalTokens)} tokens
+                            {model.requests} requests • {formatNumber(model.totalTokens)} tokens •{' '}
+                            {formatCost(model.totalCost)}
                           </Text>
                         </View>
                         <View className='items-end'>
@@ -360,6 +455,205 @@ export default function AnalyticsDetails() {
                           }}
                         />
                       </View>
+
+                      {/* Spend Bar */}
+                      <View className='flex-row items-center'>
+                        <View
+                          className='flex-1 h-1.5 rounded-full mr-2'
+                          style={{ backgroundColor: colors.border }}
+                        >
+                          <View
+                            className='h-1.5 rounded-full'
+                            style={{
+                              width: `${model.costPercentage}%`,
+                              backgroundColor: getModelColor(index),
+                              opacity: 0.6,
+                            }}
+                          />
+                        </View>
+                        <Text className='text-xs' style={{ color: colors.textSecondary }}>
+                          {model.costPercentage}% of spend
+                        </Text>
+                      </View>
+                    </View>
+                  ))}
+                </View>
+              </View>
+            )}
+
+            {/* Thread Spend */}
+            {analyticsData.threads.length > 0 && (
+              <View
+                className='p-6 rounded-2xl'
+                style={{
+                  backgroundColor: colors.surface,
+                  shadowColor: colors.text,
+                  shadowOffset: { width: 0, height: 2 },
+                  shadowOpacity: 0.1,
+                  shadowRadius: 8,
+                  elevation: 4,
+                }}
+              >
+                <Text
+                  className='text-lg font-semibold font-lora mb-4'
+                  style={{ color: colors.text }}
+                >
+                  Top Chats by Spend
+                </Text>
+
+                <View className='space-y-3'>
+                  {analyticsData.threads.map(thread => (
+                    <View key={thread.threadId} className='flex-row items-center justify-between'>
+                      <View className='flex-1 mr-3'>
+                        <Text
+                          className='text-base font-medium'
+                          style={{ color: colors.text }}
+                          numberOfLines={1}
+                        >
+                          {thread.title}
+                        </Text>
+                        <Text className='text-sm' style={{ color: colors.textSecondary }}>
+                          {thread.requests} requests • {formatNumber(thread.totalTokens)} tokens
+                        </Text>
+                      </View>
+                      <Text className='text-base font-bold' style={{ color: colors.text }}>
+                        {formatCost(thread.totalCost)}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+              </View>
+            )}
+
+            {/* Performance */}
+            {analyticsData.performance && analyticsData.performance.models.length > 0 && (
+              <View
+                className='p-6 rounded-2xl'
+                style={{
+                  backgroundColor: colors.surface,
+                  shadowColor: colors.text,
+                  shadowOffset: { width: 0, height: 2 },
+                  shadowOpacity: 0.1,
+                  shadowRadius: 8,
+                  elevation: 4,
+                }}
+              >
+                <View className='flex-row items-center justify-between mb-4'>
+                  <Text className='text-lg font-semibold font-lora' style={{ color: colors.text }}>
+                    Performance
+                  </Text>
+                  <Text className='text-sm' style={{ color: colors.textSecondary }}>
+                    {analyticsData.performance.errorRate}% errors
+                  </Text>
+                </View>
+
+                <View className='space-y-4'>
+                  {analyticsData.performance.models.map(model => (
+                    <View key={model.modelId}>
+                      <View className='flex-row items-center justify-between mb-1'>
+                        <Text
+                          className='flex-1 text-base font-medium mr-3'
+                          style={{ color: colors.text }}
+                          numberOfLines={1}
+                        >
+                          {model.modelName}
+                        </Text>
+                        <Text
+                          className='text-sm font-medium'
+                          style={{
+                            color:
+                              model.errorCount > 0 ? CHATZO_COLORS.error : colors.textSecondary,
+                          }}
+                        >
+                          {model.errorRate}% errors
+                        </Text>
+                      </View>
+                      <Text className='text-sm' style={{ color: colors.textSecondary }}>
+                        First token: {formatPercentiles(model.timeToFirstToken)}
+                      </Text>
+                      <Text className='text-sm' style={{ color: colors.textSecondary }}>
+                        Full response: {formatPercentiles(model.latency)}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+              </View>
+            )}
+
+            {/* Errors */}
+            {analyticsData.performance && analyticsData.performance.topErrors.length > 0 && (
+              <View
+                className='p-6 rounded-2xl'
+                style={{
+                  backgroundColor: colors.surface,
+                  shadowColor: colors.text,
+                  shadowOffset: { width: 0, height: 2 },
+                  shadowOpacity: 0.1,
+                  shadowRadius: 8,
+                  elevation: 4,
+                }}
+              >
+                <Text
+                  className='text-lg font-semibold font-lora mb-4'
+                  style={{ color: colors.text }}
+                >
+                  Common Errors
+                </Text>
+
+                <View className='space-y-3'>
+                  {analyticsData.performance.topErrors.map(error => (
+                    <View key={error.message} className='flex-row items-start justify-between'>
+                      <Text
+                        className='flex-1 text-sm mr-3'
+                        style={{ color: colors.text }}
+                        numberOfLines={2}
+                      >
+                        {error.message}
+                      </Text>
+                      <Text className='text-sm font-bold' style={{ color: CHATZO_COLORS.error }}>
+                        {error.count}×
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+              </View>
+            )}
+
+            {/* Tool Usage */}
+            {analyticsData.tools.length > 0 && (
+              <View
+                className='p-6 rounded-2xl'
+                style={{
+                  backgroundColor: colors.surface,
+                  shadowColor: colors.text,
+                  shadowOffset: { width: 0, height: 2 },
+                  shadowOpacity: 0.1,
+                  shadowRadius: 8,
+                  elevation: 4,
+                }}
+              >
+                <Text
+                  className='text-lg font-semibold font-lora mb-4'
+                  style={{ color: colors.text }}
+                >
+                  Tool Usage
+                </Text>
+
+                <View className='space-y-3'>
+                  {analyticsData.tools.map(tool => (
+                    <View key={tool.toolName} className='flex-row items-center justify-between'>
+                      <View className='flex-1 mr-3'>
+                        <Text className='text-base font-medium' style={{ color: colors.text }}>
+                          {formatToolName(tool.toolName)}
+                        </Text>
+                        <Text className='text-sm' style={{ color: colors.textSecondary }}>
+                          {tool.failures} failed ({tool.failureRate}%)
+                          {tool.scrapes > 0 ? ` • ${tool.scrapes} with page scraping` : ''}
+                        </Text>
+                      </View>
+                      <Text className='text-base font-bold' style={{ color: colors.text }}>
+                        {formatNumber(tool.calls)} calls
+                      </Text>
                     </View>
                   ))}
                 </View>
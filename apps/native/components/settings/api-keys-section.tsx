@@ -0,0 +1,224 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { chatAPI, ApiKeyProvider, ProviderApiKey } from '@/lib/api/chat-api';
+import { useColorScheme } from '@/lib/use-color-scheme';
+import { CHATZO_COLORS } from '@/lib/constants';
+
+/**
+ * Status line for a provider: the saved key's hint, the server fallback, or nothing
+ */
+const getKeyStatus = (key: ProviderApiKey) => {
+  if (key.hasKey) return `Your key •••• ${key.keyHint}`;
+  if (key.serverKeyAvailable) return 'Using the server key';
+  return 'Not set';
+};
+
+/**
+ * Account settings card for adding, replacing and removing provider API keys
+ */
+export function ApiKeysSection() {
+  const { isDarkColorScheme } = useColorScheme();
+  const colors = isDarkColorScheme ? CHATZO_COLORS.dark : CHATZO_COLORS.light;
+
+  const [keys, setKeys] = useState<ProviderApiKey[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingProvider, setEditingProvider] = useState<ApiKeyProvider | null>(null);
+  const [draftKey, setDraftKey] = useState('');
+  const [savingProvider, setSavingProvider] = useState<ApiKeyProvider | null>(null);
+
+  const fetchKeys = useCallback(async () => {
+    try {
+      setError(null);
+      const { keys } = await chatAPI.getApiKeys();
+      setKeys(keys);
+    } catch (err) {
+      console.error('Failed to fetch API keys:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch API keys');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchKeys();
+  }, [fetchKeys]);
+
+  const startEditing = (provider: ApiKeyProvider) => {
+    setEditingProvider(provider);
+    setDraftKey('');
+  };
+
+  const cancelEditing = () => {
+    setEditingProvider(null);
+    setDraftKey('');
+  };
+
+  const handleSave = async (provider: ApiKeyProvider) => {
+    if (!draftKey.trim()) return;
+
+    try {
+      setSavingProvider(provider);
+      // The server checks the key with the provider before storing it
+      await chatAPI.saveApiKey(provider, draftKey.trim());
+      cancelEditing();
+      await fetchKeys();
+    } catch (err) {
+      Alert.alert('Invalid API Key', err instanceof Error ? err.message : 'Failed to save API key');
+    } finally {
+      setSavingProvider(null);
+    }
+  };
+
+  const handleRemove = (key: ProviderApiKey) => {
+    Alert.alert('Remove API Key', `Remove your ${key.name} key?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            setSavingProvider(key.provider);
+            await chatAPI.deleteApiKey(key.provider);
+            await fetchKeys();
+          } catch (err) {
+            Alert.alert('Error', err instanceof Error ? err.message : 'Failed to remove API key');
+          } finally {
+            setSavingProvider(null);
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View
+      className='p-6 rounded-2xl mb-6'
+      style={{
+        backgroundColor: colors.surface,
+        shadowColor: colors.text,
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 8,
+        elevation: 4,
+      }}
+    >
+      <Text className='text-lg font-semibold font-lora mb-1' style={{ color: colors.text }}>
+        API Keys
+      </Text>
+      <Text className='text-sm mb-4' style={{ color: colors.textSecondary }}>
+        Use your own provider keys. They are checked with the provider and stored encrypted.
+      </Text>
+
+      {isLoading ? (
+        <ActivityIndicator size='small' color={colors.primary} />
+      ) : error ? (
+        <TouchableOpacity onPress={fetchKeys} activeOpacity={0.7}>
+          <Text className='text-sm' style={{ color: CHATZO_COLORS.error }}>
+            {error}. Tap to retry.
+          </Text>
+        </TouchableOpacity>
+      ) : (
+        keys.map((key, index) => {
+          const isEditing = editingProvider === key.provider;
+          const isSaving = savingProvider === key.provider;
+
+          return (
+            <View
+              key={key.provider}
+              className='py-3'
+              style={{
+                borderColor: colors.border,
+                borderBottomWidth: index < keys.length - 1 ? 1 : 0,
+              }}
+            >
+              <View className='flex-row items-center justify-between'>
+                <View className='flex-1 mr-3'>
+                  <Text className='font-medium' style={{ color: colors.text }}>
+                    {key.name}
+                  </Text>
+                  <Text className='text-xs mt-1' style={{ color: colors.textSecondary }}>
+                    {getKeyStatus(key)}
+                  </Text>
+                </View>
+
+                {isSaving ? (
+                  <ActivityIndicator size='small' color={colors.primary} />
+                ) : (
+                  !isEditing && (
+                    <View className='flex-row items-center gap-2'>
+                      <TouchableOpacity
+                        onPress={() => startEditing(key.provider)}
+                        className='px-3 py-1.5 rounded-lg'
+                        style={{ backgroundColor: colors.background }}
+                        activeOpacity={0.7}
+                      >
+                        <Text className='text-sm font-medium' style={{ color: colors.primary }}>
+                          {key.hasKey ? 'Replace' : 'Add'}
+                        </Text>
+                      </TouchableOpacity>
+                      {key.hasKey && (
+                        <TouchableOpacity
+                          onPress={() => handleRemove(key)}
+                          className='p-1.5'
+                          activeOpacity={0.7}
+                          accessibilityLabel={`Remove ${key.name} key`}
+                        >
+                          <Ionicons name='trash-outline' size={18} color={CHATZO_COLORS.error} />
+                        </TouchableOpacity>
+                      )}
+                    </View>
+                  )
+                )}
+              </View>
+
+              {isEditing && (
+                <View className='flex-row items-center mt-3 gap-2'>
+                  <TextInput
+                    value={draftKey}
+                    onChangeText={setDraftKey}
+                    placeholder={`${key.name} API key`}
+                    placeholderTextColor={colors.textSecondary}
+                    className='flex-1 text-sm px-3 py-2 rounded-lg'
+                    style={{ color: colors.text, backgroundColor: colors.background }}
+                    secureTextEntry
+                    autoCapitalize='none'
+                    autoCorrect={false}
+                    autoFocus
+                    editable={!isSaving}
+                    returnKeyType='done'
+                    onSubmitEditing={() => handleSave(key.provider)}
+                  />
+                  <TouchableOpacity
+                    onPress={() => handleSave(key.provider)}
+                    disabled={!draftKey.trim() || isSaving}
+                    className='px-3 py-2 rounded-lg'
+                    style={{
+                      backgroundColor: colors.primary,
+                      opacity: draftKey.trim() && !isSaving ? 1 : 0.5,
+                    }}
+                    activeOpacity={0.7}
+                  >
+                    <Text className='text-sm font-medium' style={{ color: colors.background }}>
+                      Save
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={cancelEditing}
+                    disabled={isSaving}
+                    className='p-1.5'
+                    activeOpacity={0.7}
+                    accessibilityLabel='Cancel'
+                  >
+                    <Ionicons name='close' size={18} color={colors.textSecondary} />
+                  </TouchableOpacity>
+                </View>
+              )}
+            </View>
+          );
+        })
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,352 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Clipboard from 'expo-clipboard';
+import { chatAPI, ApiToken, ApiTokenScope } from '@/lib/api/chat-api';
+import { useColorScheme } from '@/lib/use-color-scheme';
+import { CHATZO_COLORS } from '@/lib/constants';
+
+const SCOPE_OPTIONS: { scope: ApiTokenScope; label: string }[] = [
+  { scope: 'threads:read', label: 'Read threads' },
+  { scope: 'chat', label: 'Chat' },
+  { scope: 'analytics:read', label: 'Analytics' },
+];
+
+const EXPIRY_OPTIONS: { days: number | undefined; label: string }[] = [
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '1 year' },
+  { days: undefined, label: 'Never' },
+];
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+
+/**
+ * Expiry and last-used line for a token
+ */
+const getTokenStatus = (token: ApiToken) => {
+  const expiry = !token.expiresAt
+    ? 'Never expires'
+    : token.expiresAt <= Date.now()
+      ? `Expired ${formatDate(token.expiresAt)}`
+      : `Expires ${formatDate(token.expiresAt)}`;
+  const lastUsed = token.lastUsedAt ? `last used ${formatDate(token.lastUsedAt)}` : 'never used';
+  return `${expiry} · ${lastUsed}`;
+};
+
+/**
+ * Account settings card for minting and revoking personal access tokens
+ */
+export function ApiTokensSection() {
+  const { isDarkColorScheme } = useColorScheme();
+  const colors = isDarkColorScheme ? CHATZO_COLORS.dark : CHATZO_COLORS.light;
+
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['chat']);
+  const [expiresInDays, setExpiresInDays] = useState<number | undefined>(90);
+  // The raw token is only available right after creation
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [revokingTokenId, setRevokingTokenId] = useState<string | null>(null);
+
+  const fetchTokens = useCallback(async () => {
+    try {
+      setError(null);
+      const { tokens } = await chatAPI.getApiTokens();
+      setTokens(tokens);
+    } catch (err) {
+      console.error('Failed to fetch API tokens:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch API tokens');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTokens();
+  }, [fetchTokens]);
+
+  const toggleScope = (scope: ApiTokenScope) => {
+    setScopes(current =>
+      current.includes(scope) ? current.filter(item => item !== scope) : [...current, scope]
+    );
+  };
+
+  const resetForm = () => {
+    setIsCreating(false);
+    setName('');
+    setScopes(['chat']);
+    setExpiresInDays(90);
+  };
+
+  const handleCreate = async () => {
+    if (!name.trim() || scopes.length === 0) return;
+
+    try {
+      setIsSubmitting(true);
+      const created = await chatAPI.createApiToken({ name: name.trim(), scopes, expiresInDays });
+      setNewToken(created.token);
+      resetForm();
+      await fetchTokens();
+    } catch (err) {
+      Alert.alert('Error', err instanceof Error ? err.message : 'Failed to create API token');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newToken) return;
+    await Clipboard.setStringAsync(newToken);
+    Alert.alert('Copied', 'The token was copied to your clipboard.');
+  };
+
+  const handleRevoke = (token: ApiToken) => {
+    Alert.alert(
+      'Revoke Token',
+      `Revoke "${token.name}"? Anything using it will stop working immediately.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Revoke',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              setRevokingTokenId(token._id);
+              await chatAPI.revokeApiToken(token._id);
+              setTokens(current => current.filter(item => item._id !== token._id));
+            } catch (err) {
+              Alert.alert('Error', err instanceof Error ? err.message : 'Failed to revoke token');
+            } finally {
+              setRevokingTokenId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderChip = (label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      onPress={onPress}
+      className='px-3 py-1.5 rounded-full mr-2 mb-2'
+      style={{
+        backgroundColor: selected ? colors.primary : colors.background,
+        borderColor: selected ? colors.primary : colors.border,
+        borderWidth: 1,
+      }}
+      activeOpacity={0.7}
+    >
+      <Text
+        className='text-xs font-medium'
+        style={{ color: selected ? colors.background : colors.text }}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View
+      className='p-6 rounded-2xl mb-6'
+      style={{
+        backgroundColor: colors.surface,
+        shadowColor: colors.text,
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 8,
+        elevation: 4,
+      }}
+    >
+      <View className='flex-row items-center justify-between mb-1'>
+        <Text className='text-lg font-semibold font-lora' style={{ color: colors.text }}>
+          API Tokens
+        </Text>
+        {!isCreating && (
+          <TouchableOpacity
+            onPress={() => setIsCreating(true)}
+            className='px-3 py-1.5 rounded-lg'
+            style={{ backgroundColor: colors.background }}
+            activeOpacity={0.7}
+          >
+            <Text className='text-sm font-medium' style={{ color: colors.primary }}>
+              New token
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      <Text className='text-sm mb-4' style={{ color: colors.textSecondary }}>
+        Personal tokens for scripts and integrations. Treat them like passwords.
+      </Text>
+
+      {newToken && (
+        <View
+          className='p-4 rounded-xl mb-4'
+          style={{
+            backgroundColor: colors.background,
+            borderColor: colors.primary,
+            borderWidth: 1,
+          }}
+        >
+          <Text className='text-sm font-medium mb-2' style={{ color: colors.text }}>
+            Copy your new token now. It will not be shown again.
+          </Text>
+          <Text selectable className='text-xs font-mono mb-3' style={{ color: colors.text }}>
+            {newToken}
+          </Text>
+          <View className='flex-row gap-2'>
+            <TouchableOpacity
+              onPress={handleCopy}
+              className='flex-row items-center px-3 py-2 rounded-lg'
+              style={{ backgroundColor: colors.primary }}
+              activeOpacity={0.7}
+            >
+              <Ionicons name='copy-outline' size={14} color={colors.background} />
+              <Text className='text-sm font-medium ml-1' style={{ color: colors.background }}>
+                Copy
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => setNewToken(null)}
+              className='px-3 py-2 rounded-lg'
+              style={{ backgroundColor: colors.surface }}
+              activeOpacity={0.7}
+            >
+              <Text className='text-sm font-medium' style={{ color: colors.text }}>
+                Done
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {isCreating && (
+        <View className='p-4 rounded-xl mb-4' style={{ backgroundColor: colors.background }}>
+          <TextInput
+            value={name}
+            onChangeText={setName}
+            placeholder='Token name, e.g. "Export script"'
+            placeholderTextColor={colors.textSecondary}
+            className='text-sm px-3 py-2 rounded-lg mb-3'
+            style={{ color: colors.text, backgroundColor: colors.surface }}
+            maxLength={60}
+            autoFocus
+            editable={!isSubmitting}
+          />
+
+          <Text className='text-xs font-medium mb-2' style={{ color: colors.textSecondary }}>
+            Scopes
+          </Text>
+          <View className='flex-row flex-wrap mb-1'>
+            {SCOPE_OPTIONS.map(option =>
+              renderChip(option.label, scopes.includes(option.scope), () =>
+                toggleScope(option.scope)
+              )
+            )}
+          </View>
+
+          <Text className='text-xs font-medium mb-2' style={{ color: colors.textSecondary }}>
+            Expires
+          </Text>
+          <View className='flex-row flex-wrap mb-2'>
+            {EXPIRY_OPTIONS.map(option =>
+              renderChip(option.label, expiresInDays === option.days, () =>
+                setExpiresInDays(option.days)
+              )
+            )}
+          </View>
+
+          <View className='flex-row justify-end gap-2'>
+            <TouchableOpacity
+              onPress={resetForm}
+              disabled={isSubmitting}
+              className='px-3 py-2 rounded-lg'
+              activeOpacity={0.7}
+            >
+              <Text className='text-sm font-medium' style={{ color: colors.textSecondary }}>
+                Cancel
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={handleCreate}
+              disabled={!name.trim() || scopes.length === 0 || isSubmitting}
+              className='px-3 py-2 rounded-lg'
+              style={{
+                backgroundColor: colors.primary,
+                opacity: name.trim() && scopes.length > 0 && !isSubmitting ? 1 : 0.5,
+              }}
+              activeOpacity={0.7}
+            >
+              {isSubmitting ? (
+                <ActivityIndicator size='small' color={colors.background} />
+              ) : (
+                <Text className='text-sm font-medium' style={{ color: colors.background }}>
+                  Create
+                </Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {isLoading ? (
+        <ActivityIndicator size='small' color={colors.primary} />
+      ) : error ? (
+        <TouchableOpacity onPress={fetchTokens} activeOpacity={0.7}>
+          <Text className='text-sm' style={{ color: CHATZO_COLORS.error }}>
+            {error}. Tap to retry.
+          </Text>
+        </TouchableOpacity>
+      ) : tokens.length === 0 ? (
+        <Text className='text-sm' style={{ color: colors.textSecondary }}>
+          No tokens yet
+        </Text>
+      ) : (
+        tokens.map((token, index) => (
+          <View
+            key={token._id}
+            className='flex-row items-center py-3'
+            style={{
+              borderColor: colors.border,
+              borderBottomWidth: index < tokens.length - 1 ? 1 : 0,
+            }}
+          >
+            <View className='flex-1 mr-3'>
+              <Text className='font-medium' style={{ color: colors.text }}>
+                {token.name}
+              </Text>
+              <Text className='text-xs font-mono mt-1' style={{ color: colors.textSecondary }}>
+                {token.tokenPrefix}… · {token.scopes.join(', ')}
+              </Text>
+              <Text className='text-xs mt-1' style={{ color: colors.textSecondary }}>
+                {getTokenStatus(token)}
+              </Text>
+            </View>
+            {revokingTokenId === token._id ? (
+              <ActivityIndicator size='small' color={colors.primary} />
+            ) : (
+              <TouchableOpacity
+                onPress={() => handleRevoke(token)}
+                className='p-1.5'
+                activeOpacity={0.7}
+                accessibilityLabel={`Revoke ${token.name}`}
+              >
+                <Ionicons name='trash-outline' size={18} color={CHATZO_COLORS.error} />
+              </TouchableOpacity>
+            )}
+          </View>
+        ))
+      )}
+    </View>
+  );
+}
@@ -3,6 +3,12 @@ export { default as SettingsList } from './settings-list';
 export { default as AccountDetails } from './account-details';
 export { default as AnalyticsDetails } from './analytics-details';
 export { default as PreferencesDetails } from './preferences-details';
+export { ApiKeysSection } from './api-keys-section';
+export { ApiTokensSection } from './api-tokens-section';
+export { QuotaSection } from './quota-section';
+export { SearchProviderSection } from './search-provider-section';
+export { ToolSettingsSection } from './tool-settings-section';
+export { McpServersSection } from './mcp-servers-section';
 
 // Legacy components (keeping for backwards compatibility)
 export { AccountSection } from './account-section';
@@ -0,0 +1,369 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Switch,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { chatAPI, McpServer, McpServerTool, McpTransport } from '@/lib/api/chat-api';
+import { useColorScheme } from '@/lib/use-color-scheme';
+import { CHATZO_COLORS } from '@/lib/constants';
+
+const TRANSPORT_OPTIONS: { transport: McpTransport; label: string }[] = [
+  { transport: 'http', label: 'Streamable HTTP' },
+  { transport: 'sse', label: 'SSE' },
+];
+
+// Result of the last connection test per server
+type TestResult = { tools: McpServerTool[] } | { error: string };
+
+/**
+ * Preferences card for registering MCP servers whose tools models can call
+ */
+export function McpServersSection() {
+  const { isDarkColorScheme } = useColorScheme();
+  const colors = isDarkColorScheme ? CHATZO_COLORS.dark : CHATZO_COLORS.light;
+
+  const [servers, setServers] = useState<McpServer[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [name, setName] = useState('');
+  const [url, setUrl] = useState('');
+  const [transport, setTransport] = useState<McpTransport>('http');
+  const [authToken, setAuthToken] = useState('');
+  // Server being tested, toggled or deleted
+  const [busyServerId, setBusyServerId] = useState<string | null>(null);
+  const [testResults, setTestResults] = useState<Record<string, TestResult>>({});
+
+  const fetchServers = useCallback(async () => {
+    try {
+      setError(null);
+      const { servers } = await chatAPI.getMcpServers();
+      setServers(servers);
+    } catch (err) {
+      console.error('Failed to fetch MCP servers:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch MCP servers');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchServers();
+  }, [fetchServers]);
+
+  const resetForm = () => {
+    setIsCreating(false);
+    setName('');
+    setUrl('');
+    setTransport('http');
+    setAuthToken('');
+  };
+
+  const replaceServer = (server: McpServer) => {
+    setServers(current => current.map(item => (item._id === server._id ? server : item)));
+  };
+
+  const handleTest = async (server: McpServer) => {
+    try {
+      setBusyServerId(server._id);
+      const result = await chatAPI.testMcpServer(server._id);
+      setTestResults(current => ({ ...current, [server._id]: result }));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to reach MCP server';
+      setTestResults(current => ({ ...current, [server._id]: { error: message } }));
+    } finally {
+      setBusyServerId(null);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!name.trim() || !url.trim()) return;
+
+    try {
+      setIsSubmitting(true);
+      const server = await chatAPI.createMcpServer({
+        name: name.trim(),
+        url: url.trim(),
+        transport,
+        ...(authToken.trim() && { authToken: authToken.trim() }),
+      });
+      setServers(current => [...current, server]);
+      resetForm();
+      // Check the new server straight away so mistakes in the URL show up here, not in a chat
+      await handleTest(server);
+    } catch (err) {
+      Alert.alert('Error', err instanceof Error ? err.message : 'Failed to add MCP server');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleToggle = async (server: McpServer, enabled: boolean) => {
+    replaceServer({ ...server, enabled });
+    try {
+      replaceServer(await chatAPI.updateMcpServer(server._id, { enabled }));
+    } catch (err) {
+      replaceServer(server);
+      Alert.alert('Error', err instanceof Error ? err.message : 'Failed to update MCP server');
+    }
+  };
+
+  const handleDelete = (server: McpServer) => {
+    Alert.alert('Remove Server', `Remove ${server.name}? Its tools will no longer be offered.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            setBusyServerId(server._id);
+            await chatAPI.deleteMcpServer(server._id);
+            setServers(current => current.filter(item => item._id !== server._id));
+          } catch (err) {
+            Alert.alert('Error', err instanceof Error ? err.message : 'Failed to remove server');
+          } finally {
+            setBusyServerId(null);
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderInput = (
+    value: string,
+    onChangeText: (text: string) => void,
+    placeholder: string,
+    options: { secure?: boolean; autoFocus?: boolean } = {}
+  ) => (
+    <TextInput
+      value={value}
+      onChangeText={onChangeText}
+      placeholder={placeholder}
+      placeholderTextColor={colors.textSecondary}
+      className='text-sm px-3 py-2 rounded-lg mb-3'
+      style={{ color: colors.text, backgroundColor: colors.surface }}
+      autoCapitalize='none'
+      autoCorrect={false}
+      secureTextEntry={options.secure}
+      autoFocus={options.autoFocus}
+      editable={!isSubmitting}
+    />
+  );
+
+  const renderTestResult = (server: McpServer) => {
+    const result = testResults[server._id];
+    if (!result) return null;
+
+    if ('error' in result) {
+      return (
+        <Text className='text-xs mt-2' style={{ color: CHATZO_COLORS.error }}>
+          {result.error}
+        </Text>
+      );
+    }
+
+    return (
+      <Text className='text-xs mt-2' style={{ color: colors.textSecondary }}>
+        {result.tools.length === 0
+          ? 'Connected, but the server offers no tools'
+          : `${result.tools.length} tools: ${result.tools.map(tool => tool.name).join(', ')}`}
+      </Text>
+    );
+  };
+
+  return (
+    <View
+      className='p-6 rounded-2xl mb-8'
+      style={{
+        backgroundColor: colors.surface,
+        shadowColor: colors.text,
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 8,
+        elevation: 4,
+      }}
+    >
+      <View className='flex-row items-center justify-between mb-1'>
+        <Text className='text-lg font-semibold font-lora' style={{ color: colors.text }}>
+          MCP Servers
+        </Text>
+        {!isCreating && (
+          <TouchableOpacity
+            onPress={() => setIsCreating(true)}
+            className='px-3 py-1.5 rounded-lg'
+            style={{ backgroundColor: colors.background }}
+            activeOpacity={0.7}
+          >
+            <Text className='text-sm font-medium' style={{ color: colors.primary }}>
+              Add server
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      <Text className='text-sm mb-4' style={{ color: colors.textSecondary }}>
+        Tools from enabled servers are offered in every chat with a model that supports tools.
+      </Text>
+
+      {isCreating && (
+        <View className='p-4 rounded-xl mb-4' style={{ backgroundColor: colors.background }}>
+          {renderInput(name, text => setName(text.toLowerCase()), 'Name, e.g. "jira"', {
+            autoFocus: true,
+          })}
+          {renderInput(url, setUrl, 'https://mcp.example.com/mcp')}
+          {renderInput(authToken, setAuthToken, 'Bearer token (optional)', { secure: true })}
+
+          <Text className='text-xs font-medium mb-2' style={{ color: colors.textSecondary }}>
+            Transport
+          </Text>
+          <View className='flex-row flex-wrap mb-2'>
+            {TRANSPORT_OPTIONS.map(option => {
+              const isSelected = transport === option.transport;
+              return (
+                <TouchableOpacity
+                  key={option.transport}
+                  onPress={() => setTransport(option.transport)}
+                  className='px-3 py-1.5 rounded-full mr-2 mb-2'
+                  style={{
+                    backgroundColor: isSelected ? colors.primary : colors.surface,
+                    borderColor: isSelected ? colors.primary : colors.border,
+                    borderWidth: 1,
+                  }}
+                  activeOpacity={0.7}
+                >
+                  <Text
+                    className='text-xs font-medium'
+                    style={{ color: isSelected ? colors.background : colors.text }}
+                  >
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <View className='flex-row justify-end gap-2'>
+            <TouchableOpacity
+              onPress={resetForm}
+              disabled={isSubmitting}
+              className='px-3 py-2 rounded-lg'
+              activeOpacity={0.7}
+            >
+              <Text className='text-sm font-medium' style={{ color: colors.textSecondary }}>
+                Cancel
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={handleCreate}
+              disabled={!name.trim() || !url.trim() || isSubmitting}
+              className='px-3 py-2 rounded-lg'
+              style={{
+                backgroundColor: colors.primary,
+                opacity: name.trim() && url.trim() && !isSubmitting ? 1 : 0.5,
+              }}
+              activeOpacity={0.7}
+            >
+              {isSubmitting ? (
+                <ActivityIndicator size='small' color={colors.background} />
+              ) : (
+                <Text className='text-sm font-medium' style={{ color: colors.background }}>
+                  Add
+                </Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {isLoading ? (
+        <ActivityIndicator size='small' color={colors.primary} />
+      ) : error ? (
+        <TouchableOpacity onPress={fetchServers} activeOpacity={0.7}>
+          <Text className='text-sm' style={{ color: CHATZO_COLORS.error }}>
+            {error}. Tap to retry.
+          </Text>
+        </TouchableOpacity>
+      ) : servers.length === 0 ? (
+        <Text className='text-sm' style={{ color: colors.textSecondary }}>
+          No servers yet
+        </Text>
+      ) : (
+        servers.map((server, index) => (
+          <View
+            key={server._id}
+            className='py-3'
+            style={{
+              borderColor: colors.border,
+              borderBottomWidth: index < servers.length - 1 ? 1 : 0,
+            }}
+          >
+            <View className='flex-row items-center'>
+              <View className='flex-1 mr-3'>
+                <Text className='font-medium' style={{ color: colors.text }}>
+                  {server.name}
+                </Text>
+                <Text
+                  className='text-xs font-mono mt-1'
+                  style={{ color: colors.textSecondary }}
+                  numberOfLines={1}
+                >
+                  {server.url}
+                </Text>
+                <Text className='text-xs mt-1' style={{ color: colors.textSecondary }}>
+                  {server.transport === 'sse' ? 'SSE' : 'Streamable HTTP'}
+                  {server.hasAuthToken ? ' · token saved' : ''}
+                </Text>
+              </View>
+              <Switch
+                value={server.enabled}
+                onValueChange={enabled => handleToggle(server, enabled)}
+                trackColor={{ false: colors.border, true: colors.primary }}
+              />
+            </View>
+
+            <View className='flex-row items-center mt-2'>
+              {busyServerId === server._id ? (
+                <ActivityIndicator size='small' color={colors.primary} />
+              ) : (
+                <>
+                  <TouchableOpacity
+                    onPress={() => handleTest(server)}
+                    className='flex-row items-center mr-4'
+                    activeOpacity={0.7}
+                  >
+                    <Ionicons name='pulse-outline' size={16} color={colors.primary} />
+                    <Text className='text-sm font-medium ml-1' style={{ color: colors.primary }}>
+                      Test
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => handleDelete(server)}
+                    className='flex-row items-center'
+                    activeOpacity={0.7}
+                    accessibilityLabel={`Remove ${server.name}`}
+                  >
+                    <Ionicons name='trash-outline' size={16} color={CHATZO_COLORS.error} />
+                    <Text
+                      className='text-sm font-medium ml-1'
+                      style={{ color: CHATZO_COLORS.error }}
+                    >
+                      Remove
+                    </Text>
+                  </TouchableOpacity>
+                </>
+              )}
+            </View>
+
+            {renderTestResult(server)}
+          </View>
+        ))
+      )}
+    </View>
+  );
+}
@@ -5,6 +5,9 @@ import { useColorScheme } from '@/lib/use-color-scheme';
 import { CHATZO_COLORS } from '@/lib/constants';
 import { AppContainer } from '@/components/app-container';
 import { SettingsHeader } from './extras/settings-header';
+import { SearchProviderSection } from './search-provider-section';
+import { ToolSettingsSection } from './tool-settings-section';
+import { McpServersSection } from './mcp-servers-section';
 import { cn } from '@/lib/utils';
 
 interface PreferenceItem {
@@ -302,6 +305,15 @@ export default function PreferencesDetails() {
           </View>
         ))}
 
+        {/* Web Search Provider */}
+        <SearchProviderSection />
+
+        {/* Tool Settings */}
+        <ToolSettingsSection />
+
+        {/* MCP Servers */}
+        <McpServersSection />
+
         {/* Footer */}
         <View className='mt-8 p-6 rounded-2xl' style={{ backgroundColor: colors.surface }}>
           <Text className='text-center text-sm font-medium mb-2' style={{ color: colors.text }}>
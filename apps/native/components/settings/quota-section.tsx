@@ -0,0 +1,135 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { chatAPI, ModelTier, QuotaName, QuotaUsage, TierQuota } from '@/lib/api/chat-api';
+import { useColorScheme } from '@/lib/use-color-scheme';
+import { CHATZO_COLORS } from '@/lib/constants';
+
+const TIER_LABELS: Record<ModelTier, string> = {
+  free: 'Free models',
+  standard: 'Standard models',
+  premium: 'Premium models',
+};
+
+const QUOTA_LABELS: Record<QuotaName, string> = {
+  requests_per_minute: 'Requests this minute',
+  tokens_per_day: 'Tokens today',
+  spend_per_month: 'Spend this month',
+};
+
+const formatQuotaValue = (name: QuotaName, value: number) =>
+  name === 'spend_per_month' ? `$${value.toFixed(2)}` : value.toLocaleString('en-US');
+
+/**
+ * When a quota window resets: a time for today, a date otherwise
+ */
+const formatResetAt = (resetAt: number) => {
+  const date = new Date(resetAt);
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })
+    : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+};
+
+/**
+ * Remaining quota per model tier, refreshed whenever refreshKey changes
+ */
+export function QuotaSection({ refreshKey }: { refreshKey?: number }) {
+  const { isDarkColorScheme } = useColorScheme();
+  const colors = isDarkColorScheme ? CHATZO_COLORS.dark : CHATZO_COLORS.light;
+
+  const [tiers, setTiers] = useState<TierQuota[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchQuota = useCallback(async () => {
+    try {
+      setError(null);
+      const { tiers } = await chatAPI.getQuota();
+      setTiers(tiers.filter(tier => tier.quotas.length > 0));
+    } catch (err) {
+      console.error('Failed to fetch quota:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch quota');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchQuota();
+  }, [fetchQuota, refreshKey]);
+
+  const renderQuota = (quota: QuotaUsage) => {
+    const usedShare = quota.limit > 0 ? Math.min(quota.used / quota.limit, 1) : 1;
+    const isExhausted = quota.remaining <= 0;
+
+    return (
+      <View key={quota.name} className='mb-3'>
+        <View className='flex-row justify-between mb-1'>
+          <Text className='text-sm' style={{ color: colors.textSecondary }}>
+            {QUOTA_LABELS[quota.name]}
+          </Text>
+          <Text
+            className='text-sm font-medium'
+            style={{ color: isExhausted ? CHATZO_COLORS.error : colors.text }}
+          >
+            {formatQuotaValue(quota.name, quota.remaining)} left of{' '}
+            {formatQuotaValue(quota.name, quota.limit)}
+          </Text>
+        </View>
+        <View className='h-1.5 rounded-full' style={{ backgroundColor: colors.border }}>
+          <View
+            className='h-1.5 rounded-full'
+            style={{
+              width: `${usedShare * 100}%`,
+              backgroundColor: isExhausted ? CHATZO_COLORS.error : colors.primary,
+            }}
+          />
+        </View>
+        {isExhausted && (
+          <Text className='text-xs mt-1' style={{ color: colors.textSecondary }}>
+            Resets {formatResetAt(quota.resetAt)}
+          </Text>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View
+      className='p-6 rounded-2xl'
+      style={{
+        backgroundColor: colors.surface,
+        shadowColor: colors.text,
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 8,
+        elevation: 4,
+      }}
+    >
+      <Text className='text-lg font-semibold font-lora mb-1' style={{ color: colors.text }}>
+        Usage Limits
+      </Text>
+      <Text className='text-sm mb-4' style={{ color: colors.textSecondary }}>
+        Requests made with your own API key are only held to the per-minute limit.
+      </Text>
+
+      {isLoading ? (
+        <ActivityIndicator size='small' color={colors.primary} />
+      ) : error ? (
+        <TouchableOpacity onPress={fetchQuota} activeOpacity={0.7}>
+          <Text className='text-sm' style={{ color: CHATZO_COLORS.error }}>
+            {error}. Tap to retry.
+          </Text>
+        </TouchableOpacity>
+      ) : (
+        tiers.map(tier => (
+          <View key={tier.tier} className='mb-2'>
+            <Text className='text-base font-medium mb-2' style={{ color: colors.text }}>
+              {TIER_LABELS[tier.tier]}
+            </Text>
+            {tier.quotas.map(renderQuota)}
+          </View>
+        ))
+      )}
+    </View>
+  );
+}
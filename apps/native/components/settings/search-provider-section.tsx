@@ -0,0 +1,140 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+import { chatAPI, SearchProviderId, SearchProviderOption } from '@/lib/api/chat-api';
+import { useColorScheme } from '@/lib/use-color-scheme';
+import { CHATZO_COLORS } from '@/lib/constants';
+
+/**
+ * Preferences card for picking which web search provider is tried first
+ */
+export function SearchProviderSection() {
+  const { isDarkColorScheme } = useColorScheme();
+  const colors = isDarkColorScheme ? CHATZO_COLORS.dark : CHATZO_COLORS.light;
+
+  const [providers, setProviders] = useState<SearchProviderOption[]>([]);
+  const [selected, setSelected] = useState<SearchProviderId | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchSettings = useCallback(async () => {
+    try {
+      setError(null);
+      const settings = await chatAPI.getSettings();
+      setProviders(settings.searchProviders);
+      setSelected(settings.searchProvider);
+    } catch (err) {
+      console.error('Failed to fetch settings:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch settings');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  const handleSelect = async (searchProvider: SearchProviderId | null) => {
+    if (searchProvider === selected) return;
+
+    const previous = selected;
+    setSelected(searchProvider);
+    try {
+      setIsSaving(true);
+      await chatAPI.updateSettings({ searchProvider });
+    } catch (err) {
+      setSelected(previous);
+      Alert.alert('Error', err instanceof Error ? err.message : 'Failed to update search provider');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderOption = (
+    key: string,
+    label: string,
+    description: string,
+    value: SearchProviderId | null,
+    disabled = false
+  ) => {
+    const isSelected = selected === value;
+
+    return (
+      <TouchableOpacity
+        key={key}
+        onPress={() => handleSelect(value)}
+        disabled={disabled || isSaving}
+        className='flex-row items-center p-3 rounded-xl mb-2'
+        style={{
+          backgroundColor: colors.background,
+          borderColor: isSelected ? colors.primary : colors.border,
+          borderWidth: 1,
+          opacity: disabled ? 0.5 : 1,
+        }}
+        activeOpacity={0.7}
+      >
+        <View className='flex-1'>
+          <Text className='text-base font-medium' style={{ color: colors.text }}>
+            {label}
+          </Text>
+          <Text className='text-xs mt-0.5' style={{ color: colors.textSecondary }}>
+            {description}
+          </Text>
+        </View>
+        <View
+          className='w-4 h-4 rounded-full'
+          style={{
+            borderColor: isSelected ? colors.primary : colors.border,
+            borderWidth: isSelected ? 5 : 1,
+          }}
+        />
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View
+      className='p-6 rounded-2xl mb-8'
+      style={{
+        backgroundColor: colors.surface,
+        shadowColor: colors.text,
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 8,
+        elevation: 4,
+      }}
+    >
+      <Text className='text-lg font-semibold font-lora mb-1' style={{ color: colors.text }}>
+        Web Search
+      </Text>
+      <Text className='text-sm mb-4' style={{ color: colors.textSecondary }}>
+        The provider tried first. If it fails, the other available providers are tried in turn.
+      </Text>
+
+      {isLoading ? (
+        <ActivityIndicator size='small' color={colors.primary} />
+      ) : error ? (
+        <TouchableOpacity onPress={fetchSettings} activeOpacity={0.7}>
+          <Text className='text-sm' style={{ color: CHATZO_COLORS.error }}>
+            {error}. Tap to retry.
+          </Text>
+        </TouchableOpacity>
+      ) : (
+        <>
+          {renderOption('automatic', 'Automatic', 'First available in the default order', null)}
+          {providers.map(provider =>
+            renderOption(
+              provider.id,
+              provider.name,
+              provider.available ? 'Available' : 'Add a key in Account settings to use it',
+              provider.id,
+              // A saved preference stays selectable even if its key was removed since
+              !provider.available && selected !== provider.id
+            )
+          )}
+        </>
+      )}
+    </View>
+  );
+}
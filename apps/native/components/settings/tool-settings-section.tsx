@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, ActivityIndicator, Alert, Switch } from 'react-native';
+import { Minus, Plus } from 'lucide-react-native';
+import { ToolInfo, ToolSettingDefinition, ToolSettingValue } from '@/lib/api/chat-api';
+import { useToolsStore } from '@/store/tools-store';
+import { useColorScheme } from '@/lib/use-color-scheme';
+import { CHATZO_COLORS } from '@/lib/constants';
+
+/**
+ * Preferences card for the options each tool exposes, such as how many search results to read
+ */
+export function ToolSettingsSection() {
+  const { isDarkColorScheme } = useColorScheme();
+  const colors = isDarkColorScheme ? CHATZO_COLORS.dark : CHATZO_COLORS.light;
+
+  const { tools, isLoading, error, fetchTools, updateToolSettings } = useToolsStore();
+  // Setting being saved, as toolId.key
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchTools();
+  }, [fetchTools]);
+
+  const handleChange = async (tool: ToolInfo, key: string, value: ToolSettingValue) => {
+    try {
+      setSavingKey(`${tool.id}.${key}`);
+      await updateToolSettings(tool.id, { [key]: value });
+    } catch (err) {
+      Alert.alert('Error', err instanceof Error ? err.message : 'Failed to update tool settings');
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const renderStepButton = (icon: React.ReactNode, onPress: () => void, disabled: boolean) => (
+    <TouchableOpacity
+      onPress={onPress}
+      disabled={disabled}
+      className='w-8 h-8 rounded-lg items-center justify-center'
+      style={{
+        backgroundColor: colors.background,
+        borderColor: colors.border,
+        borderWidth: 1,
+        opacity: disabled ? 0.5 : 1,
+      }}
+      activeOpacity={0.7}
+    >
+      {icon}
+    </TouchableOpacity>
+  );
+
+  const renderControl = (tool: ToolInfo, setting: ToolSettingDefinition) => {
+    const value = tool.values[setting.key] ?? setting.default;
+    const isSaving = savingKey === `${tool.id}.${setting.key}`;
+
+    switch (setting.type) {
+      case 'number': {
+        const current = value as number;
+        const step = setting.step ?? 1;
+        return (
+          <View className='flex-row items-center'>
+            {renderStepButton(
+              <Minus size={14} color={colors.text} />,
+              () => handleChange(tool, setting.key, Math.max(setting.min, current - step)),
+              isSaving || current <= setting.min
+            )}
+            <Text
+              className='text-base font-medium mx-3 text-center'
+              style={{ color: colors.text, minWidth: 48 }}
+            >
+              {current.toLocaleString('en-US')}
+            </Text>
+            {renderStepButton(
+              <Plus size={14} color={colors.text} />,
+              () => handleChange(tool, setting.key, Math.min(setting.max, current + step)),
+              isSaving || current >= setting.max
+            )}
+          </View>
+        );
+      }
+      case 'boolean':
+        return (
+          <Switch
+            value={value as boolean}
+            onValueChange={next => handleChange(tool, setting.key, next)}
+            disabled={isSaving}
+            trackColor={{ false: colors.border, true: colors.primary }}
+          />
+        );
+      case 'select':
+        return (
+          <View className='flex-row flex-wrap justify-end'>
+            {setting.options.map(option => {
+              const isSelected = option.value === value;
+              return (
+                <TouchableOpacity
+                  key={option.value}
+                  onPress={() => !isSelected && handleChange(tool, setting.key, option.value)}
+                  disabled={isSaving}
+                  className='px-3 py-1 rounded-full ml-2 mb-1'
+                  style={{
+                    backgroundColor: isSelected ? colors.primary : colors.background,
+                    borderColor: isSelected ? colors.primary : colors.border,
+                    borderWidth: 1,
+                  }}
+                  activeOpacity={0.7}
+                >
+                  <Text
+                    className='text-xs font-medium'
+                    style={{ color: isSelected ? '#ffffff' : colors.text }}
+                  >
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        );
+    }
+  };
+
+  const configurableTools = tools.filter(tool => tool.settings.length > 0);
+
+  return (
+    <View
+      className='p-6 rounded-2xl mb-8'
+      style={{
+        backgroundColor: colors.surface,
+        shadowColor: colors.text,
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 8,
+        elevation: 4,
+      }}
+    >
+      <Text className='text-lg font-semibold font-lora mb-1' style={{ color: colors.text }}>
+        Tools
+      </Text>
+      <Text className='text-sm mb-4' style={{ color: colors.textSecondary }}>
+        Options for the tools you can switch on from the chat input.
+      </Text>
+
+      {isLoading && tools.length === 0 ? (
+        <ActivityIndicator size='small' color={colors.primary} />
+      ) : error && tools.length === 0 ? (
+        <TouchableOpacity onPress={fetchTools} activeOpacity={0.7}>
+          <Text className='text-sm' style={{ color: CHATZO_COLORS.error }}>
+            {error}. Tap to retry.
+          </Text>
+        </TouchableOpacity>
+      ) : (
+        configurableTools.map(tool => (
+          <View key={tool.id} className='mb-2'>
+            <Text className='text-base font-medium mb-2' style={{ color: colors.text }}>
+              {tool.name}
+            </Text>
+            {tool.settings.map(setting => (
+              <View key={setting.key} className='flex-row items-center justify-between mb-3'>
+                <View className='flex-1 mr-3'>
+                  <Text className='text-sm' style={{ color: colors.text }}>
+                    {setting.label}
+                  </Text>
+                  {setting.description && (
+                    <Text className='text-xs mt-0.5' style={{ color: colors.textSecondary }}>
+                      {setting.description}
+                    </Text>
+                  )}
+                </View>
+                {renderControl(tool, setting)}
+              </View>
+            ))}
+          </View>
+        ))
+      )}
+    </View>
+  );
+}
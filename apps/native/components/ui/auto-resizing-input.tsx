@@ -16,11 +16,13 @@ import Animated, {
   withSpring,
   interpolate,
 } from 'react-native-reanimated';
-import { Camera, Image as ImageIcon, X, FileText, Search } from 'lucide-react-native';
+import { Camera, Image as ImageIcon, X, FileText, Wrench } from 'lucide-react-native';
 import * as ImagePicker from 'expo-image-picker';
 import * as DocumentPicker from 'expo-document-picker';
 import { useColorScheme } from '@/lib/use-color-scheme';
 import { ModelPicker } from './model-picker';
+import { PersonaPicker } from './persona-picker';
+import { ToolTray, getToolTrayHeight, useModelSupportsTools } from './tool-tray';
 import { SelectedImage, ImagePreview } from '../images';
 import { PDFPickerItem } from '../documents';
 import {
@@ -29,6 +31,7 @@ import {
   uploadPDFToCloudinary,
 } from '@/utils/cloudinary';
 import { validateModelForAttachments } from '@/store/models-store';
+import { useToolsStore } from '@/store/tools-store';
 import { isImageFormatSupported, isPDFFile } from '@/utils/cloudinary';
 import { ImageAttachment, PDFAttachment } from '@/lib/types/attachments';
 
@@ -42,13 +45,13 @@ interface AutoResizingInputProps {
   placeholder?: string;
   selectedModel?: string;
   onModelChange?: (modelKey: string) => void;
+  selectedPersonaId?: string | null;
+  onPersonaChange?: (personaId: string | null) => void;
   uploadPreset?: string;
   maxImages?: number;
   disabled?: boolean;
   isStreaming?: boolean;
   onStop?: () => void;
-  webSearchEnabled?: boolean;
-  onWebSearchToggle?: (enabled: boolean) => void;
 }
 
 export const AutoResizingInput: React.FC<AutoResizingInputProps> = ({
@@ -56,13 +59,13 @@ export const AutoResizingInput: React.FC<AutoResizingInputProps> = ({
   placeholder = 'Type your message...',
   selectedModel = 'gemini-2.5-flash',
   onModelChange,
+  selectedPersonaId = null,
+  onPersonaChange,
   uploadPreset = 'chatzo',
   maxImages = 5,
   disabled = false,
   isStreaming = false,
   onStop,
-  webSearchEnabled = false,
-  onWebSearchToggle,
 }) => {
   const [text, setText] = useState('');
   const [inputHeight, setInputHeight] = useState(40);
@@ -71,7 +74,11 @@ export const AutoResizingInput: React.FC<AutoResizingInputProps> = ({
   const [isPickingImages, setIsPickingImages] = useState(false);
   const [isPickingPDF, setIsPickingPDF] = useState(false);
   const [modelWarning, setModelWarning] = useState<string | null>(null);
-  const [isWebSearchEnabled, setIsWebSearchEnabled] = useState(webSearchEnabled);
+  const [isToolTrayOpen, setIsToolTrayOpen] = useState(false);
+  const { tools, enabledTools, fetchTools } = useToolsStore();
+  const supportsTools = useModelSupportsTools(selectedModel);
+  // Tools are left out for models that can't call them, but stay selected for the next one
+  const activeTools = supportsTools ? enabledTools : [];
   const inputRef = useRef<TextInput>(null);
   const { isDarkColorScheme } = useColorScheme();
 
@@ -91,7 +98,7 @@ export const AutoResizingInput: React.FC<AutoResizingInputProps> = ({
       inactive: isDarkColorScheme ? '#6b7280' : '#64748b',
     },
     modelSection: isDarkColorScheme ? '#111827' : '#ffffff',
-    webSearch: {
+    tools: {
       active: isDarkColorScheme ? '#059669' : '#10b981',
       inactive: isDarkColorScheme ? '#374151' : '#d1d5db',
     },
@@ -100,20 +107,21 @@ export const AutoResizingInput: React.FC<AutoResizingInputProps> = ({
   // Animation for send button press
   const animationProgress = useSharedValue(0);
 
-  // Sync external web search state
+  // Load the tools and the user's saved selection
   React.useEffect(() => {
-    setIsWebSearchEnabled(webSearchEnabled);
-  }, [webSearchEnabled]);
+    fetchTools();
+  }, [fetchTools]);
 
   // Check model validation when attachments or model changes
   React.useEffect(() => {
     const validation = validateModelForAttachments(
       selectedModel,
       images.length > 0,
-      pdfs.length > 0
+      pdfs.length > 0,
+      pdfs.reduce((total, pdf) => total + (pdf.size || 0), 0)
     );
     setModelWarning(validation.canProceed ? null : validation.warning || null);
-  }, [selectedModel, images.length, pdfs.length]);
+  }, [selectedModel, images.length, pdfs]);
 
   // Request camera permissions
   const requestCameraPermissions = async (): Promise<boolean> => {
@@ -192,7 +200,8 @@ export const AutoResizingInput: React.FC<AutoResizingInputProps> = ({
     const validation = validateModelForAttachments(
       selectedModel,
       images.length > 0,
-      pdfs.length > 0
+      pdfs.length > 0,
+      pdfs.reduce((total, pdf) => total + (pdf.size || 0), 0)
     );
 
     if (!validation.canProceed) {
@@ -209,17 +218,11 @@ export const AutoResizingInput: React.FC<AutoResizingInputProps> = ({
       const validImages = images.filter(img => !img.isUploading && !img.error);
       const validPDFs = pdfs.filter(pdf => !pdf.isUploading && !pdf.error);
 
-      // Build enabled tools array
-      const enabledTools: string[] = [];
-      if (isWebSearchEnabled) {
-        enabledTools.push('web_search');
-      }
-
       onSend?.(
         text.trim(),
         validImages.length > 0 ? validImages : undefined,
         validPDFs.length > 0 ? validPDFs : undefined,
-        enabledTools.length > 0 ? enabledTools : undefined
+        activeTools.length > 0 ? activeTools : undefined
       );
       setText('');
       setImages([]);
@@ -707,21 +710,27 @@ export const AutoResizingInput: React.FC<AutoResizingInputProps> = ({
     inputRef.current?.focus();
   };
 
-  // Handle web search toggle
-  const handleWebSearchToggle = () => {
-    const newValue = !isWebSearchEnabled;
-    setIsWebSearchEnabled(newValue);
-    onWebSearchToggle?.(newValue);
+  // Handle tool tray toggle
+  const handleToolTrayToggle = () => {
+    setIsToolTrayOpen(open => !open);
   };
 
   // Calculate container height with proper spacing
   const modelSectionHeight = 50; // Fixed height for model picker
+  const personaSectionHeight = 50; // Fixed height for persona picker
   const imagePreviewHeight = images.length > 0 ? 140 : 0;
   const pdfPreviewHeight = pdfs.length > 0 ? 120 : 0;
   const warningHeight = modelWarning ? 45 : 0;
+  const toolTrayHeight = isToolTrayOpen ? getToolTrayHeight(tools.length) : 0;
   const inputSectionHeight = Math.max(inputHeight + 60, 100); // Ensure minimum height
   const totalHeight =
-    modelSectionHeight + imagePreviewHeight + pdfPreviewHeight + warningHeight + inputSectionHeight;
+    modelSectionHeight +
+    personaSectionHeight +
+    imagePreviewHeight +
+    pdfPreviewHeight +
+    warningHeight +
+    toolTrayHeight +
+    inputSectionHeight;
 
   // Simple animated styles
   const animatedContainerStyle = useAnimatedStyle(() => {
@@ -767,6 +776,28 @@ export const AutoResizingInput: React.FC<AutoResizingInputProps> = ({
             </View>
           </View>
 
+          {/* Persona Selector - Fixed height section */}
+          <View
+            style={{
+              backgroundColor: colors.modelSection,
+              borderBottomColor: colors.border,
+              height: personaSectionHeight,
+            }}
+            className='border-b px-4 py-2 justify-center'
+          >
+            <View className='flex-row items-center'>
+              <Text style={{ color: colors.icon }} className='text-xs font-medium w-12'>
+                Persona
+              </Text>
+              <View className='flex-1 ml-2'>
+                <PersonaPicker
+                  selectedPersonaId={selectedPersonaId}
+                  onPersonaChange={onPersonaChange || (() => {})}
+                />
+              </View>
+            </View>
+          </View>
+
           {/* Model Warning Section */}
           {modelWarning && (
             <View
@@ -826,6 +857,19 @@ export const AutoResizingInput: React.FC<AutoResizingInputProps> = ({
             </View>
           )}
 
+          {/* Tool Tray Section */}
+          {isToolTrayOpen && (
+            <View
+              style={{
+                borderBottomColor: colors.border,
+                height: toolTrayHeight,
+              }}
+              className='border-b'
+            >
+              <ToolTray selectedModel={selectedModel} disabled={disabled} />
+            </View>
+          )}
+
           {/* Input area */}
           <View className='flex-1 px-4 py-3'>
             <TouchableOpacity
@@ -867,21 +911,19 @@ export const AutoResizingInput: React.FC<AutoResizingInputProps> = ({
             <View className='flex-row items-center justify-between mt-3'>
               {/* Left side icons */}
               <View className='flex-row items-center'>
-                {/* Web Search Toggle */}
+                {/* Tool Tray Toggle */}
                 <TouchableOpacity
                   className='p-2 mr-2 rounded-md'
-                  onPress={handleWebSearchToggle}
+                  onPress={handleToolTrayToggle}
                   disabled={disabled}
                   style={{
-                    backgroundColor: isWebSearchEnabled ? colors.webSearch.active : 'transparent',
+                    backgroundColor: isToolTrayOpen ? colors.tools.active : 'transparent',
                     opacity: disabled ? 0.5 : 1,
                   }}
                 >
-                  <Search
+                  <Wrench
                     size={20}
-                    color={
-                      disabled ? colors.placeholder : isWebSearchEnabled ? '#ffffff' : colors.icon
-                    }
+                    color={disabled ? colors.placeholder : isToolTrayOpen ? '#ffffff' : colors.icon}
                   />
                 </TouchableOpacity>
 
@@ -961,11 +1003,11 @@ export const AutoResizingInput: React.FC<AutoResizingInputProps> = ({
                   </View>
                 )}
 
-                {/* Web search indicator */}
-                {isWebSearchEnabled && (
+                {/* Enabled tools indicator */}
+                {activeTools.length > 0 && (
                   <View
                     style={{
-                      backgroundColor: colors.webSearch.active,
+                      backgroundColor: colors.tools.active,
                       borderRadius: 10,
                       paddingHorizontal: 6,
                       paddingVertical: 2,
@@ -979,7 +1021,7 @@ export const AutoResizingInput: React.FC<AutoResizingInputProps> = ({
                         fontWeight: '500',
                       }}
                     >
-                      Web
+                      {activeTools.length === 1 ? '1 tool' : `${activeTools.length} tools`}
                     </Text>
                   </View>
                 )}
@@ -4,9 +4,11 @@ export * from './enhanced-flash-list';
 export * from './input';
 export * from './model-display';
 export * from './model-picker';
+export * from './persona-picker';
 export * from './shimmer-text';
 export * from './skeleton';
 export * from './suggested-prompts';
 export * from './test-button';
 export * from './theme-toggle';
+export * from './tool-tray';
 export * from './confirmation-modal';
@@ -2,7 +2,13 @@ import React, { useEffect } from 'react';
 import { View, Text, Platform } from 'react-native';
 import { Picker } from '@react-native-picker/picker';
 import { useColorScheme } from '@/lib/use-color-scheme';
-import { useModelsStore } from '@/store/models-store';
+import {
+  DisplayModel,
+  formatContextWindow,
+  formatModelPrice,
+  isModelDeprecated,
+  useModelsStore,
+} from '@/store/models-store';
 import { cn } from '@/lib/utils';
 import { ChevronDown } from 'lucide-react-native';
 
@@ -11,6 +17,18 @@ interface ModelPickerProps {
   onModelChange: (modelKey: string) => void;
 }
 
+/**
+ * Picker label with context size, price and any upcoming retirement
+ */
+const getModelLabel = (model: DisplayModel) => {
+  const provider = model.provider.charAt(0).toUpperCase() + model.provider.slice(1);
+  const details = [formatContextWindow(model.contextWindow), formatModelPrice(model)];
+  if (model.deprecationDate) {
+    details.push(isModelDeprecated(model) ? 'retired' : `retiring ${model.deprecationDate}`);
+  }
+  return `${provider}: ${model.name} (${details.join(' · ')})`;
+};
+
 export const ModelPicker: React.FC<ModelPickerProps> = ({ selectedModel, onModelChange }) => {
   const { isDarkColorScheme } = useColorScheme();
   const { models, isLoading, error, fetchModels } = useModelsStore();
@@ -19,6 +37,11 @@ export const ModelPicker: React.FC<ModelPickerProps> = ({ selectedModel, onModel
     fetchModels();
   }, [fetchModels]);
 
+  // Retired models stay listed only while selected, so older threads still show their model
+  const visibleModels = models.filter(
+    model => !isModelDeprecated(model) || model.key === selectedModel
+  );
+
   const pickerContainerStyle = cn(
     'flex-row items-center p-1 rounded-lg',
     isDarkColorScheme ? 'bg-zinc-800' : 'bg-slate-100'
@@ -64,10 +87,10 @@ export const ModelPicker: React.FC<ModelPickerProps> = ({ selectedModel, onModel
         mode='dropdown'
         dropdownIconColor={pickerTextColor}
       >
-        {models.map(model => (
+        {visibleModels.map(model => (
           <Picker.Item
             key={model.key}
-            label={`${model.provider.charAt(0).toUpperCase() + model.provider.slice(1)}: ${model.name}`}
+            label={getModelLabel(model)}
             value={model.key}
             color={Platform.OS === 'ios' ? pickerTextColor : undefined}
           />
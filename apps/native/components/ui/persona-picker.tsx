@@ -0,0 +1,93 @@
+import React, { useEffect } from 'react';
+import { View, Text, Platform } from 'react-native';
+import { Picker } from '@react-native-picker/picker';
+import { useColorScheme } from '@/lib/use-color-scheme';
+import { usePersonasStore } from '@/store/personas-store';
+import { cn } from '@/lib/utils';
+import { ChevronDown } from 'lucide-react-native';
+
+// Picker values can't be null, so the default prompt uses an empty string
+const DEFAULT_PERSONA_VALUE = '';
+
+interface PersonaPickerProps {
+  selectedPersonaId: string | null;
+  onPersonaChange: (personaId: string | null) => void;
+}
+
+export const PersonaPicker: React.FC<PersonaPickerProps> = ({
+  selectedPersonaId,
+  onPersonaChange,
+}) => {
+  const { isDarkColorScheme } = useColorScheme();
+  const { personas, isLoading, error, fetchPersonas } = usePersonasStore();
+
+  useEffect(() => {
+    fetchPersonas();
+  }, [fetchPersonas]);
+
+  const pickerContainerStyle = cn(
+    'flex-row items-center p-1 rounded-lg',
+    isDarkColorScheme ? 'bg-zinc-800' : 'bg-slate-100'
+  );
+  const pickerTextColor = isDarkColorScheme ? '#FFFFFF' : '#1e293b';
+
+  if (isLoading && personas.length === 0) {
+    return (
+      <View className='flex-1 justify-center items-center h-10'>
+        <Text className='text-slate-500 dark:text-slate-400 text-xs'>Loading personas...</Text>
+      </View>
+    );
+  }
+
+  if (error) {
+    return (
+      <View className='flex-1 justify-center items-center h-10'>
+        <Text className='text-red-500 dark:text-red-400 text-xs'>Error</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View className={pickerContainerStyle}>
+      <Picker
+        selectedValue={selectedPersonaId ?? DEFAULT_PERSONA_VALUE}
+        onValueChange={itemValue => {
+          onPersonaChange(itemValue === DEFAULT_PERSONA_VALUE ? null : itemValue);
+        }}
+        style={{
+          flex: 1,
+          color: pickerTextColor,
+          backgroundColor: 'transparent',
+          borderWidth: 0,
+          height: Platform.OS === 'android' ? 40 : undefined,
+        }}
+        itemStyle={{
+          color: pickerTextColor,
+          fontSize: 14,
+        }}
+        mode='dropdown'
+        dropdownIconColor={pickerTextColor}
+      >
+        <Picker.Item
+          label='Default'
+          value={DEFAULT_PERSONA_VALUE}
+          color={Platform.OS === 'ios' ? pickerTextColor : undefined}
+        />
+        {personas.map(persona => (
+          <Picker.Item
+            key={persona._id}
+            label={persona.name}
+            value={persona._id}
+            color={Platform.OS === 'ios' ? pickerTextColor : undefined}
+          />
+        ))}
+      </Picker>
+      {/* Custom dropdown icon for consistency on iOS */}
+      {Platform.OS === 'ios' && (
+        <View className='absolute right-2 top-0 bottom-0 justify-center pointer-events-none'>
+          <ChevronDown size={16} color={pickerTextColor} />
+        </View>
+      )}
+    </View>
+  );
+};
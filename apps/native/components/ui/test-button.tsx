@@ -32,10 +32,10 @@ export const TestButton: React.FC<TestButtonProps> = ({ onSuccess }) => {
       }
 
       // Test 3: Create Thread
-      const thread = await chatAPI.createThread(user.id, 'Test Thread');
+      const thread = await chatAPI.createThread('Test Thread');
 
       // Test 4: Get Threads
-      const threadsResult = await chatAPI.getThreads(user.id, 5);
+      const threadsResult = await chatAPI.getThreads(5);
 
       // Test 5: Send a test message
       const testMessages = [
@@ -48,7 +48,6 @@ export const TestButton: React.FC<TestButtonProps> = ({ onSuccess }) => {
       ];
 
       const chatResponse = await chatAPI.sendChatCompletion({
-        clerkId: user.id,
         messages: testMessages,
         model: 'gemini-2.5-flash',
         thread_id: thread.id,
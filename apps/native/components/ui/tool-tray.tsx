@@ -0,0 +1,104 @@
+import React from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import { Check } from 'lucide-react-native';
+import { useColorScheme } from '@/lib/use-color-scheme';
+import { useToolsStore } from '@/store/tools-store';
+import { useModelsStore } from '@/store/models-store';
+
+const ROW_HEIGHT = 52;
+const TRAY_PADDING = 12;
+
+/**
+ * Height the composer reserves for an open tray, which has one row per tool
+ * (or one for the empty, loading and unsupported-model messages)
+ */
+export const getToolTrayHeight = (toolCount: number) =>
+  TRAY_PADDING + Math.max(toolCount, 1) * ROW_HEIGHT;
+
+/**
+ * Whether a model can call tools; unknown models are assumed to until the list loads
+ */
+export const useModelSupportsTools = (modelKey: string) => {
+  const model = useModelsStore(state => state.models.find(item => item.key === modelKey));
+  return model ? model.supportsTools : true;
+};
+
+interface ToolTrayProps {
+  selectedModel: string;
+  disabled?: boolean;
+}
+
+/**
+ * Multi-select list of tools for the composer; the selection is saved to the user's settings
+ */
+export const ToolTray: React.FC<ToolTrayProps> = ({ selectedModel, disabled = false }) => {
+  const { isDarkColorScheme } = useColorScheme();
+  const { tools, enabledTools, isLoading, error, toggleTool } = useToolsStore();
+  const supportsTools = useModelSupportsTools(selectedModel);
+
+  const colors = {
+    text: isDarkColorScheme ? '#f9fafb' : '#1e293b',
+    secondary: isDarkColorScheme ? '#9ca3af' : '#64748b',
+    border: isDarkColorScheme ? '#374151' : '#e2e8f0',
+    active: isDarkColorScheme ? '#059669' : '#10b981',
+  };
+
+  const renderMessage = (message: string, color = colors.secondary) => (
+    <View className='justify-center px-4' style={{ height: ROW_HEIGHT }}>
+      <Text className='text-xs' style={{ color }}>
+        {message}
+      </Text>
+    </View>
+  );
+
+  if (!supportsTools) {
+    return renderMessage('The selected model cannot use tools.');
+  }
+  if (isLoading && tools.length === 0) {
+    return renderMessage('Loading tools...');
+  }
+  if (error && tools.length === 0) {
+    return renderMessage(error, '#ef4444');
+  }
+  if (tools.length === 0) {
+    return renderMessage('No tools available.');
+  }
+
+  return (
+    <View style={{ paddingVertical: TRAY_PADDING / 2 }}>
+      {tools.map(tool => {
+        const isEnabled = enabledTools.includes(tool.id);
+
+        return (
+          <TouchableOpacity
+            key={tool.id}
+            onPress={() => toggleTool(tool.id)}
+            disabled={disabled}
+            className='flex-row items-center px-4'
+            style={{ height: ROW_HEIGHT, opacity: disabled ? 0.5 : 1 }}
+            activeOpacity={0.7}
+          >
+            <View className='flex-1 mr-3'>
+              <Text className='text-sm font-medium' style={{ color: colors.text }}>
+                {tool.name}
+              </Text>
+              <Text className='text-xs' style={{ color: colors.secondary }} numberOfLines={1}>
+                {tool.description}
+              </Text>
+            </View>
+            <View
+              className='w-5 h-5 rounded items-center justify-center'
+              style={{
+                backgroundColor: isEnabled ? colors.active : 'transparent',
+                borderColor: isEnabled ? colors.active : colors.border,
+                borderWidth: 1,
+              }}
+            >
+              {isEnabled && <Check size={14} color='#ffffff' />}
+            </View>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+};
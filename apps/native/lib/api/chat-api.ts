@@ -1,4 +1,5 @@
 import { generateConvexApiUrl } from '@/lib/convex-utils';
+import { getAuthToken } from '@/lib/auth-token';
 
 // Individual content part types (compatible with AI SDK format)
 export type TextContentPart = {
@@ -29,6 +30,8 @@ export type ToolInvocationContentPart = {
     toolCallId: string;
     toolName: string;
     step?: number;
+    // Only known for tool calls saved with a message
+    durationMs?: number;
   };
 };
 
@@ -47,6 +50,11 @@ export type MessageContent =
 export interface Message {
   _id?: string;
   id?: string; // fallback for compatibility
+  parentMessageId?: string;
+  // Alternate versions of this message (edits or retries), oldest first
+  siblingIds?: string[];
+  siblingCount?: number;
+  siblingIndex?: number;
   role: 'user' | 'assistant' | 'system';
   content: MessageContent;
   metadata?: {
@@ -56,13 +64,46 @@ export interface Message {
     completionTokens?: number;
     serverDurationMs?: number;
     duration?: number;
+    timeToFirstToken?: number;
     temperature?: number;
     maxTokens?: number;
+    stopped?: boolean;
+    toolCalls?: {
+      toolCallId: string;
+      toolName: string;
+      args: any;
+      result?: any;
+      error?: string;
+      durationMs?: number;
+    }[];
   };
   createdAt?: number;
   updatedAt?: number;
 }
 
+export interface ThreadSettings {
+  modelId?: string;
+  temperature?: number;
+  maxTokens?: number;
+  systemPrompt?: string;
+  personaId?: string | null;
+}
+
+export interface Persona {
+  _id: string;
+  name: string;
+  description?: string;
+  instructions: string;
+  defaultModelId?: string;
+  enabledTools?: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type PersonaInput = Partial<
+  Pick<Persona, 'name' | 'description' | 'instructions' | 'defaultModelId' | 'enabledTools'>
+>;
+
 export interface Thread {
   _id: string;
   title: string;
@@ -74,21 +115,194 @@ export interface Thread {
   isArchived?: boolean;
   isPinned?: boolean;
   tags?: string[];
-  settings?: {
-    modelId?: string;
-    temperature?: number;
-    maxTokens?: number;
-    systemPrompt?: string;
-  };
+  settings?: ThreadSettings;
+}
+
+// A message matching a full-text search; highlights are [start, end) ranges in the snippet
+export interface MessageSearchResult {
+  messageId: string;
+  threadId: string;
+  role: 'user' | 'assistant' | 'system';
+  createdAt: number;
+  snippet: string;
+  highlights: { start: number; end: number }[];
+  thread: Thread;
+}
+
+// Pass nextCursor back to fetch the following (older) page
+export interface CursorPagination {
+  limit: number;
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export type ApiKeyProvider =
+  | 'google'
+  | 'mistral'
+  | 'groq'
+  | 'openrouter'
+  | 'serper'
+  | 'firecrawl'
+  | 'tavily';
+
+export interface ProviderApiKey {
+  provider: ApiKeyProvider;
+  name: string;
+  hasKey: boolean;
+  keyHint: string | null;
+  lastValidatedAt: number | null;
+  updatedAt: number | null;
+  // Whether the server's own key is used when the user has none
+  serverKeyAvailable: boolean;
+}
+
+export type SearchProviderId = 'serper' | 'tavily' | 'firecrawl' | 'searxng';
+
+export interface SearchProviderOption {
+  id: SearchProviderId;
+  name: string;
+  // Whether a key (the user's or the server's) or instance is configured
+  available: boolean;
+}
+
+export interface UserSettings {
+  // Tried first by web search; null follows the default order
+  searchProvider: SearchProviderId | null;
+  searchProviders: SearchProviderOption[];
+  // Tools the composer last had switched on
+  enabledTools: string[];
+}
+
+export type ToolSettingValue = number | boolean | string;
+
+export type ToolSettingDefinition = {
+  key: string;
+  label: string;
+  description?: string;
+} & (
+  | { type: 'number'; default: number; min: number; max: number; step?: number }
+  | { type: 'boolean'; default: boolean }
+  | { type: 'select'; default: string; options: { value: string; label: string }[] }
+);
+
+export interface ToolInfo {
+  id: string;
+  name: string;
+  description: string;
+  // Model ability needed to use the tool, e.g. function_calling
+  requiredAbility: string;
+  // JSON schema of the arguments the model calls the tool with
+  parameters: Record<string, unknown>;
+  settings: ToolSettingDefinition[];
+  // The user's current settings, with defaults filled in
+  values: Record<string, ToolSettingValue>;
+}
+
+export type ApiTokenScope = 'threads:read' | 'chat' | 'analytics:read';
+
+export interface ApiToken {
+  _id: string;
+  name: string;
+  // First characters of the token; the full token is only shown once
+  tokenPrefix: string;
+  scopes: ApiTokenScope[];
+  expiresAt?: number;
+  lastUsedAt?: number;
+  createdAt: number;
+}
+
+export type McpTransport = 'http' | 'sse';
+
+export interface McpServer {
+  _id: string;
+  // Prefixes the server's tool names, e.g. jira__search_issues
+  name: string;
+  url: string;
+  // Streamable HTTP, or the older HTTP+SSE transport
+  transport: McpTransport;
+  enabled: boolean;
+  hasAuthToken: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface McpServerTool {
+  name: string;
+  // Name the model sees, namespaced by server
+  toolName: string;
+  description: string | null;
+}
+
+export type ModelTier = 'free' | 'standard' | 'premium';
+
+export type QuotaName = 'requests_per_minute' | 'tokens_per_day' | 'spend_per_month';
+
+export interface QuotaUsage {
+  name: QuotaName;
+  limit: number;
+  used: number;
+  remaining: number;
+  // Epoch ms when the window rolls over
+  resetAt: number;
+}
+
+export interface TierQuota {
+  tier: ModelTier;
+  quotas: QuotaUsage[];
+}
+
+// Body of the 429 returned when a request would go over a quota
+export interface QuotaExceededError {
+  message: string;
+  type: 'rate_limit_exceeded';
+  quota: QuotaName;
+  modelTier: ModelTier;
+  limit: number;
+  used: number;
+  resetAt: string;
+}
+
+/**
+ * Pull a quota error out of a failed chat request's message, which carries the raw response body
+ */
+export const parseQuotaError = (message: string | undefined): QuotaExceededError | null => {
+  try {
+    const error = JSON.parse(message ?? '')?.error;
+    return error?.type === 'rate_limit_exceeded' ? error : null;
+  } catch {
+    return null;
+  }
+};
+
+// Generation still running on the server when a thread's messages were loaded
+export interface ActiveStream {
+  streamId: string;
+  modelId: string;
+  text: string;
+  offset: number;
+}
+
+export interface StreamReplay {
+  streamId: string;
+  threadId: string;
+  status: 'streaming' | 'completed' | 'error';
+  text: string;
+  offset: number;
+  done: boolean;
+  messageId?: string;
+  errorMessage?: string;
 }
 
 export interface ChatCompletionRequest {
-  clerkId: string;
   messages: Message[];
   model?: string;
   temperature?: number;
   max_tokens?: number;
   thread_id?: string;
+  persona_id?: string | null;
+  continue_message_id?: string;
+  edit_message_id?: string;
+  retry_message_id?: string;
   generate_title?: boolean;
 }
 
@@ -104,6 +318,21 @@ export interface ChatCompletionResponse {
 class ChatAPI {
   private baseUrl = generateConvexApiUrl('');
 
+  /**
+   * Fetch an API path with the Clerk session token as a bearer token
+   */
+  private async authFetch(path: string, init: RequestInit = {}): Promise<Response> {
+    const token = await getAuthToken();
+    if (!token) {
+      throw new Error('Not signed in');
+    }
+
+    const headers = new Headers(init.headers);
+    headers.set('Authorization', `Bearer ${token}`);
+
+    return fetch(`${this.baseUrl}${path}`, { ...init, headers });
+  }
+
   /**
    * Helper function to create AI SDK compatible message content
    * Combines text, images, and PDFs into proper content array format
@@ -163,7 +392,7 @@ class ChatAPI {
    * Send chat completion request with streaming
    */
   async sendChatCompletion(request: ChatCompletionRequest): Promise<Response> {
-    const response = await fetch(`${this.baseUrl}/api/chat/completions`, {
+    const response = await this.authFetch('/api/chat/completions', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -184,23 +413,13 @@ class ChatAPI {
   /**
    * Create a new thread
    */
-  async createThread(
-    clerkId: string,
-    title: string = 'New Chat',
-    settings?: {
-      modelId?: string;
-      temperature?: number;
-      maxTokens?: number;
-      systemPrompt?: string;
-    }
-  ): Promise<Thread> {
-    const response = await fetch(`${this.baseUrl}/api/chat/threads`, {
+  async createThread(title: string = 'New Chat', settings?: ThreadSettings): Promise<Thread> {
+    const response = await this.authFetch('/api/chat/threads', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        clerkId,
         title,
         settings,
       }),
@@ -219,19 +438,19 @@ class ChatAPI {
    * Get user's threads
    */
   async getThreads(
-    clerkId: string,
     limit: number = 30,
-    offset: number = 0,
+    cursor: string | null = null,
     archived: boolean = false
-  ): Promise<{ threads: Thread[]; pagination: any }> {
+  ): Promise<{ threads: Thread[]; pagination: CursorPagination }> {
     const params = new URLSearchParams({
-      clerkId,
       limit: limit.toString(),
-      offset: offset.toString(),
       archived: archived.toString(),
     });
+    if (cursor) {
+      params.set('cursor', cursor);
+    }
 
-    const response = await fetch(`${this.baseUrl}/api/chat/threads?${params}`);
+    const response = await this.authFetch(`/api/chat/threads?${params}`);
     const data = await response.json();
 
     if (!response.ok) {
@@ -242,25 +461,27 @@ class ChatAPI {
   }
 
   /**
-   * Search user's threads
+   * Search user's threads by title and their messages by content
    */
   async searchThreads(
-    clerkId: string,
     searchQuery: string,
     limit: number = 20,
     offset: number = 0,
     archived: boolean = false
-  ): Promise<{ threads: Thread[]; total: number; pagination: any }> {
+  ): Promise<{
+    threads: Thread[];
+    messages: MessageSearchResult[];
+    total: number;
+    pagination: any;
+  }> {
     const params = new URLSearchParams({
-      clerkId,
       q: searchQuery,
       limit: limit.toString(),
       offset: offset.toString(),
       archived: archived.toString(),
     });
 
-    const url = `${this.baseUrl}/api/chat/threads/search?${params}`;
-    const response = await fetch(url);
+    const response = await this.authFetch(`/api/chat/threads/search?${params}`);
     const data = await response.json();
 
     if (!response.ok) {
@@ -271,21 +492,26 @@ class ChatAPI {
   }
 
   /**
-   * Get messages from a thread
+   * Get a page of messages from a thread, newest page first (messages oldest first within it)
    */
   async getThreadMessages(
-    clerkId: string,
     threadId: string,
     limit: number = 50,
-    offset: number = 0
-  ): Promise<{ messages: Message[]; pagination: any }> {
+    cursor: string | null = null
+  ): Promise<{
+    thread: Thread;
+    messages: Message[];
+    pagination: CursorPagination;
+    activeStream?: ActiveStream | null;
+  }> {
     const params = new URLSearchParams({
-      clerkId,
       limit: limit.toString(),
-      offset: offset.toString(),
     });
+    if (cursor) {
+      params.set('cursor', cursor);
+    }
 
-    const response = await fetch(`${this.baseUrl}/api/chat/threads/${threadId}/messages?${params}`);
+    const response = await this.authFetch(`/api/chat/threads/${threadId}/messages?${params}`);
     const data = await response.json();
 
     if (!response.ok) {
@@ -295,22 +521,88 @@ class ChatAPI {
     return data;
   }
 
+  /**
+   * Switch a thread's active branch to the one containing a message
+   */
+  async selectBranch(
+    messageId: string
+  ): Promise<{ threadId: string; messages: Message[]; pagination: CursorPagination }> {
+    const response = await this.authFetch(`/api/chat/branches/${messageId}`, {
+      method: 'POST',
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to switch branch');
+    }
+
+    return data;
+  }
+
+  /**
+   * Fork the branch ending at a message into a new thread
+   */
+  async forkThread(messageId: string): Promise<Thread> {
+    const response = await this.authFetch(`/api/chat/forks/${messageId}`, {
+      method: 'POST',
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to fork thread');
+    }
+
+    return data;
+  }
+
+  /**
+   * Replay a generation's text from a character offset
+   */
+  async getStream(streamId: string, offset: number = 0): Promise<StreamReplay> {
+    const params = new URLSearchParams({ offset: offset.toString() });
+
+    const response = await this.authFetch(`/api/chat/streams/${streamId}?${params}`);
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to fetch stream');
+    }
+
+    return data;
+  }
+
+  /**
+   * Stop a generation; the server saves the answer so far as a stopped message
+   */
+  async cancelStream(streamId: string): Promise<{ streamId: string; cancelled: boolean }> {
+    const response = await this.authFetch(`/api/chat/streams/${streamId}/cancel`, {
+      method: 'POST',
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to cancel stream');
+    }
+
+    return data;
+  }
+
   /**
    * Generate title for conversation
    */
   async generateTitle(
-    clerkId: string,
     messages: string[],
     model: string = 'gemini-2.0-flash',
     threadId?: string
   ): Promise<{ title: string; category: string; confidence: number }> {
-    const response = await fetch(`${this.baseUrl}/api/chat/generate-title`, {
+    const response = await this.authFetch('/api/chat/generate-title', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        clerkId,
         messages,
         model,
         thread_id: threadId,
@@ -381,23 +673,22 @@ class ChatAPI {
   /**
    * Get analytics usage data
    */
-  async getUserUsage(
-    clerkId: string,
-    days: number = 30
-  ): Promise<{
+  async getUserUsage(days: number = 30): Promise<{
     totalRequests: number;
     totalTokens: number;
+    // USD, priced when each request ran
+    totalCost: number;
     period: string;
-    dailyUsage: Array<{ date: string; requests: number; tokens: number }>;
+    dailyUsage: Array<{ date: string; requests: number; tokens: number; cost: number }>;
     averageRequestsPerDay: number;
     averageTokensPerRequest: number;
+    averageCostPerDay: number;
   }> {
     const params = new URLSearchParams({
-      clerkId,
       days: days.toString(),
     });
 
-    const response = await fetch(`${this.baseUrl}/api/analytics/usage?${params}`);
+    const response = await this.authFetch(`/api/analytics/usage?${params}`);
     const data = await response.json();
 
     if (!response.ok) {
@@ -410,25 +701,23 @@ class ChatAPI {
   /**
    * Get model usage breakdown
    */
-  async getModelUsage(
-    clerkId: string,
-    days: number = 30
-  ): Promise<
+  async getModelUsage(days: number = 30): Promise<
     Array<{
       modelId: string;
       modelName: string;
       requests: number;
       totalTokens: number;
+      totalCost: number;
       requestsPercentage: number;
+      costPercentage: number;
       averageTokensPerRequest: number;
     }>
   > {
     const params = new URLSearchParams({
-      clerkId,
       days: days.toString(),
     });
 
-    const response = await fetch(`${this.baseUrl}/api/analytics/models?${params}`);
+    const response = await this.authFetch(`/api/analytics/models?${params}`);
     const data = await response.json();
 
     if (!response.ok) {
@@ -438,22 +727,118 @@ class ChatAPI {
     return data;
   }
 
+  /**
+   * Get usage against each model tier's limits
+   */
+  async getQuota(): Promise<{ tiers: TierQuota[] }> {
+    const response = await this.authFetch('/api/quota');
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to fetch quota');
+    }
+
+    return data;
+  }
+
+  /**
+   * Get spend per thread, most expensive first
+   */
+  async getThreadSpend(
+    days: number = 30,
+    limit: number = 10
+  ): Promise<
+    Array<{
+      threadId: string;
+      title: string;
+      requests: number;
+      totalTokens: number;
+      totalCost: number;
+    }>
+  > {
+    const params = new URLSearchParams({
+      days: days.toString(),
+      limit: limit.toString(),
+    });
+
+    const response = await this.authFetch(`/api/analytics/threads?${params}`);
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to fetch thread spend');
+    }
+
+    return data;
+  }
+
+  /**
+   * Get latency percentiles and error rates per model, plus the most common errors
+   * Percentiles are latency bucket bounds in milliseconds
+   */
+  async getPerformanceStats(days: number = 30): Promise<{
+    models: Array<{
+      modelId: string;
+      modelName: string;
+      requests: number;
+      errorCount: number;
+      errorRate: number;
+      timeToFirstToken: { p50: number; p95: number } | null;
+      latency: { p50: number; p95: number } | null;
+    }>;
+    totalRequests: number;
+    totalErrors: number;
+    errorRate: number;
+    topErrors: Array<{ message: string; count: number }>;
+  }> {
+    const params = new URLSearchParams({
+      days: days.toString(),
+    });
+
+    const response = await this.authFetch(`/api/analytics/performance?${params}`);
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to fetch performance stats');
+    }
+
+    return data;
+  }
+
+  /**
+   * Get calls and failures per tool, most used first
+   */
+  async getToolUsage(days: number = 30): Promise<
+    Array<{
+      toolName: string;
+      calls: number;
+      failures: number;
+      failureRate: number;
+      scrapes: number;
+    }>
+  > {
+    const params = new URLSearchParams({
+      days: days.toString(),
+    });
+
+    const response = await this.authFetch(`/api/analytics/tools?${params}`);
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to fetch tool usage');
+    }
+
+    return data.tools;
+  }
+
   /**
    * Delete a thread and all its messages
    */
-  async deleteThread(
-    clerkId: string,
-    threadId: string
-  ): Promise<{
+  async deleteThread(threadId: string): Promise<{
     message: string;
     deletedThreadId: string;
     deletedMessagesCount: number;
   }> {
-    const params = new URLSearchParams({
-      clerkId,
-    });
-
-    const response = await fetch(`${this.baseUrl}/api/chat/threads/${threadId}?${params}`, {
+    const response = await this.authFetch(`/api/chat/threads/${threadId}`, {
       method: 'DELETE',
     });
 
@@ -470,7 +855,6 @@ class ChatAPI {
    * Update a thread's title
    */
   async updateThreadTitle(
-    clerkId: string,
     threadId: string,
     title: string
   ): Promise<{
@@ -478,11 +862,7 @@ class ChatAPI {
     threadId: string;
     title: string;
   }> {
-    const params = new URLSearchParams({
-      clerkId,
-    });
-
-    const response = await fetch(`${this.baseUrl}/api/chat/threads/${threadId}?${params}`, {
+    const response = await this.authFetch(`/api/chat/threads/${threadId}`, {
       method: 'PUT',
       headers: {
         'Content-Type': 'application/json',
@@ -499,21 +879,44 @@ class ChatAPI {
     return data;
   }
 
+  /**
+   * Update a thread's settings (merged with the saved settings)
+   */
+  async updateThreadSettings(
+    threadId: string,
+    settings: ThreadSettings
+  ): Promise<{
+    message: string;
+    threadId: string;
+    settings: ThreadSettings;
+  }> {
+    const response = await this.authFetch(`/api/chat/threads/${threadId}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ settings }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to update thread settings');
+    }
+
+    return data;
+  }
+
   /**
    * Update/edit a message
    */
-  async updateMessage(
-    clerkId: string,
-    messageId: string,
-    content: MessageContent
-  ): Promise<{ success: boolean }> {
-    const response = await fetch(`${this.baseUrl}/api/chat/messages/${messageId}`, {
+  async updateMessage(messageId: string, content: MessageContent): Promise<{ success: boolean }> {
+    const response = await this.authFetch(`/api/chat/messages/${messageId}`, {
       method: 'PUT',
       headers: {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        clerkId,
         content,
       }),
     });
@@ -530,15 +933,9 @@ class ChatAPI {
   /**
    * Delete a single message
    */
-  async deleteMessage(clerkId: string, messageId: string): Promise<{ success: boolean }> {
-    const response = await fetch(`${this.baseUrl}/api/chat/messages/${messageId}`, {
+  async deleteMessage(messageId: string): Promise<{ success: boolean }> {
+    const response = await this.authFetch(`/api/chat/messages/${messageId}`, {
       method: 'DELETE',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        clerkId,
-      }),
     });
 
     const data = await response.json();
@@ -554,20 +951,13 @@ class ChatAPI {
    * Delete messages from a specific index onwards (for retry operations)
    */
   async deleteMessagesFromIndex(
-    clerkId: string,
     threadId: string,
     fromIndex: number
   ): Promise<{ success: boolean; deletedCount: number }> {
-    const response = await fetch(
-      `${this.baseUrl}/api/chat/bulk-delete-messages/${threadId}/from/${fromIndex}`,
+    const response = await this.authFetch(
+      `/api/chat/bulk-delete-messages/${threadId}/from/${fromIndex}`,
       {
         method: 'DELETE',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          clerkId,
-        }),
       }
     );
 
@@ -579,6 +969,372 @@ class ChatAPI {
 
     return data;
   }
+
+  /**
+   * Get the user's personas
+   */
+  async getPersonas(): Promise<{ personas: Persona[] }> {
+    const response = await this.authFetch('/api/personas');
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to fetch personas');
+    }
+
+    return data;
+  }
+
+  /**
+   * Create a persona
+   */
+  async createPersona(persona: PersonaInput): Promise<Persona> {
+    const response = await this.authFetch('/api/personas', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(persona),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to create persona');
+    }
+
+    return data;
+  }
+
+  /**
+   * Update a persona
+   */
+  async updatePersona(personaId: string, updates: PersonaInput): Promise<Persona> {
+    const response = await this.authFetch(`/api/personas/${personaId}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(updates),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to update persona');
+    }
+
+    return data;
+  }
+
+  /**
+   * Delete a persona
+   */
+  async deletePersona(personaId: string): Promise<{ message: string; deletedPersonaId: string }> {
+    const response = await this.authFetch(`/api/personas/${personaId}`, {
+      method: 'DELETE',
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to delete persona');
+    }
+
+    return data;
+  }
+
+  /**
+   * Get user settings and the search providers available to pick from
+   */
+  async getSettings(): Promise<UserSettings> {
+    const response = await this.authFetch('/api/settings');
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to fetch settings');
+    }
+
+    return data;
+  }
+
+  /**
+   * Update user settings; pass null to clear the preferred search provider
+   */
+  async updateSettings(settings: {
+    searchProvider?: SearchProviderId | null;
+    enabledTools?: string[];
+  }): Promise<{ searchProvider: SearchProviderId | null; enabledTools: string[] }> {
+    const response = await this.authFetch('/api/settings', {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(settings),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to update settings');
+    }
+
+    return data;
+  }
+
+  /**
+   * List the tools models can call, with the user's settings for each
+   */
+  async getTools(): Promise<{ tools: ToolInfo[]; enabledTools: string[] }> {
+    const response = await this.authFetch('/api/tools');
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to fetch tools');
+    }
+
+    return data;
+  }
+
+  /**
+   * Save some or all of a tool's settings
+   */
+  async updateToolSettings(
+    toolId: string,
+    settings: Record<string, ToolSettingValue>
+  ): Promise<ToolInfo> {
+    const response = await this.authFetch(`/api/tools/${toolId}/settings`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ settings }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to update tool settings');
+    }
+
+    return data.tool;
+  }
+
+  /**
+   * List provider API keys (hints only, never the keys themselves)
+   */
+  async getApiKeys(): Promise<{ keys: ProviderApiKey[] }> {
+    const response = await this.authFetch('/api/keys');
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to fetch API keys');
+    }
+
+    return data;
+  }
+
+  /**
+   * Save a provider API key; the server validates it with the provider first
+   */
+  async saveApiKey(
+    provider: ApiKeyProvider,
+    key: string
+  ): Promise<{ provider: ApiKeyProvider; keyHint: string; updatedAt: number }> {
+    const response = await this.authFetch(`/api/keys/${provider}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ key }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to save API key');
+    }
+
+    return data;
+  }
+
+  /**
+   * Remove a provider API key
+   */
+  async deleteApiKey(
+    provider: ApiKeyProvider
+  ): Promise<{ message: string; deletedProvider: ApiKeyProvider }> {
+    const response = await this.authFetch(`/api/keys/${provider}`, {
+      method: 'DELETE',
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to delete API key');
+    }
+
+    return data;
+  }
+
+  /**
+   * List personal access tokens
+   */
+  async getApiTokens(): Promise<{ tokens: ApiToken[] }> {
+    const response = await this.authFetch('/api/tokens');
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to fetch API tokens');
+    }
+
+    return data;
+  }
+
+  /**
+   * Create a personal access token; the returned token is never shown again
+   */
+  async createApiToken(input: {
+    name: string;
+    scopes: ApiTokenScope[];
+    expiresInDays?: number;
+  }): Promise<ApiToken & { token: string }> {
+    const response = await this.authFetch('/api/tokens', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(input),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to create API token');
+    }
+
+    return data;
+  }
+
+  /**
+   * Revoke a personal access token
+   */
+  async revokeApiToken(tokenId: string): Promise<{ message: string; revokedTokenId: string }> {
+    const response = await this.authFetch(`/api/tokens/${tokenId}`, {
+      method: 'DELETE',
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to revoke API token');
+    }
+
+    return data;
+  }
+
+  /**
+   * List the user's MCP servers
+   */
+  async getMcpServers(): Promise<{ servers: McpServer[] }> {
+    const response = await this.authFetch('/api/mcp-servers');
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to fetch MCP servers');
+    }
+
+    return data;
+  }
+
+  /**
+   * Register an MCP server; its tools are offered in chats while it is enabled
+   */
+  async createMcpServer(input: {
+    name: string;
+    url: string;
+    transport?: McpTransport;
+    authToken?: string;
+  }): Promise<McpServer> {
+    const response = await this.authFetch('/api/mcp-servers', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(input),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to create MCP server');
+    }
+
+    return data;
+  }
+
+  /**
+   * Update an MCP server; pass a null authToken to remove the saved one
+   */
+  async updateMcpServer(
+    serverId: string,
+    updates: {
+      name?: string;
+      url?: string;
+      transport?: McpTransport;
+      enabled?: boolean;
+      authToken?: string | null;
+    }
+  ): Promise<McpServer> {
+    const response = await this.authFetch(`/api/mcp-servers/${serverId}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(updates),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to update MCP server');
+    }
+
+    return data;
+  }
+
+  /**
+   * Remove an MCP server
+   */
+  async deleteMcpServer(serverId: string): Promise<{ message: string; deletedServerId: string }> {
+    const response = await this.authFetch(`/api/mcp-servers/${serverId}`, {
+      method: 'DELETE',
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to delete MCP server');
+    }
+
+    return data;
+  }
+
+  /**
+   * Connect to an MCP server and list the tools models would see
+   */
+  async testMcpServer(serverId: string): Promise<{ tools: McpServerTool[] }> {
+    const response = await this.authFetch(`/api/mcp-servers/${serverId}/test`, {
+      method: 'POST',
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to reach MCP server');
+    }
+
+    return data;
+  }
 }
 
 // Export singleton instance
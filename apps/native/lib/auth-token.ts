@@ -0,0 +1,28 @@
+import { getClerkInstance } from '@clerk/clerk-expo';
+
+// Clerk JWT template whose issuer is configured in the backend's auth.config.ts
+export const CONVEX_JWT_TEMPLATE = 'convex';
+
+/**
+ * Get a fresh signed JWT for the current Clerk session
+ */
+export const getAuthToken = async (): Promise<string | null> => {
+  const clerk = getClerkInstance();
+  const token = await clerk?.session?.getToken({ template: CONVEX_JWT_TEMPLATE });
+  return token ?? null;
+};
+
+/**
+ * Wrap a fetch implementation so every request carries the bearer token.
+ * Used for `useChat`, which does not support async headers.
+ */
+export const withAuthFetch = (baseFetch: typeof globalThis.fetch): typeof globalThis.fetch => {
+  return async (input, init) => {
+    const token = await getAuthToken();
+    const headers = new Headers(init?.headers);
+    if (token) {
+      headers.set('Authorization', `Bearer ${token}`);
+    }
+    return baseFetch(input, { ...init, headers });
+  };
+};
@@ -0,0 +1,56 @@
+import type { Message as ChatMessage } from '@ai-sdk/react';
+import type { ContentPart, Message as APIMessage, MessageContent } from '@/lib/api/chat-api';
+
+type ChatMessagePart = NonNullable<ChatMessage['parts']>[number];
+
+/**
+ * useChat parts for a saved assistant message: its recorded tool calls, then its answer
+ * Keeps tool calls from earlier turns visible when a thread is reloaded
+ */
+export const getSavedMessageParts = (message: APIMessage): ChatMessage['parts'] => {
+  const toolCalls = message.metadata?.toolCalls;
+  if (message.role !== 'assistant' || !toolCalls?.length) return undefined;
+
+  const parts: ChatMessagePart[] = toolCalls.map(call => {
+    const toolInvocation = {
+      state: 'result' as const,
+      toolCallId: call.toolCallId,
+      toolName: call.toolName,
+      args: call.args,
+      // Calls cut off by a stop or an error were saved without a result
+      result: call.result ?? {
+        success: false,
+        error: call.error ?? 'The tool call did not finish',
+      },
+      durationMs: call.durationMs,
+    };
+    return { type: 'tool-invocation', toolInvocation };
+  });
+
+  if (typeof message.content === 'string' && message.content) {
+    parts.push({ type: 'text', text: message.content });
+  }
+  return parts;
+};
+
+/**
+ * What MessageRenderer should draw for a useChat message
+ * Messages with tool calls, live or rehydrated, are drawn from their parts so the calls show
+ */
+export const getRenderableContent = (message: ChatMessage): MessageContent => {
+  const parts = message.parts ?? [];
+  if (!parts.some(part => part.type === 'tool-invocation')) {
+    return message.content;
+  }
+
+  return parts.flatMap((part): ContentPart[] => {
+    switch (part.type) {
+      case 'text':
+        return part.text ? [{ type: 'text', text: part.text }] : [];
+      case 'tool-invocation':
+        return [{ type: 'tool-invocation', toolInvocation: part.toolInvocation }];
+      default:
+        return [];
+    }
+  });
+};
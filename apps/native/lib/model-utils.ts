@@ -6,8 +6,15 @@ export interface DisplayModel {
   name: string;
   provider: string;
   abilities: string[];
-  contextWindow?: number;
+  contextWindow: number;
+  maxOutputTokens: number;
+  inputPricePerMillion: number;
+  outputPricePerMillion: number;
+  supportedParameters: string[];
+  deprecationDate?: string;
+  description?: string;
   supportsVision: boolean;
+  supportsPdf: boolean;
   supportsTools: boolean;
 }
 
@@ -36,7 +43,13 @@ export async function fetchModels(): Promise<DisplayModel[]> {
           name: string;
           provider: string;
           abilities: string[];
-          contextWindow?: number;
+          contextWindow: number;
+          maxOutputTokens: number;
+          inputPricePerMillion: number;
+          outputPricePerMillion: number;
+          supportedParameters?: string[];
+          deprecationDate?: string;
+          description?: string;
         }[]
       ).map(m => {
         const abilities = m.abilities || [];
@@ -47,7 +60,14 @@ export async function fetchModels(): Promise<DisplayModel[]> {
           provider: m.provider,
           abilities,
           contextWindow: m.contextWindow,
+          maxOutputTokens: m.maxOutputTokens,
+          inputPricePerMillion: m.inputPricePerMillion ?? 0,
+          outputPricePerMillion: m.outputPricePerMillion ?? 0,
+          supportedParameters: m.supportedParameters || [],
+          deprecationDate: m.deprecationDate,
+          description: m.description,
           supportsVision: abilities.includes('vision'),
+          supportsPdf: abilities.includes('pdf'),
           supportsTools: abilities.includes('function_calling'),
         } as DisplayModel;
       });
@@ -194,7 +214,7 @@ export function validateModelForPDFs(
     };
   }
 
-  if (!model.supportsVision) {
+  if (!model.supportsPdf) {
     return {
       canProceed: false,
       warning: `${model.name} doesn't support PDF documents`,
@@ -229,11 +249,11 @@ export function validateModelForAttachments(
     };
   }
 
-  if (!model.supportsVision) {
-    const attachmentTypes = [];
-    if (hasImages) attachmentTypes.push('images');
-    if (hasPDFs) attachmentTypes.push('PDF documents');
+  const attachmentTypes = [];
+  if (hasImages && !model.supportsVision) attachmentTypes.push('images');
+  if (hasPDFs && !model.supportsPdf) attachmentTypes.push('PDF documents');
 
+  if (attachmentTypes.length > 0) {
     return {
       canProceed: false,
       warning: `${model.name} doesn't support ${attachmentTypes.join(' or ')}`,
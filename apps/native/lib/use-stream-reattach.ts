@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Message } from '@ai-sdk/react';
+import { chatAPI, StreamReplay } from '@/lib/api/chat-api';
+
+const POLL_INTERVAL_MS = 1000;
+const MAX_CONSECUTIVE_FAILURES = 10;
+
+interface ReattachTarget {
+  streamId: string;
+  // Id of the assistant message the replayed text is written into
+  messageId: string;
+  text: string;
+  offset: number;
+}
+
+interface UseStreamReattachOptions {
+  setMessages: (messages: Message[] | ((messages: Message[]) => Message[])) => void;
+  onDone: (replay: StreamReplay | null) => void;
+}
+
+/**
+ * Follow a server-side generation by polling the stream replay endpoint.
+ * Used when the live response was lost (network drop, app backgrounded)
+ * or when a thread is reopened while its answer is still being generated.
+ */
+export function useStreamReattach({ setMessages, onDone }: UseStreamReattachOptions) {
+  const [isReattaching, setIsReattaching] = useState(false);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const runRef = useRef(0);
+  const targetRef = useRef<ReattachTarget | null>(null);
+  const onDoneRef = useRef(onDone);
+  onDoneRef.current = onDone;
+
+  const stopReattach = useCallback(() => {
+    runRef.current += 1;
+    targetRef.current = null;
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    setIsReattaching(false);
+  }, []);
+
+  const reattach = useCallback(
+    (target: ReattachTarget) => {
+      stopReattach();
+      targetRef.current = target;
+      const run = runRef.current;
+      let { text, offset } = target;
+      let failures = 0;
+
+      // Write the replayed text into the assistant message, creating it if needed
+      const renderText = () => {
+        setMessages(current => {
+          const existing = current.some(message => message.id === target.messageId);
+          if (existing) {
+            return current.map(message =>
+              message.id === target.messageId
+                ? { ...message, content: text, parts: undefined }
+                : message
+            );
+          }
+          return [...current, { id: target.messageId, role: 'assistant', content: text }];
+        });
+      };
+
+      const poll = async () => {
+        if (run !== runRef.current) return;
+
+        try {
+          const replay = await chatAPI.getStream(target.streamId, offset);
+          if (run !== runRef.current) return;
+
+          failures = 0;
+          // The server can lag behind what the live stream already showed
+          if (replay.offset > offset) {
+            text += replay.text;
+            offset = replay.offset;
+            renderText();
+          }
+
+          if (replay.done) {
+            stopReattach();
+            onDoneRef.current(replay);
+            return;
+          }
+        } catch (error) {
+          console.warn('Stream reattach poll failed:', error);
+          failures += 1;
+          if (failures >= MAX_CONSECUTIVE_FAILURES) {
+            stopReattach();
+            onDoneRef.current(null);
+            return;
+          }
+        }
+
+        timerRef.current = setTimeout(poll, POLL_INTERVAL_MS);
+      };
+
+      setIsReattaching(true);
+      if (text) {
+        renderText();
+      }
+      poll();
+    },
+    [setMessages, stopReattach]
+  );
+
+  // Stop the generation being followed; polling continues until the server saves what it has
+  const cancelReattach = useCallback(() => {
+    const target = targetRef.current;
+    if (!target) return;
+
+    chatAPI.cancelStream(target.streamId).catch(error => {
+      console.warn('Failed to cancel stream:', error);
+      stopReattach();
+    });
+  }, [stopReattach]);
+
+  // Stop polling when the screen unmounts
+  useEffect(() => stopReattach, [stopReattach]);
+
+  return { reattach, stopReattach, cancelReattach, isReattaching };
+}
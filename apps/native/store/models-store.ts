@@ -9,8 +9,17 @@ export interface DisplayModel {
   name: string;
   provider: string;
   abilities: string[];
-  contextWindow?: number;
+  contextWindow: number;
+  maxOutputTokens: number;
+  // USD per million tokens
+  inputPricePerMillion: number;
+  outputPricePerMillion: number;
+  supportedParameters: string[];
+  // YYYY-MM-DD the provider retires the model
+  deprecationDate?: string;
+  description?: string;
   supportsVision: boolean;
+  supportsPdf: boolean;
   supportsTools: boolean;
 }
 
@@ -19,7 +28,13 @@ interface BackendModel {
   name: string;
   provider: string;
   abilities: string[];
-  contextWindow?: number;
+  contextWindow: number;
+  maxOutputTokens: number;
+  inputPricePerMillion: number;
+  outputPricePerMillion: number;
+  supportedParameters?: string[];
+  deprecationDate?: string;
+  description?: string;
 }
 
 interface ModelsState {
@@ -40,6 +55,32 @@ interface ModelsState {
 
 const CACHE_DURATION = 5 * 60 * 1000;
 
+// Providers bill PDFs per page (~258 tokens); pages are estimated from the file size
+const TOKENS_PER_PDF_PAGE = 258;
+const AVERAGE_PDF_PAGE_BYTES = 50 * 1024;
+
+/**
+ * Whether the model is past its retirement date
+ */
+export const isModelDeprecated = (model: DisplayModel, now = Date.now()) =>
+  !!model.deprecationDate && new Date(model.deprecationDate).getTime() <= now;
+
+/**
+ * Compact input/output price label, e.g. "$0.30 / $2.50 per 1M"
+ */
+export const formatModelPrice = (model: DisplayModel) => {
+  if (model.inputPricePerMillion === 0 && model.outputPricePerMillion === 0) {
+    return 'Free';
+  }
+  return `$${model.inputPricePerMillion.toFixed(2)} / $${model.outputPricePerMillion.toFixed(2)} per 1M`;
+};
+
+/**
+ * Compact context window label, e.g. "128K" or "1M"
+ */
+export const formatContextWindow = (tokens: number) =>
+  tokens >= 1000000 ? `${Math.round(tokens / 1048576)}M` : `${Math.round(tokens / 1024)}K`;
+
 export const useModelsStore = create<ModelsState>()(
   persist(
     (set, get) => ({
@@ -78,7 +119,14 @@ export const useModelsStore = create<ModelsState>()(
               provider: m.provider,
               abilities,
               contextWindow: m.contextWindow,
+              maxOutputTokens: m.maxOutputTokens,
+              inputPricePerMillion: m.inputPricePerMillion ?? 0,
+              outputPricePerMillion: m.outputPricePerMillion ?? 0,
+              supportedParameters: m.supportedParameters || [],
+              deprecationDate: m.deprecationDate,
+              description: m.description,
               supportsVision: abilities.includes('vision'),
+              supportsPdf: abilities.includes('pdf'),
               supportsTools: abilities.includes('function_calling'),
             } as DisplayModel;
           });
@@ -146,7 +194,8 @@ export const useModelsStore = create<ModelsState>()(
         models: state.models,
         lastFetchTime: state.lastFetchTime,
       }),
-      version: 1,
+      // Bumped when DisplayModel changes so stale cached models are refetched
+      version: 2,
     }
   )
 );
@@ -222,7 +271,7 @@ export const validateModelForPDFs = (
     };
   }
 
-  if (!model.supportsVision) {
+  if (!model.supportsPdf) {
     return {
       canProceed: false,
       warning: `${model.name} doesn't support PDF documents`,
@@ -236,7 +285,8 @@ export const validateModelForPDFs = (
 export const validateModelForAttachments = (
   modelKey: string | null,
   hasImages: boolean,
-  hasPDFs: boolean
+  hasPDFs: boolean,
+  pdfBytes: number = 0
 ): {
   canProceed: boolean;
   warning?: string;
@@ -264,15 +314,26 @@ export const validateModelForAttachments = (
     };
   }
 
-  if (!model.supportsVision) {
-    const attachmentTypes = [];
-    if (hasImages) attachmentTypes.push('images');
-    if (hasPDFs) attachmentTypes.push('PDF documents');
+  const attachmentTypes = [];
+  if (hasImages && !model.supportsVision) attachmentTypes.push('images');
+  if (hasPDFs && !model.supportsPdf) attachmentTypes.push('PDF documents');
 
+  if (attachmentTypes.length > 0) {
     return {
       canProceed: false,
       warning: `${model.name} doesn't support ${attachmentTypes.join(' or ')}`,
-      suggestion: 'Switch to a vision-capable model like GPT-4V or Gemini Pro Vision',
+      suggestion: hasPDFs
+        ? 'Switch to a model that reads PDFs like Gemini 2.5 Flash'
+        : 'Switch to a vision-capable model like Gemini 2.5 Flash or Pixtral Large',
+    };
+  }
+
+  const estimatedPdfTokens = Math.ceil(pdfBytes / AVERAGE_PDF_PAGE_BYTES) * TOKENS_PER_PDF_PAGE;
+  if (estimatedPdfTokens > model.contextWindow) {
+    return {
+      canProceed: false,
+      warning: `These PDFs are too large for ${model.name}'s ${formatContextWindow(model.contextWindow)} token context window`,
+      suggestion: 'Remove some PDFs or switch to a model with a larger context window',
     };
   }
 
@@ -0,0 +1,44 @@
+import { create } from 'zustand';
+import { chatAPI, Persona } from '@/lib/api/chat-api';
+
+interface PersonasState {
+  personas: Persona[];
+  isLoading: boolean;
+  error: string | null;
+
+  fetchPersonas: () => Promise<void>;
+  getPersonaById: (personaId: string | null | undefined) => Persona | null;
+  clearError: () => void;
+}
+
+// Personas belong to the signed-in user, so they are fetched fresh instead of persisted
+export const usePersonasStore = create<PersonasState>()((set, get) => ({
+  personas: [],
+  isLoading: false,
+  error: null,
+
+  fetchPersonas: async () => {
+    try {
+      set({ isLoading: true, error: null });
+      const { personas } = await chatAPI.getPersonas();
+      set({ personas, isLoading: false });
+    } catch (error) {
+      console.error('Failed to fetch personas:', error);
+      set({
+        isLoading: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch personas',
+      });
+    }
+  },
+
+  getPersonaById: personaId => {
+    if (!personaId) {
+      return null;
+    }
+    return get().personas.find(persona => persona._id === personaId) || null;
+  },
+
+  clearError: () => {
+    set({ error: null });
+  },
+}));
@@ -0,0 +1,70 @@
+import { create } from 'zustand';
+import { chatAPI, ToolInfo, ToolSettingValue } from '@/lib/api/chat-api';
+
+interface ToolsState {
+  tools: ToolInfo[];
+  // Tools the composer sends with each message, saved to the user's settings
+  enabledTools: string[];
+  isLoading: boolean;
+  error: string | null;
+
+  fetchTools: () => Promise<void>;
+  setEnabledTools: (enabledTools: string[]) => Promise<void>;
+  toggleTool: (toolId: string) => Promise<void>;
+  updateToolSettings: (toolId: string, settings: Record<string, ToolSettingValue>) => Promise<void>;
+  clearError: () => void;
+}
+
+// Tool settings belong to the signed-in user, so they are fetched fresh instead of persisted
+export const useToolsStore = create<ToolsState>()((set, get) => ({
+  tools: [],
+  enabledTools: [],
+  isLoading: false,
+  error: null,
+
+  fetchTools: async () => {
+    try {
+      set({ isLoading: true, error: null });
+      const { tools, enabledTools } = await chatAPI.getTools();
+      set({ tools, enabledTools, isLoading: false });
+    } catch (error) {
+      console.error('Failed to fetch tools:', error);
+      set({
+        isLoading: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch tools',
+      });
+    }
+  },
+
+  setEnabledTools: async enabledTools => {
+    const previous = get().enabledTools;
+    set({ enabledTools });
+    try {
+      await chatAPI.updateSettings({ enabledTools });
+    } catch (error) {
+      console.error('Failed to save enabled tools:', error);
+      set({
+        enabledTools: previous,
+        error: error instanceof Error ? error.message : 'Failed to save enabled tools',
+      });
+    }
+  },
+
+  toggleTool: async toolId => {
+    const { enabledTools, setEnabledTools } = get();
+    await setEnabledTools(
+      enabledTools.includes(toolId)
+        ? enabledTools.filter(id => id !== toolId)
+        : [...enabledTools, toolId]
+    );
+  },
+
+  updateToolSettings: async (toolId, settings) => {
+    const tool = await chatAPI.updateToolSettings(toolId, settings);
+    set({ tools: get().tools.map(item => (item.id === toolId ? tool : item)) });
+  },
+
+  clearError: () => {
+    set({ error: null });
+  },
+}));
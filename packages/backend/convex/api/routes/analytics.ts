@@ -1,40 +1,23 @@
-import { httpAction } from '../../_generated/server';
-import { api } from '../../_generated/api';
+import { internal } from '../../_generated/api';
 import {
-  getUserIdFromClerkId,
+  withScopedAuth,
   createErrorResponse,
   createSuccessResponse,
 } from '../../services/middleware';
 
 /**
  * Get usage analytics for a user
- * GET /api/analytics/usage?clerkId=xxx&days=30
+ * GET /api/analytics/usage?days=30
  */
-export const getUserUsage = httpAction(async (ctx, request) => {
+export const getUserUsage = withScopedAuth('analytics:read', async (ctx, request, user) => {
   try {
     const url = new URL(request.url);
-    const clerkId = url.searchParams.get('clerkId');
-
-    // Get internal userId from clerkId
-    if (!clerkId) {
-      return createErrorResponse('clerkId parameter is required', 400);
-    }
-
-    const userId = await getUserIdFromClerkId(ctx, clerkId);
-    if (!userId) {
-      return createErrorResponse('Invalid clerkId or user not found', 401);
-    }
 
     const days = Math.min(parseInt(url.searchParams.get('days') || '30'), 365);
 
-    const endDate = new Date();
-    const startDate = new Date(endDate.getTime() - days * 24 * 60 * 60 * 1000);
-
     // Get usage statistics from service
-    const usageStats = await ctx.runQuery(api.services.analytics_service.getUserUsageStats, {
-      clerkId,
-      startTimestamp: startDate.getTime(),
-      endTimestamp: endDate.getTime(),
+    const usageStats = await ctx.runQuery(internal.services.analytics_service.getUserUsageStats, {
+      userId: user._id,
       days,
     });
 
@@ -51,38 +34,113 @@ export const getUserUsage = httpAction(async (ctx, request) => {
 
 /**
  * Get model usage breakdown
- * GET /api/analytics/models?clerkId=xxx&days=30
+ * GET /api/analytics/models?days=30
  */
-export const getModelUsage = httpAction(async (ctx, request) => {
+export const getModelUsage = withScopedAuth('analytics:read', async (ctx, request, user) => {
   try {
     const url = new URL(request.url);
-    const clerkId = url.searchParams.get('clerkId');
 
-    // Get internal userId from clerkId
-    if (!clerkId) {
-      return createErrorResponse('clerkId parameter is required', 400);
-    }
+    const days = Math.min(parseInt(url.searchParams.get('days') || '30'), 365);
 
-    const userId = await getUserIdFromClerkId(ctx, clerkId);
-    if (!userId) {
-      return createErrorResponse('Invalid clerkId or user not found', 401);
-    }
+    // Get model usage statistics from service
+    const modelUsage = await ctx.runQuery(internal.services.analytics_service.getModelUsageStats, {
+      userId: user._id,
+      days,
+    });
+
+    return createSuccessResponse(modelUsage);
+  } catch (error) {
+    console.error('Get model usage error:', error);
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'Internal server error',
+      500,
+      'analytics_error'
+    );
+  }
+});
+
+/**
+ * Get spend per thread, most expensive first
+ * GET /api/analytics/threads?days=30&limit=10
+ */
+export const getThreadSpend = withScopedAuth('analytics:read', async (ctx, request, user) => {
+  try {
+    const url = new URL(request.url);
 
     const days = Math.min(parseInt(url.searchParams.get('days') || '30'), 365);
+    const limit = Math.min(Math.max(parseInt(url.searchParams.get('limit') || '10') || 10, 1), 50);
 
     const endDate = new Date();
     const startDate = new Date(endDate.getTime() - days * 24 * 60 * 60 * 1000);
 
-    // Get model usage statistics from service
-    const modelUsage = await ctx.runQuery(api.services.analytics_service.getModelUsageStats, {
-      clerkId,
-      startTimestamp: startDate.getTime(),
-      endTimestamp: endDate.getTime(),
+    const threadSpend = await ctx.runQuery(
+      internal.services.analytics_service.getThreadSpendStats,
+      {
+        userId: user._id,
+        startTimestamp: startDate.getTime(),
+        endTimestamp: endDate.getTime(),
+        limit,
+      }
+    );
+
+    return createSuccessResponse(threadSpend);
+  } catch (error) {
+    console.error('Get thread spend error:', error);
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'Internal server error',
+      500,
+      'analytics_error'
+    );
+  }
+});
+
+/**
+ * Get latency percentiles, error rates and the most common errors
+ * GET /api/analytics/performance?days=30
+ */
+export const getPerformance = withScopedAuth('analytics:read', async (ctx, request, user) => {
+  try {
+    const url = new URL(request.url);
+
+    const days = Math.min(parseInt(url.searchParams.get('days') || '30'), 365);
+
+    const performance = await ctx.runQuery(
+      internal.services.analytics_service.getPerformanceStats,
+      {
+        userId: user._id,
+        days,
+      }
+    );
+
+    return createSuccessResponse(performance);
+  } catch (error) {
+    console.error('Get performance stats error:', error);
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'Internal server error',
+      500,
+      'analytics_error'
+    );
+  }
+});
+
+/**
+ * Get calls and failures per tool
+ * GET /api/analytics/tools?days=30
+ */
+export const getToolUsage = withScopedAuth('analytics:read', async (ctx, request, user) => {
+  try {
+    const url = new URL(request.url);
+
+    const days = Math.min(parseInt(url.searchParams.get('days') || '30'), 365);
+
+    const tools = await ctx.runQuery(internal.services.analytics_service.getToolUsageStats, {
+      userId: user._id,
+      days,
     });
 
-    return createSuccessResponse(modelUsage);
+    return createSuccessResponse({ tools });
   } catch (error) {
-    console.error('Get model usage error:', error);
+    console.error('Get tool usage error:', error);
     return createErrorResponse(
       error instanceof Error ? error.message : 'Internal server error',
       500,
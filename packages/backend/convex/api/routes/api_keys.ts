@@ -0,0 +1,127 @@
+import { internal } from '../../_generated/api';
+import { ConvexError } from 'convex/values';
+import { encryptSecret } from '../../lib/crypto';
+import {
+  API_KEY_PROVIDERS,
+  API_KEY_PROVIDER_NAMES,
+  getServerKey,
+  isApiKeyProvider,
+  validateProviderKey,
+} from '../../lib/provider_keys';
+import {
+  withAuth,
+  parseRequestBody,
+  createErrorResponse,
+  createSuccessResponse,
+} from '../../services/middleware';
+
+// Characters of a saved key echoed back so users can tell keys apart
+const KEY_HINT_LENGTH = 4;
+
+/**
+ * Read the provider from /api/keys/<provider>
+ */
+const getProviderFromUrl = (request: Request) => new URL(request.url).pathname.split('/')[3];
+
+/**
+ * GET /api/keys
+ * List every provider with the user's saved key (hint only) and whether the server key applies
+ */
+export const getApiKeys = withAuth(async (ctx, _request, user) => {
+  try {
+    const stored = await ctx.runQuery(internal.services.api_key_service.getUserApiKeys, {
+      userId: user._id,
+    });
+
+    const keys = API_KEY_PROVIDERS.map(provider => {
+      const record = stored.find(key => key.provider === provider);
+      return {
+        provider,
+        name: API_KEY_PROVIDER_NAMES[provider],
+        hasKey: !!record,
+        keyHint: record?.keyHint ?? null,
+        lastValidatedAt: record?.lastValidatedAt ?? null,
+        updatedAt: record?.updatedAt ?? null,
+        serverKeyAvailable: !!getServerKey(provider),
+      };
+    });
+
+    return createSuccessResponse({ keys });
+  } catch (error) {
+    console.error('Get API keys error:', error);
+    return createErrorResponse('Failed to fetch API keys', 500);
+  }
+});
+
+/**
+ * PUT /api/keys/:provider
+ * Validate a key with the provider, then store it encrypted
+ */
+export const saveApiKey = withAuth(async (ctx, request, user) => {
+  try {
+    const provider = getProviderFromUrl(request);
+    if (!isApiKeyProvider(provider)) {
+      return createErrorResponse(`provider must be one of: ${API_KEY_PROVIDERS.join(', ')}`, 400);
+    }
+
+    const body = await parseRequestBody(request);
+    const key = typeof body?.key === 'string' ? body.key.trim() : '';
+    if (!key) {
+      return createErrorResponse('key is required', 400);
+    }
+
+    const validationError = await validateProviderKey(provider, key);
+    if (validationError) {
+      return createErrorResponse(validationError, 400, 'invalid_api_key');
+    }
+
+    const { ciphertext, iv } = await encryptSecret(key);
+    const saved = await ctx.runMutation(internal.services.api_key_service.saveUserApiKey, {
+      userId: user._id,
+      provider,
+      encryptedKey: ciphertext,
+      iv,
+      keyHint: key.slice(-KEY_HINT_LENGTH),
+    });
+
+    return createSuccessResponse(saved);
+  } catch (error) {
+    console.error('Save API key error:', error);
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'Failed to save API key',
+      500
+    );
+  }
+});
+
+/**
+ * DELETE /api/keys/:provider
+ * Remove the user's key for a provider
+ */
+export const deleteApiKey = withAuth(async (ctx, request, user) => {
+  try {
+    const provider = getProviderFromUrl(request);
+    if (!isApiKeyProvider(provider)) {
+      return createErrorResponse(`provider must be one of: ${API_KEY_PROVIDERS.join(', ')}`, 400);
+    }
+
+    const result = await ctx.runMutation(internal.services.api_key_service.deleteUserApiKey, {
+      userId: user._id,
+      provider,
+    });
+
+    return createSuccessResponse({
+      message: 'API key deleted successfully',
+      deletedProvider: result.provider,
+    });
+  } catch (error) {
+    console.error('Delete API key error:', error);
+    if (error instanceof ConvexError && error.message.includes('access denied')) {
+      return createErrorResponse('API key not found or access denied', 404);
+    }
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'Failed to delete API key',
+      500
+    );
+  }
+});
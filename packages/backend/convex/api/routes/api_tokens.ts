@@ -0,0 +1,143 @@
+import { internal } from '../../_generated/api';
+import { ConvexError } from 'convex/values';
+import { generateSecretToken, hashSecret } from '../../lib/crypto';
+import {
+  API_TOKEN_PREFIX,
+  type ApiTokenScope,
+  withAuth,
+  parseRequestBody,
+  createErrorResponse,
+  createSuccessResponse,
+} from '../../services/middleware';
+
+const API_TOKEN_SCOPES: ApiTokenScope[] = ['threads:read', 'chat', 'analytics:read'];
+
+// Characters of a token kept in plain text so users can tell tokens apart
+const TOKEN_PREFIX_LENGTH = 12;
+
+// Longest lifetime a token can be given; leaving it out means no expiry
+const MAX_EXPIRY_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type TokenInput = {
+  name: string;
+  scopes: ApiTokenScope[];
+  expiresAt?: number;
+};
+
+/**
+ * Validate token fields from a request body
+ * Returns an error message string when the input is invalid
+ */
+const parseTokenInput = (raw: any): TokenInput | string => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return 'Request body must be an object';
+  }
+
+  if (typeof raw.name !== 'string') {
+    return 'name is required';
+  }
+
+  if (
+    !Array.isArray(raw.scopes) ||
+    raw.scopes.length === 0 ||
+    raw.scopes.some((scope: unknown) => !(API_TOKEN_SCOPES as unknown[]).includes(scope))
+  ) {
+    return `scopes must be a non-empty list of: ${API_TOKEN_SCOPES.join(', ')}`;
+  }
+
+  let expiresAt: number | undefined;
+  if (raw.expiresInDays !== undefined && raw.expiresInDays !== null) {
+    if (
+      !Number.isInteger(raw.expiresInDays) ||
+      raw.expiresInDays < 1 ||
+      raw.expiresInDays > MAX_EXPIRY_DAYS
+    ) {
+      return `expiresInDays must be a whole number between 1 and ${MAX_EXPIRY_DAYS}`;
+    }
+    expiresAt = Date.now() + raw.expiresInDays * DAY_MS;
+  }
+
+  return { name: raw.name, scopes: raw.scopes, expiresAt };
+};
+
+/**
+ * GET /api/tokens
+ * List the user's personal access tokens (prefixes only)
+ */
+export const getApiTokens = withAuth(async (ctx, _request, user) => {
+  try {
+    const tokens = await ctx.runQuery(internal.services.api_token_service.getUserApiTokens, {
+      userId: user._id,
+    });
+
+    return createSuccessResponse({ tokens });
+  } catch (error) {
+    console.error('Get API tokens error:', error);
+    return createErrorResponse('Failed to fetch API tokens', 500);
+  }
+});
+
+/**
+ * POST /api/tokens
+ * Mint a personal access token; the raw token is only returned in this response
+ */
+export const createApiToken = withAuth(async (ctx, request, user) => {
+  try {
+    const input = parseTokenInput(await parseRequestBody(request));
+    if (typeof input === 'string') {
+      return createErrorResponse(input, 400);
+    }
+
+    const token = generateSecretToken(API_TOKEN_PREFIX);
+    const created = await ctx.runMutation(internal.services.api_token_service.createApiToken, {
+      ...input,
+      userId: user._id,
+      tokenHash: await hashSecret(token),
+      tokenPrefix: token.slice(0, TOKEN_PREFIX_LENGTH),
+    });
+
+    return createSuccessResponse({ ...created, token }, 201);
+  } catch (error) {
+    console.error('Create API token error:', error);
+    if (
+      error instanceof ConvexError &&
+      (error.message.includes('empty') || error.message.includes('exceed'))
+    ) {
+      return createErrorResponse(error.message, 400);
+    }
+    return createErrorResponse('Failed to create API token', 500);
+  }
+});
+
+/**
+ * DELETE /api/tokens/:tokenId
+ * Revoke a personal access token
+ */
+export const revokeApiToken = withAuth(async (ctx, request, user) => {
+  try {
+    const url = new URL(request.url);
+    const tokenId = url.pathname.split('/')[3];
+
+    if (!tokenId) {
+      return createErrorResponse('Token ID is required', 400);
+    }
+
+    const result = await ctx.runMutation(internal.services.api_token_service.revokeApiToken, {
+      tokenId: tokenId as any,
+      userId: user._id,
+    });
+
+    return createSuccessResponse({
+      message: 'API token revoked successfully',
+      revokedTokenId: result.revokedTokenId,
+    });
+  } catch (error) {
+    console.error('Revoke API token error:', error);
+    if (error instanceof ConvexError && error.message.includes('access denied')) {
+      return createErrorResponse('API token not found or access denied', 404);
+    }
+    return createErrorResponse('Failed to revoke API token', 500);
+  }
+});
@@ -0,0 +1,250 @@
+import { internal } from '../../_generated/api';
+import type { Doc, Id } from '../../_generated/dataModel';
+import { ConvexError } from 'convex/values';
+import { encryptSecret } from '../../lib/crypto';
+import { listMcpServerTools, namespaceMcpTools } from '../../lib/tools/mcp';
+import {
+  withAuth,
+  parseRequestBody,
+  createErrorResponse,
+  createSuccessResponse,
+} from '../../services/middleware';
+
+const MCP_TRANSPORTS = ['http', 'sse'] as const;
+
+type McpServerInput = {
+  name?: string;
+  url?: string;
+  transport?: (typeof MCP_TRANSPORTS)[number];
+  enabled?: boolean;
+  // null removes the saved token
+  authToken?: string | null;
+};
+
+/**
+ * Validate MCP server fields from a request body
+ * Returns an error message string when the input is invalid
+ */
+const parseMcpServerInput = (raw: any): McpServerInput | string => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return 'Request body must be an object';
+  }
+
+  const input: McpServerInput = {};
+
+  for (const field of ['name', 'url'] as const) {
+    if (raw[field] !== undefined) {
+      if (typeof raw[field] !== 'string') {
+        return `${field} must be a string`;
+      }
+      input[field] = raw[field].trim();
+    }
+  }
+
+  if (raw.transport !== undefined) {
+    if (!MCP_TRANSPORTS.includes(raw.transport)) {
+      return `transport must be one of: ${MCP_TRANSPORTS.join(', ')}`;
+    }
+    input.transport = raw.transport;
+  }
+
+  if (raw.enabled !== undefined) {
+    if (typeof raw.enabled !== 'boolean') {
+      return 'enabled must be true or false';
+    }
+    input.enabled = raw.enabled;
+  }
+
+  if (raw.authToken !== undefined) {
+    if (raw.authToken !== null && typeof raw.authToken !== 'string') {
+      return 'authToken must be a string or null';
+    }
+    input.authToken = raw.authToken?.trim() || null;
+  }
+
+  return input;
+};
+
+/**
+ * An MCP server as returned to clients, without its token
+ */
+const toPublicServer = (server: Doc<'mcpServers'>) => ({
+  _id: server._id,
+  name: server.name,
+  url: server.url,
+  transport: server.transport,
+  enabled: server.enabled,
+  hasAuthToken: !!server.encryptedAuthToken,
+  createdAt: server.createdAt,
+  updatedAt: server.updatedAt,
+});
+
+/**
+ * Read the server ID from /api/mcp-servers/<serverId>[/test]
+ */
+const getServerIdFromUrl = (request: Request) =>
+  new URL(request.url).pathname.split('/')[3] as Id<'mcpServers'> | undefined;
+
+/**
+ * Map MCP server service errors to HTTP responses
+ */
+const handleMcpServerError = (error: unknown, fallbackMessage: string) => {
+  if (error instanceof ConvexError && error.message.includes('access denied')) {
+    return createErrorResponse('MCP server not found or access denied', 404);
+  }
+
+  if (error instanceof ConvexError) {
+    return createErrorResponse(error.message, 400);
+  }
+
+  return createErrorResponse(error instanceof Error ? error.message : fallbackMessage, 500);
+};
+
+/**
+ * GET /api/mcp-servers
+ * List the user's MCP servers
+ */
+export const getMcpServers = withAuth(async (ctx, _request, user) => {
+  try {
+    const servers = await ctx.runQuery(internal.services.mcp_server_service.getUserMcpServers, {
+      userId: user._id,
+    });
+
+    return createSuccessResponse({ servers: servers.map(toPublicServer) });
+  } catch (error) {
+    console.error('Get MCP servers error:', error);
+    return handleMcpServerError(error, 'Failed to fetch MCP servers');
+  }
+});
+
+/**
+ * POST /api/mcp-servers
+ * Register an MCP server; its tools are offered in chats while it is enabled
+ */
+export const createMcpServer = withAuth(async (ctx, request, user) => {
+  try {
+    const input = parseMcpServerInput(await parseRequestBody(request));
+    if (typeof input === 'string') {
+      return createErrorResponse(input, 400);
+    }
+
+    if (!input.name || !input.url) {
+      return createErrorResponse('name and url are required', 400);
+    }
+
+    const authToken = input.authToken ? await encryptSecret(input.authToken) : null;
+    const server = await ctx.runMutation(internal.services.mcp_server_service.createMcpServer, {
+      userId: user._id,
+      name: input.name,
+      url: input.url,
+      transport: input.transport ?? 'http',
+      ...(authToken && { encryptedAuthToken: authToken.ciphertext, authTokenIv: authToken.iv }),
+    });
+
+    return createSuccessResponse(toPublicServer(server!), 201);
+  } catch (error) {
+    console.error('Create MCP server error:', error);
+    return handleMcpServerError(error, 'Failed to create MCP server');
+  }
+});
+
+/**
+ * PUT /api/mcp-servers/:serverId
+ * Update an MCP server, e.g. to switch it off
+ */
+export const updateMcpServer = withAuth(async (ctx, request, user) => {
+  try {
+    const serverId = getServerIdFromUrl(request);
+    if (!serverId) {
+      return createErrorResponse('MCP server ID is required', 400);
+    }
+
+    const input = parseMcpServerInput(await parseRequestBody(request));
+    if (typeof input === 'string') {
+      return createErrorResponse(input, 400);
+    }
+
+    const { authToken, ...updates } = input;
+    const encrypted = authToken ? await encryptSecret(authToken) : null;
+    const server = await ctx.runMutation(internal.services.mcp_server_service.updateMcpServer, {
+      ...updates,
+      serverId,
+      userId: user._id,
+      ...(authToken !== undefined && {
+        authToken: encrypted
+          ? { encryptedAuthToken: encrypted.ciphertext, authTokenIv: encrypted.iv }
+          : null,
+      }),
+    });
+
+    return createSuccessResponse(toPublicServer(server!));
+  } catch (error) {
+    console.error('Update MCP server error:', error);
+    return handleMcpServerError(error, 'Failed to update MCP server');
+  }
+});
+
+/**
+ * DELETE /api/mcp-servers/:serverId
+ * Remove an MCP server
+ */
+export const deleteMcpServer = withAuth(async (ctx, request, user) => {
+  try {
+    const serverId = getServerIdFromUrl(request);
+    if (!serverId) {
+      return createErrorResponse('MCP server ID is required', 400);
+    }
+
+    const result = await ctx.runMutation(internal.services.mcp_server_service.deleteMcpServer, {
+      serverId,
+      userId: user._id,
+    });
+
+    return createSuccessResponse({
+      message: 'MCP server deleted successfully',
+      deletedServerId: result.deletedServerId,
+    });
+  } catch (error) {
+    console.error('Delete MCP server error:', error);
+    return handleMcpServerError(error, 'Failed to delete MCP server');
+  }
+});
+
+/**
+ * POST /api/mcp-servers/:serverId/test
+ * Connect to an MCP server and list the tools models would see
+ */
+export const testMcpServer = withAuth(async (ctx, request, user) => {
+  try {
+    const serverId = getServerIdFromUrl(request);
+    if (!serverId) {
+      return createErrorResponse('MCP server ID is required', 400);
+    }
+
+    const server = await ctx.runQuery(internal.services.mcp_server_service.getMcpServer, {
+      serverId,
+      userId: user._id,
+    });
+
+    let tools;
+    try {
+      tools = await listMcpServerTools(server);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return createErrorResponse(`Could not reach ${server.name}: ${message}`, 502);
+    }
+
+    return createSuccessResponse({
+      tools: [...namespaceMcpTools(server.name, tools)].map(
+        ([exposedName, { toolName, tool }]) => ({
+          name: toolName,
+          toolName: exposedName,
+          description: tool.description ?? null,
+        })
+      ),
+    });
+  } catch (error) {
+    console.error('Test MCP server error:', error);
+    return handleMcpServerError(error, 'Failed to test MCP server');
+  }
+});
@@ -0,0 +1,181 @@
+import { internal } from '../../_generated/api';
+import { ConvexError } from 'convex/values';
+import { getModelById } from '../../config/models';
+import { ABILITIES } from '../../lib/toolkit';
+import {
+  withAuth,
+  parseRequestBody,
+  createErrorResponse,
+  createSuccessResponse,
+} from '../../services/middleware';
+
+type PersonaInput = {
+  name?: string;
+  description?: string;
+  instructions?: string;
+  defaultModelId?: string;
+  enabledTools?: string[];
+};
+
+/**
+ * Validate persona fields from a request body
+ * Returns an error message string when the input is invalid
+ */
+const parsePersonaInput = (raw: any): PersonaInput | string => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return 'Request body must be an object';
+  }
+
+  const input: PersonaInput = {};
+
+  for (const field of ['name', 'description', 'instructions'] as const) {
+    if (raw[field] !== undefined) {
+      if (typeof raw[field] !== 'string') {
+        return `${field} must be a string`;
+      }
+      input[field] = raw[field];
+    }
+  }
+
+  if (raw.defaultModelId !== undefined) {
+    if (typeof raw.defaultModelId !== 'string' || !getModelById(raw.defaultModelId)) {
+      return `Unknown model: ${raw.defaultModelId}`;
+    }
+    input.defaultModelId = raw.defaultModelId;
+  }
+
+  if (raw.enabledTools !== undefined) {
+    if (
+      !Array.isArray(raw.enabledTools) ||
+      raw.enabledTools.some((tool: unknown) => !(ABILITIES as readonly unknown[]).includes(tool))
+    ) {
+      return `enabledTools must only contain: ${ABILITIES.join(', ')}`;
+    }
+    input.enabledTools = raw.enabledTools;
+  }
+
+  return input;
+};
+
+/**
+ * Map persona service errors to HTTP responses
+ */
+const handlePersonaError = (error: unknown, fallbackMessage: string) => {
+  if (error instanceof ConvexError && error.message.includes('access denied')) {
+    return createErrorResponse('Persona not found or access denied', 404);
+  }
+
+  if (
+    error instanceof ConvexError &&
+    (error.message.includes('empty') || error.message.includes('exceed'))
+  ) {
+    return createErrorResponse(error.message, 400);
+  }
+
+  return createErrorResponse(error instanceof Error ? error.message : fallbackMessage, 500);
+};
+
+/**
+ * GET /api/personas
+ * List personas for the authenticated user
+ */
+export const getPersonas = withAuth(async (ctx, _request, user) => {
+  try {
+    const personas = await ctx.runQuery(internal.services.persona_service.getUserPersonas, {
+      userId: user._id,
+    });
+
+    return createSuccessResponse({ personas });
+  } catch (error) {
+    console.error('Get personas error:', error);
+    return handlePersonaError(error, 'Failed to fetch personas');
+  }
+});
+
+/**
+ * POST /api/personas
+ * Create a persona
+ */
+export const createPersona = withAuth(async (ctx, request, user) => {
+  try {
+    const input = parsePersonaInput(await parseRequestBody(request));
+    if (typeof input === 'string') {
+      return createErrorResponse(input, 400);
+    }
+
+    if (input.name === undefined || input.instructions === undefined) {
+      return createErrorResponse('name and instructions are required', 400);
+    }
+
+    const persona = await ctx.runMutation(internal.services.persona_service.createPersona, {
+      ...input,
+      name: input.name,
+      instructions: input.instructions,
+      userId: user._id,
+    });
+
+    return createSuccessResponse(persona, 201);
+  } catch (error) {
+    console.error('Create persona error:', error);
+    return handlePersonaError(error, 'Failed to create persona');
+  }
+});
+
+/**
+ * PUT /api/personas/:personaId
+ * Update a persona
+ */
+export const updatePersona = withAuth(async (ctx, request, user) => {
+  try {
+    const url = new URL(request.url);
+    const personaId = url.pathname.split('/')[3];
+
+    if (!personaId) {
+      return createErrorResponse('Persona ID is required', 400);
+    }
+
+    const input = parsePersonaInput(await parseRequestBody(request));
+    if (typeof input === 'string') {
+      return createErrorResponse(input, 400);
+    }
+
+    const persona = await ctx.runMutation(internal.services.persona_service.updatePersona, {
+      ...input,
+      personaId: personaId as any,
+      userId: user._id,
+    });
+
+    return createSuccessResponse(persona);
+  } catch (error) {
+    console.error('Update persona error:', error);
+    return handlePersonaError(error, 'Failed to update persona');
+  }
+});
+
+/**
+ * DELETE /api/personas/:personaId
+ * Delete a persona
+ */
+export const deletePersona = withAuth(async (ctx, request, user) => {
+  try {
+    const url = new URL(request.url);
+    const personaId = url.pathname.split('/')[3];
+
+    if (!personaId) {
+      return createErrorResponse('Persona ID is required', 400);
+    }
+
+    const result = await ctx.runMutation(internal.services.persona_service.deletePersona, {
+      personaId: personaId as any,
+      userId: user._id,
+    });
+
+    return createSuccessResponse({
+      message: 'Persona deleted successfully',
+      deletedPersonaId: result.deletedPersonaId,
+    });
+  } catch (error) {
+    console.error('Delete persona error:', error);
+    return handlePersonaError(error, 'Failed to delete persona');
+  }
+});
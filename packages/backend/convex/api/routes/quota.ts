@@ -0,0 +1,23 @@
+import { internal } from '../../_generated/api';
+import {
+  withScopedAuth,
+  createErrorResponse,
+  createSuccessResponse,
+} from '../../services/middleware';
+
+/**
+ * Get the user's usage against each model tier's limits
+ * GET /api/quota
+ */
+export const getQuota = withScopedAuth('analytics:read', async (ctx, _request, user) => {
+  try {
+    const tiers = await ctx.runQuery(internal.services.quota_service.getQuotaStatus, {
+      userId: user._id,
+    });
+
+    return createSuccessResponse({ tiers });
+  } catch (error) {
+    console.error('Get quota error:', error);
+    return createErrorResponse('Failed to fetch quota', 500);
+  }
+});
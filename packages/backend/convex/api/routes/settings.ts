@@ -0,0 +1,99 @@
+import { internal } from '../../_generated/api';
+import { resolveProviderKeys } from '../../lib/provider_keys';
+import { ABILITIES, getEnabledTools, isAbilityId } from '../../lib/toolkit';
+import {
+  SEARCH_PROVIDERS,
+  SEARCH_PROVIDER_NAMES,
+  getSearchProviderChain,
+  type SearchProviderType,
+} from '../../lib/tools/adapters';
+import {
+  withAuth,
+  parseRequestBody,
+  createErrorResponse,
+  createSuccessResponse,
+} from '../../services/middleware';
+
+const isSearchProvider = (value: unknown): value is SearchProviderType =>
+  (SEARCH_PROVIDERS as unknown[]).includes(value);
+
+/**
+ * GET /api/settings
+ * Get the user's settings and the search providers they can pick from
+ */
+export const getSettings = withAuth(async (ctx, _request, user) => {
+  try {
+    const [settings, providerKeys] = await Promise.all([
+      ctx.runQuery(internal.services.user_settings_service.getUserSettings, {
+        userId: user._id,
+      }),
+      resolveProviderKeys(ctx, user._id),
+    ]);
+
+    const available = getSearchProviderChain(providerKeys).map(config => config.provider);
+    const searchProviders = SEARCH_PROVIDERS.map(provider => ({
+      id: provider,
+      name: SEARCH_PROVIDER_NAMES[provider],
+      available: available.includes(provider),
+    }));
+
+    return createSuccessResponse({
+      searchProvider: settings?.searchProvider ?? null,
+      searchProviders,
+      enabledTools: getEnabledTools(settings),
+    });
+  } catch (error) {
+    console.error('Get settings error:', error);
+    return createErrorResponse('Failed to fetch settings', 500);
+  }
+});
+
+/**
+ * PUT /api/settings
+ * Update the user's settings; a null searchProvider goes back to the default order
+ * enabledTools replaces the composer's saved tool selection
+ */
+export const updateSettings = withAuth(async (ctx, request, user) => {
+  try {
+    const body = await parseRequestBody(request);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return createErrorResponse('Request body must be an object', 400);
+    }
+
+    const { searchProvider, enabledTools } = body;
+    if (
+      searchProvider !== undefined &&
+      searchProvider !== null &&
+      !isSearchProvider(searchProvider)
+    ) {
+      return createErrorResponse(
+        `searchProvider must be null or one of: ${SEARCH_PROVIDERS.join(', ')}`,
+        400
+      );
+    }
+
+    if (
+      enabledTools !== undefined &&
+      (!Array.isArray(enabledTools) || !enabledTools.every(isAbilityId))
+    ) {
+      return createErrorResponse(`enabledTools must only contain: ${ABILITIES.join(', ')}`, 400);
+    }
+
+    const settings = await ctx.runMutation(
+      internal.services.user_settings_service.updateUserSettings,
+      {
+        userId: user._id,
+        searchProvider,
+        enabledTools: enabledTools ? [...new Set<string>(enabledTools)] : undefined,
+      }
+    );
+
+    return createSuccessResponse({
+      searchProvider: settings.searchProvider ?? null,
+      enabledTools: getEnabledTools(settings),
+    });
+  } catch (error) {
+    console.error('Update settings error:', error);
+    return createErrorResponse('Failed to update settings', 500);
+  }
+});
@@ -0,0 +1,71 @@
+import { internal } from '../../_generated/api';
+import {
+  ABILITIES,
+  TOOL_REGISTRY,
+  describeTool,
+  getEnabledTools,
+  isAbilityId,
+  parseToolSettings,
+} from '../../lib/toolkit';
+import {
+  withAuth,
+  parseRequestBody,
+  createErrorResponse,
+  createSuccessResponse,
+} from '../../services/middleware';
+
+/**
+ * GET /api/tools
+ * List every tool with its parameters, settings and the user's current values
+ */
+export const getTools = withAuth(async (ctx, _request, user) => {
+  try {
+    const userSettings = await ctx.runQuery(
+      internal.services.user_settings_service.getUserSettings,
+      { userId: user._id }
+    );
+
+    return createSuccessResponse({
+      tools: ABILITIES.map(toolId => describeTool(TOOL_REGISTRY[toolId], userSettings)),
+      enabledTools: getEnabledTools(userSettings),
+    });
+  } catch (error) {
+    console.error('Get tools error:', error);
+    return createErrorResponse('Failed to fetch tools', 500);
+  }
+});
+
+/**
+ * PUT /api/tools/:toolId/settings
+ * Save some or all of a tool's settings for the user
+ */
+export const updateToolSettings = withAuth(async (ctx, request, user) => {
+  try {
+    const toolId = new URL(request.url).pathname.split('/')[3];
+    if (!isAbilityId(toolId)) {
+      return createErrorResponse(`Unknown tool: ${toolId}`, 404);
+    }
+
+    const body = await parseRequestBody(request);
+    const definition = TOOL_REGISTRY[toolId];
+    const values = parseToolSettings(definition, body?.settings);
+    if (typeof values === 'string') {
+      return createErrorResponse(values, 400);
+    }
+
+    await ctx.runMutation(internal.services.user_settings_service.updateToolSettings, {
+      userId: user._id,
+      toolId,
+      values,
+    });
+
+    const userSettings = await ctx.runQuery(
+      internal.services.user_settings_service.getUserSettings,
+      { userId: user._id }
+    );
+    return createSuccessResponse({ tool: describeTool(definition, userSettings) });
+  } catch (error) {
+    console.error('Update tool settings error:', error);
+    return createErrorResponse('Failed to update tool settings', 500);
+  }
+});
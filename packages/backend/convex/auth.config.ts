@@ -0,0 +1,11 @@
+// Clerk issues the JWTs that the native app sends as bearer tokens.
+// Create a "convex" JWT template in Clerk and set CLERK_JWT_ISSUER_DOMAIN
+// to its issuer URL in the Convex dashboard.
+export default {
+  providers: [
+    {
+      domain: process.env.CLERK_JWT_ISSUER_DOMAIN,
+      applicationID: 'convex',
+    },
+  ],
+};
@@ -1,8 +1,9 @@
 import { v } from 'convex/values';
-import { mutation, query } from './_generated/server';
+import { internalMutation, internalQuery, query } from './_generated/server';
+import { getAuthUser } from './services/middleware';
 
-// Get or create user from Clerk data
-export const getOrCreateUser = mutation({
+// Get or create user from Clerk data (clerkId must come from a verified identity)
+export const getOrCreateUser = internalMutation({
   args: {
     clerkId: v.string(),
     email: v.string(),
@@ -42,7 +43,7 @@ export const getOrCreateUser = mutation({
 });
 
 // Get user by Clerk ID
-export const getUserByClerkId = query({
+export const getUserByClerkId = internalQuery({
   args: { clerkId: v.string() },
   handler: async (ctx, args) => {
     return await ctx.db
@@ -52,13 +53,10 @@ export const getUserByClerkId = query({
   },
 });
 
-// Get current user (helper for authenticated queries)
+// Get current user from the verified auth identity
 export const getCurrentUser = query({
-  args: { clerkId: v.string() },
-  handler: async (ctx, args) => {
-    return await ctx.db
-      .query('users')
-      .withIndex('by_clerk_id', q => q.eq('clerkId', args.clerkId))
-      .unique();
+  args: {},
+  handler: async ctx => {
+    return await getAuthUser(ctx);
   },
 });
@@ -1,41 +1,66 @@
-import { httpAction } from '../../_generated/server';
-import { api } from '../../_generated/api';
+import type { CoreMessage } from 'ai';
+import { internal } from '../../_generated/api';
+import type { Doc, Id } from '../../_generated/dataModel';
 import {
-  getUserIdFromClerkId,
-  parseRequestBody,
-  createErrorResponse,
-} from '../../services/middleware';
-import { getToolkit, type AbilityId } from '../../lib/toolkit';
+  DEFAULT_MODEL,
+  REASONING_EFFORTS,
+  createAIModel,
+  findUnsupportedParameter,
+  getModelConfig,
+  getReasoningProviderOptions,
+  isModelDeprecated,
+  type ModelParameter,
+} from '../../config/models';
+import { withScopedAuth, parseRequestBody, createErrorResponse } from '../../services/middleware';
+import { ABILITIES, getToolkit, timeToolCalls, type AbilityId } from '../../lib/toolkit';
+import { buildConversationContext } from '../../lib/context';
+import { requireProviderKey, resolveProviderKeys } from '../../lib/provider_keys';
+import { countTextTokens } from '../../lib/tokenizer';
+import { reserveQuota } from '../../lib/quota';
+import { getToolResultError, getToolUsage } from '../../lib/usage';
+
+// How often partial output is written to the stream document while generating
+const STREAM_FLUSH_INTERVAL_MS = 500;
+// How often a generation checks whether the user asked it to stop
+const CANCEL_POLL_INTERVAL_MS = 1000;
+
+// Sent after a stopped answer so the model picks up exactly where it was cut off
+const CONTINUE_PROMPT =
+  'Continue your previous answer exactly where it stopped. Do not repeat any of it or add a preamble.';
+
+type AssistantMetadata = NonNullable<Doc<'messages'>['metadata']>;
+type RecordedToolCall = NonNullable<AssistantMetadata['toolCalls']>[number];
 
 /**
  * POST /api/chat/completions
  * AI chat completion endpoint with streaming, tool calling, and parallel title generation
  */
-export const completions = httpAction(async (ctx, request) => {
+export const completions = withScopedAuth('chat', async (ctx, request, user) => {
+  // Reserved by the quota check; the generation completes it, or it is failed if the request
+  // breaks off before generation starts
+  let usageEventId: Id<'usageEvents'> | undefined;
+  let generationStarted = false;
+
   try {
     const body = await parseRequestBody(request);
     const {
-      clerkId,
       messages,
-      model = 'gemini-2.5-flash',
-      temperature = 0.7,
-      max_tokens,
+      model: requestedModel,
+      temperature: requestedTemperature,
+      max_tokens: requestedMaxTokens,
+      top_p,
+      seed,
+      reasoning_effort,
       thread_id,
+      persona_id, // null clears the thread's persona
+      continue_message_id, // Stopped assistant message to continue instead of answering anew
+      edit_message_id, // User message the new one replaces as a sibling branch
+      retry_message_id, // User message to answer again as a sibling branch
       generate_title = true,
       enabledTools = [], // New parameter for enabled tools
       maxSteps = 5, // Allow multi-step tool calling
     } = body;
 
-    // Get internal userId from clerkId
-    if (!clerkId) {
-      return createErrorResponse('clerkId is required', 400);
-    }
-
-    const userId = await getUserIdFromClerkId(ctx, clerkId);
-    if (!userId) {
-      return createErrorResponse('Invalid clerkId or user not found', 401);
-    }
-
     if (!messages || !Array.isArray(messages) || messages.length === 0) {
       return createErrorResponse('Messages array is required and cannot be empty', 400);
     }
@@ -119,20 +144,107 @@ export const completions = httpAction(async (ctx, request) => {
 
     let currentThreadId = thread_id;
     let isNewThread = false;
+    let threadSettings: Doc<'threads'>['settings'];
+    // Last stored message the new one follows; null when there is no history to send
+    let historyAnchorId: Id<'messages'> | null = null;
 
-    // Create thread if none provided
-    if (!currentThreadId) {
-      const newThread = await ctx.runMutation(api.services.thread_service.createOrGetThread, {
-        clerkId,
-        title: 'New Chat',
-      });
-      currentThreadId = newThread.id;
-      isNewThread = true;
+    // Make sure an existing thread belongs to the caller
+    if (currentThreadId) {
+      try {
+        const thread = await ctx.runQuery(internal.services.thread_service.getThread, {
+          threadId: currentThreadId,
+          userId: user._id,
+        });
+        threadSettings = thread.settings;
+      } catch {
+        return createErrorResponse('Thread not found or access denied', 404);
+      }
+
+      // Legacy threads get their parent links before any branch or history is read
+      const { activeLeafMessageId } = await ctx.runMutation(
+        internal.services.message_service.ensureThreadTree,
+        { threadId: currentThreadId }
+      );
+      historyAnchorId = activeLeafMessageId ?? null;
     }
 
+    // Continuing appends to a stopped answer in the same thread
+    let continuedMessage: Doc<'messages'> | null = null;
+    if (continue_message_id) {
+      if (!currentThreadId) {
+        return createErrorResponse('thread_id is required to continue a message', 400);
+      }
+
+      try {
+        continuedMessage = await ctx.runQuery(internal.services.message_service.getMessage, {
+          messageId: continue_message_id,
+          userId: user._id,
+        });
+      } catch {
+        return createErrorResponse('Message not found or access denied', 404);
+      }
+
+      if (
+        continuedMessage.threadId !== currentThreadId ||
+        continuedMessage.role !== 'assistant' ||
+        !continuedMessage.metadata?.stopped ||
+        typeof continuedMessage.content !== 'string'
+      ) {
+        return createErrorResponse('Only stopped assistant answers can be continued', 400);
+      }
+    }
+    const continuedText =
+      typeof continuedMessage?.content === 'string' ? continuedMessage.content : '';
+
+    // Edits and retries branch off an earlier user message instead of discarding later ones
+    const branchMessageId = edit_message_id ?? retry_message_id;
+    const isRetry = !edit_message_id && !!retry_message_id;
+    let branchMessage: Doc<'messages'> | null = null;
+    if (branchMessageId) {
+      if (!currentThreadId) {
+        return createErrorResponse('thread_id is required to edit or retry a message', 400);
+      }
+
+      try {
+        branchMessage = await ctx.runQuery(internal.services.message_service.getMessage, {
+          messageId: branchMessageId,
+          userId: user._id,
+        });
+      } catch {
+        return createErrorResponse('Message not found or access denied', 404);
+      }
+
+      if (branchMessage.threadId !== currentThreadId || branchMessage.role !== 'user') {
+        return createErrorResponse('Only user messages can be edited or retried', 400);
+      }
+    }
+
+    // An explicit persona_id (or null) overrides the one saved on the thread
+    const personaId: string | null | undefined =
+      persona_id !== undefined ? persona_id : threadSettings?.personaId;
+    let persona: Doc<'personas'> | null = null;
+    if (personaId) {
+      try {
+        persona = await ctx.runQuery(internal.services.persona_service.getPersona, {
+          personaId: personaId as any,
+          userId: user._id,
+        });
+      } catch {
+        // A persona deleted after the thread was created just falls back to the default prompt
+        if (persona_id) {
+          return createErrorResponse('Persona not found or access denied', 404);
+        }
+      }
+    }
+
+    // Request values win, then the thread's saved settings, then the persona, then defaults
+    const model: string =
+      requestedModel ?? threadSettings?.modelId ?? persona?.defaultModelId ?? DEFAULT_MODEL;
+    const temperature: number = requestedTemperature ?? threadSettings?.temperature ?? 0.7;
+    const max_tokens: number | undefined = requestedMaxTokens ?? threadSettings?.maxTokens;
+
     // Use AI SDK directly for proper streaming
-    const { streamText } = await import('ai');
-    const { createAIModel, getModelConfig } = await import('../../config/models');
+    const { streamText, createDataStreamResponse, formatDataStreamPart } = await import('ai');
     const { getSystemPrompt } = await import('../../config/prompts');
 
     // Get model configuration for backward compatibility
@@ -140,11 +252,52 @@ export const completions = httpAction(async (ctx, request) => {
     if (!modelConfig) {
       return createErrorResponse(`Unknown model: ${model}`, 400);
     }
+    if (isModelDeprecated(modelConfig)) {
+      return createErrorResponse(
+        `${modelConfig.name} was retired on ${modelConfig.deprecationDate}`,
+        400
+      );
+    }
+
+    if (
+      reasoning_effort !== undefined &&
+      !(REASONING_EFFORTS as readonly unknown[]).includes(reasoning_effort)
+    ) {
+      return createErrorResponse(
+        `reasoning_effort must be one of: ${REASONING_EFFORTS.join(', ')}`,
+        400
+      );
+    }
+
+    // Only settings the caller asked for are checked; defaults are always safe
+    const requestedParameters = (
+      [
+        ['temperature', requestedTemperature],
+        ['top_p', top_p],
+        ['max_tokens', requestedMaxTokens],
+        ['seed', seed],
+        ['reasoning_effort', reasoning_effort],
+      ] as [ModelParameter, unknown][]
+    )
+      .filter(([, value]) => value !== undefined)
+      .map(([parameter]) => parameter);
+    const unsupportedParameter = findUnsupportedParameter(modelConfig, requestedParameters);
+    if (unsupportedParameter) {
+      return createErrorResponse(
+        `${modelConfig.name} does not support ${unsupportedParameter}`,
+        400
+      );
+    }
+
+    // The user's own keys win; server keys are only included when the admin policy allows
+    const providerKeys = await resolveProviderKeys(ctx, user._id);
 
     // Create AI model instance using the factory
     let aiModel;
+    let providerKey: string;
     try {
-      aiModel = createAIModel(model);
+      providerKey = requireProviderKey(providerKeys, modelConfig.provider);
+      aiModel = createAIModel(model, undefined, providerKey);
     } catch (error) {
       return createErrorResponse(
         error instanceof Error ? error.message : `Failed to create model: ${model}`,
@@ -152,33 +305,92 @@ export const completions = httpAction(async (ctx, request) => {
       );
     }
 
-    // Get tools if enabled
-    const tools = enabledTools.length > 0 ? await getToolkit(ctx, enabledTools as AbilityId[]) : {};
+    // Checked before the thread and messages are saved, so a refused request adds nothing
+    const quota = await reserveQuota(ctx, user._id, modelConfig, providerKey);
+    if (quota.response) {
+      return quota.response;
+    }
+    usageEventId = quota.usageEventId;
 
-    // Use intelligent context compression for existing threads
-    let contextMessages = aiMessages;
-    let contextCompressed = false;
+    // Create thread if none provided
+    if (!currentThreadId) {
+      const newThread = await ctx.runMutation(internal.services.thread_service.createOrGetThread, {
+        userId: user._id,
+        title: 'New Chat',
+        settings: {
+          modelId: model,
+          temperature: requestedTemperature,
+          maxTokens: requestedMaxTokens,
+          personaId: persona?._id,
+        },
+      });
+      currentThreadId = newThread.id;
+      isNewThread = true;
+    } else {
+      const modelChanged = requestedModel && requestedModel !== threadSettings?.modelId;
+      const personaChanged =
+        persona_id !== undefined && (persona?._id ?? null) !== (threadSettings?.personaId ?? null);
+
+      if (modelChanged || personaChanged) {
+        // Remember the latest model and persona so reopening the thread restores them
+        await ctx.runMutation(internal.services.thread_service.updateThreadSettings, {
+          threadId: currentThreadId,
+          settings: {
+            ...(modelChanged && { modelId: requestedModel }),
+            ...(personaChanged && { personaId: persona?._id ?? null }),
+          },
+          userId: user._id,
+        });
+      }
+    }
 
-    if (currentThreadId && !isNewThread) {
-      try {
-        // Use the intelligent compression function from chat_service
-        const compressedMessages = await ctx.runAction(
-          api.services.chat_service.compressConversationContext,
-          {
-            threadId: currentThreadId,
-            newMessages: aiMessages,
-            maxTokens: max_tokens || 4000,
-          }
-        );
+    // Personas can switch on extra tools on top of the ones the client requested
+    const activeTools = [
+      ...new Set<string>([...enabledTools, ...(persona?.enabledTools ?? [])]),
+    ].filter((tool): tool is AbilityId => (ABILITIES as readonly string[]).includes(tool));
+
+    // Get the enabled tools, plus any from the user's MCP servers
+    const tools = await getToolkit(ctx, {
+      userId: user._id,
+      enabledTools: activeTools,
+      providerKeys,
+      model: modelConfig,
+    });
+    const hasTools = Object.keys(tools).length > 0;
+
+    // Generate system prompt from the model's capabilities, the persona and the thread's custom prompt
+    const systemPrompt = getSystemPrompt(
+      {
+        ...modelConfig,
+        supportsVision: modelConfig.abilities.includes('vision'),
+        supportsTools: hasTools,
+      },
+      { persona, customInstructions: threadSettings?.systemPrompt }
+    );
 
-        contextMessages = compressedMessages;
-        contextCompressed = compressedMessages.length < aiMessages.length + 5; // Rough estimation
-      } catch (error) {
-        console.warn('Failed to compress context, using original messages:', error);
-        // Fallback to original messages if compression fails
-      }
+    // Stored history comes from the database, so only the newest client message is new
+    let newMessages: CoreMessage[] = isNewThread ? aiMessages : aiMessages.slice(-1);
+    if (continuedMessage) {
+      historyAnchorId = continuedMessage.parentMessageId ?? null;
+      newMessages = [
+        { role: 'assistant', content: continuedText },
+        { role: 'user', content: CONTINUE_PROMPT },
+      ];
+    } else if (branchMessage) {
+      historyAnchorId = branchMessage.parentMessageId ?? null;
     }
 
+    const { messages: contextMessages, info: contextInfo } = await buildConversationContext(ctx, {
+      userId: user._id,
+      threadId: isNewThread ? undefined : currentThreadId,
+      anchorMessageId: historyAnchorId,
+      newMessages,
+      model: modelConfig,
+      systemPrompt,
+      toolCount: Object.keys(tools).length,
+      maxOutputTokens: max_tokens,
+    });
+
     // Start title generation in parallel for new threads (don't await)
     if (isNewThread && messages.length >= 1 && generate_title) {
       // Convert messages to Convex-compatible format for title generation
@@ -211,11 +423,12 @@ export const completions = httpAction(async (ctx, request) => {
         // Fire and forget - runs in parallel with streaming
         // Title generation uses multimodal support with gemini-2.0-flash
         ctx
-          .runAction(api.services.thread_service.generateThreadTitle, {
+          .runAction(internal.services.thread_service.generateThreadTitle, {
             messages: titleMessages,
+            userId: user._id,
           })
           .then((titleResult: any) =>
-            ctx.runMutation(api.services.thread_service.updateThreadTitle, {
+            ctx.runMutation(internal.services.thread_service.updateThreadTitle, {
               threadId: currentThreadId,
               title: titleResult.title,
             })
@@ -226,21 +439,238 @@ export const completions = httpAction(async (ctx, request) => {
       }
     }
 
+    // Save the user message before generating so a reopened thread shows it while streaming
+    const userMessage = messages[messages.length - 1];
+    // A retry answers the retried message again; saving that answer moves the active branch to
+    // it, so a refused or failed retry leaves the previous answer showing
+    let userMessageId = isRetry ? branchMessage?._id : undefined;
+    if (userMessage && !continuedMessage && !isRetry) {
+      let contentToSave = userMessage.content;
+
+      // Handle case where content is an array of parts
+      if (Array.isArray(contentToSave)) {
+        contentToSave = contentToSave.map(part => {
+          // Normalize image part to match schema (url property)
+          if (part.type === 'image' && part.image && !part.url) {
+            return { ...part, url: part.image };
+          }
+          // Normalize file part to match schema (url property)
+          if (part.type === 'file' && part.data && !part.url) {
+            return { ...part, url: part.data.toString() };
+          }
+          return part;
+        });
+      }
+
+      const savedUserMessage = await ctx.runMutation(
+        internal.services.message_service.saveMessage,
+        {
+          threadId: currentThreadId,
+          // An edit is a sibling of the edited message
+          parentMessageId: edit_message_id ? (branchMessage?.parentMessageId ?? null) : undefined,
+          role: 'user',
+          content: contentToSave,
+          metadata: {
+            toolsEnabled: activeTools.length > 0 ? activeTools : undefined,
+          },
+        }
+      );
+      userMessageId = savedUserMessage.messageId;
+    }
+
+    // Save the generation incrementally so clients can reattach after a disconnect
+    const { streamId } = await ctx.runMutation(internal.services.stream_service.createStream, {
+      userId: user._id,
+      threadId: currentThreadId,
+      modelId: model,
+      context: contextInfo,
+    });
+    let streamedText = continuedText;
+    let lastFlushAt = 0;
+    let pendingFlush: Promise<unknown> = Promise.resolve();
+
+    // Writes are chained so they land in order; failures only cost reattach freshness
+    const flushStreamText = () => {
+      const text = streamedText;
+      lastFlushAt = Date.now();
+      pendingFlush = pendingFlush
+        .then(() =>
+          ctx.runMutation(internal.services.stream_service.updateStreamText, { streamId, text })
+        )
+        .catch(error => console.warn('Failed to save stream progress:', error));
+    };
+
     const startTime = Date.now();
 
-    // Generate system prompt using the model configuration
-    const systemPrompt = getSystemPrompt(modelConfig);
+    // Only one of onFinish, onError and cancellation records the outcome
+    let finalized = false;
+    // Usage is only reported per finished step, so keep a running total for cancellations
+    const usageSoFar = { promptTokens: 0, completionTokens: 0 };
+    let finishedStepsTextLength = streamedText.length;
+    let timeToFirstToken: number | undefined;
+    // Tool calls from every finished step; onFinish only reports the last step's
+    const recordedToolCalls: RecordedToolCall[] = [];
+    const toolDurations = new Map<string, number>();
+
+    /**
+     * Save an assistant answer, appending to the stopped message when continuing
+     */
+    const saveAssistantMessage = async (content: string, metadata: AssistantMetadata) => {
+      if (!continuedMessage) {
+        return await ctx.runMutation(internal.services.message_service.saveMessage, {
+          threadId: currentThreadId,
+          parentMessageId: userMessageId,
+          role: 'assistant',
+          content,
+          metadata,
+        });
+      }
+
+      const previous: AssistantMetadata = continuedMessage.metadata ?? {};
+      return await ctx.runMutation(internal.services.message_service.replaceMessageContent, {
+        messageId: continuedMessage._id,
+        content,
+        metadata: {
+          ...previous,
+          ...metadata,
+          promptTokens: (previous.promptTokens ?? 0) + (metadata.promptTokens ?? 0),
+          completionTokens: (previous.completionTokens ?? 0) + (metadata.completionTokens ?? 0),
+          duration: (previous.duration ?? 0) + (metadata.duration ?? 0),
+          toolCalls:
+            previous.toolCalls || metadata.toolCalls
+              ? [...(previous.toolCalls ?? []), ...(metadata.toolCalls ?? [])]
+              : undefined,
+        },
+      });
+    };
+
+    // Stop requests arrive through POST /api/chat/streams/:streamId/cancel and are polled for,
+    // so a dropped connection leaves generation running for the client to reattach to
+    const abortController = new AbortController();
+    const cancelPoll = setInterval(() => {
+      ctx
+        .runQuery(internal.services.stream_service.isCancelRequested, { streamId })
+        .then(cancelRequested => {
+          if (cancelRequested) abortController.abort();
+        })
+        .catch(error => console.warn('Failed to check for cancellation:', error));
+    }, CANCEL_POLL_INTERVAL_MS);
+
+    /**
+     * Save what was generated before the user stopped it and track a cancelled usage event
+     */
+    const recordCancellation = async () => {
+      if (finalized) return;
+      finalized = true;
+      clearInterval(cancelPoll);
+
+      const duration = Date.now() - startTime;
+      // Steps that never finished have no usage report, so count them with the tokenizer
+      const promptTokens =
+        usageSoFar.promptTokens || contextInfo.usedTokens + contextInfo.systemTokens;
+      const completionTokens =
+        usageSoFar.completionTokens + countTextTokens(streamedText.slice(finishedStepsTextLength));
+
+      try {
+        await pendingFlush;
+
+        const saved = streamedText.trim()
+          ? await saveAssistantMessage(streamedText, {
+              modelId: model,
+              promptTokens,
+              completionTokens,
+              duration,
+              timeToFirstToken,
+              temperature,
+              maxTokens: max_tokens,
+              toolsEnabled: activeTools.length > 0 ? activeTools : undefined,
+              toolCalls: recordedToolCalls.length > 0 ? recordedToolCalls : undefined,
+              stopped: true,
+            })
+          : null;
+
+        await Promise.all([
+          ctx.runMutation(internal.services.stream_service.finishStream, {
+            streamId,
+            status: 'completed',
+            text: streamedText,
+            messageId: saved?.messageId,
+          }),
+          ctx.runMutation(internal.services.thread_service.updateThreadActivity, {
+            threadId: currentThreadId,
+          }),
+          ctx.runMutation(internal.services.chat_service.trackUsage, {
+            usageEventId,
+            userId: user._id,
+            threadId: currentThreadId,
+            messageId: saved?.messageId,
+            modelId: model,
+            promptTokens,
+            completionTokens,
+            totalTokens: promptTokens + completionTokens,
+            duration,
+            timeToFirstToken,
+            toolUsage: getToolUsage(recordedToolCalls),
+            status: 'cancelled',
+          }),
+        ]);
+      } catch (dbError) {
+        console.error('Failed to save cancelled generation:', dbError);
+      }
+    };
+
+    abortController.signal.addEventListener('abort', () => void recordCancellation(), {
+      once: true,
+    });
 
     const result = await streamText({
       model: aiModel,
       system: systemPrompt,
       messages: contextMessages,
-      tools: Object.keys(tools).length > 0 ? tools : undefined,
-      toolChoice: enabledTools.length > 0 ? 'auto' : undefined,
+      tools: hasTools ? timeToolCalls(tools, toolDurations) : undefined,
+      toolChoice: hasTools ? 'auto' : undefined,
       maxSteps: maxSteps,
       temperature: temperature,
       maxTokens: max_tokens,
+      topP: top_p,
+      seed,
+      providerOptions: reasoning_effort
+        ? getReasoningProviderOptions(modelConfig, reasoning_effort)
+        : undefined,
+      abortSignal: abortController.signal,
+      onChunk: ({ chunk }) => {
+        timeToFirstToken ??= Date.now() - startTime;
+        if (chunk.type !== 'text-delta') return;
+
+        streamedText += chunk.textDelta;
+        if (Date.now() - lastFlushAt >= STREAM_FLUSH_INTERVAL_MS) {
+          flushStreamText();
+        }
+      },
+      onStepFinish: step => {
+        usageSoFar.promptTokens += step.usage.promptTokens || 0;
+        usageSoFar.completionTokens += step.usage.completionTokens || 0;
+        finishedStepsTextLength = streamedText.length;
+
+        step.toolCalls.forEach(call => {
+          const result = step.toolResults.find(
+            (toolResult: any) => toolResult.toolCallId === call.toolCallId
+          ) as { result?: unknown } | undefined;
+          recordedToolCalls.push({
+            toolCallId: call.toolCallId,
+            toolName: call.toolName,
+            args: call.args,
+            result: result?.result,
+            error: getToolResultError(result?.result),
+            durationMs: toolDurations.get(call.toolCallId),
+          });
+        });
+      },
       onFinish: async completion => {
+        if (finalized) return;
+        finalized = true;
+        clearInterval(cancelPoll);
+
         const endTime = Date.now();
         const duration = endTime - startTime;
 
@@ -249,86 +679,46 @@ export const completions = httpAction(async (ctx, request) => {
           try {
             const promises = [];
 
-            // Save user message - MULTIMODAL
-            if (messages.length > 0) {
-              const userMessage = messages[messages.length - 1];
-              if (userMessage) {
-                let contentToSave = userMessage.content;
-
-                // Handle case where content is an array of parts
-                if (Array.isArray(contentToSave)) {
-                  contentToSave = contentToSave.map(part => {
-                    // Normalize image part to match schema (url property)
-                    if (part.type === 'image' && part.image && !part.url) {
-                      return { ...part, url: part.image };
-                    }
-                    // Normalize file part to match schema (url property)
-                    if (part.type === 'file' && part.data && !part.url) {
-                      return { ...part, url: part.data.toString() };
-                    }
-                    return part;
-                  });
-                }
+            await pendingFlush;
 
-                promises.push(
-                  ctx.runMutation(api.services.message_service.saveMessage, {
-                    threadId: currentThreadId,
-                    role: 'user',
-                    content: contentToSave,
-                    metadata: {
-                      toolsEnabled: enabledTools.length > 0 ? enabledTools : undefined,
-                    },
-                  })
-                );
+            const assistantMessage = saveAssistantMessage(
+              continuedMessage ? streamedText : completion.text,
+              {
+                modelId: model,
+                modelName: completion.response.modelId,
+                promptTokens: completion.usage.promptTokens,
+                completionTokens: completion.usage.completionTokens,
+                duration,
+                timeToFirstToken,
+                temperature,
+                maxTokens: max_tokens,
+                toolsEnabled: activeTools.length > 0 ? activeTools : undefined,
+                // Save assistant message with tool call information
+                toolCalls: recordedToolCalls.length > 0 ? recordedToolCalls : undefined,
+                stopped: undefined,
               }
-            }
-
-            // Save assistant message with tool call information
-            const toolCalls =
-              completion.toolCalls && Array.isArray(completion.toolCalls)
-                ? completion.toolCalls.map(call => {
-                    // Find the corresponding tool result if it exists
-                    const toolResult = (completion as any).toolResults?.find(
-                      (r: any) => r.toolCallId === call.toolCallId
-                    );
-
-                    return {
-                      toolCallId: call.toolCallId,
-                      toolName: call.toolName,
-                      args: call.args,
-                      result: toolResult?.result,
-                    };
-                  })
-                : undefined;
-
-            promises.push(
-              ctx.runMutation(api.services.message_service.saveMessage, {
-                threadId: currentThreadId,
-                role: 'assistant',
-                content: completion.text,
-                metadata: {
-                  modelId: model,
-                  modelName: completion.response.modelId,
-                  promptTokens: completion.usage.promptTokens,
-                  completionTokens: completion.usage.completionTokens,
-                  duration,
-                  toolsEnabled: enabledTools.length > 0 ? enabledTools : undefined,
-                  toolCalls,
-                },
+            ).then(({ messageId }) =>
+              ctx.runMutation(internal.services.stream_service.finishStream, {
+                streamId,
+                status: 'completed',
+                text: streamedText,
+                messageId,
               })
             );
+            promises.push(assistantMessage);
 
             // Update thread activity
             promises.push(
-              ctx.runMutation(api.services.thread_service.updateThreadActivity, {
+              ctx.runMutation(internal.services.thread_service.updateThreadActivity, {
                 threadId: currentThreadId,
               })
             );
 
             // Track usage event for analytics
             promises.push(
-              ctx.runMutation(api.services.chat_service.trackUsage, {
-                userId: userId,
+              ctx.runMutation(internal.services.chat_service.trackUsage, {
+                usageEventId,
+                userId: user._id,
                 threadId: currentThreadId,
                 modelId: model,
                 modelName: completion.response.modelId || model,
@@ -336,6 +726,8 @@ export const completions = httpAction(async (ctx, request) => {
                 completionTokens: completion.usage.completionTokens || 0,
                 totalTokens: completion.usage.totalTokens || 0,
                 duration,
+                timeToFirstToken,
+                toolUsage: getToolUsage(recordedToolCalls),
                 status: 'success',
               })
             );
@@ -347,6 +739,11 @@ export const completions = httpAction(async (ctx, request) => {
         }
       },
       onError: async error => {
+        // Aborts from the stop button are recorded by recordCancellation
+        if (finalized || abortController.signal.aborted) return;
+        finalized = true;
+        clearInterval(cancelPoll);
+
         const endTime = Date.now();
         const duration = endTime - startTime;
 
@@ -355,14 +752,25 @@ export const completions = httpAction(async (ctx, request) => {
         // Track failed usage event
         if (currentThreadId) {
           try {
-            await ctx.runMutation(api.services.chat_service.trackUsage, {
-              userId: userId,
+            await pendingFlush;
+            await ctx.runMutation(internal.services.stream_service.finishStream, {
+              streamId,
+              status: 'error',
+              text: streamedText,
+              errorMessage: error instanceof Error ? error.message : 'Unknown error',
+            });
+
+            await ctx.runMutation(internal.services.chat_service.trackUsage, {
+              usageEventId,
+              userId: user._id,
               threadId: currentThreadId,
               modelId: model,
               promptTokens: 0,
               completionTokens: 0,
               totalTokens: 0,
               duration,
+              timeToFirstToken,
+              toolUsage: getToolUsage(recordedToolCalls),
               status: 'error',
               errorMessage: error instanceof Error ? error.message : 'Unknown error',
             });
@@ -372,24 +780,56 @@ export const completions = httpAction(async (ctx, request) => {
         }
       },
     });
+    // From here onFinish, onError or the cancellation records the outcome
+    generationStarted = true;
 
-    // Return proper AI SDK streaming response
-    return result.toDataStreamResponse({
+    // Drive generation independently of the response so saving doesn't depend on the client reading it
+    result.consumeStream();
+
+    const responseInit = {
       headers: {
         'Content-Type': 'application/octet-stream',
         'Content-Encoding': 'none',
         'X-Thread-ID': currentThreadId,
+        'X-Stream-ID': streamId,
         'X-Is-New-Thread': isNewThread.toString(),
-        'X-Context-Compressed': contextCompressed.toString(),
-        'X-Context-Message-Count': contextMessages.length.toString(),
-        'X-Tools-Enabled': enabledTools.join(','),
+        'X-Context-Compressed': contextInfo.summarized.toString(),
+        'X-Context-Message-Count': contextInfo.messageCount.toString(),
+        'X-Context-Dropped-Count': contextInfo.droppedMessageCount.toString(),
+        'X-Context-Tokens': contextInfo.usedTokens.toString(),
+        'X-Context-Budget': contextInfo.budgetTokens.toString(),
+        'X-Context-Window': contextInfo.contextWindow.toString(),
+        'X-Tools-Enabled': activeTools.join(','),
       },
-    });
+    };
+
+    if (continuedMessage) {
+      return createDataStreamResponse({
+        ...responseInit,
+        execute: dataStream => {
+          // Replay the stopped text first so the client shows one continuous answer
+          dataStream.write(formatDataStreamPart('text', continuedText));
+          result.mergeIntoDataStream(dataStream);
+        },
+      });
+    }
+
+    // Return proper AI SDK streaming response
+    return result.toDataStreamResponse(responseInit);
   } catch (error) {
     console.error('Chat completion error:', error);
     return createErrorResponse(
       error instanceof Error ? error.message : 'Internal server error',
       500
     );
+  } finally {
+    if (usageEventId && !generationStarted) {
+      await ctx
+        .runMutation(internal.services.chat_service.failUsage, {
+          usageEventId,
+          errorMessage: 'Request failed before generation started',
+        })
+        .catch(error => console.error('Failed to release usage reservation:', error));
+    }
   }
 });
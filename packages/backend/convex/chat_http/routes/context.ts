@@ -0,0 +1,62 @@
+import { internal } from '../../_generated/api';
+import {
+  withScopedAuth,
+  createErrorResponse,
+  createSuccessResponse,
+} from '../../services/middleware';
+import { ConvexError } from 'convex/values';
+
+/**
+ * GET /api/chat/context/:threadId
+ * Show the context sent with the thread's latest generation: token budget and included messages
+ */
+export const getContext = withScopedAuth('threads:read', async (ctx, request, user) => {
+  try {
+    const url = new URL(request.url);
+    const threadId = url.pathname.split('/')[4];
+
+    if (!threadId) {
+      return createErrorResponse('Thread ID is required', 400);
+    }
+
+    const stream = await ctx.runQuery(internal.services.stream_service.getLatestThreadStream, {
+      threadId: threadId as any,
+      userId: user._id,
+    });
+
+    if (!stream?.context) {
+      return createErrorResponse('No context recorded for this thread yet', 404);
+    }
+
+    const { messageIds, ...budget } = stream.context;
+    const messages = await ctx.runQuery(internal.services.message_service.getMessagesByIds, {
+      threadId: stream.threadId,
+      messageIds,
+    });
+
+    return createSuccessResponse({
+      threadId: stream.threadId,
+      streamId: stream._id,
+      modelId: stream.modelId,
+      createdAt: stream.createdAt,
+      ...budget,
+      messages: messages.map(message => ({
+        id: message._id,
+        role: message.role,
+        content: message.content,
+        createdAt: message.createdAt,
+      })),
+    });
+  } catch (error) {
+    console.error('Get context error:', error);
+
+    if (error instanceof ConvexError && error.message.includes('access denied')) {
+      return createErrorResponse('Thread not found or access denied', 404);
+    }
+
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'Failed to fetch context',
+      500
+    );
+  }
+});
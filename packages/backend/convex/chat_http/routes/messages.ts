@@ -1,60 +1,81 @@
-import { httpAction } from '../../_generated/server';
-import { api } from '../../_generated/api';
+import { internal } from '../../_generated/api';
 import {
-  getUserIdFromClerkId,
+  withAuth,
+  withScopedAuth,
   createErrorResponse,
   createSuccessResponse,
   parseRequestBody,
+  parseLimitParam,
 } from '../../services/middleware';
 import { ConvexError } from 'convex/values';
 
 /**
- * GET /api/chat/threads/:threadId/messages
+ * Shape a message (with its sibling info) for API responses
+ */
+const formatMessage = (msg: any) => ({
+  id: msg._id,
+  parentMessageId: msg.parentMessageId,
+  role: msg.role,
+  content: msg.content,
+  metadata: msg.metadata,
+  siblingIds: msg.siblingIds,
+  siblingCount: msg.siblingCount,
+  siblingIndex: msg.siblingIndex,
+  createdAt: msg.createdAt,
+  updatedAt: msg.updatedAt,
+});
+
+/**
+ * GET /api/chat/threads/:threadId/messages?limit=<n>&cursor=<nextCursor>
  * Get messages from a specific conversation thread
  */
-export const getMessages = httpAction(async (ctx, request) => {
+export const getMessages = withScopedAuth('threads:read', async (ctx, request, user) => {
   try {
     const url = new URL(request.url);
-    const clerkId = url.searchParams.get('clerkId');
     const threadId = url.pathname.split('/')[4];
 
-    // Get internal userId from clerkId
-    if (!clerkId) {
-      return createErrorResponse('clerkId parameter is required', 400);
-    }
-
-    const userId = await getUserIdFromClerkId(ctx, clerkId);
-    if (!userId) {
-      return createErrorResponse('Invalid clerkId or user not found', 401);
-    }
-
     if (!threadId) {
       return createErrorResponse('Thread ID is required', 400);
     }
 
-    const limit = Math.min(parseInt(url.searchParams.get('limit') || '50'), 200);
-    const offset = Math.max(parseInt(url.searchParams.get('offset') || '0'), 0);
+    const limit = parseLimitParam(url, 50, 200);
+    const cursor = url.searchParams.get('cursor');
 
-    const messages = await ctx.runQuery(api.services.message_service.getThreadMessages, {
+    const { messages, nextCursor } = await ctx.runQuery(
+      internal.services.message_service.getThreadMessages,
+      {
+        threadId: threadId as any,
+        userId: user._id,
+        limit,
+        cursor,
+      }
+    );
+
+    // Included so clients opening a thread by link or search hit need no second lookup
+    const thread = await ctx.runQuery(internal.services.thread_service.getThread, {
       threadId: threadId as any,
-      clerkId,
-      limit,
-      offset,
+      userId: user._id,
     });
 
+    // Let clients reattach to a generation that is still running for this thread
+    const activeStream = await ctx.runQuery(
+      internal.services.stream_service.getActiveThreadStream,
+      { threadId: threadId as any }
+    );
+
     return createSuccessResponse({
-      messages: messages.map((msg: any) => ({
-        id: msg._id,
-        role: msg.role,
-        content: msg.content,
-        metadata: msg.metadata,
-        createdAt: msg.createdAt,
-        updatedAt: msg.updatedAt,
-      })),
+      thread,
+      messages: messages.map(formatMessage),
       pagination: {
         limit,
-        offset,
-        hasMore: messages.length === limit,
+        nextCursor,
+        hasMore: nextCursor !== null,
+      },
+      activeStream: activeStream && {
+        streamId: activeStream._id,
+        modelId: activeStream.modelId,
+        text: activeStream.text,
+        offset: activeStream.text.length,
       },
     });
   } catch (error) {
@@ -63,6 +84,9 @@ export const getMessages = httpAction(async (ctx, request) => {
     if (error instanceof ConvexError && error.message.includes('access denied')) {
       return createErrorResponse('Thread not found or access denied', 404);
     }
+    if (error instanceof ConvexError && error.message.includes('must')) {
+      return createErrorResponse(error.message, 400);
+    }
 
     return createErrorResponse(
       error instanceof Error ? error.message : 'Failed to fetch messages',
@@ -71,22 +95,62 @@ export const getMessages = httpAction(async (ctx, request) => {
   }
 });
 
+/**
+ * POST /api/chat/branches/:messageId
+ * Switch the thread's active branch to the one containing a message
+ */
+export const selectBranch = withAuth(async (ctx, request, user) => {
+  try {
+    const url = new URL(request.url);
+    const messageId = url.pathname.split('/')[4];
+
+    if (!messageId) {
+      return createErrorResponse('Message ID is required', 400);
+    }
+
+    const limit = parseLimitParam(url, 50, 200);
+
+    const result = await ctx.runMutation(internal.services.message_service.selectBranch, {
+      messageId: messageId as any,
+      userId: user._id,
+      limit,
+    });
+
+    return createSuccessResponse({
+      threadId: result.threadId,
+      messages: result.messages.map(formatMessage),
+      pagination: {
+        limit,
+        nextCursor: result.nextCursor,
+        hasMore: result.nextCursor !== null,
+      },
+    });
+  } catch (error) {
+    console.error('Select branch error:', error);
+
+    if (error instanceof ConvexError && error.message.includes('access denied')) {
+      return createErrorResponse('Message not found or access denied', 404);
+    }
+
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'Failed to select branch',
+      500
+    );
+  }
+});
+
 /**
  * PUT /api/chat/messages/:messageId
  * Update/edit a message
  */
-export const updateMessage = httpAction(async (ctx, request) => {
+export const updateMessage = withAuth(async (ctx, request, user) => {
   try {
     const body = await parseRequestBody(request);
-    const { clerkId, content } = body;
+    const { content } = body;
 
     const url = new URL(request.url);
     const messageId = url.pathname.split('/')[4];
 
-    if (!clerkId) {
-      return createErrorResponse('clerkId is required', 400);
-    }
-
     if (!messageId) {
       return createErrorResponse('Message ID is required', 400);
     }
@@ -95,15 +159,10 @@ export const updateMessage = httpAction(async (ctx, request) => {
       return createErrorResponse('Content is required', 400);
     }
 
-    // Get internal userId from clerkId
-    const userId = await getUserIdFromClerkId(ctx, clerkId);
-    if (!userId) {
-      return createErrorResponse('Invalid clerkId or user not found', 401);
-    }
-
     // Update the message
-    await ctx.runMutation(api.services.message_service.updateMessage, {
+    await ctx.runMutation(internal.services.message_service.updateMessage, {
       messageId: messageId as any,
+      userId: user._id,
       content,
       edited: true,
     });
@@ -127,20 +186,13 @@ export const updateMessage = httpAction(async (ctx, request) => {
  * DELETE /api/chat/bulk-delete-messages/:threadId/from/:index
  * Delete messages from a specific index onwards (for retry operations)
  */
-export const deleteMessagesFromIndex = httpAction(async (ctx, request) => {
+export const deleteMessagesFromIndex = withAuth(async (ctx, request, user) => {
   try {
-    const body = await parseRequestBody(request);
-    const { clerkId } = body;
-
     const url = new URL(request.url);
     const pathParts = url.pathname.split('/');
     const threadId = pathParts[4];
     const fromIndex = parseInt(pathParts[6]); // Changed from 7 to 6
 
-    if (!clerkId) {
-      return createErrorResponse('clerkId is required', 400);
-    }
-
     if (!threadId) {
       return createErrorResponse('Thread ID is required', 400);
     }
@@ -149,18 +201,15 @@ export const deleteMessagesFromIndex = httpAction(async (ctx, request) => {
       return createErrorResponse('Valid index is required', 400);
     }
 
-    // Get internal userId from clerkId
-    const userId = await getUserIdFromClerkId(ctx, clerkId);
-    if (!userId) {
-      return createErrorResponse('Invalid clerkId or user not found', 401);
-    }
-
     // Delete messages from the specified index onwards
-    const result = await ctx.runMutation(api.services.message_service.deleteMessagesFromIndex, {
-      threadId: threadId as any,
-      fromIndex,
-      clerkId,
-    });
+    const result = await ctx.runMutation(
+      internal.services.message_service.deleteMessagesFromIndex,
+      {
+        threadId: threadId as any,
+        fromIndex,
+        userId: user._id,
+      }
+    );
 
     return createSuccessResponse({
       success: true,
@@ -184,32 +233,19 @@ export const deleteMessagesFromIndex = httpAction(async (ctx, request) => {
  * DELETE /api/chat/messages/:messageId
  * Delete a single message
  */
-export const deleteMessage = httpAction(async (ctx, request) => {
+export const deleteMessage = withAuth(async (ctx, request, user) => {
   try {
-    const body = await parseRequestBody(request);
-    const { clerkId } = body;
-
     const url = new URL(request.url);
     const messageId = url.pathname.split('/')[4];
 
-    if (!clerkId) {
-      return createErrorResponse('clerkId is required', 400);
-    }
-
     if (!messageId) {
       return createErrorResponse('Message ID is required', 400);
     }
 
-    // Get internal userId from clerkId
-    const userId = await getUserIdFromClerkId(ctx, clerkId);
-    if (!userId) {
-      return createErrorResponse('Invalid clerkId or user not found', 401);
-    }
-
     // Delete the message
-    await ctx.runMutation(api.services.message_service.deleteMessage, {
+    await ctx.runMutation(internal.services.message_service.deleteMessage, {
       messageId: messageId as any,
-      clerkId,
+      userId: user._id,
     });
 
     return createSuccessResponse({ success: true });
@@ -0,0 +1,675 @@
+import type { CoreMessage, FinishReason, LanguageModelUsage, Tool, ToolChoice } from 'ai';
+import { internal } from '../../_generated/api';
+import type { Id } from '../../_generated/dataModel';
+import {
+  REASONING_EFFORTS,
+  createAIModel,
+  findUnsupportedParameter,
+  getAllModels,
+  getModelById,
+  getReasoningProviderOptions,
+  isModelDeprecated,
+  type ModelParameter,
+  type SharedModel,
+} from '../../config/models';
+import { ABILITIES, getToolkit, type AbilityId } from '../../lib/toolkit';
+import { requireProviderKey, resolveProviderKeys } from '../../lib/provider_keys';
+import { reserveQuota } from '../../lib/quota';
+import { getToolResultError, getToolUsage } from '../../lib/usage';
+import {
+  withScopedAuth,
+  parseRequestBody,
+  createErrorResponse,
+  createSuccessResponse,
+} from '../../services/middleware';
+
+// Most server tool round trips before the model has to answer
+const MAX_SERVER_TOOL_STEPS = 5;
+
+type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: string | { url: string } };
+
+type OpenAIToolCall = {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+};
+
+type OpenAIMessage = {
+  role: 'system' | 'developer' | 'user' | 'assistant' | 'tool';
+  content?: string | OpenAIContentPart[] | null;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+};
+
+type OpenAIFunctionTool = {
+  type: 'function';
+  function: { name: string; description?: string; parameters?: Record<string, unknown> };
+};
+
+type OpenAIUsage = { prompt_tokens: number; completion_tokens: number; total_tokens: number };
+
+type ParsedRequest = {
+  model: SharedModel;
+  messages: CoreMessage[];
+  stream: boolean;
+  clientTools: Record<string, Tool>;
+  serverTools: AbilityId[];
+  toolChoice?: ToolChoice<Record<string, Tool>>;
+  settings: {
+    temperature?: number;
+    topP?: number;
+    maxTokens?: number;
+    stopSequences?: string[];
+    seed?: number;
+    presencePenalty?: number;
+    frequencyPenalty?: number;
+    providerOptions?: ReturnType<typeof getReasoningProviderOptions>;
+  };
+};
+
+/**
+ * Join the text parts of an OpenAI message
+ */
+const getTextContent = (content: OpenAIMessage['content']): string => {
+  if (!content) return '';
+  if (typeof content === 'string') return content;
+  return content
+    .map(part => (part.type === 'text' ? part.text : ''))
+    .filter(Boolean)
+    .join('\n');
+};
+
+/**
+ * Convert OpenAI chat messages to the AI SDK format
+ * Returns an error message string when a message cannot be converted
+ */
+const toCoreMessages = (messages: OpenAIMessage[], model: SharedModel): CoreMessage[] | string => {
+  // Tool results only carry the call id, so remember which tool each call was for
+  const toolNames = new Map<string, string>();
+  const converted: CoreMessage[] = [];
+
+  for (const [index, message] of messages.entries()) {
+    switch (message?.role) {
+      case 'system':
+      case 'developer':
+        converted.push({ role: 'system', content: getTextContent(message.content) });
+        break;
+
+      case 'user': {
+        if (typeof message.content === 'string' || !message.content) {
+          converted.push({ role: 'user', content: message.content ?? '' });
+          break;
+        }
+
+        const content: Exclude<Extract<CoreMessage, { role: 'user' }>['content'], string> = [];
+        for (const part of message.content) {
+          if (part.type === 'text') {
+            content.push({ type: 'text', text: String(part.text) });
+          } else if (part.type === 'image_url') {
+            if (!model.abilities.includes('vision')) {
+              return `Model ${model.id} does not accept images`;
+            }
+            const url = typeof part.image_url === 'string' ? part.image_url : part.image_url?.url;
+            if (!url || !(url.startsWith('https://') || url.startsWith('data:image/'))) {
+              return `messages[${index}]: image_url must be an HTTPS or base64 data URL`;
+            }
+            content.push({ type: 'image', image: url });
+          } else {
+            return `messages[${index}]: unsupported content part type`;
+          }
+        }
+        converted.push({ role: 'user', content });
+        break;
+      }
+
+      case 'assistant': {
+        const text = getTextContent(message.content);
+        if (!message.tool_calls?.length) {
+          converted.push({ role: 'assistant', content: text });
+          break;
+        }
+
+        const content: Exclude<Extract<CoreMessage, { role: 'assistant' }>['content'], string> =
+          text ? [{ type: 'text', text }] : [];
+        for (const call of message.tool_calls) {
+          let args: unknown;
+          try {
+            args = JSON.parse(call.function.arguments || '{}');
+          } catch {
+            return `messages[${index}]: tool call arguments must be valid JSON`;
+          }
+          toolNames.set(call.id, call.function.name);
+          content.push({
+            type: 'tool-call',
+            toolCallId: call.id,
+            toolName: call.function.name,
+            args,
+          });
+        }
+        converted.push({ role: 'assistant', content });
+        break;
+      }
+
+      case 'tool': {
+        const toolName = message.tool_call_id ? toolNames.get(message.tool_call_id) : undefined;
+        if (!message.tool_call_id || !toolName) {
+          return `messages[${index}]: tool_call_id must match an earlier assistant tool call`;
+        }
+        converted.push({
+          role: 'tool',
+          content: [
+            {
+              type: 'tool-result',
+              toolCallId: message.tool_call_id,
+              toolName,
+              result: getTextContent(message.content),
+            },
+          ],
+        });
+        break;
+      }
+
+      default:
+        return `messages[${index}]: role must be system, developer, user, assistant or tool`;
+    }
+  }
+
+  return converted;
+};
+
+/**
+ * Validate an OpenAI chat completion body
+ * Returns an error message string when the input is invalid
+ */
+const parseChatCompletionRequest = async (raw: any): Promise<ParsedRequest | string> => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return 'Request body must be an object';
+  }
+
+  const model = typeof raw.model === 'string' ? getModelById(raw.model) : null;
+  if (!model) {
+    return `Unknown model: ${raw.model}`;
+  }
+  if (isModelDeprecated(model)) {
+    return `Model ${model.id} was retired on ${model.deprecationDate}`;
+  }
+
+  if (!Array.isArray(raw.messages) || raw.messages.length === 0) {
+    return 'messages must be a non-empty array';
+  }
+  const messages = toCoreMessages(raw.messages, model);
+  if (typeof messages === 'string') {
+    return messages;
+  }
+
+  // Client tools have no execute function, so calls to them are returned to the caller
+  const clientTools: Record<string, Tool> = {};
+  if (raw.tools !== undefined) {
+    if (!Array.isArray(raw.tools)) {
+      return 'tools must be an array';
+    }
+
+    const { jsonSchema } = await import('ai');
+    for (const entry of raw.tools as OpenAIFunctionTool[]) {
+      if (entry?.type !== 'function' || typeof entry.function?.name !== 'string') {
+        return 'tools must only contain function tools with a name';
+      }
+      clientTools[entry.function.name] = {
+        description: entry.function.description,
+        parameters: jsonSchema((entry.function.parameters as any) ?? { type: 'object' }),
+      };
+    }
+  }
+
+  // Chatzo's own tools (web_search, ...) are opted into with an extension field
+  const serverTools: AbilityId[] = [];
+  if (raw.enabled_tools !== undefined) {
+    if (
+      !Array.isArray(raw.enabled_tools) ||
+      raw.enabled_tools.some((tool: unknown) => !(ABILITIES as readonly unknown[]).includes(tool))
+    ) {
+      return `enabled_tools must only contain: ${ABILITIES.join(', ')}`;
+    }
+    serverTools.push(...raw.enabled_tools);
+  }
+
+  if (
+    (Object.keys(clientTools).length > 0 || serverTools.length > 0) &&
+    !model.abilities.includes('function_calling')
+  ) {
+    return `Model ${model.id} does not support tool calls`;
+  }
+
+  let toolChoice: ParsedRequest['toolChoice'];
+  if (raw.tool_choice !== undefined) {
+    if (['auto', 'none', 'required'].includes(raw.tool_choice)) {
+      toolChoice = raw.tool_choice;
+    } else if (raw.tool_choice?.type === 'function' && raw.tool_choice.function?.name) {
+      toolChoice = { type: 'tool', toolName: raw.tool_choice.function.name };
+    } else {
+      return 'tool_choice must be "auto", "none", "required" or a function';
+    }
+  }
+
+  for (const field of [
+    'temperature',
+    'top_p',
+    'max_tokens',
+    'max_completion_tokens',
+    'seed',
+    'presence_penalty',
+    'frequency_penalty',
+  ]) {
+    if (raw[field] !== undefined && raw[field] !== null && typeof raw[field] !== 'number') {
+      return `${field} must be a number`;
+    }
+  }
+
+  for (const field of ['max_tokens', 'max_completion_tokens']) {
+    if (
+      raw[field] !== undefined &&
+      raw[field] !== null &&
+      !(Number.isInteger(raw[field]) && raw[field] > 0)
+    ) {
+      return `${field} must be a positive integer`;
+    }
+  }
+
+  if (
+    raw.stop !== undefined &&
+    raw.stop !== null &&
+    typeof raw.stop !== 'string' &&
+    !(Array.isArray(raw.stop) && raw.stop.every((stop: unknown) => typeof stop === 'string'))
+  ) {
+    return 'stop must be a string or an array of strings';
+  }
+
+  if (
+    raw.reasoning_effort !== undefined &&
+    raw.reasoning_effort !== null &&
+    !(REASONING_EFFORTS as readonly unknown[]).includes(raw.reasoning_effort)
+  ) {
+    return `reasoning_effort must be one of: ${REASONING_EFFORTS.join(', ')}`;
+  }
+
+  const requestedParameters = (
+    [
+      ['temperature', raw.temperature],
+      ['top_p', raw.top_p],
+      ['max_tokens', raw.max_completion_tokens ?? raw.max_tokens],
+      ['seed', raw.seed],
+      ['reasoning_effort', raw.reasoning_effort],
+    ] as [ModelParameter, unknown][]
+  )
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([parameter]) => parameter);
+  const unsupported = findUnsupportedParameter(model, requestedParameters);
+  if (unsupported) {
+    return `Model ${model.id} does not support ${unsupported}`;
+  }
+
+  const maxTokens: number | undefined = raw.max_completion_tokens ?? raw.max_tokens ?? undefined;
+
+  return {
+    model,
+    messages,
+    stream: raw.stream === true,
+    clientTools,
+    serverTools,
+    toolChoice,
+    settings: {
+      temperature: raw.temperature ?? undefined,
+      topP: raw.top_p ?? undefined,
+      maxTokens: maxTokens !== undefined ? Math.min(maxTokens, model.maxOutputTokens) : undefined,
+      stopSequences: raw.stop ? [raw.stop].flat() : undefined,
+      seed: raw.seed ?? undefined,
+      presencePenalty: raw.presence_penalty ?? undefined,
+      frequencyPenalty: raw.frequency_penalty ?? undefined,
+      providerOptions: raw.reasoning_effort
+        ? getReasoningProviderOptions(model, raw.reasoning_effort)
+        : undefined,
+    },
+  };
+};
+
+/**
+ * Map an AI SDK finish reason to OpenAI's
+ */
+const toOpenAIFinishReason = (reason: FinishReason, calledClientTool: boolean) => {
+  switch (reason) {
+    case 'length':
+      return 'length';
+    case 'content-filter':
+      return 'content_filter';
+    case 'tool-calls':
+      // Server tools ran to completion, so only calls left for the client count
+      return calledClientTool ? 'tool_calls' : 'stop';
+    default:
+      return 'stop';
+  }
+};
+
+/**
+ * Server tool calls across all steps; client tools never produce results here
+ */
+const getServerToolCalls = (steps: { toolResults: unknown[] }[]) =>
+  steps.flatMap(step =>
+    step.toolResults.map((toolResult: any) => ({
+      toolName: toolResult.toolName as string,
+      args: toolResult.args,
+      error: getToolResultError(toolResult.result),
+    }))
+  );
+
+const toOpenAIUsage = (usage: LanguageModelUsage | undefined): OpenAIUsage => {
+  const promptTokens = usage?.promptTokens || 0;
+  const completionTokens = usage?.completionTokens || 0;
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+  };
+};
+
+/**
+ * GET /v1/models
+ * List models in OpenAI's format
+ */
+export const listModels = withScopedAuth('chat', async () => {
+  const data = getAllModels()
+    .filter(model => !isModelDeprecated(model))
+    .map(model => ({
+      id: model.id,
+      object: 'model',
+      created: 0,
+      owned_by: model.provider,
+      name: model.name,
+      context_window: model.contextWindow,
+      max_output_tokens: model.maxOutputTokens,
+      pricing: {
+        input_per_million: model.inputPricePerMillion,
+        output_per_million: model.outputPricePerMillion,
+      },
+      supported_parameters: model.supportedParameters,
+      deprecation_date: model.deprecationDate ?? null,
+    }));
+
+  return createSuccessResponse({ object: 'list', data });
+});
+
+/**
+ * POST /v1/chat/completions
+ * OpenAI-compatible chat completion, streamed as chat.completion.chunk events when stream is set
+ */
+export const chatCompletions = withScopedAuth('chat', async (ctx, request, user) => {
+  // Reserved by the quota check; trackUsage completes it, or it is failed if the request
+  // breaks off before generation starts
+  let usageEventId: Id<'usageEvents'> | undefined;
+  let generationStarted = false;
+
+  try {
+    const parsed = await parseChatCompletionRequest(await parseRequestBody(request));
+    if (typeof parsed === 'string') {
+      return createErrorResponse(parsed, 400, 'invalid_request_error');
+    }
+    const { model, messages, stream, clientTools, serverTools, toolChoice, settings } = parsed;
+
+    const providerKeys = await resolveProviderKeys(ctx, user._id);
+    let aiModel;
+    let providerKey: string;
+    try {
+      providerKey = requireProviderKey(providerKeys, model.provider);
+      aiModel = createAIModel(model.id, undefined, providerKey);
+    } catch (error) {
+      return createErrorResponse(
+        error instanceof Error ? error.message : `Failed to create model: ${model.id}`,
+        400,
+        'invalid_request_error'
+      );
+    }
+
+    const quota = await reserveQuota(ctx, user._id, model, providerKey);
+    if (quota.response) {
+      return quota.response;
+    }
+    usageEventId = quota.usageEventId;
+
+    const tools = {
+      ...(serverTools.length > 0
+        ? await getToolkit(ctx, {
+            userId: user._id,
+            enabledTools: serverTools,
+            providerKeys,
+            model,
+          })
+        : {}),
+      ...clientTools,
+    };
+    const hasTools = Object.keys(tools).length > 0;
+    const isClientTool = (toolName: string) => toolName in clientTools;
+
+    const { generateId, generateText, streamText } = await import('ai');
+    const completionId = `chatcmpl-${generateId()}`;
+    const created = Math.floor(Date.now() / 1000);
+    const startTime = Date.now();
+
+    const callOptions = {
+      model: aiModel,
+      messages,
+      tools: hasTools ? tools : undefined,
+      toolChoice: hasTools ? toolChoice : undefined,
+      maxSteps: serverTools.length > 0 ? MAX_SERVER_TOOL_STEPS : 1,
+      abortSignal: request.signal,
+      ...settings,
+    };
+
+    /**
+     * Record the request in usageEvents like completions from the app
+     */
+    const trackUsage = async (
+      usage: OpenAIUsage,
+      status: 'success' | 'error' | 'cancelled',
+      modelName?: string,
+      errorMessage?: string,
+      timeToFirstToken?: number,
+      serverToolCalls: ReturnType<typeof getServerToolCalls> = []
+    ) => {
+      try {
+        await ctx.runMutation(internal.services.chat_service.trackUsage, {
+          usageEventId,
+          userId: user._id,
+          modelId: model.id,
+          modelName: modelName || model.id,
+          promptTokens: usage.prompt_tokens,
+          completionTokens: usage.completion_tokens,
+          totalTokens: usage.total_tokens,
+          duration: Date.now() - startTime,
+          timeToFirstToken,
+          toolUsage: getToolUsage(serverToolCalls),
+          status,
+          errorMessage,
+        });
+      } catch (dbError) {
+        console.error('Failed to track API usage:', dbError);
+      }
+    };
+
+    // From here every path ends in trackUsage
+    generationStarted = true;
+
+    if (!stream) {
+      try {
+        const result = await generateText(callOptions);
+        const toolCalls = result.toolCalls
+          .filter(call => isClientTool(call.toolName))
+          .map(call => ({
+            id: call.toolCallId,
+            type: 'function',
+            function: { name: call.toolName, arguments: JSON.stringify(call.args) },
+          }));
+        const usage = toOpenAIUsage(result.usage);
+        await trackUsage(
+          usage,
+          'success',
+          result.response.modelId,
+          undefined,
+          undefined,
+          getServerToolCalls(result.steps)
+        );
+
+        return createSuccessResponse({
+          id: completionId,
+          object: 'chat.completion',
+          created,
+          model: model.id,
+          choices: [
+            {
+              index: 0,
+              message: {
+                role: 'assistant',
+                content: result.text || null,
+                ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+              },
+              finish_reason: toOpenAIFinishReason(result.finishReason, toolCalls.length > 0),
+            },
+          ],
+          usage,
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Generation failed';
+        await trackUsage(toOpenAIUsage(undefined), 'error', undefined, message);
+        return createErrorResponse(message, 502, 'upstream_error');
+      }
+    }
+
+    const result = streamText(callOptions);
+    const encoder = new TextEncoder();
+
+    const body = new ReadableStream({
+      async start(controller) {
+        const send = (data: unknown) =>
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+        const sendChunk = (delta: Record<string, unknown>, extra: Record<string, unknown> = {}) =>
+          send({
+            id: completionId,
+            object: 'chat.completion.chunk',
+            created,
+            model: model.id,
+            choices: [{ index: 0, delta, finish_reason: null }],
+            ...extra,
+          });
+
+        let toolCallIndex = 0;
+        let usage = toOpenAIUsage(undefined);
+        let modelName: string | undefined;
+        let timeToFirstToken: number | undefined;
+
+        try {
+          sendChunk({ role: 'assistant', content: '' });
+
+          for await (const part of result.fullStream) {
+            timeToFirstToken ??= Date.now() - startTime;
+            switch (part.type) {
+              case 'text-delta':
+                sendChunk({ content: part.textDelta });
+                break;
+              case 'tool-call':
+                if (!isClientTool(part.toolName)) break;
+                sendChunk({
+                  tool_calls: [
+                    {
+                      index: toolCallIndex++,
+                      id: part.toolCallId,
+                      type: 'function',
+                      function: { name: part.toolName, arguments: JSON.stringify(part.args) },
+                    },
+                  ],
+                });
+                break;
+              case 'step-finish':
+                modelName = part.response.modelId;
+                break;
+              case 'finish':
+                usage = toOpenAIUsage(part.usage);
+                // Usage rides on the final chunk so clients need no extra request option
+                send({
+                  id: completionId,
+                  object: 'chat.completion.chunk',
+                  created,
+                  model: model.id,
+                  choices: [
+                    {
+                      index: 0,
+                      delta: {},
+                      finish_reason: toOpenAIFinishReason(part.finishReason, toolCallIndex > 0),
+                    },
+                  ],
+                  usage,
+                });
+                break;
+              case 'error':
+                throw part.error;
+              default:
+                break;
+            }
+          }
+
+          await trackUsage(
+            usage,
+            'success',
+            modelName,
+            undefined,
+            timeToFirstToken,
+            getServerToolCalls(await result.steps)
+          );
+        } catch (error) {
+          const aborted = request.signal.aborted;
+          const message = error instanceof Error ? error.message : 'Generation failed';
+          if (!aborted) {
+            console.error('OpenAI-compatible stream error:', error);
+            send({ error: { message, type: 'upstream_error' } });
+          }
+          await trackUsage(
+            usage,
+            aborted ? 'cancelled' : 'error',
+            modelName,
+            message,
+            timeToFirstToken
+          );
+        }
+
+        try {
+          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+          controller.close();
+        } catch {
+          // The client is already gone
+        }
+      },
+    });
+
+    return new Response(body, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      },
+    });
+  } catch (error) {
+    console.error('OpenAI-compatible completion error:', error);
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'Internal server error',
+      500
+    );
+  } finally {
+    if (usageEventId && !generationStarted) {
+      await ctx
+        .runMutation(internal.services.chat_service.failUsage, {
+          usageEventId,
+          errorMessage: 'Request failed before generation started',
+        })
+        .catch(error => console.error('Failed to release usage reservation:', error));
+    }
+  }
+});
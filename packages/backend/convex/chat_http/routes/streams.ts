@@ -0,0 +1,89 @@
+import { internal } from '../../_generated/api';
+import {
+  withScopedAuth,
+  createErrorResponse,
+  createSuccessResponse,
+} from '../../services/middleware';
+import { isStreamActive } from '../../services/stream_service';
+import { ConvexError } from 'convex/values';
+
+/**
+ * GET /api/chat/streams/:streamId?offset=<n>
+ * Replay a generation's text from a character offset so clients can reattach
+ */
+export const getStream = withScopedAuth('threads:read', async (ctx, request, user) => {
+  try {
+    const url = new URL(request.url);
+    const streamId = url.pathname.split('/')[4];
+
+    if (!streamId) {
+      return createErrorResponse('Stream ID is required', 400);
+    }
+
+    const offset = Math.max(parseInt(url.searchParams.get('offset') || '0') || 0, 0);
+
+    const stream = await ctx.runQuery(internal.services.stream_service.getStream, {
+      streamId: streamId as any,
+      userId: user._id,
+    });
+
+    const active = isStreamActive(stream);
+
+    return createSuccessResponse({
+      streamId: stream._id,
+      threadId: stream.threadId,
+      // A stream whose action died is reported as failed rather than streaming forever
+      status: stream.status === 'streaming' && !active ? 'error' : stream.status,
+      text: stream.text.slice(offset),
+      offset: stream.text.length,
+      done: !active,
+      messageId: stream.messageId,
+      errorMessage: stream.errorMessage,
+    });
+  } catch (error) {
+    console.error('Get stream error:', error);
+
+    if (error instanceof ConvexError && error.message.includes('access denied')) {
+      return createErrorResponse('Stream not found or access denied', 404);
+    }
+
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'Failed to fetch stream',
+      500
+    );
+  }
+});
+
+/**
+ * POST /api/chat/streams/:streamId/cancel
+ * Stop a generation; it saves the answer so far as a stopped message
+ */
+export const cancelStream = withScopedAuth('chat', async (ctx, request, user) => {
+  try {
+    const url = new URL(request.url);
+    const [, , , , streamId, action] = url.pathname.split('/');
+
+    if (!streamId || action !== 'cancel') {
+      return createErrorResponse('Not found', 404);
+    }
+
+    const { cancelled } = await ctx.runMutation(internal.services.stream_service.requestCancel, {
+      streamId: streamId as any,
+      userId: user._id,
+    });
+
+    // A stream that already finished has nothing to stop, which is not an error
+    return createSuccessResponse({ streamId, cancelled });
+  } catch (error) {
+    console.error('Cancel stream error:', error);
+
+    if (error instanceof ConvexError && error.message.includes('access denied')) {
+      return createErrorResponse('Stream not found or access denied', 404);
+    }
+
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'Failed to cancel stream',
+      500
+    );
+  }
+});
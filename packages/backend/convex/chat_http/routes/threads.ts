@@ -1,31 +1,104 @@
-import { httpAction } from '../../_generated/server';
-import { api } from '../../_generated/api';
+import { internal } from '../../_generated/api';
+import type { ActionCtx } from '../../_generated/server';
+import type { Id } from '../../_generated/dataModel';
+import { getModelById } from '../../config/models';
 import {
-  getUserIdFromClerkId,
+  withAuth,
+  withScopedAuth,
   parseRequestBody,
+  parseLimitParam,
   createErrorResponse,
   createSuccessResponse,
 } from '../../services/middleware';
 import { ConvexError } from 'convex/values';
 
+type ThreadSettingsInput = {
+  modelId?: string;
+  temperature?: number;
+  maxTokens?: number;
+  systemPrompt?: string;
+  personaId?: string | null;
+};
+
 /**
- * POST /api/chat/generate-title
- * Generate AI-powered conversation titles with multimodal support (uses gemini-2.0-flash)
+ * Validate thread settings from a request body
+ * Returns an error message string when the settings are invalid
  */
-export const generateTitle = httpAction(async (ctx, request) => {
-  try {
-    const body = await parseRequestBody(request);
-    const { clerkId, messages, thread_id } = body;
+const parseThreadSettings = (raw: any): ThreadSettingsInput | string => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return 'Settings must be an object';
+  }
+
+  const settings: ThreadSettingsInput = {};
+
+  if (raw.modelId !== undefined) {
+    if (typeof raw.modelId !== 'string' || !getModelById(raw.modelId)) {
+      return `Unknown model: ${raw.modelId}`;
+    }
+    settings.modelId = raw.modelId;
+  }
+
+  if (raw.temperature !== undefined) {
+    if (typeof raw.temperature !== 'number') {
+      return 'Temperature must be a number';
+    }
+    settings.temperature = raw.temperature;
+  }
+
+  if (raw.maxTokens !== undefined) {
+    if (typeof raw.maxTokens !== 'number') {
+      return 'Max tokens must be a number';
+    }
+    settings.maxTokens = raw.maxTokens;
+  }
 
-    // Get internal userId from clerkId
-    if (!clerkId) {
-      return createErrorResponse('clerkId is required', 400);
+  if (raw.systemPrompt !== undefined) {
+    if (typeof raw.systemPrompt !== 'string') {
+      return 'System prompt must be a string';
     }
+    settings.systemPrompt = raw.systemPrompt;
+  }
 
-    const userId = await getUserIdFromClerkId(ctx, clerkId);
-    if (!userId) {
-      return createErrorResponse('Invalid clerkId or user not found', 401);
+  if (raw.personaId !== undefined) {
+    if (raw.personaId !== null && typeof raw.personaId !== 'string') {
+      return 'Persona ID must be a string or null';
     }
+    settings.personaId = raw.personaId;
+  }
+
+  return settings;
+};
+
+/**
+ * Check that the persona settings point at exists and belongs to the user
+ * Returns an error message string when it doesn't, including for malformed IDs
+ */
+const validatePersona = async (
+  ctx: ActionCtx,
+  personaId: string | null | undefined,
+  userId: Id<'users'>
+): Promise<string | undefined> => {
+  if (!personaId) return undefined;
+
+  try {
+    await ctx.runQuery(internal.services.persona_service.getPersona, {
+      personaId: personaId as Id<'personas'>,
+      userId,
+    });
+    return undefined;
+  } catch {
+    return 'Persona not found or access denied';
+  }
+};
+
+/**
+ * POST /api/chat/generate-title
+ * Generate AI-powered conversation titles with multimodal support (uses gemini-2.0-flash)
+ */
+export const generateTitle = withAuth(async (ctx, request, user) => {
+  try {
+    const body = await parseRequestBody(request);
+    const { messages, thread_id } = body;
 
     if (!messages || !Array.isArray(messages)) {
       return createErrorResponse('Messages array is required', 400);
@@ -39,15 +112,17 @@ export const generateTitle = httpAction(async (ctx, request) => {
     }
 
     // Title generation uses multimodal support with gemini-2.0-flash
-    const result = await ctx.runAction(api.services.thread_service.generateThreadTitle, {
+    const result = await ctx.runAction(internal.services.thread_service.generateThreadTitle, {
       messages: titleMessages,
+      userId: user._id,
     });
 
     // Update thread title if thread_id provided
     if (thread_id) {
-      await ctx.runMutation(api.services.thread_service.updateThreadTitle, {
+      await ctx.runMutation(internal.services.thread_service.updateThreadTitleWithAuth, {
         threadId: thread_id,
         title: result.title,
+        userId: user._id,
       });
     }
 
@@ -69,24 +144,37 @@ export const generateTitle = httpAction(async (ctx, request) => {
  * POST /api/chat/threads
  * Create a new conversation thread
  */
-export const createThread = httpAction(async (ctx, request) => {
+export const createThread = withAuth(async (ctx, request, user) => {
   try {
     const body = await parseRequestBody(request);
-    const { clerkId, title = 'New Chat' } = body;
+    const { title = 'New Chat', settings } = body;
 
-    // Get internal userId from clerkId
-    if (!clerkId) {
-      return createErrorResponse('clerkId is required', 400);
+    const parsedSettings = settings !== undefined ? parseThreadSettings(settings) : undefined;
+    if (typeof parsedSettings === 'string') {
+      return createErrorResponse(parsedSettings, 400);
     }
 
-    const thread = await ctx.runMutation(api.services.thread_service.createOrGetThread, {
-      clerkId,
+    const personaError = await validatePersona(ctx, parsedSettings?.personaId, user._id);
+    if (personaError) {
+      return createErrorResponse(personaError, 400);
+    }
+
+    const thread = await ctx.runMutation(internal.services.thread_service.createOrGetThread, {
+      userId: user._id,
       title: title.trim(),
+      settings: parsedSettings && {
+        ...parsedSettings,
+        personaId: (parsedSettings.personaId ?? undefined) as any,
+      },
     });
 
     return createSuccessResponse(thread);
   } catch (error) {
     console.error('Thread creation error:', error);
+
+    if (error instanceof ConvexError && error.message.includes('access denied')) {
+      return createErrorResponse(error.message, error.message.startsWith('Persona') ? 400 : 404);
+    }
     return createErrorResponse(
       error instanceof Error ? error.message : 'Failed to create thread',
       500
@@ -98,38 +186,30 @@ export const createThread = httpAction(async (ctx, request) => {
  * GET /api/chat/threads
  * List conversation threads for the authenticated user
  */
-export const getThreads = httpAction(async (ctx, request) => {
+export const getThreads = withScopedAuth('threads:read', async (ctx, request, user) => {
   try {
     const url = new URL(request.url);
-    const clerkId = url.searchParams.get('clerkId');
-
-    // Get internal userId from clerkId
-    if (!clerkId) {
-      return createErrorResponse('clerkId parameter is required', 400);
-    }
-
-    const userId = await getUserIdFromClerkId(ctx, clerkId);
-    if (!userId) {
-      return createErrorResponse('Invalid clerkId or user not found', 401);
-    }
 
-    const limit = Math.min(parseInt(url.searchParams.get('limit') || '20'), 100);
-    const offset = Math.max(parseInt(url.searchParams.get('offset') || '0'), 0);
+    const limit = parseLimitParam(url, 20, 100);
+    const cursor = url.searchParams.get('cursor');
     const archived = url.searchParams.get('archived') === 'true';
 
-    const threads = await ctx.runQuery(api.services.thread_service.getUserThreads, {
-      clerkId,
-      limit,
-      offset,
-      archived,
-    });
+    const { threads, nextCursor } = await ctx.runQuery(
+      internal.services.thread_service.getUserThreads,
+      {
+        userId: user._id,
+        limit,
+        cursor,
+        archived,
+      }
+    );
 
     return createSuccessResponse({
       threads,
       pagination: {
         limit,
-        offset,
-        hasMore: threads.length === limit,
+        nextCursor,
+        hasMore: nextCursor !== null,
       },
     });
   } catch (error) {
@@ -146,29 +226,18 @@ export const getThreads = httpAction(async (ctx, request) => {
  * Delete a specific conversation thread and all its messages
  * Note: Usage data is preserved for analytics
  */
-export const deleteThread = httpAction(async (ctx, request) => {
+export const deleteThread = withAuth(async (ctx, request, user) => {
   try {
     const url = new URL(request.url);
-    const clerkId = url.searchParams.get('clerkId');
     const threadId = url.pathname.split('/')[4];
 
-    // Get internal userId from clerkId
-    if (!clerkId) {
-      return createErrorResponse('clerkId parameter is required', 400);
-    }
-
-    const userId = await getUserIdFromClerkId(ctx, clerkId);
-    if (!userId) {
-      return createErrorResponse('Invalid clerkId or user not found', 401);
-    }
-
     if (!threadId) {
       return createErrorResponse('Thread ID is required', 400);
     }
 
-    const result = await ctx.runMutation(api.services.thread_service.deleteThread, {
+    const result = await ctx.runMutation(internal.services.thread_service.deleteThread, {
       threadId: threadId as any,
-      clerkId,
+      userId: user._id,
     });
 
     return createSuccessResponse({
@@ -192,56 +261,83 @@ export const deleteThread = httpAction(async (ctx, request) => {
 
 /**
  * PUT /api/chat/threads/:threadId
- * Update a specific conversation thread (currently supports title updates)
+ * Update a specific conversation thread (title and/or settings)
  */
-export const updateThread = httpAction(async (ctx, request) => {
+export const updateThread = withAuth(async (ctx, request, user) => {
   try {
     const url = new URL(request.url);
-    const clerkId = url.searchParams.get('clerkId');
     const threadId = url.pathname.split('/')[4];
 
-    // Get internal userId from clerkId
-    if (!clerkId) {
-      return createErrorResponse('clerkId parameter is required', 400);
+    if (!threadId) {
+      return createErrorResponse('Thread ID is required', 400);
     }
 
-    const userId = await getUserIdFromClerkId(ctx, clerkId);
-    if (!userId) {
-      return createErrorResponse('Invalid clerkId or user not found', 401);
+    const body = await parseRequestBody(request);
+    const { title, settings } = body;
+
+    if (title === undefined && settings === undefined) {
+      return createErrorResponse('Title or settings is required', 400);
     }
 
-    if (!threadId) {
-      return createErrorResponse('Thread ID is required', 400);
+    if (title !== undefined && (!title || typeof title !== 'string')) {
+      return createErrorResponse('Title must be a non-empty string', 400);
     }
 
-    const body = await parseRequestBody(request);
-    const { title } = body;
+    const parsedSettings = settings !== undefined ? parseThreadSettings(settings) : undefined;
+    if (typeof parsedSettings === 'string') {
+      return createErrorResponse(parsedSettings, 400);
+    }
 
-    if (!title || typeof title !== 'string') {
-      return createErrorResponse('Title is required and must be a string', 400);
+    const personaError = await validatePersona(ctx, parsedSettings?.personaId, user._id);
+    if (personaError) {
+      return createErrorResponse(personaError, 400);
     }
 
-    const result = await ctx.runMutation(api.services.thread_service.updateThreadTitleWithAuth, {
-      threadId: threadId as any,
-      title,
-      clerkId,
-    });
+    let updatedTitle: string | undefined;
+    if (title !== undefined) {
+      const result = await ctx.runMutation(
+        internal.services.thread_service.updateThreadTitleWithAuth,
+        {
+          threadId: threadId as any,
+          title,
+          userId: user._id,
+        }
+      );
+      updatedTitle = result.title;
+    }
+
+    let updatedSettings;
+    if (parsedSettings) {
+      const result = await ctx.runMutation(internal.services.thread_service.updateThreadSettings, {
+        threadId: threadId as any,
+        settings: { ...parsedSettings, personaId: parsedSettings.personaId as any },
+        userId: user._id,
+      });
+      updatedSettings = result.settings;
+    }
 
     return createSuccessResponse({
       message: 'Thread updated successfully',
-      threadId: result.threadId,
-      title: result.title,
+      threadId,
+      ...(updatedTitle !== undefined && { title: updatedTitle }),
+      ...(updatedSettings && { settings: updatedSettings }),
     });
   } catch (error) {
     console.error('Update thread error:', error);
 
     if (error instanceof ConvexError && error.message.includes('access denied')) {
+      // The persona can still be deleted between the check above and the update
+      if (error.message.startsWith('Persona')) {
+        return createErrorResponse(error.message, 400);
+      }
       return createErrorResponse('Thread not found or access denied', 404);
     }
 
     if (
       error instanceof ConvexError &&
-      (error.message.includes('empty') || error.message.includes('exceed'))
+      (error.message.includes('empty') ||
+        error.message.includes('exceed') ||
+        error.message.includes('must be'))
     ) {
       return createErrorResponse(error.message, 400);
     }
@@ -255,42 +351,43 @@ export const updateThread = httpAction(async (ctx, request) => {
 
 /**
  * GET /api/chat/threads/search
- * Search conversation threads for the authenticated user
+ * Search the authenticated user's threads by title and their messages by content
  */
-export const searchThreads = httpAction(async (ctx, request) => {
+export const searchThreads = withScopedAuth('threads:read', async (ctx, request, user) => {
   try {
     const url = new URL(request.url);
-    const clerkId = url.searchParams.get('clerkId');
     const searchQuery = url.searchParams.get('q') || '';
 
-    // Get internal userId from clerkId
-    if (!clerkId) {
-      return createErrorResponse('clerkId parameter is required', 400);
-    }
-
-    const userId = await getUserIdFromClerkId(ctx, clerkId);
-    if (!userId) {
-      return createErrorResponse('Invalid clerkId or user not found', 401);
-    }
-
     if (!searchQuery.trim()) {
       return createErrorResponse('Search query is required', 400);
     }
 
-    const limit = Math.min(parseInt(url.searchParams.get('limit') || '20'), 100);
+    const limit = parseLimitParam(url, 20, 100);
     const offset = Math.max(parseInt(url.searchParams.get('offset') || '0'), 0);
     const archived = url.searchParams.get('archived') === 'true';
 
-    const result = await ctx.runQuery(api.services.thread_service.searchUserThreads, {
-      clerkId,
+    const result = await ctx.runQuery(internal.services.thread_service.searchUserThreads, {
+      userId: user._id,
       searchQuery,
       limit,
       offset,
       archived,
     });
 
+    // Message hits are ranked by relevance and not paginated, so only the first page carries them
+    const messages =
+      offset === 0
+        ? await ctx.runQuery(internal.services.message_service.searchMessages, {
+            userId: user._id,
+            searchQuery,
+            limit,
+            archived,
+          })
+        : [];
+
     const response = createSuccessResponse({
       threads: result.threads || [],
+      messages,
       total: result.total || 0,
       pagination: {
         limit,
@@ -308,3 +405,36 @@ export const searchThreads = httpAction(async (ctx, request) => {
     );
   }
 });
+
+/**
+ * POST /api/chat/forks/:messageId
+ * Fork the branch ending at a message into a new thread
+ */
+export const forkThread = withAuth(async (ctx, request, user) => {
+  try {
+    const url = new URL(request.url);
+    const messageId = url.pathname.split('/')[4];
+
+    if (!messageId) {
+      return createErrorResponse('Message ID is required', 400);
+    }
+
+    const thread = await ctx.runMutation(internal.services.thread_service.forkThread, {
+      messageId: messageId as any,
+      userId: user._id,
+    });
+
+    return createSuccessResponse(thread, 201);
+  } catch (error) {
+    console.error('Fork thread error:', error);
+
+    if (error instanceof ConvexError && error.message.includes('access denied')) {
+      return createErrorResponse('Message not found or access denied', 404);
+    }
+
+    return createErrorResponse(
+      error instanceof Error ? error.message : 'Failed to fork thread',
+      500
+    );
+  }
+});
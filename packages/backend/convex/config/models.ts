@@ -1,6 +1,6 @@
-import { google } from '@ai-sdk/google';
-import { mistral } from '@ai-sdk/mistral';
-import { groq } from '@ai-sdk/groq';
+import { google, createGoogleGenerativeAI } from '@ai-sdk/google';
+import { mistral, createMistral } from '@ai-sdk/mistral';
+import { groq, createGroq } from '@ai-sdk/groq';
 import { createOpenRouter } from '@openrouter/ai-sdk-provider';
 import { LanguageModel } from 'ai';
 
@@ -16,6 +16,36 @@ export type SharedModel<Abilities extends ModelAbility[] = ModelAbility[]> = {
   provider: CoreProvider;
   abilities: Abilities;
   mode?: 'text' | 'image';
+  // Total tokens the model accepts per request (prompt plus output)
+  contextWindow: number;
+  // Most tokens the model will generate in one response
+  maxOutputTokens: number;
+  // Quota bucket the model's usage counts against
+  tier: ModelTier;
+  // USD per million prompt and completion tokens
+  inputPricePerMillion: number;
+  outputPricePerMillion: number;
+  // Request settings the model honours; anything else is rejected before the call
+  supportedParameters: ModelParameter[];
+  // Day (YYYY-MM-DD) the provider retires the model; requests fail from then on
+  deprecationDate?: string;
+  description?: string;
+};
+
+export type ModelTier = 'free' | 'standard' | 'premium';
+
+export type ModelParameter = 'temperature' | 'top_p' | 'max_tokens' | 'seed' | 'reasoning_effort';
+
+export const REASONING_EFFORTS = ['low', 'medium', 'high'] as const;
+export type ReasoningEffort = (typeof REASONING_EFFORTS)[number];
+
+const BASE_PARAMETERS: ModelParameter[] = ['temperature', 'top_p', 'max_tokens', 'seed'];
+
+// Gemini thinking budget (tokens) for each reasoning effort level
+const REASONING_EFFORT_BUDGETS: Record<ReasoningEffort, number> = {
+  low: 1024,
+  medium: 8192,
+  high: 24576,
 };
 
 // Initialize OpenRouter
@@ -30,18 +60,40 @@ export const MODELS_SHARED: SharedModel[] = [
     name: 'Gemini 2.5 Pro',
     provider: 'google',
     abilities: ['reasoning', 'vision', 'function_calling', 'pdf', 'effort_control'],
+    contextWindow: 1048576,
+    maxOutputTokens: 65536,
+    tier: 'premium',
+    inputPricePerMillion: 1.25,
+    outputPricePerMillion: 10,
+    supportedParameters: [...BASE_PARAMETERS, 'reasoning_effort'],
+    description: "Google's most capable model for complex reasoning, coding and long documents",
   },
   {
     id: 'gemini-2.5-flash',
     name: 'Gemini 2.5 Flash',
     provider: 'google',
     abilities: ['vision', 'function_calling', 'reasoning', 'pdf', 'effort_control'],
+    contextWindow: 1048576,
+    maxOutputTokens: 65536,
+    tier: 'standard',
+    inputPricePerMillion: 0.3,
+    outputPricePerMillion: 2.5,
+    supportedParameters: [...BASE_PARAMETERS, 'reasoning_effort'],
+    description: 'Fast multimodal model with adjustable thinking',
   },
   {
     id: 'gemini-2.0-flash',
     name: 'Gemini 2.0 Flash',
     provider: 'google',
     abilities: ['vision', 'function_calling', 'pdf'],
+    contextWindow: 1048576,
+    maxOutputTokens: 8192,
+    tier: 'standard',
+    inputPricePerMillion: 0.1,
+    outputPricePerMillion: 0.4,
+    supportedParameters: BASE_PARAMETERS,
+    deprecationDate: '2026-02-05',
+    description: 'Low-cost multimodal model for everyday tasks',
   },
   // Mistral Models
   {
@@ -49,24 +101,49 @@ export const MODELS_SHARED: SharedModel[] = [
     name: 'Pixtral Large',
     provider: 'mistral',
     abilities: ['vision', 'function_calling', 'reasoning'],
+    contextWindow: 131072,
+    maxOutputTokens: 8192,
+    tier: 'premium',
+    inputPricePerMillion: 2,
+    outputPricePerMillion: 6,
+    supportedParameters: BASE_PARAMETERS,
+    description: "Mistral's multimodal flagship for image understanding",
   },
   {
     id: 'mistral-large',
     name: 'Mistral Large',
     provider: 'mistral',
     abilities: ['function_calling', 'reasoning'],
+    contextWindow: 131072,
+    maxOutputTokens: 8192,
+    tier: 'premium',
+    inputPricePerMillion: 2,
+    outputPricePerMillion: 6,
+    supportedParameters: BASE_PARAMETERS,
   },
   {
     id: 'mistral-small',
     name: 'Mistral Small',
     provider: 'mistral',
     abilities: ['function_calling'],
+    contextWindow: 131072,
+    maxOutputTokens: 8192,
+    tier: 'standard',
+    inputPricePerMillion: 0.1,
+    outputPricePerMillion: 0.3,
+    supportedParameters: BASE_PARAMETERS,
   },
   {
     id: 'mistral-8b',
     name: 'Mistral 8B',
     provider: 'mistral',
     abilities: ['function_calling'],
+    contextWindow: 131072,
+    maxOutputTokens: 8192,
+    tier: 'standard',
+    inputPricePerMillion: 0.1,
+    outputPricePerMillion: 0.1,
+    supportedParameters: BASE_PARAMETERS,
   },
   // Groq Models
   {
@@ -74,30 +151,60 @@ export const MODELS_SHARED: SharedModel[] = [
     name: 'DeepSeek R1 (LLama Distilled)',
     provider: 'groq',
     abilities: ['reasoning', 'function_calling'],
+    contextWindow: 131072,
+    maxOutputTokens: 16384,
+    tier: 'standard',
+    inputPricePerMillion: 0.75,
+    outputPricePerMillion: 0.99,
+    supportedParameters: BASE_PARAMETERS,
   },
   {
     id: 'meta-llama/llama-4-scout-17b-16e-instruct',
     name: 'Llama 4 Scout',
     provider: 'groq',
     abilities: ['vision', 'reasoning', 'function_calling'],
+    contextWindow: 131072,
+    maxOutputTokens: 8192,
+    tier: 'standard',
+    inputPricePerMillion: 0.11,
+    outputPricePerMillion: 0.34,
+    supportedParameters: BASE_PARAMETERS,
   },
   {
     id: 'llama-3.3-70b-versatile',
     name: 'Llama 3.3 70b',
     provider: 'groq',
     abilities: ['reasoning', 'function_calling'],
+    contextWindow: 131072,
+    maxOutputTokens: 32768,
+    tier: 'standard',
+    inputPricePerMillion: 0.59,
+    outputPricePerMillion: 0.79,
+    supportedParameters: BASE_PARAMETERS,
   },
   {
     id: 'qwen-2.5-32b',
     name: 'Qwen 2.5 32b',
     provider: 'groq',
     abilities: ['reasoning', 'function_calling'],
+    contextWindow: 131072,
+    maxOutputTokens: 8192,
+    tier: 'standard',
+    inputPricePerMillion: 0.79,
+    outputPricePerMillion: 0.79,
+    supportedParameters: BASE_PARAMETERS,
   },
   {
     id: 'qwen-qwq-32b',
     name: 'Qwen QWQ 32b',
     provider: 'groq',
     abilities: ['reasoning', 'function_calling'],
+    contextWindow: 131072,
+    maxOutputTokens: 32768,
+    tier: 'standard',
+    inputPricePerMillion: 0.29,
+    outputPricePerMillion: 0.39,
+    supportedParameters: BASE_PARAMETERS,
   },
   // OpenRouter Models
   {
@@ -105,6 +212,13 @@ export const MODELS_SHARED: SharedModel[] = [
     name: 'DeepSeek R1 (OpenRouter)',
     provider: 'openrouter',
     abilities: ['reasoning', 'function_calling'],
+    contextWindow: 163840,
+    maxOutputTokens: 16384,
+    tier: 'free',
+    inputPricePerMillion: 0,
+    outputPricePerMillion: 0,
+    supportedParameters: BASE_PARAMETERS,
+    description: 'Free tier; requests may be rate limited by OpenRouter',
   },
 ] as const;
 
@@ -113,8 +227,9 @@ export const getModelById = (modelId: string) =>
 
 /**
  * Lightweight factory that returns a LanguageModel instance for a given model key.
+ * Pass apiKey to call the provider with a user's own key instead of the server's.
  */
-export const createAIModel = (modelKey: string, options?: any): LanguageModel => {
+export const createAIModel = (modelKey: string, options?: any, apiKey?: string): LanguageModel => {
   const modelConfig = getModelById(modelKey);
   if (!modelConfig) {
     throw new Error(`Unknown model: ${modelKey}`);
@@ -122,13 +237,13 @@ export const createAIModel = (modelKey: string, options?: any): LanguageModel =>
 
   switch (modelConfig.provider) {
     case 'google':
-      return google(modelConfig.id, options);
+      return (apiKey ? createGoogleGenerativeAI({ apiKey }) : google)(modelConfig.id, options);
     case 'mistral':
-      return mistral(modelConfig.id, options);
+      return (apiKey ? createMistral({ apiKey }) : mistral)(modelConfig.id, options);
     case 'groq':
-      return groq(modelConfig.id, options);
+      return (apiKey ? createGroq({ apiKey }) : groq)(modelConfig.id, options);
     case 'openrouter':
-      return openrouter.chat(modelConfig.id, options);
+      return (apiKey ? createOpenRouter({ apiKey }) : openrouter).chat(modelConfig.id, options);
     default: {
       // Exhaustive check for TypeScript completeness
       throw new Error(`Unsupported provider: ${modelConfig.provider}`);
@@ -143,6 +258,39 @@ export const getAllModels = () => {
   return MODELS_SHARED;
 };
 
+/**
+ * Whether the model has passed its retirement date
+ */
+export const isModelDeprecated = (model: SharedModel, now = Date.now()) =>
+  !!model.deprecationDate && new Date(model.deprecationDate).getTime() <= now;
+
+/**
+ * First requested setting the model does not accept, or null when all are supported
+ */
+export const findUnsupportedParameter = (model: SharedModel, requested: ModelParameter[]) =>
+  requested.find(parameter => !model.supportedParameters.includes(parameter)) ?? null;
+
+/**
+ * Cost in USD of a request at the model's list price
+ */
+export const getModelCost = (model: SharedModel, promptTokens: number, completionTokens: number) =>
+  (promptTokens * model.inputPricePerMillion + completionTokens * model.outputPricePerMillion) /
+  1000000;
+
+/**
+ * Provider options that apply a reasoning effort level to a model
+ */
+export const getReasoningProviderOptions = (model: SharedModel, effort: ReasoningEffort) => {
+  switch (model.provider) {
+    case 'google':
+      return {
+        google: { thinkingConfig: { thinkingBudget: REASONING_EFFORT_BUDGETS[effort] } },
+      };
+    default:
+      return undefined;
+  }
+};
+
 export const getModelsByProvider = (provider: CoreProvider) => {
   return MODELS_SHARED.filter(model => model.provider === provider);
 };
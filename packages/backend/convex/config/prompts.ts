@@ -149,7 +149,20 @@ console.log(aJsVariable);
 
 Remember: You are {modelName} by {providerName}. Respond accordingly to the user's needs with your best capabilities, and ALWAYS format your responses in Markdown with proper code blocks and LaTeX for mathematical content.`;
 
-export const generateSystemPrompt = (model: ModelInfo): string => {
+interface PersonaInfo {
+  name: string;
+  instructions: string;
+}
+
+interface SystemPromptOptions {
+  persona?: PersonaInfo | null;
+  customInstructions?: string;
+}
+
+/**
+ * Build the model-specific capability sections shared by every system prompt
+ */
+const buildCapabilitySections = (model: ModelInfo) => {
   const additionalCapabilities = [];
 
   if (model.supportsVision) {
@@ -194,6 +207,11 @@ export const generateSystemPrompt = (model: ModelInfo): string => {
 - Use web search for breaking news, current weather, stock prices, or real-time information
 - Use web search when users ask about recent developments, current events, or specific facts
 - Always specify whether to scrape content for detailed information based on the query complexity
+- Use read_url to open a link the user shares, or a page you already know the address of, instead of searching for it
+- Use calculator for arithmetic and datetime for today's date, the time or timezones, rather than working them out or guessing
+- Use unit_conversion for units and currencies, and mention that its currency rates are not live
+- Use code_interpreter for arithmetic, statistics and data transformations instead of working them out yourself; print or table() the results you need
+- Tools named like server__tool come from the user's own MCP servers; use them for the systems they describe
 - Provide clear, well-formatted responses based on search results
 - Cite sources when appropriate and mention when information comes from web search
 - Be transparent about when you're using tools vs. your existing knowledge`
@@ -206,6 +224,31 @@ export const generateSystemPrompt = (model: ModelInfo): string => {
         ? 'Mistral AI'
         : model.provider;
 
+  return { capabilitiesText, imageGuidelines, toolGuidelines, providerName };
+};
+
+export const PERSONA_PROMPT_TEMPLATE = `{personaInstructions}
+
+**About Your Model:**
+You are acting as "{personaName}", running on {providerName}'s {modelName} ({modelId}).
+{modelDescription}
+
+**Your Capabilities:**
+- Following the persona instructions above while staying helpful and honest
+- Maintaining context throughout our conversation
+{additionalCapabilities}
+{imageGuidelines}
+{toolGuidelines}
+
+**Response Format:**
+- Format your responses using Markdown unless the persona instructions say otherwise
+- Use fenced code blocks with a language tag for code
+- For mathematical expressions, use LaTeX notation within $ or $$ delimiters`;
+
+export const generateSystemPrompt = (model: ModelInfo): string => {
+  const { capabilitiesText, imageGuidelines, toolGuidelines, providerName } =
+    buildCapabilitySections(model);
+
   return SYSTEM_PROMPT_TEMPLATE.replace('{modelName}', model.name)
     .replace('{modelId}', model.id)
     .replace('{modelDescription}', model.description || '')
@@ -215,6 +258,38 @@ export const generateSystemPrompt = (model: ModelInfo): string => {
     .replace('{providerName}', providerName);
 };
 
-export const getSystemPrompt = (model: ModelInfo): string => {
-  return generateSystemPrompt(model);
+/**
+ * Combine a persona's instructions with the model capability sections
+ */
+export const generatePersonaSystemPrompt = (model: ModelInfo, persona: PersonaInfo): string => {
+  const { capabilitiesText, imageGuidelines, toolGuidelines, providerName } =
+    buildCapabilitySections(model);
+
+  // Persona text is user-written, so substitute it last and without `$` replacement patterns
+  return PERSONA_PROMPT_TEMPLATE.replace('{modelName}', model.name)
+    .replace('{modelId}', model.id)
+    .replace('{modelDescription}', model.description || '')
+    .replace('{additionalCapabilities}', capabilitiesText)
+    .replace('{imageGuidelines}', imageGuidelines)
+    .replace('{toolGuidelines}', toolGuidelines)
+    .replace('{providerName}', providerName)
+    .replace('{personaName}', () => persona.name)
+    .replace('{personaInstructions}', () => persona.instructions.trim());
+};
+
+export const getSystemPrompt = (model: ModelInfo, options: SystemPromptOptions = {}): string => {
+  const { persona, customInstructions } = options;
+  const basePrompt = persona
+    ? generatePersonaSystemPrompt(model, persona)
+    : generateSystemPrompt(model);
+
+  if (!customInstructions?.trim()) {
+    return basePrompt;
+  }
+
+  return `${basePrompt}
+
+**Custom Instructions:**
+The user configured these instructions for this conversation. Follow them unless they conflict with the guidelines above.
+${customInstructions.trim()}`;
 };
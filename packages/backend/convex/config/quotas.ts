@@ -0,0 +1,36 @@
+import type { ModelTier } from './models';
+
+export type QuotaName = 'requests_per_minute' | 'tokens_per_day' | 'spend_per_month';
+
+// A null limit means the tier is not limited on that measure
+export type QuotaLimits = {
+  requestsPerMinute: number | null;
+  tokensPerDay: number | null;
+  spendPerMonth: number | null; // USD
+};
+
+export const MODEL_TIERS: ModelTier[] = ['free', 'standard', 'premium'];
+
+// Defaults for every user; individual users can be given overrides in the userQuotas table
+export const DEFAULT_TIER_LIMITS: Record<ModelTier, QuotaLimits> = {
+  free: { requestsPerMinute: 10, tokensPerDay: 500000, spendPerMonth: null },
+  standard: { requestsPerMinute: 20, tokensPerDay: 1000000, spendPerMonth: 10 },
+  premium: { requestsPerMinute: 5, tokensPerDay: 200000, spendPerMonth: 20 },
+};
+
+// Requests made with the user's own provider key are only held to the request rate
+export const OWN_KEY_QUOTAS: QuotaName[] = ['requests_per_minute'];
+
+/**
+ * Human-readable limit, e.g. "20 requests per minute" or "$10 of spend per month"
+ */
+export const describeQuotaLimit = (name: QuotaName, limit: number) => {
+  switch (name) {
+    case 'requests_per_minute':
+      return `${limit} requests per minute`;
+    case 'tokens_per_day':
+      return `${limit.toLocaleString('en-US')} tokens per day`;
+    case 'spend_per_month':
+      return `$${limit} of spend per month`;
+  }
+};
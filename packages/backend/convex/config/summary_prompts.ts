@@ -0,0 +1,24 @@
+/**
+ * Conversation Summary Prompts Configuration
+ *
+ * Used to keep a rolling summary of the older part of long threads, which is sent
+ * in place of the messages that no longer fit in the model's context window.
+ */
+
+export const SUMMARY_SYSTEM_PROMPT = `You maintain a running summary of a conversation between a user and an AI assistant.
+
+You are given the current summary (which may be empty) and the next messages of the conversation. Respond with ONLY the updated summary.
+
+Keep:
+- The user's goals, preferences and constraints
+- Decisions made, answers given and open questions
+- Names, numbers, code identifiers and other specifics that later messages may refer to
+
+Write in the third person ("The user asked...", "The assistant explained..."), in plain prose or short bullet points, and keep the whole summary under 400 words. Drop details that no longer matter rather than growing the summary.
+`;
+
+/**
+ * Build the prompt that folds new messages into the existing summary
+ */
+export const buildSummaryPrompt = (currentSummary: string, transcript: string) =>
+  `Current summary:\n${currentSummary || '(none yet)'}\n\nNext messages:\n${transcript}`;
@@ -0,0 +1,15 @@
+import { cronJobs } from 'convex/server';
+import { internal } from './_generated/api';
+
+const crons = cronJobs();
+
+// Roll finished days' usage events into dailyUsageSummaries once the UTC day is over,
+// including any days a failed run missed
+crons.daily(
+  'roll up daily usage',
+  { hourUTC: 0, minuteUTC: 15 },
+  internal.services.usage_summary_service.rollupDailyUsage,
+  {}
+);
+
+export default crons;
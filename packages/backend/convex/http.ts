@@ -2,8 +2,16 @@ import { httpRouter } from 'convex/server';
 import { getModels } from './ai';
 import { testEndpoint, testGoogleAI } from './test';
 import { httpAction } from './_generated/server';
-import { api } from './_generated/api';
+import { internal } from './_generated/api';
+import {
+  getAuthIdentity,
+  parseRequestBody,
+  createErrorResponse,
+  createSuccessResponse,
+} from './services/middleware';
 import { completions } from './chat_http/routes/chat';
+import { getStream, cancelStream } from './chat_http/routes/streams';
+import { getContext } from './chat_http/routes/context';
 import {
   createThread,
   deleteThread,
@@ -11,14 +19,36 @@ import {
   getThreads,
   updateThread,
   searchThreads,
+  forkThread,
 } from './chat_http/routes/threads';
 import {
   getMessages,
   updateMessage,
   deleteMessage,
   deleteMessagesFromIndex,
+  selectBranch,
 } from './chat_http/routes/messages';
-import { getUserUsage, getModelUsage } from './api/routes/analytics';
+import {
+  getUserUsage,
+  getModelUsage,
+  getThreadSpend,
+  getPerformance,
+  getToolUsage,
+} from './api/routes/analytics';
+import { getQuota } from './api/routes/quota';
+import { getPersonas, createPersona, updatePersona, deletePersona } from './api/routes/personas';
+import { getApiKeys, saveApiKey, deleteApiKey } from './api/routes/api_keys';
+import { getApiTokens, createApiToken, revokeApiToken } from './api/routes/api_tokens';
+import { getSettings, updateSettings } from './api/routes/settings';
+import { getTools, updateToolSettings } from './api/routes/tools';
+import {
+  getMcpServers,
+  createMcpServer,
+  updateMcpServer,
+  deleteMcpServer,
+  testMcpServer,
+} from './api/routes/mcp_servers';
+import { chatCompletions, listModels } from './chat_http/routes/openai';
 
 const http = httpRouter();
 
@@ -43,40 +73,41 @@ http.route({
   handler: getModels,
 });
 
-// Sync user data from Clerk
+// Sync user data from Clerk (identity comes from the verified bearer token)
 http.route({
   path: '/api/user/sync',
   method: 'POST',
   handler: httpAction(async (ctx, request) => {
     try {
-      const body = await request.json();
-      const { clerkId, email, name, imageUrl } = body;
-
-      if (!clerkId || !email) {
-        return new Response(
-          JSON.stringify({ error: 'Missing required fields: clerkId and email' }),
-          { status: 400, headers: { 'Content-Type': 'application/json' } }
+      const identity = await getAuthIdentity(ctx);
+      if (!identity) {
+        return createErrorResponse(
+          'Authentication required: send a valid bearer token',
+          401,
+          'auth_error'
         );
       }
 
+      const body = await parseRequestBody(request);
+      const email = body.email || identity.email;
+      const { name = identity.name, imageUrl = identity.pictureUrl } = body;
+
+      if (!email) {
+        return createErrorResponse('Missing required field: email', 400);
+      }
+
       // Call the getOrCreateUser mutation
-      const userId = await ctx.runMutation(api.auth.getOrCreateUser, {
-        clerkId,
+      const userId = await ctx.runMutation(internal.auth.getOrCreateUser, {
+        clerkId: identity.subject,
         email,
         name,
         imageUrl,
       });
 
-      return new Response(JSON.stringify({ success: true, userId }), {
-        status: 200,
-        headers: { 'Content-Type': 'application/json' },
-      });
+      return createSuccessResponse({ success: true, userId });
     } catch (error) {
       console.error('User sync error:', error);
-      return new Response(JSON.stringify({ error: 'Failed to sync user' }), {
-        status: 500,
-        headers: { 'Content-Type': 'application/json' },
-      });
+      return createErrorResponse('Failed to sync user', 500);
     }
   }),
 });
@@ -94,6 +125,173 @@ http.route({
   handler: getModelUsage,
 });
 
+http.route({
+  path: '/api/analytics/threads',
+  method: 'GET',
+  handler: getThreadSpend,
+});
+
+http.route({
+  path: '/api/analytics/performance',
+  method: 'GET',
+  handler: getPerformance,
+});
+
+http.route({
+  path: '/api/analytics/tools',
+  method: 'GET',
+  handler: getToolUsage,
+});
+
+// Quota endpoint
+http.route({
+  path: '/api/quota',
+  method: 'GET',
+  handler: getQuota,
+});
+
+// Persona endpoints
+http.route({
+  path: '/api/personas',
+  method: 'GET',
+  handler: getPersonas,
+});
+
+http.route({
+  path: '/api/personas',
+  method: 'POST',
+  handler: createPersona,
+});
+
+// Handle persona updates: /api/personas/<personaId>
+http.route({
+  pathPrefix: '/api/personas/',
+  method: 'PUT',
+  handler: updatePersona,
+});
+
+// Handle persona deletion: /api/personas/<personaId>
+http.route({
+  pathPrefix: '/api/personas/',
+  method: 'DELETE',
+  handler: deletePersona,
+});
+
+// Provider API key endpoints
+http.route({
+  path: '/api/keys',
+  method: 'GET',
+  handler: getApiKeys,
+});
+
+// Handle saving a provider key: /api/keys/<provider>
+http.route({
+  pathPrefix: '/api/keys/',
+  method: 'PUT',
+  handler: saveApiKey,
+});
+
+// Handle removing a provider key: /api/keys/<provider>
+http.route({
+  pathPrefix: '/api/keys/',
+  method: 'DELETE',
+  handler: deleteApiKey,
+});
+
+// Personal access token endpoints
+http.route({
+  path: '/api/tokens',
+  method: 'GET',
+  handler: getApiTokens,
+});
+
+http.route({
+  path: '/api/tokens',
+  method: 'POST',
+  handler: createApiToken,
+});
+
+// Handle token revocation: /api/tokens/<tokenId>
+http.route({
+  pathPrefix: '/api/tokens/',
+  method: 'DELETE',
+  handler: revokeApiToken,
+});
+
+// User settings endpoints
+http.route({
+  path: '/api/settings',
+  method: 'GET',
+  handler: getSettings,
+});
+
+http.route({
+  path: '/api/settings',
+  method: 'PUT',
+  handler: updateSettings,
+});
+
+// Tool registry endpoints
+http.route({
+  path: '/api/tools',
+  method: 'GET',
+  handler: getTools,
+});
+
+// Handle saving a tool's settings: /api/tools/<toolId>/settings
+http.route({
+  pathPrefix: '/api/tools/',
+  method: 'PUT',
+  handler: updateToolSettings,
+});
+
+// MCP server endpoints
+http.route({
+  path: '/api/mcp-servers',
+  method: 'GET',
+  handler: getMcpServers,
+});
+
+http.route({
+  path: '/api/mcp-servers',
+  method: 'POST',
+  handler: createMcpServer,
+});
+
+// Handle MCP server updates: /api/mcp-servers/<serverId>
+http.route({
+  pathPrefix: '/api/mcp-servers/',
+  method: 'PUT',
+  handler: updateMcpServer,
+});
+
+// Handle MCP server deletion: /api/mcp-servers/<serverId>
+http.route({
+  pathPrefix: '/api/mcp-servers/',
+  method: 'DELETE',
+  handler: deleteMcpServer,
+});
+
+// Handle listing an MCP server's tools: /api/mcp-servers/<serverId>/test
+http.route({
+  pathPrefix: '/api/mcp-servers/',
+  method: 'POST',
+  handler: testMcpServer,
+});
+
+// OpenAI-compatible endpoints for editors, scripts and CLI clients
+http.route({
+  path: '/v1/models',
+  method: 'GET',
+  handler: listModels,
+});
+
+http.route({
+  path: '/v1/chat/completions',
+  method: 'POST',
+  handler: chatCompletions,
+});
+
 // Chat API endpoints
 http.route({
   path: '/api/chat/completions',
@@ -139,6 +337,41 @@ http.route({
   handler: updateThread,
 });
 
+// Handle branch switching: /api/chat/branches/<messageId>
+http.route({
+  pathPrefix: '/api/chat/branches/',
+  method: 'POST',
+  handler: selectBranch,
+});
+
+// Handle forking a branch into a new thread: /api/chat/forks/<messageId>
+http.route({
+  pathPrefix: '/api/chat/forks/',
+  method: 'POST',
+  handler: forkThread,
+});
+
+// Handle stream replay: /api/chat/streams/<streamId>?offset=<n>
+http.route({
+  pathPrefix: '/api/chat/streams/',
+  method: 'GET',
+  handler: getStream,
+});
+
+// Handle stopping a generation: /api/chat/streams/<streamId>/cancel
+http.route({
+  pathPrefix: '/api/chat/streams/',
+  method: 'POST',
+  handler: cancelStream,
+});
+
+// Debug view of the context sent with a thread's latest generation: /api/chat/context/<threadId>
+http.route({
+  pathPrefix: '/api/chat/context/',
+  method: 'GET',
+  handler: getContext,
+});
+
 // Handle thread deletion: /api/chat/threads/<threadId>
 http.route({
   pathPrefix: '/api/chat/threads/',
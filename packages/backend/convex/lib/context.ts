@@ -0,0 +1,180 @@
+import type { CoreMessage } from 'ai';
+import type { GenericActionCtx } from 'convex/server';
+import type { Infer } from 'convex/values';
+import type { DataModel, Doc, Id } from '../_generated/dataModel';
+import { internal } from '../_generated/api';
+import type { SharedModel } from '../config/models';
+import type { ContextInfo as ContextInfoValidator } from '../schemas/stream';
+import { countMessageTokens, countTextTokens } from './tokenizer';
+
+export type ContextInfo = Infer<typeof ContextInfoValidator>;
+
+// Rough cost of one tool's name, description and parameter schema
+const TOOL_DEFINITION_TOKENS = 300;
+
+// Room kept for the note about messages that did not fit
+const SUMMARY_RESERVE_TOKENS = 300;
+
+// Most stored messages loaded for one request; older ones count as dropped
+const HISTORY_LIMIT = 200;
+
+type UserContentPart = Exclude<Extract<CoreMessage, { role: 'user' }>['content'], string>[number];
+
+/**
+ * Convert a stored message to the AI SDK format the model will see
+ * Images and PDFs are kept when the model can read them and described in text otherwise
+ */
+export const toModelMessage = (
+  message: Doc<'messages'>,
+  model: SharedModel
+): CoreMessage | null => {
+  const parts = typeof message.content === 'string' ? null : [message.content].flat();
+
+  if (message.role !== 'user' || !parts) {
+    // Assistant and system turns only carry their text; tool results are not replayed
+    const text = parts
+      ? parts
+          .map(part => (part.type === 'text' ? part.text : ''))
+          .filter(Boolean)
+          .join('\n')
+      : (message.content as string);
+    return text ? { role: message.role, content: text } : null;
+  }
+
+  const content: UserContentPart[] = [];
+  for (const part of parts) {
+    if (part.type === 'text') {
+      content.push({ type: 'text', text: part.text });
+    } else if (part.type === 'image') {
+      const readable = part.url.startsWith('https://') || part.url.startsWith('data:image/');
+      content.push(
+        model.abilities.includes('vision') && readable
+          ? { type: 'image', image: part.url }
+          : { type: 'text', text: `[Image: ${part.alt || part.url}]` }
+      );
+    } else if (part.type === 'file') {
+      const readable = part.mimeType === 'application/pdf' && part.url.startsWith('https://');
+      content.push(
+        model.abilities.includes('pdf') && readable
+          ? { type: 'file', data: new URL(part.url), mimeType: 'application/pdf' }
+          : { type: 'text', text: `[File: ${part.fileName}]` }
+      );
+    }
+  }
+
+  return content.length > 0 ? { role: 'user', content } : null;
+};
+
+/**
+ * Build the messages for a completion within the model's context window
+ * New messages are always kept. Older history is replaced by the thread's stored summary,
+ * the rest is added newest first while it fits, and anything left over is queued to be
+ * folded into the summary in the background
+ */
+export const buildConversationContext = async (
+  ctx: GenericActionCtx<DataModel>,
+  options: {
+    userId: Id<'users'>;
+    threadId?: Id<'threads'>;
+    // Last stored message before the new ones; null means there is no history
+    anchorMessageId?: Id<'messages'> | null;
+    newMessages: CoreMessage[];
+    model: SharedModel;
+    systemPrompt: string;
+    toolCount: number;
+    maxOutputTokens?: number;
+  }
+): Promise<{ messages: CoreMessage[]; info: ContextInfo }> => {
+  const { userId, threadId, anchorMessageId, newMessages, model, systemPrompt, toolCount } =
+    options;
+
+  const reservedOutputTokens = Math.min(
+    options.maxOutputTokens ?? model.maxOutputTokens,
+    model.maxOutputTokens
+  );
+  const systemTokens = countTextTokens(systemPrompt) + toolCount * TOOL_DEFINITION_TOKENS;
+  const budgetTokens = model.contextWindow - reservedOutputTokens - systemTokens;
+
+  const hasHistory = !!threadId && anchorMessageId !== null;
+  const summary: Doc<'threadSummaries'> | null = hasHistory
+    ? await ctx.runQuery(internal.services.summary_service.getThreadSummary, { threadId })
+    : null;
+  // Only the messages after the summary are loaded; older ones past the limit are just counted
+  const history = hasHistory
+    ? await ctx.runQuery(internal.services.message_service.getContextMessages, {
+        threadId,
+        anchorMessageId,
+        afterMessageId: summary?.coveredMessageId,
+        limit: HISTORY_LIMIT,
+      })
+    : { messages: [], omittedCount: 0, lastOmittedMessageId: null, foundAfterMessage: false };
+
+  // The summary only applies when it was written for this branch
+  const summaryText = summary && history.foundAfterMessage ? summary.text : null;
+  const candidates: Doc<'messages'>[] = history.messages;
+
+  let usedTokens = newMessages.reduce((sum, message) => sum + countMessageTokens(message), 0);
+  if (summaryText) {
+    usedTokens += countTextTokens(summaryText);
+  }
+
+  const kept: { id: Id<'messages'>; message: CoreMessage }[] = [];
+  let firstKeptIndex = candidates.length;
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    const message = toModelMessage(candidates[i], model);
+    if (!message) {
+      firstKeptIndex = i;
+      continue;
+    }
+
+    const tokens = countMessageTokens(message);
+    if (usedTokens + tokens > budgetTokens - SUMMARY_RESERVE_TOKENS) break;
+
+    kept.unshift({ id: candidates[i]._id, message });
+    usedTokens += tokens;
+    firstKeptIndex = i;
+  }
+  const droppedMessageCount = history.omittedCount + firstKeptIndex;
+
+  const notes: string[] = [];
+  if (summaryText) {
+    notes.push(`[Summary of the earlier conversation: ${summaryText}]`);
+  }
+  if (droppedMessageCount > 0) {
+    notes.push(
+      `[${droppedMessageCount} earlier messages${summaryText ? ' after this summary' : ''} were omitted for context length]`
+    );
+
+    // Fold the left-out messages into the summary so the next request can use it
+    if (threadId) {
+      await ctx.scheduler.runAfter(0, internal.services.summary_service.extendThreadSummary, {
+        userId,
+        threadId,
+        upToMessageId:
+          firstKeptIndex > 0 ? candidates[firstKeptIndex - 1]._id : history.lastOmittedMessageId!,
+      });
+    }
+  }
+
+  const messages = [...kept.map(entry => entry.message), ...newMessages];
+  if (notes.length > 0) {
+    const note = notes.join('\n\n');
+    messages.unshift({ role: 'system', content: note });
+    usedTokens += countTextTokens(note) - (summaryText ? countTextTokens(summaryText) : 0);
+  }
+
+  return {
+    messages,
+    info: {
+      contextWindow: model.contextWindow,
+      budgetTokens,
+      usedTokens,
+      reservedOutputTokens,
+      systemTokens,
+      messageCount: messages.length,
+      droppedMessageCount,
+      summarized: !!summaryText,
+      messageIds: kept.map(entry => entry.id),
+    },
+  };
+};
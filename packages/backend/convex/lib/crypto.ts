@@ -0,0 +1,80 @@
+// Any string works as the secret; it is hashed into a 256-bit AES key
+const ENCRYPTION_SECRET_ENV = 'API_KEY_ENCRYPTION_SECRET';
+
+// AES-GCM's recommended nonce size
+const IV_BYTES = 12;
+
+let cachedKey: Promise<CryptoKey> | null = null;
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array =>
+  Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+/**
+ * Import the deployment's encryption key from the environment
+ */
+const getEncryptionKey = (): Promise<CryptoKey> => {
+  const secret = process.env[ENCRYPTION_SECRET_ENV];
+  if (!secret) {
+    throw new Error(`${ENCRYPTION_SECRET_ENV} is not set`);
+  }
+
+  cachedKey ??= crypto.subtle
+    .digest('SHA-256', new TextEncoder().encode(secret))
+    .then(digest =>
+      crypto.subtle.importKey('raw', digest, 'AES-GCM', false, ['encrypt', 'decrypt'])
+    );
+  return cachedKey;
+};
+
+/**
+ * Encrypt a secret for storage
+ */
+export const encryptSecret = async (
+  plaintext: string
+): Promise<{ ciphertext: string; iv: string }> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const encrypted = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await getEncryptionKey(),
+    new TextEncoder().encode(plaintext)
+  );
+
+  return { ciphertext: toBase64(new Uint8Array(encrypted)), iv: toBase64(iv) };
+};
+
+/**
+ * Decrypt a secret written by encryptSecret
+ */
+export const decryptSecret = async (ciphertext: string, iv: string): Promise<string> => {
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(iv) },
+    await getEncryptionKey(),
+    fromBase64(ciphertext)
+  );
+
+  return new TextDecoder().decode(decrypted);
+};
+
+/**
+ * SHA-256 a secret so it can be looked up without being stored
+ */
+export const hashSecret = async (value: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Generate a random token: the prefix followed by 48 hex characters
+ */
+export const generateSecretToken = (prefix: string): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return prefix + Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,189 @@
+import type { GenericActionCtx } from 'convex/server';
+import type { Infer } from 'convex/values';
+import type { DataModel, Id } from '../_generated/dataModel';
+import { internal } from '../_generated/api';
+import type { ApiKeyProvider as ApiKeyProviderValidator } from '../schemas/api_key';
+import { decryptSecret } from './crypto';
+
+export type ApiKeyProvider = Infer<typeof ApiKeyProviderValidator>;
+export type ProviderKeys = Partial<Record<ApiKeyProvider, string>>;
+
+export const API_KEY_PROVIDERS: ApiKeyProvider[] = [
+  'google',
+  'mistral',
+  'groq',
+  'openrouter',
+  'serper',
+  'firecrawl',
+  'tavily',
+];
+
+export const API_KEY_PROVIDER_NAMES: Record<ApiKeyProvider, string> = {
+  google: 'Google',
+  mistral: 'Mistral',
+  groq: 'Groq',
+  openrouter: 'OpenRouter',
+  serper: 'Serper',
+  firecrawl: 'Firecrawl',
+  tavily: 'Tavily',
+};
+
+// Environment variables holding the deployment's own keys
+const SERVER_KEY_ENV: Record<ApiKeyProvider, string> = {
+  google: 'GOOGLE_GENERATIVE_AI_API_KEY',
+  mistral: 'MISTRAL_API_KEY',
+  groq: 'GROQ_API_KEY',
+  openrouter: 'OPENROUTER_API_KEY',
+  serper: 'SERPER_API_KEY',
+  firecrawl: 'FIRECRAWL_API_KEY',
+  tavily: 'TAVILY_API_KEY',
+};
+
+// Admin policy for users without their own key: "none" (default), "all",
+// or a comma-separated list of providers whose server key may be used
+const SERVER_KEY_FALLBACK_ENV = 'SERVER_KEY_FALLBACK';
+
+// Keys shorter than this are rejected before calling the provider
+const MIN_KEY_LENGTH = 8;
+
+export const isApiKeyProvider = (value: unknown): value is ApiKeyProvider =>
+  (API_KEY_PROVIDERS as unknown[]).includes(value);
+
+/**
+ * Whether the admin policy lets users without a key fall back to the server's key
+ * Server-funded usage is opt-in: without a policy nobody can spend the server's keys
+ */
+export const isServerKeyFallbackAllowed = (provider: ApiKeyProvider): boolean => {
+  const policy = (process.env[SERVER_KEY_FALLBACK_ENV] ?? 'none').trim().toLowerCase();
+  if (policy === 'all') return true;
+  if (policy === 'none') return false;
+  return policy.split(',').some(entry => entry.trim() === provider);
+};
+
+/**
+ * Get the server's key for a provider when the admin policy allows using it
+ */
+export const getServerKey = (provider: ApiKeyProvider): string | undefined => {
+  if (!isServerKeyFallbackAllowed(provider)) return undefined;
+  return process.env[SERVER_KEY_ENV[provider]] || undefined;
+};
+
+/**
+ * Resolve the key to use for every provider: the user's own first, then the server's
+ */
+export const resolveProviderKeys = async (
+  ctx: GenericActionCtx<DataModel>,
+  userId: Id<'users'>
+): Promise<ProviderKeys> => {
+  const stored = await ctx.runQuery(internal.services.api_key_service.getUserApiKeys, {
+    userId,
+  });
+
+  const keys: ProviderKeys = {};
+  for (const provider of API_KEY_PROVIDERS) {
+    const serverKey = getServerKey(provider);
+    if (serverKey) {
+      keys[provider] = serverKey;
+    }
+  }
+
+  await Promise.all(
+    stored.map(async record => {
+      try {
+        keys[record.provider] = await decryptSecret(record.encryptedKey, record.iv);
+      } catch (error) {
+        // A key written under a rotated secret can no longer be read; treat it as missing
+        console.error(`Failed to decrypt ${record.provider} API key:`, error);
+      }
+    })
+  );
+
+  return keys;
+};
+
+/**
+ * Get a provider's key or explain how to add one
+ */
+export const requireProviderKey = (keys: ProviderKeys, provider: ApiKeyProvider): string => {
+  const key = keys[provider];
+  if (!key) {
+    throw new Error(
+      `No ${API_KEY_PROVIDER_NAMES[provider]} API key: add your own in Account settings`
+    );
+  }
+  return key;
+};
+
+/**
+ * Check a key against the provider with a cheap authenticated request
+ * Returns an error message when the key is rejected
+ */
+export const validateProviderKey = async (
+  provider: ApiKeyProvider,
+  key: string
+): Promise<string | null> => {
+  if (key.length < MIN_KEY_LENGTH || /\s/.test(key)) {
+    return 'API key looks malformed';
+  }
+
+  const bearer = { Authorization: `Bearer ${key}` };
+  let response: Response;
+  try {
+    switch (provider) {
+      case 'google':
+        response = await fetch('https://generativelanguage.googleapis.com/v1beta/models', {
+          headers: { 'x-goog-api-key': key },
+        });
+        break;
+      case 'mistral':
+        response = await fetch('https://api.mistral.ai/v1/models', { headers: bearer });
+        break;
+      case 'groq':
+        response = await fetch('https://api.groq.com/openai/v1/models', { headers: bearer });
+        break;
+      case 'openrouter':
+        response = await fetch('https://openrouter.ai/api/v1/key', { headers: bearer });
+        break;
+      case 'serper':
+        // Serper has no free endpoint to check a key; this costs one search credit
+        response = await fetch('https://google.serper.dev/search', {
+          method: 'POST',
+          headers: { 'X-API-KEY': key, 'Content-Type': 'application/json' },
+          body: JSON.stringify({ q: 'test', num: 1 }),
+        });
+        break;
+      case 'firecrawl':
+        response = await fetch('https://api.firecrawl.dev/v1/team/credit-usage', {
+          headers: bearer,
+        });
+        break;
+      case 'tavily':
+        // Like Serper, checking a Tavily key costs one search credit
+        response = await fetch('https://api.tavily.com/search', {
+          method: 'POST',
+          headers: { ...bearer, 'Content-Type': 'application/json' },
+          body: JSON.stringify({ query: 'test', max_results: 1 }),
+        });
+        break;
+      default:
+        return `Unsupported provider: ${provider}`;
+    }
+  } catch (error) {
+    console.error(`${provider} key validation error:`, error);
+    return `Could not reach ${API_KEY_PROVIDER_NAMES[provider]} to validate the key`;
+  }
+
+  // Google answers 400 for an unknown key
+  const rejected =
+    response.status === 401 ||
+    response.status === 403 ||
+    (provider === 'google' && response.status === 400);
+  if (rejected) {
+    return `${API_KEY_PROVIDER_NAMES[provider]} rejected the API key`;
+  }
+  if (!response.ok) {
+    return `${API_KEY_PROVIDER_NAMES[provider]} key validation failed: ${response.status} ${response.statusText}`;
+  }
+
+  return null;
+};
@@ -0,0 +1,36 @@
+import type { GenericActionCtx } from 'convex/server';
+import { internal } from '../_generated/api';
+import type { DataModel, Id } from '../_generated/dataModel';
+import type { SharedModel } from '../config/models';
+import { describeQuotaLimit } from '../config/quotas';
+import { getServerKey } from './provider_keys';
+import { createQuotaExceededResponse } from '../services/middleware';
+
+/**
+ * Check the user's quota for a model before calling it and reserve a request against it
+ * Returns a 429 response when a limit is used up, or the pending usage event to complete
+ * with chat_service.trackUsage (or chat_service.failUsage) when the request may go ahead
+ */
+export const reserveQuota = async (
+  ctx: GenericActionCtx<DataModel>,
+  userId: Id<'users'>,
+  model: SharedModel,
+  providerKey: string
+): Promise<{ response: Response } | { response: null; usageEventId: Id<'usageEvents'> }> => {
+  const reservation = await ctx.runMutation(internal.services.quota_service.reserveRequest, {
+    userId,
+    modelId: model.id,
+    ownKey: providerKey !== getServerKey(model.provider),
+  });
+  if (reservation.usageEventId !== null) {
+    return { response: null, usageEventId: reservation.usageEventId };
+  }
+
+  const { tier, exceeded } = reservation;
+  return {
+    response: createQuotaExceededResponse(
+      `You've reached the ${tier} model limit of ${describeQuotaLimit(exceeded.name, exceeded.limit)}.`,
+      { ...exceeded, modelTier: tier }
+    ),
+  };
+};
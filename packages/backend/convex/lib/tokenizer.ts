@@ -0,0 +1,58 @@
+import type { CoreMessage } from 'ai';
+import { Tiktoken } from 'js-tiktoken/lite';
+import cl100k_base from 'js-tiktoken/ranks/cl100k_base';
+
+// cl100k_base stands in for provider tokenizers, which can count ~10% more on the same text
+const TOKENIZER_SAFETY_MARGIN = 1.1;
+
+// Role markers and separators each message adds on top of its content
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Flat costs for attachments, whose real cost depends on resolution and page count
+export const IMAGE_TOKENS = 1000;
+export const PDF_TOKENS = 3000;
+
+let encoder: Tiktoken | null = null;
+
+/**
+ * Count the tokens in a piece of text
+ */
+export const countTextTokens = (text: string): number => {
+  if (!text) return 0;
+  encoder ??= new Tiktoken(cl100k_base);
+  return Math.ceil(encoder.encode(text).length * TOKENIZER_SAFETY_MARGIN);
+};
+
+/**
+ * Count the tokens a message costs in a prompt, including attachments and tool calls
+ */
+export const countMessageTokens = (message: CoreMessage): number => {
+  if (typeof message.content === 'string') {
+    return MESSAGE_OVERHEAD_TOKENS + countTextTokens(message.content);
+  }
+
+  let tokens = MESSAGE_OVERHEAD_TOKENS;
+  for (const part of message.content) {
+    switch (part.type) {
+      case 'text':
+      case 'reasoning':
+        tokens += countTextTokens(part.text);
+        break;
+      case 'image':
+        tokens += IMAGE_TOKENS;
+        break;
+      case 'file':
+        tokens += part.mimeType === 'application/pdf' ? PDF_TOKENS : IMAGE_TOKENS;
+        break;
+      case 'tool-call':
+        tokens += countTextTokens(`${part.toolName} ${JSON.stringify(part.args)}`);
+        break;
+      case 'tool-result':
+        tokens += countTextTokens(JSON.stringify(part.result));
+        break;
+      default:
+        break;
+    }
+  }
+  return tokens;
+};
@@ -1,25 +1,221 @@
-import type { Tool } from 'ai';
+import { zodSchema, type Tool } from 'ai';
 import type { GenericActionCtx } from 'convex/server';
-import type { DataModel } from '../_generated/dataModel';
-import { WebSearchAdapter } from './tools/web_search';
+import type { ZodTypeAny } from 'zod';
+import { internal } from '../_generated/api';
+import type { DataModel, Doc, Id } from '../_generated/dataModel';
+import type { ModelAbility, SharedModel } from '../config/models';
+import type { ProviderKeys } from './provider_keys';
+import { WebSearchTool } from './tools/web_search';
+import { ReadUrlTool } from './tools/read_url';
+import { CodeInterpreterTool } from './tools/code_interpreter';
+import { CalculatorTool } from './tools/calculator';
+import { DatetimeTool } from './tools/datetime';
+import { UnitConversionTool } from './tools/unit_conversion';
+import { getMcpTools } from './tools/mcp';
 
-export type ToolAdapter = (params: ConditionalToolParams) => Promise<Partial<Record<string, Tool>>>;
-export const TOOL_ADAPTERS = [WebSearchAdapter];
-export const ABILITIES = ['web_search'] as const;
+export const ABILITIES = [
+  'web_search',
+  'read_url',
+  'code_interpreter',
+  'calculator',
+  'datetime',
+  'unit_conversion',
+] as const;
 export type AbilityId = (typeof ABILITIES)[number];
 
+export type ToolSettingValue = number | boolean | string;
+export type ToolSettingValues = Record<string, ToolSettingValue>;
+
+// A per-user option a tool exposes in settings
+export type ToolSettingDefinition = {
+  key: string;
+  label: string;
+  description?: string;
+} & (
+  | { type: 'number'; default: number; min: number; max: number; step?: number }
+  | { type: 'boolean'; default: boolean }
+  | { type: 'select'; default: string; options: { value: string; label: string }[] }
+);
+
 export type ConditionalToolParams = {
   ctx: GenericActionCtx<DataModel>;
+  userId: Id<'users'>;
   enabledTools: AbilityId[];
+  providerKeys: ProviderKeys;
+  userSettings: Doc<'userSettings'> | null;
+  // This tool's settings, with defaults filled in
+  settings: ToolSettingValues;
+};
+
+export type ToolAdapter = (params: ConditionalToolParams) => Promise<Partial<Record<string, Tool>>>;
+
+export type ToolDefinition = {
+  id: AbilityId;
+  name: string;
+  // Shown to users; the model gets the description from the adapter's tool
+  description: string;
+  // Arguments the model calls the tool with
+  parameters: ZodTypeAny;
+  requiredAbility: ModelAbility;
+  // Selected for users who haven't saved a tool selection of their own
+  enabledByDefault?: boolean;
+  settings: ToolSettingDefinition[];
+  adapter: ToolAdapter;
+};
+
+// Every ability has exactly one definition; order is the order tools are listed in
+export const TOOL_REGISTRY: Record<AbilityId, ToolDefinition> = {
+  web_search: WebSearchTool,
+  read_url: ReadUrlTool,
+  code_interpreter: CodeInterpreterTool,
+  calculator: CalculatorTool,
+  datetime: DatetimeTool,
+  unit_conversion: UnitConversionTool,
+};
+
+export const DEFAULT_ENABLED_TOOLS = ABILITIES.filter(
+  toolId => TOOL_REGISTRY[toolId].enabledByDefault
+);
+
+export const isAbilityId = (value: unknown): value is AbilityId =>
+  (ABILITIES as readonly unknown[]).includes(value);
+
+/**
+ * The composer's tool selection for a user: their saved one, or the defaults until they save one
+ */
+export const getEnabledTools = (
+  userSettings: Pick<Doc<'userSettings'>, 'enabledTools'> | null
+): AbilityId[] =>
+  userSettings?.enabledTools
+    ? userSettings.enabledTools.filter(isAbilityId)
+    : [...DEFAULT_ENABLED_TOOLS];
+
+/**
+ * A tool's settings for a user: stored values that still fit the definition, defaults otherwise
+ */
+export const getToolSettings = (
+  definition: ToolDefinition,
+  userSettings: Doc<'userSettings'> | null
+): ToolSettingValues => {
+  const stored = userSettings?.toolSettings?.[definition.id] ?? {};
+  return Object.fromEntries(
+    definition.settings.map(setting => {
+      const value = stored[setting.key];
+      return [setting.key, isValidSettingValue(setting, value) ? value : setting.default];
+    })
+  );
 };
 
+const isValidSettingValue = (
+  setting: ToolSettingDefinition,
+  value: unknown
+): value is ToolSettingValue => {
+  switch (setting.type) {
+    case 'number':
+      return typeof value === 'number' && value >= setting.min && value <= setting.max;
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'select':
+      return setting.options.some(option => option.value === value);
+  }
+};
+
+/**
+ * Validate settings from a request body against a tool's definition
+ * Returns an error message string when the input is invalid
+ */
+export const parseToolSettings = (
+  definition: ToolDefinition,
+  raw: unknown
+): ToolSettingValues | string => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return 'settings must be an object';
+  }
+
+  const values: ToolSettingValues = {};
+  for (const [key, value] of Object.entries(raw)) {
+    const setting = definition.settings.find(item => item.key === key);
+    if (!setting) {
+      return `${definition.id} has no setting named ${key}`;
+    }
+    if (!isValidSettingValue(setting, value)) {
+      switch (setting.type) {
+        case 'number':
+          return `${key} must be a number between ${setting.min} and ${setting.max}`;
+        case 'boolean':
+          return `${key} must be true or false`;
+        case 'select':
+          return `${key} must be one of: ${setting.options.map(option => option.value).join(', ')}`;
+      }
+    }
+    values[key] = value;
+  }
+
+  return values;
+};
+
+/**
+ * A tool as listed to clients, with the user's current settings
+ */
+export const describeTool = (
+  definition: ToolDefinition,
+  userSettings: Doc<'userSettings'> | null
+) => ({
+  id: definition.id,
+  name: definition.name,
+  description: definition.description,
+  requiredAbility: definition.requiredAbility,
+  parameters: zodSchema(definition.parameters).jsonSchema,
+  settings: definition.settings,
+  values: getToolSettings(definition, userSettings),
+});
+
 export const getToolkit = async (
   ctx: GenericActionCtx<DataModel>,
-  enabledTools: AbilityId[]
+  options: {
+    userId: Id<'users'>;
+    enabledTools: AbilityId[];
+    providerKeys: ProviderKeys;
+    model: SharedModel;
+  }
 ): Promise<Record<string, Tool>> => {
-  const toolResults = await Promise.all(
-    TOOL_ADAPTERS.map(adapter => adapter({ ctx, enabledTools }))
-  );
+  const { userId, enabledTools, providerKeys, model } = options;
+
+  // MCP tools are plain function calls, so they need the same ability
+  if (!model.abilities.includes('function_calling')) {
+    console.log(`Skipping tools: ${model.id} lacks function_calling`);
+    return {};
+  }
+
+  const definitions = enabledTools
+    .map(toolId => TOOL_REGISTRY[toolId])
+    .filter(definition => {
+      const supported = model.abilities.includes(definition.requiredAbility);
+      if (!supported) {
+        console.log(`Skipping ${definition.id}: ${model.id} lacks ${definition.requiredAbility}`);
+      }
+      return supported;
+    });
+
+  const userSettings =
+    definitions.length > 0
+      ? await ctx.runQuery(internal.services.user_settings_service.getUserSettings, { userId })
+      : null;
+
+  const toolResults = await Promise.all([
+    ...definitions.map(definition =>
+      definition.adapter({
+        ctx,
+        userId,
+        enabledTools,
+        providerKeys,
+        userSettings,
+        settings: getToolSettings(definition, userSettings),
+      })
+    ),
+    // The user's own MCP servers, switched on and off in settings rather than per message
+    getMcpTools(ctx, userId),
+  ]);
 
   const tools: Record<string, Tool> = {};
   for (const toolResult of toolResults) {
@@ -30,6 +226,34 @@ export const getToolkit = async (
     }
   }
 
-  console.log('tools', Object.keys(tools));
   return tools;
 };
+
+/**
+ * Wrap each tool's execute to record how long its calls take, keyed by tool call id
+ */
+export const timeToolCalls = (
+  tools: Record<string, Tool>,
+  durations: Map<string, number>
+): Record<string, Tool> =>
+  Object.fromEntries(
+    Object.entries(tools).map(([name, definition]) => {
+      const execute = definition.execute;
+      if (!execute) return [name, definition];
+
+      return [
+        name,
+        {
+          ...definition,
+          execute: async (args, options) => {
+            const startedAt = Date.now();
+            try {
+              return await execute(args, options);
+            } finally {
+              durations.set(options.toolCallId, Date.now() - startedAt);
+            }
+          },
+        },
+      ];
+    })
+  );
@@ -12,9 +12,20 @@ export { FirecrawlSearchAdapter, type FirecrawlSearchConfig } from './firecrawl_
 // Serper adapter
 export { SerperSearchAdapter, type SerperSearchConfig } from './serper_search_adapter';
 
+// SearXNG adapter
+export { SearxngSearchAdapter, type SearxngSearchConfig } from './searxng_search_adapter';
+
+// Tavily adapter
+export { TavilySearchAdapter, type TavilySearchConfig } from './tavily_search_adapter';
+
 // Search provider manager
 export {
   SearchProvider,
+  SEARCH_PROVIDERS,
+  SEARCH_PROVIDER_NAMES,
+  getSearchProviderChain,
   type SearchProviderType,
+  type SearchProviderKeys,
   type SearchProviderConfig,
+  type FallbackSearchResult,
 } from './search_provider';
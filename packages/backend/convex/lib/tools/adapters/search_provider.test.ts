@@ -0,0 +1,181 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { sendJson, startMockServer } from '../../../../test/mock_server';
+import { SearchProvider } from './search_provider';
+import { SearxngSearchAdapter } from './searxng_search_adapter';
+import { SerperSearchAdapter } from './serper_search_adapter';
+import { TavilySearchAdapter } from './tavily_search_adapter';
+
+type MockServer = Awaited<ReturnType<typeof startMockServer>>;
+
+const servers: MockServer[] = [];
+const mockServer = async (...args: Parameters<typeof startMockServer>) => {
+  const server = await startMockServer(...args);
+  servers.push(server);
+  return server;
+};
+
+beforeEach(() => {
+  // The adapters log provider failures; keep test output to the assertions
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map(server => server.close()));
+  vi.restoreAllMocks();
+});
+
+describe('SearxngSearchAdapter', () => {
+  it('queries the JSON API and maps results up to the limit', async () => {
+    const server = await mockServer((_, response) =>
+      sendJson(response, 200, {
+        query: 'convex',
+        results: [
+          { url: 'https://a.example', title: 'A', content: 'First' },
+          { url: 'https://b.example', title: 'B' },
+          { url: 'https://c.example', title: 'C', content: 'Third' },
+        ],
+      })
+    );
+
+    const adapter = new SearxngSearchAdapter({ baseUrl: `${server.url}/`, apiKey: 'secret' });
+    const results = await adapter.search('convex', { limit: 2 });
+
+    expect(results).toEqual([
+      { url: 'https://a.example', title: 'A', description: 'First' },
+      { url: 'https://b.example', title: 'B', description: '' },
+    ]);
+    expect(server.requests).toHaveLength(1);
+    expect(server.requests[0].path).toBe('/search?q=convex&format=json');
+    expect(server.requests[0].headers.authorization).toBe('Bearer secret');
+  });
+
+  it('reports HTTP errors', async () => {
+    const server = await mockServer((_, response) => sendJson(response, 403, {}));
+
+    await expect(new SearxngSearchAdapter({ baseUrl: server.url }).search('x')).rejects.toThrow(
+      'SearXNG search failed: 403'
+    );
+  });
+});
+
+describe('TavilySearchAdapter', () => {
+  it('sends the key and options and fills content from raw_content', async () => {
+    const server = await mockServer((_, response) =>
+      sendJson(response, 200, {
+        query: 'convex',
+        results: [
+          {
+            url: 'https://a.example',
+            title: 'A',
+            content: 'Snippet',
+            score: 0.9,
+            raw_content: 'Full page',
+          },
+        ],
+      })
+    );
+
+    const adapter = new TavilySearchAdapter({ apiKey: 'tvly-key', baseUrl: server.url });
+    const results = await adapter.search('convex', { limit: 3, scrapeContent: true });
+
+    expect(results).toEqual([
+      {
+        url: 'https://a.example',
+        title: 'A',
+        description: 'Snippet',
+        content: 'Full page',
+        markdown: 'Full page',
+      },
+    ]);
+    expect(server.requests[0]).toMatchObject({ method: 'POST', path: '/search' });
+    expect(server.requests[0].headers.authorization).toBe('Bearer tvly-key');
+    expect(JSON.parse(server.requests[0].body)).toEqual({
+      query: 'convex',
+      max_results: 3,
+      include_raw_content: true,
+    });
+  });
+});
+
+describe('SerperSearchAdapter', () => {
+  it('scrapes each result and keeps results whose scrape failed', async () => {
+    const server = await mockServer((request, response) => {
+      if (request.path === '/search') {
+        return sendJson(response, 200, {
+          organic: [
+            { title: 'A', link: 'https://a.example', snippet: 'First', position: 1 },
+            { title: 'B', link: 'https://b.example', snippet: 'Second', position: 2 },
+          ],
+        });
+      }
+      const { url } = JSON.parse(request.body);
+      return url === 'https://a.example'
+        ? sendJson(response, 200, { url, title: 'A', text: 'Page A' })
+        : sendJson(response, 500, {});
+    });
+
+    const adapter = new SerperSearchAdapter({
+      apiKey: 'serper-key',
+      baseUrl: `${server.url}/search`,
+      scrapeUrl: `${server.url}/scrape`,
+    });
+    const results = await adapter.search('convex', { scrapeContent: true });
+
+    expect(results).toEqual([
+      {
+        url: 'https://a.example',
+        title: 'A',
+        description: 'First',
+        content: 'Page A',
+        markdown: 'Page A',
+      },
+      { url: 'https://b.example', title: 'B', description: 'Second' },
+    ]);
+    expect(server.requests.every(request => request.headers['x-api-key'] === 'serper-key')).toBe(
+      true
+    );
+  });
+});
+
+describe('SearchProvider.searchWithFallback', () => {
+  it('falls back to the next provider and records which one answered', async () => {
+    const failing = await mockServer((_, response) => sendJson(response, 502, {}));
+    const working = await mockServer((_, response) =>
+      sendJson(response, 200, {
+        query: 'convex',
+        results: [{ url: 'https://a.example', title: 'A', content: 'First' }],
+      })
+    );
+
+    const result = await SearchProvider.searchWithFallback(
+      [
+        { provider: 'tavily', apiKey: 'tvly-key', config: { baseUrl: failing.url } },
+        { provider: 'searxng', config: { baseUrl: working.url } },
+      ],
+      'convex'
+    );
+
+    expect(result.provider).toBe('searxng');
+    expect(result.results).toEqual([
+      { url: 'https://a.example', title: 'A', description: 'First' },
+    ]);
+    expect(result.failures).toEqual([
+      { provider: 'tavily', error: expect.stringContaining('Tavily search failed: 502') },
+    ]);
+  });
+
+  it('throws with every provider error when all of them fail', async () => {
+    const failing = await mockServer((_, response) => sendJson(response, 500, {}));
+
+    await expect(
+      SearchProvider.searchWithFallback(
+        [
+          { provider: 'tavily', apiKey: 'tvly-key', config: { baseUrl: failing.url } },
+          { provider: 'searxng', config: { baseUrl: failing.url } },
+        ],
+        'convex'
+      )
+    ).rejects.toThrow(/Tavily: .*500.*; SearXNG: .*500/);
+  });
+});
@@ -1,41 +1,111 @@
+import type { Infer } from 'convex/values';
+import type { SearchProviderId } from '../../../schemas/user_settings';
 import { FirecrawlSearchAdapter, type FirecrawlSearchConfig } from './firecrawl_search_adapter';
 import type { SearchAdapter, SearchOptions, SearchResult } from './search_adapter';
+import { SearxngSearchAdapter, type SearxngSearchConfig } from './searxng_search_adapter';
 import { SerperSearchAdapter, type SerperSearchConfig } from './serper_search_adapter';
+import { TavilySearchAdapter, type TavilySearchConfig } from './tavily_search_adapter';
 
-export type SearchProviderType = 'firecrawl' | 'serper';
+export type SearchProviderType = Infer<typeof SearchProviderId>;
+
+// Fallback order when the user hasn't picked a provider
+export const SEARCH_PROVIDERS: SearchProviderType[] = ['serper', 'tavily', 'firecrawl', 'searxng'];
+
+export const SEARCH_PROVIDER_NAMES: Record<SearchProviderType, string> = {
+  serper: 'Serper',
+  tavily: 'Tavily',
+  firecrawl: 'Firecrawl',
+  searxng: 'SearXNG',
+};
+
+// Self-hosted SearXNG instance; it is configured by URL instead of a key
+const SEARXNG_URL_ENV = 'SEARXNG_URL';
+
+// Keys for the providers that need one, resolved by the caller from the user's or the server's
+export type SearchProviderKeys = Partial<Record<Exclude<SearchProviderType, 'searxng'>, string>>;
 
 export interface SearchProviderConfig {
   provider: SearchProviderType;
-  config?: Partial<FirecrawlSearchConfig | SerperSearchConfig>;
+  // Resolved by the caller from the user's own key or the server's
+  apiKey?: string;
+  config?: Partial<
+    FirecrawlSearchConfig | SerperSearchConfig | TavilySearchConfig | SearxngSearchConfig
+  >;
+}
+
+export interface FallbackSearchResult {
+  provider: SearchProviderType;
+  results: SearchResult[];
+  // Providers tried before the one that answered
+  failures: { provider: SearchProviderType; error: string }[];
 }
 
+/**
+ * Providers that can be used with the given keys, the preferred one first
+ */
+export const getSearchProviderChain = (
+  keys: SearchProviderKeys,
+  preferred?: SearchProviderType
+): SearchProviderConfig[] => {
+  const order = preferred
+    ? [preferred, ...SEARCH_PROVIDERS.filter(provider => provider !== preferred)]
+    : SEARCH_PROVIDERS;
+
+  return order.flatMap((provider): SearchProviderConfig[] => {
+    if (provider === 'searxng') {
+      const baseUrl = process.env[SEARXNG_URL_ENV];
+      return baseUrl ? [{ provider, config: { baseUrl } }] : [];
+    }
+    const apiKey = keys[provider];
+    return apiKey ? [{ provider, apiKey }] : [];
+  });
+};
+
 export class SearchProvider {
   private adapter: SearchAdapter;
 
-  constructor({ provider, config = {} }: SearchProviderConfig) {
+  constructor({ provider, apiKey, config = {} }: SearchProviderConfig) {
     switch (provider) {
       case 'firecrawl': {
-        const firecrawlApiKey = process.env.FIRECRAWL_API_KEY;
-        if (!firecrawlApiKey) {
-          throw new Error('Firecrawl API key is not set');
+        if (!apiKey) {
+          throw new Error('Firecrawl API key is not set: add your own in Account settings');
         }
         this.adapter = new FirecrawlSearchAdapter({
-          apiKey: firecrawlApiKey,
+          apiKey,
           ...config,
         } as FirecrawlSearchConfig);
         break;
       }
       case 'serper': {
-        const serperApiKey = process.env.SERPER_API_KEY;
-        if (!serperApiKey) {
-          throw new Error('Serper API key is not set');
+        if (!apiKey) {
+          throw new Error('Serper API key is not set: add your own in Account settings');
         }
         this.adapter = new SerperSearchAdapter({
-          apiKey: serperApiKey,
+          apiKey,
           ...config,
         } as SerperSearchConfig);
         break;
       }
+      case 'tavily': {
+        if (!apiKey) {
+          throw new Error('Tavily API key is not set: add your own in Account settings');
+        }
+        this.adapter = new TavilySearchAdapter({
+          apiKey,
+          ...config,
+        } as TavilySearchConfig);
+        break;
+      }
+      case 'searxng': {
+        if (!config.baseUrl) {
+          throw new Error(`SearXNG is not configured: set ${SEARXNG_URL_ENV}`);
+        }
+        this.adapter = new SearxngSearchAdapter({
+          apiKey,
+          ...config,
+        } as SearxngSearchConfig);
+        break;
+      }
       default:
         throw new Error(`Unsupported search provider: ${provider}`);
     }
@@ -44,4 +114,38 @@ export class SearchProvider {
   async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
     return await this.adapter.search(query, options);
   }
+
+  /**
+   * Search with each provider in turn until one answers
+   * Throws with every provider's error when all of them fail
+   */
+  static async searchWithFallback(
+    chain: SearchProviderConfig[],
+    query: string,
+    options: SearchOptions = {}
+  ): Promise<FallbackSearchResult> {
+    if (chain.length === 0) {
+      throw new Error(
+        'No search provider is available: add a Serper, Tavily or Firecrawl key in Account settings'
+      );
+    }
+
+    const failures: FallbackSearchResult['failures'] = [];
+    for (const config of chain) {
+      try {
+        const results = await new SearchProvider(config).search(query, options);
+        return { provider: config.provider, results, failures };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error occurred';
+        console.warn(`Search provider ${config.provider} failed, trying the next one:`, message);
+        failures.push({ provider: config.provider, error: message });
+      }
+    }
+
+    throw new Error(
+      failures
+        .map(failure => `${SEARCH_PROVIDER_NAMES[failure.provider]}: ${failure.error}`)
+        .join('; ')
+    );
+  }
 }
@@ -0,0 +1,65 @@
+import type {
+  SearchAdapter,
+  SearchAdapterConfig,
+  SearchOptions,
+  SearchResult,
+} from './search_adapter';
+
+export interface SearxngSearchConfig extends SearchAdapterConfig {
+  // Root URL of the instance, e.g. http://localhost:8080; its JSON format must be enabled
+  baseUrl: string;
+}
+
+interface SearxngSearchResponse {
+  query: string;
+  results: Array<{
+    url: string;
+    title: string;
+    content?: string;
+    engine?: string;
+  }>;
+}
+
+export class SearxngSearchAdapter implements SearchAdapter {
+  readonly name = 'searxng';
+  private config: SearxngSearchConfig;
+
+  constructor(config: SearxngSearchConfig) {
+    this.config = {
+      ...config,
+      baseUrl: config.baseUrl.replace(/\/+$/, ''),
+    };
+  }
+
+  // SearXNG only returns snippets, so scrapeContent is ignored
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const { limit = 5 } = options;
+
+    try {
+      const params = new URLSearchParams({ q: query, format: 'json' });
+      const response = await fetch(`${this.config.baseUrl}/search?${params}`, {
+        headers: {
+          Accept: 'application/json',
+          ...(this.config.apiKey && { Authorization: `Bearer ${this.config.apiKey}` }),
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error(`SearXNG search failed: ${response.status} ${response.statusText}`);
+      }
+
+      const data: SearxngSearchResponse = await response.json();
+
+      return (data.results ?? []).slice(0, limit).map(item => ({
+        url: item.url,
+        title: item.title,
+        description: item.content || '',
+      }));
+    } catch (error) {
+      console.error('SearXNG search error:', error);
+      throw new Error(
+        `Failed to search with SearXNG: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+}
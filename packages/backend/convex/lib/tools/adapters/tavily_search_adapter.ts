@@ -0,0 +1,88 @@
+import type {
+  SearchAdapter,
+  SearchAdapterConfig,
+  SearchOptions,
+  SearchResult,
+} from './search_adapter';
+
+export interface TavilySearchConfig extends SearchAdapterConfig {
+  apiKey: string;
+  baseUrl?: string;
+}
+
+interface TavilySearchResponse {
+  query: string;
+  answer?: string | null;
+  results: Array<{
+    url: string;
+    title: string;
+    content: string;
+    score: number;
+    raw_content?: string | null;
+  }>;
+}
+
+export class TavilySearchAdapter implements SearchAdapter {
+  readonly name = 'tavily';
+  private config: TavilySearchConfig;
+  private readonly MAX_CONTEXT_WINDOW = 24000; // 24k characters max, as with Serper
+
+  constructor(config: TavilySearchConfig) {
+    this.config = {
+      baseUrl: 'https://api.tavily.com',
+      ...config,
+    };
+  }
+
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const { limit = 5, scrapeContent = false } = options;
+
+    try {
+      const response = await fetch(`${this.config.baseUrl}/search`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${this.config.apiKey}`,
+        },
+        body: JSON.stringify({
+          query,
+          max_results: Math.min(limit, 20),
+          // Tavily returns page content alongside results instead of a separate scrape call
+          include_raw_content: scrapeContent,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Tavily search failed: ${response.status} ${response.statusText}`);
+      }
+
+      const data: TavilySearchResponse = await response.json();
+
+      let contextLeft = this.MAX_CONTEXT_WINDOW;
+      return (data.results ?? []).slice(0, limit).map(item => {
+        const result: SearchResult = {
+          url: item.url,
+          title: item.title,
+          description: item.content || '',
+        };
+
+        if (scrapeContent && item.raw_content && contextLeft > 0) {
+          const content =
+            item.raw_content.length <= contextLeft
+              ? item.raw_content
+              : `${item.raw_content.substring(0, contextLeft)}...`;
+          contextLeft -= item.raw_content.length;
+          result.content = content;
+          result.markdown = content;
+        }
+
+        return result;
+      });
+    } catch (error) {
+      console.error('Tavily search error:', error);
+      throw new Error(
+        `Failed to search with Tavily: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+}
@@ -0,0 +1,464 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+import type { ToolAdapter, ToolDefinition } from '../toolkit';
+
+const MAX_EXPRESSION_LENGTH = 500;
+
+// Exact results are capped so expressions like 9^9^9 fail quickly instead of hanging
+const MAX_DIGITS = 1000;
+
+// Places shown for fractions whose decimals don't terminate
+const DECIMAL_PLACES = 20;
+
+/**
+ * Numbers are kept as exact fractions for as long as possible; functions like sqrt(2) or
+ * sin(x) fall back to floating point
+ */
+type Value = { exact: true; n: bigint; d: bigint } | { exact: false; value: number };
+
+type Token =
+  | { type: 'number'; text: string }
+  | { type: 'name'; text: string }
+  | { type: 'operator'; text: string };
+
+const abs = (value: bigint) => (value < 0n ? -value : value);
+
+const gcd = (a: bigint, b: bigint): bigint => {
+  a = abs(a);
+  b = abs(b);
+  while (b) {
+    [a, b] = [b, a % b];
+  }
+  return a;
+};
+
+const rational = (n: bigint, d: bigint = 1n): Value => {
+  if (d === 0n) {
+    throw new Error('Division by zero');
+  }
+  if (d < 0n) {
+    n = -n;
+    d = -d;
+  }
+  const divisor = gcd(n, d) || 1n;
+  n /= divisor;
+  d /= divisor;
+  if (abs(n).toString().length > MAX_DIGITS || d.toString().length > MAX_DIGITS) {
+    throw new Error(`Result has more than ${MAX_DIGITS} digits`);
+  }
+  return { exact: true, n, d };
+};
+
+const real = (value: number): Value => {
+  if (!Number.isFinite(value)) {
+    throw new Error('Result is not a finite number');
+  }
+  return { exact: false, value };
+};
+
+const toNumber = (value: Value) => (value.exact ? Number(value.n) / Number(value.d) : value.value);
+
+// Largest integer whose square is at most value
+const integerSqrt = (value: bigint) => {
+  if (value < 2n) return value;
+  let x = BigInt(Math.floor(Math.sqrt(Number(value))));
+  while (x * x > value) x--;
+  while ((x + 1n) * (x + 1n) <= value) x++;
+  return x;
+};
+
+const parseNumber = (text: string): Value => {
+  const match = /^(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(text);
+  if (!match) {
+    throw new Error(`Invalid number: ${text}`);
+  }
+  const [, whole, fraction = '', exponentText = '0'] = match;
+  const exponent = Number(exponentText) - fraction.length;
+  if (Math.abs(exponent) > MAX_DIGITS) {
+    throw new Error(`Number is out of range: ${text}`);
+  }
+  const digits = BigInt(`${whole}${fraction}` || '0');
+  return exponent >= 0
+    ? rational(digits * 10n ** BigInt(exponent))
+    : rational(digits, 10n ** BigInt(-exponent));
+};
+
+const add = (a: Value, b: Value, sign: 1n | -1n = 1n): Value =>
+  a.exact && b.exact
+    ? rational(a.n * b.d + sign * b.n * a.d, a.d * b.d)
+    : real(toNumber(a) + Number(sign) * toNumber(b));
+
+const multiply = (a: Value, b: Value): Value =>
+  a.exact && b.exact ? rational(a.n * b.n, a.d * b.d) : real(toNumber(a) * toNumber(b));
+
+const divide = (a: Value, b: Value): Value => {
+  if (b.exact ? b.n === 0n : b.value === 0) {
+    throw new Error('Division by zero');
+  }
+  return a.exact && b.exact ? rational(a.n * b.d, a.d * b.n) : real(toNumber(a) / toNumber(b));
+};
+
+// Remainder with the sign of the dividend, as in JavaScript
+const remainder = (a: Value, b: Value): Value => {
+  if (b.exact ? b.n === 0n : b.value === 0) {
+    throw new Error('Division by zero');
+  }
+  if (a.exact && b.exact) {
+    const quotient = (a.n * b.d) / (a.d * b.n);
+    return add(a, multiply(b, rational(quotient)), -1n);
+  }
+  return real(toNumber(a) % toNumber(b));
+};
+
+const power = (base: Value, exponent: Value): Value => {
+  if (base.exact && exponent.exact && exponent.d === 1n) {
+    const e = abs(exponent.n);
+    // Estimate the size before computing, from the magnitudes of the base
+    const digits =
+      Number(e) * Math.max(Math.log10(Number(abs(base.n)) || 1), Math.log10(Number(base.d)));
+    if (digits > MAX_DIGITS) {
+      throw new Error(`Result has more than ${MAX_DIGITS} digits`);
+    }
+    const raised = rational(base.n ** e, base.d ** e);
+    return exponent.n < 0n ? divide(rational(1n), raised) : raised;
+  }
+  return real(Math.pow(toNumber(base), toNumber(exponent)));
+};
+
+const factorial = (value: Value): Value => {
+  if (!value.exact || value.d !== 1n || value.n < 0n) {
+    throw new Error('Factorial is only defined for non-negative integers');
+  }
+  let result = 1n;
+  for (let i = 2n; i <= value.n; i++) {
+    result *= i;
+    if (result.toString().length > MAX_DIGITS) {
+      throw new Error(`Result has more than ${MAX_DIGITS} digits`);
+    }
+  }
+  return rational(result);
+};
+
+const compare = (a: Value, b: Value) =>
+  a.exact && b.exact
+    ? Number(a.n * b.d - b.n * a.d > 0n) - Number(a.n * b.d - b.n * a.d < 0n)
+    : Math.sign(toNumber(a) - toNumber(b));
+
+const CONSTANTS: Record<string, Value> = {
+  pi: { exact: false, value: Math.PI },
+  e: { exact: false, value: Math.E },
+  tau: { exact: false, value: 2 * Math.PI },
+};
+
+// Unary floating-point functions; exact ones are handled separately
+const FLOAT_FUNCTIONS: Record<string, (x: number) => number> = {
+  cbrt: Math.cbrt,
+  exp: Math.exp,
+  ln: Math.log,
+  log10: Math.log10,
+  log2: Math.log2,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  sinh: Math.sinh,
+  cosh: Math.cosh,
+  tanh: Math.tanh,
+};
+
+const callFunction = (name: string, args: Value[]): Value => {
+  const expectArgs = (count: number) => {
+    if (args.length !== count) {
+      throw new Error(`${name}() takes ${count} argument${count === 1 ? '' : 's'}`);
+    }
+  };
+
+  switch (name) {
+    case 'sqrt': {
+      expectArgs(1);
+      const [x] = args;
+      if (compare(x, rational(0n)) < 0) {
+        throw new Error('sqrt() of a negative number');
+      }
+      if (x.exact) {
+        const n = integerSqrt(x.n);
+        const d = integerSqrt(x.d);
+        if (n * n === x.n && d * d === x.d) {
+          return rational(n, d);
+        }
+      }
+      return real(Math.sqrt(toNumber(x)));
+    }
+    case 'abs':
+      expectArgs(1);
+      return args[0].exact ? rational(abs(args[0].n), args[0].d) : real(Math.abs(args[0].value));
+    case 'floor':
+    case 'ceil':
+    case 'round':
+    case 'trunc': {
+      expectArgs(1);
+      const [x] = args;
+      if (!x.exact) {
+        return real(Math[name](x.value));
+      }
+      // BigInt division truncates towards zero
+      const truncated = x.n / x.d;
+      const hasFraction = truncated * x.d !== x.n;
+      switch (name) {
+        case 'trunc':
+          return rational(truncated);
+        case 'floor':
+          return rational(hasFraction && x.n < 0n ? truncated - 1n : truncated);
+        case 'ceil':
+          return rational(hasFraction && x.n > 0n ? truncated + 1n : truncated);
+        default:
+          // Halves round up, like Math.round
+          return callFunction('floor', [add(x, rational(1n, 2n))]);
+      }
+    }
+    case 'min':
+    case 'max':
+      if (args.length === 0) {
+        throw new Error(`${name}() needs at least one argument`);
+      }
+      return args.reduce((best, value) =>
+        compare(value, best) * (name === 'min' ? -1 : 1) > 0 ? value : best
+      );
+    case 'log':
+      // log(x) is base 10; log(x, base) takes any base
+      if (args.length === 2) {
+        return real(Math.log(toNumber(args[0])) / Math.log(toNumber(args[1])));
+      }
+      expectArgs(1);
+      return real(Math.log10(toNumber(args[0])));
+  }
+
+  const fn = FLOAT_FUNCTIONS[name];
+  if (!fn) {
+    throw new Error(`Unknown function: ${name}`);
+  }
+  expectArgs(1);
+  return real(fn(toNumber(args[0])));
+};
+
+const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = [];
+  const pattern =
+    /\s*(?:(\d+\.?\d*(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([a-z_][a-z0-9_]*)|(\*\*|[-+*/%^(),!×÷]))/iy;
+
+  let index = 0;
+  while (index < expression.length) {
+    if (/^\s*$/.test(expression.slice(index))) break;
+    pattern.lastIndex = index;
+    const match = pattern.exec(expression);
+    if (!match) {
+      throw new Error(`Unexpected character at position ${index + 1}: ${expression[index]}`);
+    }
+    index = pattern.lastIndex;
+
+    if (match[1] !== undefined) {
+      tokens.push({ type: 'number', text: match[1] });
+    } else if (match[2] !== undefined) {
+      tokens.push({ type: 'name', text: match[2].toLowerCase() });
+    } else {
+      const operator = { '**': '^', '×': '*', '÷': '/' }[match[3]] ?? match[3];
+      tokens.push({ type: 'operator', text: operator });
+    }
+  }
+  return tokens;
+};
+
+/**
+ * Recursive descent over the usual precedence: + and -, then * / %, then unary minus,
+ * then ^ (right-associative), then postfix !
+ */
+const evaluate = (expression: string): Value => {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isOperator = (text: string) => peek()?.type === 'operator' && peek()!.text === text;
+  const expect = (text: string) => {
+    if (!isOperator(text)) {
+      throw new Error(`Expected "${text}"${peek() ? ` before "${peek()!.text}"` : ' at the end'}`);
+    }
+    position++;
+  };
+
+  const parseExpression = (): Value => {
+    let value = parseTerm();
+    while (isOperator('+') || isOperator('-')) {
+      const operator = tokens[position++].text;
+      value = add(value, parseTerm(), operator === '-' ? -1n : 1n);
+    }
+    return value;
+  };
+
+  const parseTerm = (): Value => {
+    let value = parseUnary();
+    while (isOperator('*') || isOperator('/') || isOperator('%')) {
+      const operator = tokens[position++].text;
+      const right = parseUnary();
+      value =
+        operator === '*'
+          ? multiply(value, right)
+          : operator === '/'
+            ? divide(value, right)
+            : remainder(value, right);
+    }
+    return value;
+  };
+
+  const parseUnary = (): Value => {
+    if (isOperator('-')) {
+      position++;
+      return multiply(rational(-1n), parseUnary());
+    }
+    if (isOperator('+')) {
+      position++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): Value => {
+    const base = parsePostfix();
+    if (isOperator('^')) {
+      position++;
+      return power(base, parseUnary());
+    }
+    return base;
+  };
+
+  const parsePostfix = (): Value => {
+    let value = parsePrimary();
+    while (isOperator('!')) {
+      position++;
+      value = factorial(value);
+    }
+    return value;
+  };
+
+  const parsePrimary = (): Value => {
+    const token = tokens[position++];
+    if (!token) {
+      throw new Error('Expression ended unexpectedly');
+    }
+
+    if (token.type === 'number') {
+      return parseNumber(token.text);
+    }
+
+    if (token.type === 'name') {
+      if (isOperator('(')) {
+        position++;
+        const args: Value[] = [];
+        if (!isOperator(')')) {
+          args.push(parseExpression());
+          while (isOperator(',')) {
+            position++;
+            args.push(parseExpression());
+          }
+        }
+        expect(')');
+        return callFunction(token.text, args);
+      }
+      const constant = CONSTANTS[token.text];
+      if (!constant) {
+        throw new Error(`Unknown name: ${token.text}`);
+      }
+      return constant;
+    }
+
+    if (token.text === '(') {
+      const value = parseExpression();
+      expect(')');
+      return value;
+    }
+
+    throw new Error(`Unexpected "${token.text}"`);
+  };
+
+  const value = parseExpression();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${tokens[position].text}"`);
+  }
+  return value;
+};
+
+/**
+ * Decimal text for a result, and whether it is exactly the value
+ */
+const formatValue = (value: Value): { result: string; exact: boolean; fraction?: string } => {
+  if (!value.exact) {
+    // 15 significant digits hide floating-point noise such as 0.30000000000000004
+    return { result: String(Number(value.value.toPrecision(15))), exact: false };
+  }
+
+  if (value.d === 1n) {
+    return { result: value.n.toString(), exact: true };
+  }
+
+  const scale = 10n ** BigInt(DECIMAL_PLACES);
+  const scaled = abs(value.n) * scale;
+  const exact = scaled % value.d === 0n;
+  // Rounded half away from zero
+  const digits = ((scaled * 2n + value.d) / (2n * value.d))
+    .toString()
+    .padStart(DECIMAL_PLACES + 1, '0');
+  const whole = digits.slice(0, -DECIMAL_PLACES);
+  const decimals = digits.slice(-DECIMAL_PLACES).replace(/0+$/, '');
+  const sign = value.n < 0n ? '-' : '';
+  const fraction = `${value.n}/${value.d}`;
+
+  // Too small for the fixed places, so give it in scientific notation instead of 0
+  if (/^0*$/.test(whole + decimals)) {
+    return { result: String(Number(toNumber(value).toPrecision(15))), exact: false, fraction };
+  }
+
+  return { result: `${sign}${whole}${decimals ? `.${decimals}` : ''}`, exact, fraction };
+};
+
+const calculatorParameters = z.object({
+  expression: z
+    .string()
+    .describe(
+      'Math expression, e.g. "(1250 * 1.07^5) / 12" or "sqrt(2) * pi". Supports + - * / % (remainder) ^ and ! (factorial), parentheses, pi, e, and sqrt, cbrt, abs, round, floor, ceil, trunc, min, max, exp, ln, log (base 10, or log(x, base)), log2, sin, cos, tan, asin, acos, atan. Angles are in radians.'
+    ),
+});
+
+// Evaluated locally, so it needs no provider key
+const CalculatorAdapter: ToolAdapter = async () => ({
+  calculator: tool({
+    description:
+      'Evaluate a math expression exactly. Use it for any arithmetic instead of calculating yourself; fractions stay exact and very large integers keep all their digits.',
+    parameters: calculatorParameters,
+    execute: async ({ expression }) => {
+      try {
+        if (expression.length > MAX_EXPRESSION_LENGTH) {
+          throw new Error(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`);
+        }
+        return { success: true, expression, ...formatValue(evaluate(expression)) };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error occurred',
+          expression,
+        };
+      }
+    },
+  }),
+});
+
+export const CalculatorTool: ToolDefinition = {
+  id: 'calculator',
+  name: 'Calculator',
+  description: 'Exact arithmetic, so answers with numbers are worked out rather than guessed',
+  parameters: calculatorParameters,
+  requiredAbility: 'function_calling',
+  enabledByDefault: true,
+  settings: [],
+  adapter: CalculatorAdapter,
+};
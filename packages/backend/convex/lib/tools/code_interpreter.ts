@@ -0,0 +1,86 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+import { internal } from '../../_generated/api';
+import type { ToolAdapter, ToolDefinition } from '../toolkit';
+
+// Longer programs are almost always data pasted into code, which belongs in the conversation
+const MAX_CODE_LENGTH = 20000;
+
+export type SandboxTable = {
+  title?: string;
+  columns: string[];
+  rows: unknown[][];
+};
+
+export type SandboxResult = {
+  success: boolean;
+  stdout: string;
+  stderr: string;
+  tables: SandboxTable[];
+  // Output, tables or rows beyond the limits were dropped
+  truncated: boolean;
+  // Value of the last expression, formatted as text
+  result?: string;
+  error?: string;
+  durationMs: number;
+};
+
+const codeInterpreterParameters = z.object({
+  code: z
+    .string()
+    .describe(
+      'JavaScript to run. console.log prints to stdout, console.error to stderr, and table(rows, title?) or console.table(rows) returns a table. The value of the last expression is returned as the result.'
+    ),
+});
+
+// Runs in the deployment's Node runtime, so it needs no provider key
+const CodeInterpreterAdapter: ToolAdapter = async ({ ctx, settings }) => {
+  const timeoutMs = (settings.timeoutSeconds as number) * 1000;
+
+  return {
+    code_interpreter: tool({
+      description:
+        'Run JavaScript in an isolated sandbox for calculations, data processing and checking code. There is no network, file system, require, timers or fetch; include any data in the code. Returns stdout, stderr, tables and the value of the last expression.',
+      parameters: codeInterpreterParameters,
+      execute: async ({ code }): Promise<SandboxResult> => {
+        if (code.length > MAX_CODE_LENGTH) {
+          return {
+            success: false,
+            stdout: '',
+            stderr: '',
+            tables: [],
+            truncated: false,
+            error: `Code is longer than ${MAX_CODE_LENGTH} characters`,
+            durationMs: 0,
+          };
+        }
+
+        console.log(`Running ${code.length} characters of code...`);
+        return await ctx.runAction(internal.services.code_sandbox_service.runCode, {
+          code,
+          timeoutMs,
+        });
+      },
+    }),
+  };
+};
+
+export const CodeInterpreterTool: ToolDefinition = {
+  id: 'code_interpreter',
+  name: 'Code Interpreter',
+  description: 'Run JavaScript for calculations and data work in an isolated sandbox',
+  parameters: codeInterpreterParameters,
+  requiredAbility: 'function_calling',
+  settings: [
+    {
+      key: 'timeoutSeconds',
+      label: 'Time limit',
+      description: 'Seconds a program may run before it is stopped',
+      type: 'number',
+      default: 10,
+      min: 1,
+      max: 30,
+    },
+  ],
+  adapter: CodeInterpreterAdapter,
+};
@@ -0,0 +1,212 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+import type { ToolAdapter, ToolDefinition } from '../toolkit';
+
+const MAX_TIMEZONES = 10;
+
+// The client doesn't send the device's timezone, so users pick theirs in settings
+const TIMEZONE_OPTIONS = [
+  { value: 'UTC', label: 'UTC' },
+  { value: 'America/Los_Angeles', label: 'Los Angeles' },
+  { value: 'America/Denver', label: 'Denver' },
+  { value: 'America/Chicago', label: 'Chicago' },
+  { value: 'America/New_York', label: 'New York' },
+  { value: 'America/Sao_Paulo', label: 'São Paulo' },
+  { value: 'Europe/London', label: 'London' },
+  { value: 'Europe/Paris', label: 'Paris' },
+  { value: 'Africa/Lagos', label: 'Lagos' },
+  { value: 'Europe/Moscow', label: 'Moscow' },
+  { value: 'Asia/Dubai', label: 'Dubai' },
+  { value: 'Asia/Kolkata', label: 'India' },
+  { value: 'Asia/Singapore', label: 'Singapore' },
+  { value: 'Asia/Shanghai', label: 'Shanghai' },
+  { value: 'Asia/Tokyo', label: 'Tokyo' },
+  { value: 'Australia/Sydney', label: 'Sydney' },
+  { value: 'Pacific/Auckland', label: 'Auckland' },
+];
+
+// ISO 8601 date with optional time and offset, e.g. 2025-03-14, 2025-03-14T09:30 or ...Z
+const TIME_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i;
+
+/**
+ * Throws a readable error for names Intl doesn't know
+ */
+const getFormatter = (timeZone: string, options: Intl.DateTimeFormatOptions) => {
+  try {
+    return new Intl.DateTimeFormat('en-GB', { ...options, timeZone });
+  } catch {
+    throw new Error(`Unknown timezone: ${timeZone}. Use an IANA name such as Europe/Paris`);
+  }
+};
+
+/**
+ * Calendar fields of an instant as seen in a timezone
+ */
+const getZonedParts = (timestamp: number, timeZone: string) => {
+  const parts = getFormatter(timeZone, {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    weekday: 'long',
+    hourCycle: 'h23',
+  }).formatToParts(new Date(timestamp));
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find(part => part.type === type)?.value ?? '';
+
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')),
+    day: Number(get('day')),
+    hour: Number(get('hour')),
+    minute: Number(get('minute')),
+    second: Number(get('second')),
+    weekday: get('weekday'),
+  };
+};
+
+// Minutes the timezone is ahead of UTC at an instant
+const getOffsetMinutes = (timestamp: number, timeZone: string) => {
+  const parts = getZonedParts(timestamp, timeZone);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return Math.round((asUtc - Math.floor(timestamp / 1000) * 1000) / 60000);
+};
+
+const formatOffset = (minutes: number) => {
+  const sign = minutes < 0 ? '-' : '+';
+  const absolute = Math.abs(minutes);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${sign}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`;
+};
+
+/**
+ * Read an ISO 8601 time; without an offset it is a wall-clock time in fromTimezone
+ */
+const parseTime = (text: string, fromTimezone: string) => {
+  const match = TIME_PATTERN.exec(text.trim());
+  if (!match) {
+    throw new Error(`Invalid time: ${text}. Use ISO 8601, e.g. 2025-03-14T09:30`);
+  }
+  const [, year, month, day, hour = '0', minute = '0', second = '0', offset] = match;
+  const wallTime = Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour),
+    Number(minute),
+    Number(second)
+  );
+  if (Number.isNaN(wallTime)) {
+    throw new Error(`Invalid time: ${text}`);
+  }
+
+  if (offset) {
+    if (offset.toUpperCase() === 'Z') return wallTime;
+    const [, sign, hours, minutes] = /^([+-])(\d{2}):?(\d{2})$/.exec(offset)!;
+    return wallTime - (sign === '-' ? -1 : 1) * (Number(hours) * 60 + Number(minutes)) * 60000;
+  }
+
+  // The offset depends on the instant, so check it again in case a DST change lies between
+  const guess = wallTime - getOffsetMinutes(wallTime, fromTimezone) * 60000;
+  return wallTime - getOffsetMinutes(guess, fromTimezone) * 60000;
+};
+
+const describeTime = (timestamp: number, timeZone: string) => {
+  const parts = getZonedParts(timestamp, timeZone);
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  return {
+    timezone: timeZone,
+    date: `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`,
+    time: `${pad(parts.hour)}:${pad(parts.minute)}:${pad(parts.second)}`,
+    weekday: parts.weekday,
+    utcOffset: formatOffset(getOffsetMinutes(timestamp, timeZone)),
+    formatted: getFormatter(timeZone, { dateStyle: 'full', timeStyle: 'short' }).format(
+      new Date(timestamp)
+    ),
+  };
+};
+
+const datetimeParameters = z.object({
+  timezones: z
+    .array(z.string())
+    .optional()
+    .describe(
+      'IANA timezones to give the time in, e.g. ["Asia/Tokyo", "America/New_York"]. Defaults to the user\'s timezone'
+    ),
+  time: z
+    .string()
+    .optional()
+    .describe(
+      'A date and time to convert instead of now, in ISO 8601, e.g. "2025-03-14T09:30". Without an offset it is read in fromTimezone'
+    ),
+  fromTimezone: z
+    .string()
+    .optional()
+    .describe("IANA timezone that time is given in. Defaults to the user's timezone"),
+});
+
+// Uses the deployment's clock, so it needs no provider key
+const DatetimeAdapter: ToolAdapter = async ({ settings }) => {
+  const userTimezone = settings.timezone as string;
+
+  return {
+    datetime: tool({
+      description: `Get the current date and time, or convert a time between timezones. Always use it for questions about today, now, weekdays or time zones instead of guessing. The user's timezone is ${userTimezone}.`,
+      parameters: datetimeParameters,
+      execute: async ({ timezones, time, fromTimezone }) => {
+        try {
+          const targets = timezones?.length ? timezones : [userTimezone];
+          if (targets.length > MAX_TIMEZONES) {
+            throw new Error(`At most ${MAX_TIMEZONES} timezones can be given at once`);
+          }
+
+          const timestamp = time ? parseTime(time, fromTimezone || userTimezone) : Date.now();
+
+          return {
+            success: true,
+            isNow: !time,
+            utc: new Date(timestamp).toISOString(),
+            unixTime: Math.floor(timestamp / 1000),
+            times: targets.map(timeZone => describeTime(timestamp, timeZone)),
+          };
+        } catch (error) {
+          return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error occurred',
+          };
+        }
+      },
+    }),
+  };
+};
+
+export const DatetimeTool: ToolDefinition = {
+  id: 'datetime',
+  name: 'Date & Time',
+  description: 'The current date and time, and conversions between timezones',
+  parameters: datetimeParameters,
+  requiredAbility: 'function_calling',
+  enabledByDefault: true,
+  settings: [
+    {
+      key: 'timezone',
+      label: 'Your timezone',
+      description: 'Used when a question doesn\'t name a timezone, e.g. "what day is it?"',
+      type: 'select',
+      default: 'UTC',
+      options: TIMEZONE_OPTIONS,
+    },
+  ],
+  adapter: DatetimeAdapter,
+};
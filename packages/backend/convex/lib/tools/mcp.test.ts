@@ -0,0 +1,212 @@
+import type { ServerResponse } from 'node:http';
+import type { GenericActionCtx } from 'convex/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { sendJson, startMockServer, type MockRequest } from '../../../test/mock_server';
+import type { DataModel, Doc, Id } from '../../_generated/dataModel';
+import { getMcpTools, listMcpServerTools } from './mcp';
+
+type StubTool = { name: string; description?: string };
+
+type MockServer = Awaited<ReturnType<typeof startMockServer>>;
+
+const servers: MockServer[] = [];
+let serverCount = 0;
+
+/**
+ * MCP server speaking JSON-RPC over the streamable HTTP transport
+ * `hold` delays the answer to a method until the returned promise settles
+ */
+const startMcpStub = async (
+  tools: StubTool[],
+  hold: (method: string) => Promise<void> | undefined = () => undefined
+) => {
+  const server = await startMockServer(async (request: MockRequest, response: ServerResponse) => {
+    if (request.method === 'DELETE') {
+      return void response.writeHead(200).end();
+    }
+
+    const message = JSON.parse(request.body);
+    if (message.id === undefined) {
+      return void response.writeHead(202).end();
+    }
+    await hold(message.method);
+
+    const reply = (result: unknown) =>
+      sendJson(response, 200, { jsonrpc: '2.0', id: message.id, result });
+    switch (message.method) {
+      case 'initialize':
+        response.setHeader('Mcp-Session-Id', `session-${server.requests.length}`);
+        return reply({
+          protocolVersion: '2024-11-05',
+          capabilities: { tools: {} },
+          serverInfo: { name: 'stub', version: '1.0.0' },
+        });
+      case 'tools/list':
+        return reply({
+          tools: tools.map(tool => ({ ...tool, inputSchema: { type: 'object', properties: {} } })),
+        });
+      case 'tools/call': {
+        // Answered as an event stream, which servers may do for any request
+        const result = {
+          content: [
+            {
+              type: 'text',
+              text: `${message.params.name} ${JSON.stringify(message.params.arguments)}`,
+            },
+          ],
+          _meta: { requestId: 'abc' },
+        };
+        response.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        return void response.end(
+          `event: message\ndata: ${JSON.stringify({ jsonrpc: '2.0', id: message.id, result })}\n\n`
+        );
+      }
+      default:
+        return sendJson(response, 200, {
+          jsonrpc: '2.0',
+          id: message.id,
+          error: { code: -32601, message: 'Method not found' },
+        });
+    }
+  });
+  servers.push(server);
+  return server;
+};
+
+const mcpServer = (url: string, overrides: Partial<Doc<'mcpServers'>> = {}): Doc<'mcpServers'> => ({
+  _id: `server-${++serverCount}` as Id<'mcpServers'>,
+  _creationTime: 0,
+  userId: 'user' as Id<'users'>,
+  name: 'stub',
+  url,
+  transport: 'http',
+  enabled: true,
+  createdAt: 0,
+  updatedAt: 0,
+  ...overrides,
+});
+
+const actionCtx = (mcpServers: Doc<'mcpServers'>[]) =>
+  ({ runQuery: async () => mcpServers }) as unknown as GenericActionCtx<DataModel>;
+
+const sessionsClosed = (server: MockServer) =>
+  server.requests.filter(request => request.method === 'DELETE').length;
+
+const toolOptions = { toolCallId: 'call-1', messages: [] };
+
+beforeEach(() => {
+  // Skipped servers and tools are logged; keep test output to the assertions
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  await Promise.all(servers.splice(0).map(server => server.close()));
+});
+
+describe('getMcpTools', () => {
+  it('namespaces tools by server and calls them in a session of their own', async () => {
+    const stub = await startMcpStub([{ name: 'search', description: 'Search the wiki' }]);
+
+    const tools = await getMcpTools(
+      actionCtx([mcpServer(stub.url, { name: 'wiki' })]),
+      'user' as Id<'users'>
+    );
+
+    expect(Object.keys(tools)).toEqual(['wiki__search']);
+    expect(tools.wiki__search.description).toBe('Search the wiki');
+
+    const result = await tools.wiki__search.execute!({ query: 'convex' }, toolOptions);
+    expect(result).toEqual({ content: [{ type: 'text', text: 'search {"query":"convex"}' }] });
+    // One session to list the tools, one for the call, both closed again
+    expect(sessionsClosed(stub)).toBe(2);
+  });
+
+  it('gives long names distinct suffixes and leaves out names that collide', async () => {
+    const longName = 'a'.repeat(70);
+    const stub = await startMcpStub([
+      { name: `${longName}_one` },
+      { name: `${longName}_two` },
+      { name: 'get.item' },
+      { name: 'get_item' },
+      { name: 'list' },
+    ]);
+
+    const tools = await getMcpTools(actionCtx([mcpServer(stub.url)]), 'user' as Id<'users'>);
+    const names = Object.keys(tools);
+
+    expect(names).toHaveLength(3);
+    expect(names).toContain('stub__list');
+    expect(names.some(name => name.startsWith('stub__get'))).toBe(false);
+    const longNames = names.filter(name => name.startsWith('stub__aaa'));
+    expect(new Set(longNames).size).toBe(2);
+    expect(longNames.every(name => name.length === 64 && /_[0-9a-f]{8}$/.test(name))).toBe(true);
+  });
+
+  it('leaves out disabled and unreachable servers', async () => {
+    const stub = await startMcpStub([{ name: 'search' }]);
+    const unreachable = await startMcpStub([]);
+    await unreachable.close();
+
+    const tools = await getMcpTools(
+      actionCtx([
+        mcpServer(stub.url, { name: 'wiki' }),
+        mcpServer(stub.url, { name: 'off', enabled: false }),
+        mcpServer(unreachable.url, { name: 'gone' }),
+      ]),
+      'user' as Id<'users'>
+    );
+
+    expect(Object.keys(tools)).toEqual(['wiki__search']);
+  });
+
+  it('fails a call whose tool listing times out and closes the session', async () => {
+    let holdListing = false;
+    let release!: () => void;
+    const released = new Promise<void>(resolve => (release = resolve));
+    const stub = await startMcpStub([{ name: 'search' }], method =>
+      holdListing && method === 'tools/list' ? released : undefined
+    );
+    const tools = await getMcpTools(actionCtx([mcpServer(stub.url)]), 'user' as Id<'users'>);
+
+    holdListing = true;
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    const call = tools.stub__search.execute!({}, toolOptions);
+    // The call's session has connected once it asks for the tool list a second time
+    await vi.waitFor(() =>
+      expect(stub.requests.filter(request => request.body.includes('tools/list'))).toHaveLength(2)
+    );
+    await vi.advanceTimersByTimeAsync(10000);
+
+    await expect(call).resolves.toEqual({
+      success: false,
+      error: `Timed out listing tools on ${stub.url}`,
+    });
+    vi.useRealTimers();
+    release();
+    await vi.waitFor(() => expect(sessionsClosed(stub)).toBe(2));
+  });
+});
+
+describe('listMcpServerTools', () => {
+  it('closes a session that opens after the connect timeout', async () => {
+    let release!: () => void;
+    const released = new Promise<void>(resolve => (release = resolve));
+    const stub = await startMcpStub([{ name: 'search' }], method =>
+      method === 'initialize' ? released : undefined
+    );
+
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    const listing = expect(listMcpServerTools(mcpServer(stub.url))).rejects.toThrow(
+      `Timed out connecting to ${stub.url}`
+    );
+    await vi.advanceTimersByTimeAsync(10000);
+    await listing;
+
+    vi.useRealTimers();
+    release();
+    await vi.waitFor(() => expect(sessionsClosed(stub)).toBe(1));
+  });
+});
@@ -0,0 +1,356 @@
+import {
+  experimental_createMCPClient,
+  type JSONRPCMessage,
+  type MCPTransport,
+  type Tool,
+  type ToolExecutionOptions,
+} from 'ai';
+import type { GenericActionCtx } from 'convex/server';
+import { internal } from '../../_generated/api';
+import type { DataModel, Doc, Id } from '../../_generated/dataModel';
+import { decryptSecret } from '../crypto';
+
+// Listing a server's tools can hold up a chat request, so slow servers are skipped
+const DISCOVERY_TIMEOUT_MS = 10000;
+
+// How long a server's listed tools are reused before chat requests list them again
+const DISCOVERY_CACHE_TTL_MS = 5 * 60 * 1000;
+
+const TOOL_CALL_TIMEOUT_MS = 60000;
+
+// Separates the server name from the tool name, e.g. jira__search_issues
+const NAMESPACE_SEPARATOR = '__';
+
+// Providers reject longer tool names
+const MAX_TOOL_NAME_LENGTH = 64;
+
+type McpServer = Doc<'mcpServers'>;
+
+// Listed tools per server, kept for as long as the runtime reuses this module
+const discoveryCache = new Map<
+  Id<'mcpServers'>,
+  { updatedAt: number; expiresAt: number; tools: Promise<Record<string, Tool>> }
+>();
+
+/**
+ * MCP streamable HTTP transport: each message is POSTed to the server, which answers with
+ * JSON or with an event stream of messages
+ * The AI SDK only ships the older HTTP+SSE transport
+ */
+export class StreamableHttpTransport implements MCPTransport {
+  private sessionId?: string;
+  private abortController = new AbortController();
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  constructor(
+    private url: string,
+    private headers: Record<string, string> = {}
+  ) {}
+
+  async start() {
+    // Nothing to open: every message is its own request
+  }
+
+  async send(message: JSONRPCMessage) {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        ...this.headers,
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        ...(this.sessionId && { 'Mcp-Session-Id': this.sessionId }),
+      },
+      body: JSON.stringify(message),
+      signal: this.abortController.signal,
+    });
+
+    const sessionId = response.headers.get('mcp-session-id');
+    if (sessionId) {
+      this.sessionId = sessionId;
+    }
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      const error = new Error(
+        `MCP server responded ${response.status}${text ? `: ${text.substring(0, 200)}` : ''}`
+      );
+      this.onerror?.(error);
+      throw error;
+    }
+
+    // Notifications and responses are acknowledged with 202 and no body
+    if (response.status === 202 || !response.body) {
+      await response.body?.cancel();
+      return;
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType.includes('text/event-stream')) {
+      // Read in the background so send resolves once the server has accepted the message
+      this.readEventStream(response.body).catch(error => {
+        if (!this.abortController.signal.aborted) {
+          this.onerror?.(error instanceof Error ? error : new Error(String(error)));
+        }
+      });
+      return;
+    }
+
+    this.deliver(await response.json());
+  }
+
+  async close() {
+    this.abortController.abort();
+    if (this.sessionId) {
+      // Ending the session is a courtesy; servers also expire idle sessions
+      await fetch(this.url, {
+        method: 'DELETE',
+        headers: { ...this.headers, 'Mcp-Session-Id': this.sessionId },
+      }).catch(() => undefined);
+    }
+    this.onclose?.();
+  }
+
+  private deliver(payload: unknown) {
+    const messages = Array.isArray(payload) ? payload : [payload];
+    messages.forEach(message => this.onmessage?.(message as JSONRPCMessage));
+  }
+
+  private async readEventStream(body: ReadableStream<Uint8Array>) {
+    const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += value;
+
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = events.pop() ?? '';
+      for (const event of events) {
+        const data = event
+          .split(/\r?\n/)
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).trimStart())
+          .join('\n');
+        if (data) {
+          this.deliver(JSON.parse(data));
+        }
+      }
+    }
+  }
+}
+
+/**
+ * FNV-1a hash of a string as 8 hex digits, short enough to fit in a tool name
+ */
+const hashName = (name: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < name.length; i++) {
+    hash = Math.imul(hash ^ name.charCodeAt(i), 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Name a server's tool is exposed to models under, e.g. jira__search_issues
+ * Names over the length limit are cut short and end in a hash of the full name, so tools that
+ * only differ past the cut still get names of their own
+ */
+const getMcpToolName = (serverName: string, toolName: string) => {
+  const name = `${serverName}${NAMESPACE_SEPARATOR}${toolName.replace(/[^a-zA-Z0-9_-]/g, '_')}`;
+  if (name.length <= MAX_TOOL_NAME_LENGTH) return name;
+
+  const suffix = `_${hashName(`${serverName}${NAMESPACE_SEPARATOR}${toolName}`)}`;
+  return `${name.substring(0, MAX_TOOL_NAME_LENGTH - suffix.length)}${suffix}`;
+};
+
+/**
+ * A server's tools keyed by the names models see them under
+ * Tools whose names still collide, e.g. get.item and get_item, are all left out rather than
+ * one silently replacing another
+ */
+export const namespaceMcpTools = (serverName: string, tools: Record<string, Tool>) => {
+  const namespaced = new Map<string, { toolName: string; tool: Tool }[]>();
+  for (const [toolName, tool] of Object.entries(tools)) {
+    const name = getMcpToolName(serverName, toolName);
+    namespaced.set(name, [...(namespaced.get(name) ?? []), { toolName, tool }]);
+  }
+
+  const result = new Map<string, { toolName: string; tool: Tool }>();
+  for (const [name, entries] of namespaced) {
+    if (entries.length > 1) {
+      console.warn(
+        `Skipping MCP tools ${entries.map(entry => entry.toolName).join(', ')} on ${serverName}: they share the name ${name}`
+      );
+      continue;
+    }
+    result.set(name, entries[0]);
+  }
+  return result;
+};
+
+const withTimeout = <T>(promise: Promise<T>, timeoutMs: number, message: string) => {
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) => {
+      timeout = setTimeout(() => reject(new Error(message)), timeoutMs);
+    }),
+  ]).finally(() => clearTimeout(timeout));
+};
+
+/**
+ * Open a client session with a server
+ */
+const connect = async (server: McpServer) => {
+  const headers: Record<string, string> = {};
+  if (server.encryptedAuthToken && server.authTokenIv) {
+    const token = await decryptSecret(server.encryptedAuthToken, server.authTokenIv);
+    headers.Authorization = `Bearer ${token}`;
+  }
+
+  return await experimental_createMCPClient({
+    name: 'chatzo',
+    transport:
+      server.transport === 'sse'
+        ? { type: 'sse', url: server.url, headers }
+        : new StreamableHttpTransport(server.url, headers),
+    onUncaughtError: error => {
+      // The SSE transport aborts its in-flight requests when the session is closed
+      if (error instanceof Error && error.name === 'AbortError') return;
+      console.error(`MCP server ${server.name} error:`, error);
+    },
+  });
+};
+
+/**
+ * connect, giving up after DISCOVERY_TIMEOUT_MS
+ * A session that opens after the timeout is closed as soon as it does, so it doesn't linger
+ */
+const connectWithTimeout = async (server: McpServer) => {
+  const connecting = connect(server);
+  try {
+    return await withTimeout(
+      connecting,
+      DISCOVERY_TIMEOUT_MS,
+      `Timed out connecting to ${server.url}`
+    );
+  } catch (error) {
+    connecting.then(client => client.close()).catch(() => undefined);
+    throw error;
+  }
+};
+
+/**
+ * The tools a server offers, keyed by their own (not namespaced) names
+ * The session is closed again; the tools' execute functions can't be used
+ */
+export const listMcpServerTools = async (server: McpServer): Promise<Record<string, Tool>> => {
+  const client = await connectWithTimeout(server);
+  try {
+    return await withTimeout(
+      client.tools(),
+      DISCOVERY_TIMEOUT_MS,
+      `Timed out listing tools on ${server.url}`
+    );
+  } finally {
+    await client.close();
+  }
+};
+
+/**
+ * listMcpServerTools, reused for DISCOVERY_CACHE_TTL_MS so completions don't connect to every
+ * server each time; editing a server lists it again, and failed listings are not kept
+ */
+const getCachedMcpServerTools = (server: McpServer) => {
+  const cached = discoveryCache.get(server._id);
+  if (cached && cached.updatedAt === server.updatedAt && cached.expiresAt > Date.now()) {
+    return cached.tools;
+  }
+
+  const entry = {
+    updatedAt: server.updatedAt,
+    expiresAt: Date.now() + DISCOVERY_CACHE_TTL_MS,
+    tools: listMcpServerTools(server),
+  };
+  discoveryCache.set(server._id, entry);
+  entry.tools.catch(() => {
+    if (discoveryCache.get(server._id) === entry) discoveryCache.delete(server._id);
+  });
+  return entry.tools;
+};
+
+/**
+ * Call one of a server's tools in a session of its own, so no connection outlives the request
+ * Failures come back as { success: false, error } like the built-in tools
+ */
+const callMcpTool = async (
+  server: McpServer,
+  toolName: string,
+  args: unknown,
+  options: ToolExecutionOptions
+) => {
+  try {
+    const client = await connectWithTimeout(server);
+    try {
+      const tools = await withTimeout(
+        client.tools(),
+        DISCOVERY_TIMEOUT_MS,
+        `Timed out listing tools on ${server.url}`
+      );
+      const tool = tools[toolName];
+      if (!tool) {
+        throw new Error(`${server.name} no longer offers ${toolName}`);
+      }
+      const { _meta, ...result } = await withTimeout(
+        Promise.resolve(tool.execute(args, options)),
+        TOOL_CALL_TIMEOUT_MS,
+        `${toolName} timed out after ${TOOL_CALL_TIMEOUT_MS / 1000}s`
+      );
+      // Protocol metadata is of no use to the model or in the saved message
+      return result;
+    } finally {
+      await client.close();
+    }
+  } catch (error) {
+    console.error(`MCP tool ${server.name}/${toolName} error:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+};
+
+/**
+ * Tools from every enabled MCP server of a user, namespaced by server
+ * Servers that can't be reached are left out rather than failing the request
+ */
+export const getMcpTools = async (
+  ctx: GenericActionCtx<DataModel>,
+  userId: Id<'users'>
+): Promise<Record<string, Tool>> => {
+  const servers = (
+    await ctx.runQuery(internal.services.mcp_server_service.getUserMcpServers, { userId })
+  ).filter(server => server.enabled);
+  if (servers.length === 0) return {};
+
+  const toolSets = await Promise.all(
+    servers.map(async server => {
+      try {
+        const discovered = namespaceMcpTools(server.name, await getCachedMcpServerTools(server));
+        return [...discovered].map(([name, { toolName, tool }]): [string, Tool] => [
+          name,
+          { ...tool, execute: (args, options) => callMcpTool(server, toolName, args, options) },
+        ]);
+      } catch (error) {
+        console.error(`Skipping MCP server ${server.name}:`, error);
+        return [];
+      }
+    })
+  );
+
+  return Object.fromEntries(toolSets.flat());
+};
@@ -0,0 +1,281 @@
+// Elements whose content is never part of the readable page
+const NON_CONTENT_TAGS = [
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'svg',
+  'canvas',
+  'iframe',
+  'form',
+  'nav',
+  'header',
+  'footer',
+  'aside',
+];
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+};
+
+// Share of printable characters below which extracted PDF text is treated as unreadable
+const MIN_PRINTABLE_RATIO = 0.85;
+
+// Most bytes decoded from one PDF's streams; a few KB of Flate data can inflate to gigabytes
+const MAX_DECODED_PDF_BYTES = 32 * 1024 * 1024;
+
+export interface PageContent {
+  title?: string;
+  description?: string;
+  markdown: string;
+}
+
+export const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code =
+        entity[1] === 'x' || entity[1] === 'X'
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff
+        ? String.fromCodePoint(code)
+        : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+
+const removeTags = (html: string) => html.replace(/<[^>]+>/g, '');
+
+const stripTags = (html: string) => decodeEntities(removeTags(html));
+
+const getAttribute = (attributes: string, name: string) => {
+  const match = attributes.match(
+    new RegExp(`\\b${name}\\s*=\\s*("([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i')
+  );
+  return match ? decodeEntities(match[2] ?? match[3] ?? match[4] ?? '') : undefined;
+};
+
+const resolveUrl = (href: string, baseUrl: string) => {
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return href;
+  }
+};
+
+/**
+ * Readable markdown from an HTML page
+ * Keeps the <article> or <main> element when there is one, and drops navigation, scripts and forms
+ */
+export const htmlToMarkdown = (html: string, baseUrl: string): PageContent => {
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const description = html
+    .match(/<meta[^>]+name\s*=\s*["']description["'][^>]*>/i)?.[0]
+    ?.match(/content\s*=\s*("([^"]*)"|'([^']*)')/i);
+
+  let body = html.replace(/<!--[\s\S]*?-->/g, '');
+  for (const tag of NON_CONTENT_TAGS) {
+    body = body.replace(new RegExp(`<${tag}\\b[\\s\\S]*?<\\/${tag}>`, 'gi'), '');
+  }
+  const main =
+    body.match(/<article\b[^>]*>([\s\S]*?)<\/article>/i)?.[1] ??
+    body.match(/<main\b[^>]*>([\s\S]*?)<\/main>/i)?.[1] ??
+    body.match(/<body\b[^>]*>([\s\S]*?)<\/body>/i)?.[1] ??
+    body;
+
+  const markdown = main
+    // Code blocks first, so the markup inside them is left alone
+    // Entities are decoded last, so escaped markup never turns into tags
+    .replace(
+      /<pre\b[^>]*>([\s\S]*?)<\/pre>/gi,
+      (_, code: string) => `\n\n\`\`\`\n${removeTags(code).trim()}\n\`\`\`\n\n`
+    )
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, text: string) => {
+      return `\n\n${'#'.repeat(Number(level))} ${removeTags(text).trim()}\n\n`;
+    })
+    .replace(/<a\b([^>]*)>([\s\S]*?)<\/a>/gi, (_, attributes: string, text: string) => {
+      const label = removeTags(text).trim();
+      const href = getAttribute(attributes, 'href');
+      if (!label) return '';
+      if (!href || href.startsWith('#') || href.startsWith('javascript:')) return label;
+      return `[${label}](${resolveUrl(href, baseUrl)})`;
+    })
+    .replace(/<(strong|b)\b[^>]*>([\s\S]*?)<\/\1>/gi, (_, _tag, text: string) =>
+      text.trim() ? `**${text.trim()}**` : ''
+    )
+    .replace(/<(em|i)\b[^>]*>([\s\S]*?)<\/\1>/gi, (_, _tag, text: string) =>
+      text.trim() ? `_${text.trim()}_` : ''
+    )
+    .replace(/<code\b[^>]*>([\s\S]*?)<\/code>/gi, (_, code: string) => `\`${removeTags(code)}\``)
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(
+      /<blockquote\b[^>]*>([\s\S]*?)<\/blockquote>/gi,
+      (_, text: string) =>
+        `\n\n${removeTags(text)
+          .trim()
+          .split('\n')
+          .map(line => `> ${line}`)
+          .join('\n')}\n\n`
+    )
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/?(p|div|section|ul|ol|table|tr|dl|figure|figcaption)\b[^>]*>/gi, '\n\n')
+    .replace(/<\/?(td|th)\b[^>]*>/gi, ' | ');
+
+  return {
+    title: title ? stripTags(title).trim() : undefined,
+    description: description ? decodeEntities(description[2] ?? description[3] ?? '') : undefined,
+    markdown: stripTags(markdown)
+      .replace(/[ \t\f\v]+/g, ' ')
+      .replace(/ *\n */g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim(),
+  };
+};
+
+/**
+ * Bytes of a (possibly Flate-compressed) PDF stream as a binary string, at most maxBytes of them
+ */
+const decodeStream = async (
+  dictionary: string,
+  data: string,
+  maxBytes: number
+): Promise<string | null> => {
+  const filter = dictionary.match(/\/Filter\s*\[?\s*\/(\w+)/)?.[1];
+  if (!filter) return data.slice(0, maxBytes);
+  if (filter !== 'FlateDecode') return null; // Images and other encodings carry no text
+
+  try {
+    const bytes = Uint8Array.from(data, char => char.charCodeAt(0));
+    const reader = new Blob([bytes])
+      .stream()
+      .pipeThrough(new DecompressionStream('deflate'))
+      .getReader();
+
+    // Inflated a chunk at a time and cut off at maxBytes, so a tiny stream can't expand without bound
+    let text = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const chunk = value.subarray(0, maxBytes - text.length);
+      for (let i = 0; i < chunk.length; i += 0x8000) {
+        text += String.fromCharCode(...chunk.subarray(i, i + 0x8000));
+      }
+      if (text.length >= maxBytes) {
+        await reader.cancel();
+        break;
+      }
+    }
+    return text;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * A PDF literal string, e.g. (Hello \(world\)), with its escapes resolved
+ */
+const decodeLiteralString = (literal: string) =>
+  literal.replace(/\\([nrtbf()\\]|[0-7]{1,3}|\r?\n)/g, (_, escape: string) => {
+    switch (escape[0]) {
+      case 'n':
+        return '\n';
+      case 'r':
+        return '\r';
+      case 't':
+        return '\t';
+      case 'b':
+      case 'f':
+        return '';
+      case '\r':
+      case '\n':
+        return '';
+      default:
+        return /[0-7]/.test(escape[0]) ? String.fromCharCode(parseInt(escape, 8)) : escape;
+    }
+  });
+
+/**
+ * Text drawn by the BT ... ET blocks of a content stream
+ */
+const extractContentStreamText = (content: string) => {
+  const lines: string[] = [];
+  const blocks = content.match(/\bBT\b[\s\S]*?\bET\b/g) ?? [];
+
+  for (const block of blocks) {
+    let line = '';
+    const tokens =
+      block.match(/\((?:\\[\s\S]|[^\\)])*\)|<[0-9a-fA-F\s]*>|\[|\]|-?\d*\.?\d+|[A-Za-z'"*]+/g) ??
+      [];
+
+    for (const token of tokens) {
+      if (token.startsWith('(')) {
+        line += decodeLiteralString(token.slice(1, -1));
+      } else if (token.startsWith('<')) {
+        const hex = token.slice(1, -1).replace(/\s/g, '');
+        for (let i = 0; i + 1 < hex.length; i += 2) {
+          line += String.fromCharCode(parseInt(hex.slice(i, i + 2), 16));
+        }
+      } else if (/^-?\d*\.?\d+$/.test(token)) {
+        // Large negative kerning inside a TJ array is how PDFs space words
+        if (Number(token) < -200 && !line.endsWith(' ')) line += ' ';
+      } else if (token === 'T*' || token === "'" || token === '"' || token === 'TD') {
+        lines.push(line);
+        line = '';
+      } else if (token === 'Td' || token === 'Tm') {
+        if (line && !line.endsWith(' ')) line += ' ';
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines.join('\n');
+};
+
+/**
+ * Text from a text-based PDF
+ * Scanned pages and fonts with custom encodings have no recoverable text, so this returns ''
+ */
+export const extractPdfText = async (buffer: ArrayBuffer): Promise<string> => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+
+  const parts: string[] = [];
+  const streamPattern = /<<((?:(?!>>)[\s\S])*)>>\s*stream\r?\n([\s\S]*?)\r?\nendstream/g;
+  let decodeBudget = MAX_DECODED_PDF_BYTES;
+  for (const match of binary.matchAll(streamPattern)) {
+    if (decodeBudget <= 0) break;
+    const content = await decodeStream(match[1], match[2], decodeBudget);
+    decodeBudget -= content?.length ?? 0;
+    if (content && content.includes('BT')) {
+      parts.push(extractContentStreamText(content));
+    }
+  }
+
+  const text = parts
+    .join('\n\n')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  const printable = text.replace(/[^\x20-\x7e\n\u00a0-\uffff]/g, '').length;
+  return text.length > 0 && printable / text.length >= MIN_PRINTABLE_RATIO ? text : '';
+};
@@ -0,0 +1,179 @@
+// DNS-over-HTTPS resolver used to see where a hostname points before it is fetched
+const DNS_RESOLVER_URL = 'https://cloudflare-dns.com/dns-query';
+
+const DNS_TIMEOUT_MS = 5000;
+
+// DNS answer record types that carry an address
+const DNS_TYPE_A = 1;
+const DNS_TYPE_AAAA = 28;
+
+/**
+ * The four octets of an IPv4 address in any form inet_aton accepts: dotted with one to four
+ * parts, each decimal, octal (leading 0) or hex (leading 0x), e.g. 2130706433 or 0177.1
+ */
+const parseIPv4 = (host: string): number[] | null => {
+  const parts = host.split('.');
+  if (parts[parts.length - 1] === '') parts.pop(); // Trailing dot of a fully qualified name
+  if (parts.length === 0 || parts.length > 4) return null;
+
+  const values: number[] = [];
+  for (const part of parts) {
+    let value: number;
+    if (/^0x[0-9a-f]*$/i.test(part)) {
+      value = part.length > 2 ? parseInt(part.slice(2), 16) : 0;
+    } else if (/^0[0-7]+$/.test(part)) {
+      value = parseInt(part.slice(1), 8);
+    } else if (/^(0|[1-9]\d*)$/.test(part)) {
+      value = parseInt(part, 10);
+    } else {
+      return null;
+    }
+    values.push(value);
+  }
+
+  // The last part fills every octet the earlier ones left out
+  const last = values.pop()!;
+  if (values.some(value => value > 255) || last >= 256 ** (4 - values.length)) return null;
+
+  const octets = [...values];
+  for (let shift = 3 - values.length; shift >= 0; shift--) {
+    octets.push(Math.floor(last / 256 ** shift) % 256);
+  }
+  return octets;
+};
+
+/**
+ * The eight 16-bit groups of an IPv6 address, including ones ending in a dotted IPv4 address
+ */
+const parseIPv6 = (host: string): number[] | null => {
+  if (!host.includes(':')) return null;
+  let address = host.split('%')[0]; // Zone id, e.g. fe80::1%eth0
+
+  // A trailing dotted IPv4 address stands for the last two groups
+  const dotted = address.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const octets = parseIPv4(dotted[2]);
+    if (!octets) return null;
+    address = `${dotted[1]}${((octets[0] << 8) | octets[1]).toString(16)}:${((octets[2] << 8) | octets[3]).toString(16)}`;
+  }
+
+  const halves = address.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...new Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (groups.some(group => !/^[0-9a-f]{1,4}$/i.test(group))) return null;
+  return groups.map(group => parseInt(group, 16));
+};
+
+const isPrivateIPv4 = ([a, b, c]: number[]) =>
+  a === 0 || // "This" network
+  a === 10 ||
+  a === 127 ||
+  (a === 100 && b >= 64 && b <= 127) || // Carrier-grade NAT
+  (a === 169 && b === 254) || // Link-local, including cloud metadata services
+  (a === 172 && b >= 16 && b <= 31) ||
+  (a === 192 && b === 168) ||
+  (a === 192 && b === 0 && c === 0) || // IETF protocol assignments
+  (a === 198 && (b === 18 || b === 19)) || // Benchmarking
+  a >= 224; // Multicast, reserved and broadcast
+
+const isPrivateIPv6 = (groups: number[]) => {
+  const [first] = groups;
+  const isZeroPrefix = (length: number) => groups.slice(0, length).every(group => group === 0);
+
+  // IPv4-mapped (::ffff:a.b.c.d), IPv4-compatible (::a.b.c.d) and NAT64 (64:ff9b::a.b.c.d)
+  // addresses reach the embedded IPv4 address, so they are judged by it
+  const embedsIPv4 =
+    (isZeroPrefix(5) && (groups[5] === 0xffff || groups[5] === 0)) ||
+    (first === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0));
+  if (embedsIPv4 && !(isZeroPrefix(6) && groups[6] === 0)) {
+    return isPrivateIPv4([groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff]);
+  }
+
+  return (
+    isZeroPrefix(8) || // Unspecified
+    (isZeroPrefix(7) && groups[7] === 1) || // Loopback
+    (first & 0xfe00) === 0xfc00 || // Unique local
+    (first & 0xffc0) === 0xfe80 || // Link-local
+    (first & 0xff00) === 0xff00 // Multicast
+  );
+};
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not on the public internet
+ * Returns null when the input is not an IP address
+ */
+const isPrivateAddress = (address: string): boolean | null => {
+  const ipv4 = parseIPv4(address);
+  if (ipv4) return isPrivateIPv4(ipv4);
+  const ipv6 = parseIPv6(address);
+  if (ipv6) return isPrivateIPv6(ipv6);
+  return null;
+};
+
+/**
+ * Addresses a hostname resolves to, A and AAAA records both
+ */
+const resolveHost = async (hostname: string): Promise<string[]> => {
+  const lookup = async (type: 'A' | 'AAAA') => {
+    const response = await fetch(
+      `${DNS_RESOLVER_URL}?name=${encodeURIComponent(hostname)}&type=${type}`,
+      {
+        headers: { Accept: 'application/dns-json' },
+        signal: AbortSignal.timeout(DNS_TIMEOUT_MS),
+      }
+    );
+    if (!response.ok) {
+      throw new Error(`DNS lookup failed: ${response.status}`);
+    }
+    const result: { Answer?: { type: number; data: string }[] } = await response.json();
+    // CNAME records in the chain are skipped; only the addresses at its end matter
+    return (result.Answer ?? [])
+      .filter(answer => answer.type === DNS_TYPE_A || answer.type === DNS_TYPE_AAAA)
+      .map(answer => answer.data);
+  };
+
+  const [ipv4, ipv6] = await Promise.all([lookup('A'), lookup('AAAA')]);
+  return [...ipv4, ...ipv6];
+};
+
+/**
+ * Why a URL may not be fetched on a user's behalf, or null when it points at the public web
+ * IP literals in any notation are checked directly and hostnames by what they resolve to, so
+ * neither an alternate spelling of 127.0.0.1 nor a public name for a private address gets through.
+ * The fetch resolves the name again, so a record that changes in between isn't caught
+ */
+export const getBlockedReason = async (url: URL): Promise<string | null> => {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return 'Only http and https URLs can be read';
+  }
+
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal')) {
+    return 'Private and local addresses cannot be read';
+  }
+
+  const isPrivateLiteral = isPrivateAddress(host);
+  if (isPrivateLiteral !== null) {
+    return isPrivateLiteral ? 'Private and local addresses cannot be read' : null;
+  }
+
+  let addresses: string[];
+  try {
+    addresses = await resolveHost(host);
+  } catch (error) {
+    console.warn(`Could not resolve ${host}:`, error);
+    return `Could not resolve ${host}`;
+  }
+  if (addresses.length === 0) {
+    return `Could not resolve ${host}`;
+  }
+  if (addresses.some(address => isPrivateAddress(address) !== false)) {
+    return `${host} resolves to a private or local address`;
+  }
+  return null;
+};
@@ -0,0 +1,217 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+import type { ToolAdapter, ToolDefinition } from '../toolkit';
+import { extractPdfText, htmlToMarkdown, type PageContent } from './page_content';
+import { getBlockedReason } from './public_url';
+
+// Characters of page content handed to the model by default, as with SerperSearchAdapter
+const DEFAULT_MAX_CHARACTERS = 24000;
+
+// Pages larger than this are not downloaded
+const MAX_DOWNLOAD_BYTES = 10 * 1024 * 1024;
+
+const FETCH_TIMEOUT_MS = 15000;
+
+// Redirects followed before giving up on a page
+const MAX_REDIRECTS = 5;
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+/**
+ * Read a response body, giving up as soon as it passes MAX_DOWNLOAD_BYTES
+ * Content-Length can be missing or wrong, so bytes are counted as they arrive
+ */
+const readBody = async (response: Response, tooLargeMessage: string): Promise<Uint8Array> => {
+  if (!response.body) return new Uint8Array();
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > MAX_DOWNLOAD_BYTES) {
+      await reader.cancel();
+      throw new Error(tooLargeMessage);
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+};
+
+/**
+ * Last path segment, used as the title of documents that carry none
+ */
+const getFileName = (url: URL) => {
+  const segment = url.pathname.split('/').pop();
+  if (!segment) return undefined;
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+};
+
+/**
+ * Download a page and turn it into markdown, whatever its content type
+ */
+const readPage = async (
+  url: URL
+): Promise<PageContent & { finalUrl: string; contentType: 'html' | 'pdf' | 'text' }> => {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+  try {
+    // Redirects are followed by hand so every hop is checked before it is requested
+    let currentUrl = url;
+    let response: Response;
+    for (let redirects = 0; ; redirects++) {
+      const blockedReason = await getBlockedReason(currentUrl);
+      if (blockedReason) {
+        throw new Error(
+          redirects > 0 ? `Redirected to a blocked address: ${blockedReason}` : blockedReason
+        );
+      }
+
+      response = await fetch(currentUrl.toString(), {
+        headers: {
+          Accept: 'text/html,application/xhtml+xml,application/pdf,text/plain;q=0.9,*/*;q=0.5',
+          'User-Agent': 'Mozilla/5.0 (compatible; ChatzoBot/1.0)',
+        },
+        redirect: 'manual',
+        signal: controller.signal,
+      });
+
+      const location = response.headers.get('location');
+      if (!REDIRECT_STATUSES.includes(response.status) || !location) break;
+      if (redirects === MAX_REDIRECTS) {
+        throw new Error(`Too many redirects (more than ${MAX_REDIRECTS})`);
+      }
+      await response.body?.cancel();
+      currentUrl = new URL(location, currentUrl);
+    }
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch page: ${response.status} ${response.statusText}`);
+    }
+
+    const finalUrl = currentUrl.toString();
+
+    const length = Number(response.headers.get('content-length'));
+    if (length > MAX_DOWNLOAD_BYTES) {
+      throw new Error(`Page is too large to read (${Math.round(length / 1024 / 1024)} MB)`);
+    }
+
+    const mimeType = (response.headers.get('content-type') || '').split(';')[0].trim();
+    const isPdf = mimeType === 'application/pdf' || currentUrl.pathname.endsWith('.pdf');
+
+    if (isPdf) {
+      const bytes = await readBody(response, 'PDF is too large to read');
+      const text = await extractPdfText(bytes.buffer as ArrayBuffer);
+      if (!text) {
+        throw new Error('No text could be extracted from this PDF (it may be scanned)');
+      }
+      return {
+        finalUrl,
+        contentType: 'pdf',
+        title: getFileName(currentUrl),
+        markdown: text,
+      };
+    }
+
+    const isHtml = mimeType === 'text/html' || mimeType === 'application/xhtml+xml' || !mimeType;
+    if (!isHtml && !mimeType.startsWith('text/') && mimeType !== 'application/json') {
+      await response.body?.cancel();
+      throw new Error(`Unsupported content type: ${mimeType}`);
+    }
+
+    const body = new TextDecoder().decode(await readBody(response, 'Page is too large to read'));
+    return isHtml
+      ? { finalUrl, contentType: 'html', ...htmlToMarkdown(body, finalUrl) }
+      : { finalUrl, contentType: 'text', markdown: body.trim() };
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new Error(`Timed out after ${FETCH_TIMEOUT_MS / 1000}s`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+const readUrlParameters = z.object({
+  url: z.string().describe('The full http(s) URL to read'),
+});
+
+// Fetches pages directly, so it needs no provider key
+const ReadUrlAdapter: ToolAdapter = async ({ settings }) => {
+  const maxCharacters = settings.maxCharacters as number;
+
+  return {
+    read_url: tool({
+      description:
+        'Open a web page or PDF by URL and read its content as markdown. Use it when the user shares a link or a specific page is needed; use web_search to find pages.',
+      parameters: readUrlParameters,
+      execute: async ({ url }) => {
+        try {
+          let parsed: URL;
+          try {
+            parsed = new URL(url);
+          } catch {
+            throw new Error('Invalid URL');
+          }
+          console.log(`Reading ${parsed.toString()}...`);
+          const page = await readPage(parsed);
+          const truncated = page.markdown.length > maxCharacters;
+
+          return {
+            success: true,
+            url: page.finalUrl,
+            contentType: page.contentType,
+            ...(page.title && { title: page.title }),
+            ...(page.description && { description: page.description }),
+            content: truncated ? `${page.markdown.substring(0, maxCharacters)}...` : page.markdown,
+            length: page.markdown.length,
+            truncated,
+          };
+        } catch (error) {
+          console.error('Read URL error:', error);
+          return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error occurred',
+            url,
+          };
+        }
+      },
+    }),
+  };
+};
+
+export const ReadUrlTool: ToolDefinition = {
+  id: 'read_url',
+  name: 'Read Page',
+  description: 'Open a link or PDF and read it, without searching first',
+  parameters: readUrlParameters,
+  requiredAbility: 'function_calling',
+  settings: [
+    {
+      key: 'maxCharacters',
+      label: 'Page length limit',
+      description: 'Characters of each page passed to the model; longer pages are cut off',
+      type: 'number',
+      default: DEFAULT_MAX_CHARACTERS,
+      min: 4000,
+      max: 48000,
+      step: 4000,
+    },
+  ],
+  adapter: ReadUrlAdapter,
+};
@@ -0,0 +1,298 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+import type { ToolAdapter, ToolDefinition } from '../toolkit';
+
+// Currencies are converted with this bundled snapshot, not live rates
+const CURRENCY_RATES_DATE = '2025-06-02';
+
+// Significant digits results are rounded to, enough for any everyday conversion
+const RESULT_PRECISION = 10;
+
+type UnitCategory =
+  | 'length'
+  | 'mass'
+  | 'volume'
+  | 'area'
+  | 'speed'
+  | 'time'
+  | 'data'
+  | 'energy'
+  | 'power'
+  | 'pressure'
+  | 'temperature'
+  | 'currency';
+
+type Unit = {
+  name: string;
+  category: UnitCategory;
+  // How many of the category's base unit one of this unit is
+  factor: number;
+  aliases: string[];
+};
+
+/**
+ * [name, factor, aliases] per category; the first unit with factor 1 is the base
+ * Aliases are matched case-insensitively
+ */
+const UNIT_TABLE: Record<Exclude<UnitCategory, 'temperature'>, [string, number, string[]][]> = {
+  length: [
+    ['m', 1, ['meter', 'meters', 'metre', 'metres']],
+    ['mm', 0.001, ['millimeter', 'millimeters', 'millimetre', 'millimetres']],
+    ['cm', 0.01, ['centimeter', 'centimeters', 'centimetre', 'centimetres']],
+    ['km', 1000, ['kilometer', 'kilometers', 'kilometre', 'kilometres']],
+    ['in', 0.0254, ['inch', 'inches', '"']],
+    ['ft', 0.3048, ['foot', 'feet', "'"]],
+    ['yd', 0.9144, ['yard', 'yards']],
+    ['mi', 1609.344, ['mile', 'miles']],
+    ['nmi', 1852, ['nautical mile', 'nautical miles']],
+  ],
+  mass: [
+    ['kg', 1, ['kilogram', 'kilograms', 'kilo', 'kilos']],
+    ['mg', 0.000001, ['milligram', 'milligrams']],
+    ['g', 0.001, ['gram', 'grams']],
+    ['t', 1000, ['tonne', 'tonnes', 'metric ton', 'metric tons']],
+    ['oz', 0.028349523125, ['ounce', 'ounces']],
+    ['lb', 0.45359237, ['lbs', 'pound', 'pounds']],
+    ['st', 6.35029318, ['stone', 'stones']],
+    ['short ton', 907.18474, ['short tons', 'us ton', 'us tons']],
+    ['long ton', 1016.0469088, ['long tons', 'imperial ton', 'imperial tons']],
+  ],
+  volume: [
+    ['l', 1, ['liter', 'liters', 'litre', 'litres']],
+    ['ml', 0.001, ['milliliter', 'milliliters', 'millilitre', 'millilitres', 'cm3', 'cc']],
+    ['cl', 0.01, ['centiliter', 'centiliters', 'centilitre', 'centilitres']],
+    ['dl', 0.1, ['deciliter', 'deciliters', 'decilitre', 'decilitres']],
+    ['m3', 1000, ['cubic meter', 'cubic meters', 'cubic metre', 'cubic metres']],
+    ['tsp', 0.00492892159375, ['teaspoon', 'teaspoons']],
+    ['tbsp', 0.01478676478125, ['tablespoon', 'tablespoons']],
+    ['fl oz', 0.0295735295625, ['fluid ounce', 'fluid ounces', 'floz']],
+    ['cup', 0.2365882365, ['cups']],
+    ['pt', 0.473176473, ['pint', 'pints', 'us pint', 'us pints']],
+    ['qt', 0.946352946, ['quart', 'quarts']],
+    ['gal', 3.785411784, ['gallon', 'gallons', 'us gallon', 'us gallons']],
+    ['imp pt', 0.56826125, ['imperial pint', 'imperial pints', 'uk pint', 'uk pints']],
+    ['imp gal', 4.54609, ['imperial gallon', 'imperial gallons', 'uk gallon', 'uk gallons']],
+    ['ft3', 28.316846592, ['cubic foot', 'cubic feet']],
+    ['in3', 0.016387064, ['cubic inch', 'cubic inches']],
+  ],
+  area: [
+    ['m2', 1, ['square meter', 'square meters', 'square metre', 'square metres', 'sqm']],
+    ['cm2', 0.0001, ['square centimeter', 'square centimeters']],
+    ['km2', 1000000, ['square kilometer', 'square kilometers', 'square kilometre']],
+    ['ha', 10000, ['hectare', 'hectares']],
+    ['acre', 4046.8564224, ['acres', 'ac']],
+    ['ft2', 0.09290304, ['square foot', 'square feet', 'sqft', 'sq ft']],
+    ['in2', 0.00064516, ['square inch', 'square inches']],
+    ['yd2', 0.83612736, ['square yard', 'square yards']],
+    ['mi2', 2589988.110336, ['square mile', 'square miles']],
+  ],
+  speed: [
+    ['m/s', 1, ['meters per second', 'metres per second', 'mps']],
+    ['km/h', 1 / 3.6, ['kph', 'kmh', 'kilometers per hour', 'kilometres per hour']],
+    ['mph', 0.44704, ['miles per hour', 'mi/h']],
+    ['kn', 1852 / 3600, ['knot', 'knots', 'kt']],
+    ['ft/s', 0.3048, ['feet per second', 'fps']],
+  ],
+  time: [
+    ['s', 1, ['sec', 'secs', 'second', 'seconds']],
+    ['ms', 0.001, ['millisecond', 'milliseconds']],
+    ['min', 60, ['mins', 'minute', 'minutes']],
+    ['h', 3600, ['hr', 'hrs', 'hour', 'hours']],
+    ['day', 86400, ['days', 'd']],
+    ['week', 604800, ['weeks', 'wk']],
+    // Average Gregorian lengths
+    ['month', 2629746, ['months']],
+    ['year', 31556952, ['years', 'yr', 'yrs']],
+  ],
+  data: [
+    ['byte', 1, ['bytes']],
+    ['bit', 0.125, ['bits']],
+    ['kB', 1e3, ['kb', 'kilobyte', 'kilobytes']],
+    ['MB', 1e6, ['mb', 'megabyte', 'megabytes']],
+    ['GB', 1e9, ['gb', 'gigabyte', 'gigabytes']],
+    ['TB', 1e12, ['tb', 'terabyte', 'terabytes']],
+    ['PB', 1e15, ['pb', 'petabyte', 'petabytes']],
+    ['KiB', 1024, ['kib', 'kibibyte', 'kibibytes']],
+    ['MiB', 1024 ** 2, ['mib', 'mebibyte', 'mebibytes']],
+    ['GiB', 1024 ** 3, ['gib', 'gibibyte', 'gibibytes']],
+    ['TiB', 1024 ** 4, ['tib', 'tebibyte', 'tebibytes']],
+    ['kbit', 125, ['kbps', 'kilobit', 'kilobits']],
+    ['Mbit', 125000, ['mbps', 'megabit', 'megabits']],
+    ['Gbit', 125000000, ['gbps', 'gigabit', 'gigabits']],
+  ],
+  energy: [
+    ['J', 1, ['joule', 'joules']],
+    ['kJ', 1000, ['kilojoule', 'kilojoules']],
+    ['cal', 4.184, ['calorie', 'calories']],
+    ['kcal', 4184, ['kilocalorie', 'kilocalories', 'food calorie', 'food calories']],
+    ['Wh', 3600, ['watt hour', 'watt hours']],
+    ['kWh', 3600000, ['kilowatt hour', 'kilowatt hours']],
+    ['BTU', 1055.05585262, ['btus', 'british thermal unit', 'british thermal units']],
+    ['eV', 1.602176634e-19, ['electronvolt', 'electronvolts']],
+  ],
+  power: [
+    ['W', 1, ['watt', 'watts']],
+    ['kW', 1000, ['kilowatt', 'kilowatts']],
+    ['hp', 745.69987158227022, ['horsepower']],
+    ['PS', 735.49875, ['metric horsepower']],
+  ],
+  pressure: [
+    ['Pa', 1, ['pascal', 'pascals']],
+    ['kPa', 1000, ['kilopascal', 'kilopascals']],
+    ['bar', 100000, ['bars']],
+    ['atm', 101325, ['atmosphere', 'atmospheres']],
+    ['psi', 6894.757293168, ['pounds per square inch']],
+    ['mmHg', 133.322387415, ['torr']],
+  ],
+  // US dollars per unit, written as 1 / the currency's rate against the dollar
+  currency: [
+    ['USD', 1, ['$', 'us dollar', 'us dollars']],
+    ['EUR', 1 / 0.877, ['€', 'euro', 'euros']],
+    ['GBP', 1 / 0.739, ['£', 'british pound', 'british pounds', 'pound sterling']],
+    ['JPY', 1 / 143.9, ['¥', 'yen', 'japanese yen']],
+    ['CNY', 1 / 7.19, ['yuan', 'renminbi', 'rmb']],
+    ['INR', 1 / 85.6, ['₹', 'rupee', 'rupees', 'indian rupee', 'indian rupees']],
+    ['CAD', 1 / 1.372, ['canadian dollar', 'canadian dollars']],
+    ['AUD', 1 / 1.544, ['australian dollar', 'australian dollars']],
+    ['NZD', 1 / 1.663, ['new zealand dollar', 'new zealand dollars']],
+    ['CHF', 1 / 0.821, ['swiss franc', 'swiss francs']],
+    ['SEK', 1 / 9.6, ['swedish krona', 'swedish kronor']],
+    ['NOK', 1 / 10.15, ['norwegian krone', 'norwegian kroner']],
+    ['DKK', 1 / 6.54, ['danish krone', 'danish kroner']],
+    ['PLN', 1 / 3.76, ['zloty', 'polish zloty']],
+    ['CZK', 1 / 21.8, ['czech koruna']],
+    ['HUF', 1 / 353, ['forint', 'hungarian forint']],
+    ['TRY', 1 / 39.2, ['turkish lira']],
+    ['MXN', 1 / 19.2, ['mexican peso', 'mexican pesos']],
+    ['BRL', 1 / 5.65, ['real', 'reais', 'brazilian real']],
+    ['ZAR', 1 / 17.9, ['rand', 'south african rand']],
+    ['NGN', 1 / 1570, ['naira', 'nigerian naira']],
+    ['AED', 1 / 3.6725, ['dirham', 'dirhams', 'uae dirham']],
+    ['SAR', 1 / 3.75, ['riyal', 'riyals', 'saudi riyal']],
+    ['ILS', 1 / 3.52, ['shekel', 'shekels', 'israeli shekel']],
+    ['KRW', 1 / 1370, ['₩', 'won', 'korean won']],
+    ['SGD', 1 / 1.288, ['singapore dollar', 'singapore dollars']],
+    ['HKD', 1 / 7.847, ['hong kong dollar', 'hong kong dollars']],
+    ['THB', 1 / 32.7, ['baht', 'thai baht']],
+    ['IDR', 1 / 16300, ['rupiah', 'indonesian rupiah']],
+  ],
+};
+
+// Temperatures need an offset as well as a factor, so they convert through kelvin
+const TEMPERATURE_UNITS: Record<
+  string,
+  { aliases: string[]; toKelvin: (x: number) => number; fromKelvin: (x: number) => number }
+> = {
+  '°C': {
+    aliases: ['c', 'celsius', 'centigrade', '°c', 'degc'],
+    toKelvin: x => x + 273.15,
+    fromKelvin: x => x - 273.15,
+  },
+  '°F': {
+    aliases: ['f', 'fahrenheit', '°f', 'degf'],
+    toKelvin: x => ((x - 32) * 5) / 9 + 273.15,
+    fromKelvin: x => ((x - 273.15) * 9) / 5 + 32,
+  },
+  K: {
+    aliases: ['k', 'kelvin', 'kelvins'],
+    toKelvin: x => x,
+    fromKelvin: x => x,
+  },
+};
+
+const normalizeUnit = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Every name and alias mapped to its unit, built once from the tables
+const UNITS = new Map<string, Unit>();
+for (const [category, units] of Object.entries(UNIT_TABLE) as [
+  UnitCategory,
+  [string, number, string[]][],
+][]) {
+  for (const [name, factor, aliases] of units) {
+    const unit = { name, category, factor, aliases };
+    for (const alias of [name, ...aliases]) {
+      UNITS.set(normalizeUnit(alias), unit);
+    }
+  }
+}
+for (const [name, { aliases }] of Object.entries(TEMPERATURE_UNITS)) {
+  for (const alias of [name, ...aliases]) {
+    UNITS.set(normalizeUnit(alias), { name, category: 'temperature', factor: 1, aliases });
+  }
+}
+
+const findUnit = (text: string) => {
+  const unit = UNITS.get(normalizeUnit(text));
+  if (!unit) {
+    throw new Error(`Unknown unit: ${text}`);
+  }
+  return unit;
+};
+
+const round = (value: number) => Number(value.toPrecision(RESULT_PRECISION));
+
+/**
+ * Convert a value between two units of the same category
+ */
+const convert = (value: number, from: Unit, to: Unit) => {
+  if (from.category !== to.category) {
+    throw new Error(
+      `Cannot convert ${from.category} (${from.name}) to ${to.category} (${to.name})`
+    );
+  }
+  if (from.category === 'temperature') {
+    return TEMPERATURE_UNITS[to.name].fromKelvin(TEMPERATURE_UNITS[from.name].toKelvin(value));
+  }
+  return (value * from.factor) / to.factor;
+};
+
+const unitConversionParameters = z.object({
+  value: z.number().describe('The amount to convert'),
+  from: z.string().describe('Unit or currency to convert from, e.g. "mi", "lb", "°F", "EUR"'),
+  to: z.string().describe('Unit or currency to convert to, e.g. "km", "kg", "°C", "USD"'),
+});
+
+// Converts from bundled tables, so it needs no provider key
+const UnitConversionAdapter: ToolAdapter = async () => ({
+  unit_conversion: tool({
+    description: `Convert between units of length, mass, volume, area, speed, time, data, energy, power, pressure and temperature, or between currencies. Currency rates are a fixed snapshot from ${CURRENCY_RATES_DATE}, not live; say so when you use them.`,
+    parameters: unitConversionParameters,
+    execute: async ({ value, from, to }) => {
+      try {
+        const fromUnit = findUnit(from);
+        const toUnit = findUnit(to);
+        const result = round(convert(value, fromUnit, toUnit));
+
+        return {
+          success: true,
+          category: fromUnit.category,
+          value,
+          from: fromUnit.name,
+          to: toUnit.name,
+          result,
+          formatted: `${value} ${fromUnit.name} = ${result} ${toUnit.name}`,
+          ...(fromUnit.category === 'currency' && { ratesDate: CURRENCY_RATES_DATE }),
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error occurred',
+          value,
+          from,
+          to,
+        };
+      }
+    },
+  }),
+});
+
+export const UnitConversionTool: ToolDefinition = {
+  id: 'unit_conversion',
+  name: 'Unit Conversion',
+  description: `Convert units and currencies (rates from ${CURRENCY_RATES_DATE})`,
+  parameters: unitConversionParameters,
+  requiredAbility: 'function_calling',
+  enabledByDefault: true,
+  settings: [],
+  adapter: UnitConversionAdapter,
+};
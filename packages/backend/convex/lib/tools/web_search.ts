@@ -1,45 +1,47 @@
 import { tool } from 'ai';
 import { z } from 'zod';
-import type { ToolAdapter } from '../toolkit';
-import { SearchProvider } from './adapters/search_provider';
+import type { ToolAdapter, ToolDefinition } from '../toolkit';
+import { SearchProvider, getSearchProviderChain } from './adapters/search_provider';
 
-// NOTE: This version assumes you are using your own API key, not BYOK/user-provided keys.
-export const WebSearchAdapter: ToolAdapter = async params => {
-  if (!params.enabledTools.includes('web_search')) return {};
+const webSearchParameters = z.object({
+  query: z.string().describe('The search query'),
+  scrapeContent: z.boolean().describe('Whether to scrape and include content from search results'),
+});
 
-  // You should define your own API key and provider here.
-  // For example, you might load from environment variables or config.
-  const searchProviderId = 'serper';
+// Tries the user's preferred provider first, then every other provider they have a key for
+// (their own or the server's, when the admin policy allows), in the default order
+const WebSearchAdapter: ToolAdapter = async ({ providerKeys, userSettings, settings }) => {
+  const chain = getSearchProviderChain(providerKeys, userSettings?.searchProvider);
+  const resultCount = settings.resultCount as number;
 
   return {
     web_search: tool({
       description:
         'Search the web for information. Optionally scrape content from results for detailed information.',
-      parameters: z.object({
-        query: z.string().describe('The search query'),
-        scrapeContent: z
-          .boolean()
-          .describe('Whether to scrape and include content from search results'),
-      }),
+      parameters: webSearchParameters,
       execute: async ({ query, scrapeContent }) => {
         // You can set a default for scrapeContent here if desired
         const shouldScrapeContent = scrapeContent ?? false;
         try {
-          const searchProvider = new SearchProvider({
-            provider: searchProviderId,
-          });
+          console.log(
+            `Searching for ${query} with providers ${chain.map(config => config.provider).join(', ')}...`
+          );
 
-          console.log(`Searching for ${query} with provider ${searchProviderId}...`);
-
-          const results = await searchProvider.search(query, {
-            limit: 5,
-            scrapeContent: shouldScrapeContent,
-            formats: shouldScrapeContent ? ['markdown', 'links'] : [],
-          });
+          const { provider, results, failures } = await SearchProvider.searchWithFallback(
+            chain,
+            query,
+            {
+              limit: resultCount,
+              scrapeContent: shouldScrapeContent,
+              formats: shouldScrapeContent ? ['markdown', 'links'] : [],
+            }
+          );
 
           return {
             success: true,
             query,
+            provider,
+            ...(failures.length > 0 && { failedProviders: failures }),
             results: results.map(result => ({
               title: result.title,
               url: result.url,
@@ -62,3 +64,23 @@ export const WebSearchAdapter: ToolAdapter = async params => {
     }),
   };
 };
+
+export const WebSearchTool: ToolDefinition = {
+  id: 'web_search',
+  name: 'Web Search',
+  description: 'Search the web for current information, optionally reading the top results',
+  parameters: webSearchParameters,
+  requiredAbility: 'function_calling',
+  settings: [
+    {
+      key: 'resultCount',
+      label: 'Results per search',
+      description: 'More results give the model more to go on, but take longer to read',
+      type: 'number',
+      default: 5,
+      min: 1,
+      max: 10,
+    },
+  ],
+  adapter: WebSearchAdapter,
+};
@@ -0,0 +1,190 @@
+import type { QueryCtx } from '../_generated/server';
+import type { Doc, Id } from '../_generated/dataModel';
+import type { Infer } from 'convex/values';
+import { getModelById, getModelCost } from '../config/models';
+import { ToolUsage } from '../schemas/usage';
+
+export type ToolUsageEntry = Infer<typeof ToolUsage>;
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Upper bounds (ms) of the latency histogram buckets; one more bucket holds anything slower
+export const LATENCY_BUCKETS_MS = [100, 250, 500, 1000, 2000, 4000, 8000, 15000, 30000, 60000];
+
+// Error messages are grouped by their start, so ids and timestamps in the tail don't split them
+const ERROR_MESSAGE_LENGTH = 200;
+
+/**
+ * Cost recorded on the event; events from before costs were stored are priced from the registry
+ */
+export const getEventCost = (event: Doc<'usageEvents'>) => {
+  if (event.cost !== undefined) return event.cost;
+  const model = getModelById(event.modelId);
+  return model ? getModelCost(model, event.promptTokens, event.completionTokens) : 0;
+};
+
+// Costs are summed from tiny per-request amounts, so round only what is returned
+export const roundCost = (cost: number) => Number(cost.toFixed(6));
+
+/**
+ * A user's usage from startDay up to now
+ * Days with a daily summary come from it; every other day (today, and any day the rollup
+ * hasn't reached or missed) comes from raw events
+ */
+export const getUsageRecords = async (ctx: QueryCtx, userId: Id<'users'>, startDay: number) => {
+  const today = Math.floor(Date.now() / DAY_MS);
+
+  const summaries = await ctx.db
+    .query('dailyUsageSummaries')
+    .withIndex('by_user_days_since_epoch', q =>
+      q.eq('userId', userId).gte('daysSinceEpoch', startDay).lt('daysSinceEpoch', today)
+    )
+    .collect();
+
+  // Day ranges without a summary, the last one open-ended so it includes today
+  const gaps: { from: number; to: number | null }[] = [];
+  let gapStart = startDay;
+  for (const summary of summaries) {
+    if (summary.daysSinceEpoch > gapStart) {
+      gaps.push({ from: gapStart, to: summary.daysSinceEpoch });
+    }
+    gapStart = summary.daysSinceEpoch + 1;
+  }
+  gaps.push({ from: gapStart, to: null });
+
+  const events: Doc<'usageEvents'>[] = [];
+  for (const { from, to } of gaps) {
+    const gapEvents = await ctx.db
+      .query('usageEvents')
+      .withIndex('by_user_days_since_epoch', q => {
+        const range = q.eq('userId', userId).gte('daysSinceEpoch', from);
+        return to === null ? range : range.lt('daysSinceEpoch', to);
+      })
+      .collect();
+    // Requests still generating have no usage to report yet
+    events.push(...gapEvents.filter(event => event.status !== 'pending'));
+  }
+
+  return { summaries, events };
+};
+
+export const createHistogram = (): number[] => new Array(LATENCY_BUCKETS_MS.length + 1).fill(0);
+
+/**
+ * Count a latency into its histogram bucket
+ */
+export const addToHistogram = (histogram: number[], valueMs: number) => {
+  const bucket = LATENCY_BUCKETS_MS.findIndex(bound => valueMs <= bound);
+  histogram[bucket === -1 ? LATENCY_BUCKETS_MS.length : bucket]++;
+};
+
+export const mergeHistograms = (target: number[], source: number[] = []) => {
+  source.forEach((count, bucket) => {
+    target[bucket] = (target[bucket] ?? 0) + count;
+  });
+};
+
+/**
+ * Percentile (0-100) of a histogram, reported as the upper bound of the bucket it lands in
+ * Returns null for an empty histogram; the overflow bucket reports the last bound
+ */
+export const getHistogramPercentile = (histogram: number[], percentile: number) => {
+  const total = histogram.reduce((sum, count) => sum + count, 0);
+  if (total === 0) return null;
+
+  const rank = Math.ceil((percentile / 100) * total);
+  let seen = 0;
+  for (let bucket = 0; bucket < histogram.length; bucket++) {
+    seen += histogram[bucket];
+    if (seen >= rank) {
+      return LATENCY_BUCKETS_MS[Math.min(bucket, LATENCY_BUCKETS_MS.length - 1)];
+    }
+  }
+  return LATENCY_BUCKETS_MS[LATENCY_BUCKETS_MS.length - 1];
+};
+
+/**
+ * Error a tool reported in its result; tools return { success: false, error } instead of throwing,
+ * and MCP tools return { isError: true, content } with the message as text content
+ */
+export const getToolResultError = (result: unknown): string | undefined => {
+  if (!result || typeof result !== 'object') {
+    return undefined;
+  }
+  if ((result as any).isError === true) {
+    const text = Array.isArray((result as any).content)
+      ? (result as any).content
+          .filter((part: any) => part?.type === 'text')
+          .map((part: any) => part.text)
+          .join('\n')
+      : '';
+    return text || 'Tool call failed';
+  }
+  if ((result as any).success !== false) {
+    return undefined;
+  }
+  return String((result as any).error ?? 'Tool call failed');
+};
+
+/**
+ * Tally a request's tool calls per tool for its usage event
+ */
+export const getToolUsage = (
+  toolCalls: { toolName: string; args?: any; error?: string }[]
+): ToolUsageEntry[] | undefined => {
+  if (toolCalls.length === 0) return undefined;
+
+  const usage = new Map<string, ToolUsageEntry>();
+  toolCalls.forEach(call => {
+    const entry = usage.get(call.toolName) || { toolName: call.toolName, calls: 0, failures: 0 };
+    entry.calls++;
+    if (call.error) entry.failures++;
+    if (call.toolName === 'web_search' && call.args?.scrapeContent) {
+      entry.scrapes = (entry.scrapes ?? 0) + 1;
+    }
+    usage.set(call.toolName, entry);
+  });
+
+  return Array.from(usage.values());
+};
+
+/**
+ * Add tool usage entries into a running per-tool tally
+ */
+export const mergeToolUsage = (
+  target: Map<string, ToolUsageEntry>,
+  entries: ToolUsageEntry[] = []
+) => {
+  entries.forEach(entry => {
+    const existing = target.get(entry.toolName) || {
+      toolName: entry.toolName,
+      calls: 0,
+      failures: 0,
+    };
+    target.set(entry.toolName, {
+      toolName: entry.toolName,
+      calls: existing.calls + entry.calls,
+      failures: existing.failures + entry.failures,
+      ...((existing.scrapes !== undefined || entry.scrapes !== undefined) && {
+        scrapes: (existing.scrapes ?? 0) + (entry.scrapes ?? 0),
+      }),
+    });
+  });
+};
+
+/**
+ * Add to an error message's count
+ */
+export const countError = (target: Map<string, number>, message: string, count = 1) => {
+  const key = message.slice(0, ERROR_MESSAGE_LENGTH);
+  target.set(key, (target.get(key) ?? 0) + count);
+};
+
+/**
+ * The most frequent error messages, most common first
+ */
+export const getTopErrors = (errors: Map<string, number>, limit: number) =>
+  Array.from(errors.entries())
+    .map(([message, count]) => ({ message, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit);
@@ -8,6 +8,22 @@ import {
   // Usage schemas
   UsageEvent,
   DailyUsageSummary,
+  // Persona schemas
+  Persona,
+  // Stream schemas
+  Stream,
+  // Summary schemas
+  ThreadSummary,
+  // API key schemas
+  UserApiKey,
+  // API token schemas
+  ApiToken,
+  // Quota schemas
+  UserQuota,
+  // User settings schemas
+  UserSettings,
+  // MCP server schemas
+  McpServer,
 } from './schemas';
 
 export default defineSchema({
@@ -36,7 +52,12 @@ export default defineSchema({
   messages: defineTable(Message)
     .index('by_thread_id', ['threadId'])
     .index('by_thread_created', ['threadId', 'createdAt'])
-    .index('by_thread_role', ['threadId', 'role']),
+    .index('by_thread_role', ['threadId', 'role'])
+    .index('by_thread_parent', ['threadId', 'parentMessageId'])
+    .searchIndex('search_text', {
+      searchField: 'searchText',
+      filterFields: ['userId'],
+    }),
 
   // Usage events for tracking AI model usage
   usageEvents: defineTable(UsageEvent)
@@ -53,4 +74,41 @@ export default defineSchema({
     .index('by_user_date', ['userId', 'date'])
     .index('by_user_days_since_epoch', ['userId', 'daysSinceEpoch'])
     .index('by_date', ['date']),
+
+  // Personas with custom instructions, default model and tools
+  personas: defineTable(Persona)
+    .index('by_user_id', ['userId'])
+    .index('by_user_updated', ['userId', 'updatedAt']),
+
+  // Incrementally saved generations for resumable streams
+  streams: defineTable(Stream)
+    .index('by_user_id', ['userId'])
+    .index('by_thread_status', ['threadId', 'status'])
+    .index('by_thread_created', ['threadId', 'createdAt']),
+
+  // Rolling summaries of long threads, extended in the background as they grow
+  threadSummaries: defineTable(ThreadSummary).index('by_thread_id', ['threadId']),
+
+  // Provider keys users bring themselves, encrypted at rest
+  userApiKeys: defineTable(UserApiKey)
+    .index('by_user_id', ['userId'])
+    .index('by_user_provider', ['userId', 'provider']),
+
+  // Personal access tokens for programmatic API use
+  apiTokens: defineTable(ApiToken)
+    .index('by_user_id', ['userId'])
+    .index('by_token_hash', ['tokenHash']),
+
+  // Per-user overrides of the default model tier quotas
+  userQuotas: defineTable(UserQuota)
+    .index('by_user_id', ['userId'])
+    .index('by_user_tier', ['userId', 'modelTier']),
+
+  // Per-user preferences, at most one row per user
+  userSettings: defineTable(UserSettings).index('by_user_id', ['userId']),
+
+  // External MCP servers whose tools a user's chats can call
+  mcpServers: defineTable(McpServer)
+    .index('by_user_id', ['userId'])
+    .index('by_user_name', ['userId', 'name']),
 });
@@ -0,0 +1,24 @@
+import { v } from 'convex/values';
+
+// Providers a user can bring their own key for
+export const ApiKeyProvider = v.union(
+  v.literal('google'),
+  v.literal('mistral'),
+  v.literal('groq'),
+  v.literal('openrouter'),
+  v.literal('serper'),
+  v.literal('firecrawl'),
+  v.literal('tavily')
+);
+
+// User-supplied provider key, encrypted with AES-GCM before it is stored
+export const UserApiKey = v.object({
+  userId: v.id('users'),
+  provider: ApiKeyProvider,
+  encryptedKey: v.string(), // Base64 ciphertext
+  iv: v.string(), // Base64 initialization vector
+  keyHint: v.string(), // Last characters of the key, shown in settings
+  lastValidatedAt: v.number(),
+  createdAt: v.number(),
+  updatedAt: v.number(),
+});
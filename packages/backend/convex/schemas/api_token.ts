@@ -0,0 +1,20 @@
+import { v } from 'convex/values';
+
+// What a personal access token may be used for
+export const ApiTokenScope = v.union(
+  v.literal('threads:read'),
+  v.literal('chat'),
+  v.literal('analytics:read')
+);
+
+// Personal access token for calling the API without a Clerk session; only its hash is stored
+export const ApiToken = v.object({
+  userId: v.id('users'),
+  name: v.string(),
+  tokenHash: v.string(), // SHA-256 of the full token
+  tokenPrefix: v.string(), // First characters of the token, shown in settings
+  scopes: v.array(ApiTokenScope),
+  expiresAt: v.optional(v.number()), // Never expires when unset
+  lastUsedAt: v.optional(v.number()),
+  createdAt: v.number(),
+});
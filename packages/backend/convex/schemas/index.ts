@@ -2,3 +2,11 @@
 export * from './message';
 export * from './thread';
 export * from './usage';
+export * from './persona';
+export * from './stream';
+export * from './summary';
+export * from './api_key';
+export * from './api_token';
+export * from './quota';
+export * from './user_settings';
+export * from './mcp_server';
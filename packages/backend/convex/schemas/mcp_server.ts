@@ -0,0 +1,18 @@
+import { v } from 'convex/values';
+
+// How Chatzo talks to an MCP server: streamable HTTP, or the older HTTP+SSE transport
+export const McpTransportType = v.union(v.literal('http'), v.literal('sse'));
+
+// External MCP (Model Context Protocol) server a user registered; its tools are offered to models
+export const McpServer = v.object({
+  userId: v.id('users'),
+  name: v.string(), // Prefixes the server's tool names, e.g. <name>__<tool>
+  url: v.string(),
+  transport: McpTransportType,
+  enabled: v.boolean(),
+  // Bearer token sent with every request, encrypted with AES-GCM like provider keys
+  encryptedAuthToken: v.optional(v.string()),
+  authTokenIv: v.optional(v.string()),
+  createdAt: v.number(),
+  updatedAt: v.number(),
+});
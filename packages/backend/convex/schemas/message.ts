@@ -55,9 +55,11 @@ export const MessageMetadata = v.object({
   completionTokens: v.optional(v.number()),
   serverDurationMs: v.optional(v.number()),
   duration: v.optional(v.number()), // Duration in milliseconds (alternative to serverDurationMs)
+  timeToFirstToken: v.optional(v.number()), // Milliseconds until the first streamed output
   temperature: v.optional(v.number()),
   maxTokens: v.optional(v.number()),
   toolsEnabled: v.optional(v.array(v.string())), // Track which tools were enabled for this message
+  stopped: v.optional(v.boolean()), // Generation was cancelled by the user before it finished
   toolCalls: v.optional(
     v.array(
       v.object({
@@ -66,6 +68,7 @@ export const MessageMetadata = v.object({
         args: v.any(),
         result: v.optional(v.any()),
         error: v.optional(v.string()),
+        durationMs: v.optional(v.number()), // Time the tool took to run
       })
     )
   ), // Track tool calls made during this message
@@ -90,8 +93,14 @@ export const AIMessage = v.object({
 // Database Message (stored in Convex)
 export const Message = v.object({
   threadId: v.id('threads'),
+  // Owner of the thread, copied here so full-text search can filter by user
+  userId: v.optional(v.id('users')),
+  // Previous message on this branch; siblings share a parent (edits and retries)
+  parentMessageId: v.optional(v.id('messages')),
   role: v.union(v.literal('user'), v.literal('assistant'), v.literal('system')),
   content: MessageContent,
+  // Plain text of the content (text parts joined) for the search index
+  searchText: v.optional(v.string()),
   createdAt: v.number(),
   updatedAt: v.number(),
   metadata: MessageMetadata,
@@ -0,0 +1,13 @@
+import { v } from 'convex/values';
+
+// Reusable persona: custom instructions plus default model and tools
+export const Persona = v.object({
+  userId: v.id('users'),
+  name: v.string(),
+  description: v.optional(v.string()),
+  instructions: v.string(),
+  defaultModelId: v.optional(v.string()),
+  enabledTools: v.optional(v.array(v.string())),
+  createdAt: v.number(),
+  updatedAt: v.number(),
+});
@@ -0,0 +1,17 @@
+import { v } from 'convex/values';
+
+// Model tiers quotas are counted against
+export const ModelTier = v.union(v.literal('free'), v.literal('standard'), v.literal('premium'));
+
+// A limit value; null lifts the limit entirely
+const QuotaLimit = v.optional(v.union(v.number(), v.null()));
+
+// Per-user override of a tier's default limits; unset fields keep the tier default
+export const UserQuota = v.object({
+  userId: v.id('users'),
+  modelTier: ModelTier,
+  requestsPerMinute: QuotaLimit,
+  tokensPerDay: QuotaLimit,
+  spendPerMonth: QuotaLimit, // USD
+  updatedAt: v.number(),
+});
@@ -0,0 +1,35 @@
+import { v } from 'convex/values';
+
+export const StreamStatus = v.union(
+  v.literal('streaming'),
+  v.literal('completed'),
+  v.literal('error')
+);
+
+// What a generation's prompt was built from, for the context debug endpoint
+export const ContextInfo = v.object({
+  contextWindow: v.number(),
+  budgetTokens: v.number(), // Window minus reserved output, system prompt and tool definitions
+  usedTokens: v.number(),
+  reservedOutputTokens: v.number(),
+  systemTokens: v.number(),
+  messageCount: v.number(),
+  droppedMessageCount: v.number(), // Stored messages left out because they did not fit
+  summarized: v.boolean(),
+  messageIds: v.array(v.id('messages')), // Stored messages included, oldest first
+});
+
+// In-flight generation, saved incrementally so clients can reattach after a disconnect
+export const Stream = v.object({
+  userId: v.id('users'),
+  threadId: v.id('threads'),
+  modelId: v.string(),
+  status: StreamStatus,
+  text: v.string(), // Text generated so far; replay offsets index into this
+  messageId: v.optional(v.id('messages')), // Saved assistant message once completed
+  errorMessage: v.optional(v.string()),
+  cancelRequested: v.optional(v.boolean()), // Set by the stop button; the generation polls for it
+  context: v.optional(ContextInfo),
+  createdAt: v.number(),
+  updatedAt: v.number(),
+});
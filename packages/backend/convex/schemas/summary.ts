@@ -0,0 +1,12 @@
+import { v } from 'convex/values';
+
+// Rolling summary of a thread's older messages, sent instead of the ones that no longer fit
+export const ThreadSummary = v.object({
+  threadId: v.id('threads'),
+  text: v.string(),
+  coveredMessageId: v.id('messages'), // Newest message folded into the summary
+  coveredMessageCount: v.number(),
+  modelId: v.string(),
+  createdAt: v.number(),
+  updatedAt: v.number(),
+});
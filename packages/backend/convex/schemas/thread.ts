@@ -1,5 +1,14 @@
 import { v } from 'convex/values';
 
+// Per-thread generation settings, used as defaults by chat completions
+export const ThreadSettings = v.object({
+  modelId: v.optional(v.string()),
+  temperature: v.optional(v.number()),
+  maxTokens: v.optional(v.number()),
+  systemPrompt: v.optional(v.string()),
+  personaId: v.optional(v.id('personas')),
+});
+
 // Thread schema for organizing conversations
 export const Thread = v.object({
   userId: v.id('users'), // Reference to users table instead of Clerk ID string
@@ -12,4 +21,7 @@ export const Thread = v.object({
   isArchived: v.optional(v.boolean()),
   isPinned: v.optional(v.boolean()),
   tags: v.optional(v.array(v.string())),
+  settings: v.optional(ThreadSettings),
+  // Last message of the branch currently shown; unset for threads created before branching
+  activeLeafMessageId: v.optional(v.id('messages')),
 });
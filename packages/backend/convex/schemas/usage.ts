@@ -1,5 +1,19 @@
 import { v } from 'convex/values';
 
+// Calls to one tool during a request
+export const ToolUsage = v.object({
+  toolName: v.string(),
+  calls: v.number(),
+  failures: v.number(), // Calls whose result reported an error
+  scrapes: v.optional(v.number()), // web_search calls that also scraped page content
+});
+
+// How often an error message came up
+export const ErrorCount = v.object({
+  message: v.string(),
+  count: v.number(),
+});
+
 // Usage event for tracking AI model usage
 export const UsageEvent = v.object({
   userId: v.id('users'),
@@ -11,9 +25,13 @@ export const UsageEvent = v.object({
   completionTokens: v.number(), // c -> completionTokens
   totalTokens: v.number(),
   duration: v.optional(v.number()), // Duration in milliseconds
+  timeToFirstToken: v.optional(v.number()), // Milliseconds until the first streamed output
+  toolUsage: v.optional(v.array(ToolUsage)),
+  cost: v.optional(v.number()), // USD at the model's pricing when the request ran
   timestamp: v.number(),
   daysSinceEpoch: v.number(), // Math.floor(Date.now() / (24*60*60*1000))
   status: v.union(
+    v.literal('pending'), // Still generating; counts toward requests_per_minute until finished
     v.literal('success'),
     v.literal('error'),
     v.literal('timeout'),
@@ -33,11 +51,20 @@ export const DailyUsageSummary = v.object({
       requestCount: v.number(),
       totalPromptTokens: v.number(),
       totalCompletionTokens: v.number(),
-      averageDuration: v.number(),
+      averageDuration: v.number(), // Over the requests that recorded a duration
+      errorCount: v.number(), // Requests that failed or timed out
+      totalCost: v.number(), // USD, summed from the events' recorded costs
+      // Counts per LATENCY_BUCKETS_MS bucket, for percentiles across days
+      durationHistogram: v.optional(v.array(v.number())),
+      timeToFirstTokenHistogram: v.optional(v.array(v.number())),
     })
   ),
+  toolUsage: v.optional(v.array(ToolUsage)),
+  topErrors: v.optional(v.array(ErrorCount)),
   totalRequests: v.number(),
   totalTokens: v.number(),
+  totalCost: v.number(),
+  errorCount: v.number(),
   createdAt: v.number(),
   updatedAt: v.number(),
 });
@@ -0,0 +1,21 @@
+import { v } from 'convex/values';
+
+// Web search providers the web_search tool can use
+export const SearchProviderId = v.union(
+  v.literal('serper'),
+  v.literal('tavily'),
+  v.literal('firecrawl'),
+  v.literal('searxng')
+);
+
+// A tool's per-user options, keyed by setting
+export const ToolSettingValues = v.record(v.string(), v.union(v.number(), v.boolean(), v.string()));
+
+// Per-user preferences that apply across threads
+export const UserSettings = v.object({
+  userId: v.id('users'),
+  searchProvider: v.optional(SearchProviderId), // Tried first; unset follows the default order
+  enabledTools: v.optional(v.array(v.string())), // Tools switched on in the composer's tool tray
+  toolSettings: v.optional(v.record(v.string(), ToolSettingValues)), // Keyed by tool ID
+  updatedAt: v.number(),
+});
@@ -1,70 +1,102 @@
-import { query } from '../_generated/server';
+import { internalQuery } from '../_generated/server';
 import { v } from 'convex/values';
-import { getUserByClerkId } from './user_service';
+import type { Doc } from '../_generated/dataModel';
+import { getModelById } from '../config/models';
+import {
+  DAY_MS,
+  addToHistogram,
+  countError,
+  createHistogram,
+  getEventCost,
+  getHistogramPercentile,
+  getTopErrors,
+  getUsageRecords,
+  mergeHistograms,
+  mergeToolUsage,
+  roundCost,
+  type ToolUsageEntry,
+} from '../lib/usage';
+
+// Most common error messages returned with performance stats
+const TOP_ERRORS_LIMIT = 5;
+
+const toRate = (count: number, total: number) =>
+  total > 0 ? Number(((count / total) * 100).toFixed(1)) : 0;
+
+/**
+ * p50 and p95 from a latency histogram, or null when nothing was measured
+ */
+const getLatencyPercentiles = (histogram: number[]) => {
+  const p50 = getHistogramPercentile(histogram, 50);
+  const p95 = getHistogramPercentile(histogram, 95);
+  return p50 === null || p95 === null ? null : { p50, p95 };
+};
 
 /**
  * Get user usage statistics for analytics
  */
-export const getUserUsageStats = query({
+export const getUserUsageStats = internalQuery({
   args: {
-    clerkId: v.string(),
-    startTimestamp: v.number(),
-    endTimestamp: v.number(),
+    userId: v.id('users'),
     days: v.number(),
   },
   handler: async (ctx, args) => {
-    const { clerkId, startTimestamp, endTimestamp, days } = args;
-
-    // Get user by clerkId
-    const user = await getUserByClerkId(ctx, clerkId);
+    const { userId, days } = args;
+    const today = Math.floor(Date.now() / DAY_MS);
 
-    // Get all usage events in the time range
-    const usageEvents = await ctx.db
-      .query('usageEvents')
-      .withIndex('by_user_timestamp', (q: any) =>
-        q.eq('userId', user._id).gte('timestamp', startTimestamp).lte('timestamp', endTimestamp)
-      )
-      .collect();
-
-    // Calculate totals
-    const totalRequests = usageEvents.length;
-    const totalTokens = usageEvents.reduce((sum, event) => sum + (event.totalTokens || 0), 0);
+    // Summaries cover finished days; raw events only what the rollup hasn't reached
+    const { summaries, events } = await getUsageRecords(ctx, userId, today - days + 1);
 
     // Group by date for daily usage
-    const dailyUsageMap = new Map<string, { requests: number; tokens: number }>();
+    const dailyUsageMap = new Map<string, { requests: number; tokens: number; cost: number }>();
 
-    usageEvents.forEach(event => {
+    summaries.forEach(summary => {
+      dailyUsageMap.set(summary.date, {
+        requests: summary.totalRequests,
+        tokens: summary.totalTokens,
+        cost: summary.totalCost,
+      });
+    });
+
+    events.forEach(event => {
       const date = new Date(event.timestamp).toISOString().split('T')[0];
-      const existing = dailyUsageMap.get(date) || { requests: 0, tokens: 0 };
+      const existing = dailyUsageMap.get(date) || { requests: 0, tokens: 0, cost: 0 };
 
       dailyUsageMap.set(date, {
         requests: existing.requests + 1,
         tokens: existing.tokens + (event.totalTokens || 0),
+        cost: existing.cost + getEventCost(event),
       });
     });
 
+    // Calculate totals
+    const dailyTotals = Array.from(dailyUsageMap.values());
+    const totalRequests = dailyTotals.reduce((sum, day) => sum + day.requests, 0);
+    const totalTokens = dailyTotals.reduce((sum, day) => sum + day.tokens, 0);
+    const totalCost = dailyTotals.reduce((sum, day) => sum + day.cost, 0);
+
     // Create daily usage array
     const dailyUsage = [];
-    const endDate = new Date(endTimestamp);
 
     for (let i = 0; i < days; i++) {
-      const date = new Date(endDate.getTime() - i * 24 * 60 * 60 * 1000)
-        .toISOString()
-        .split('T')[0];
-      const usage = dailyUsageMap.get(date) || { requests: 0, tokens: 0 };
+      const date = new Date((today - i) * DAY_MS).toISOString().split('T')[0];
+      const usage = dailyUsageMap.get(date) || { requests: 0, tokens: 0, cost: 0 };
       dailyUsage.unshift({
         date,
         requests: usage.requests,
         tokens: usage.tokens,
+        cost: roundCost(usage.cost),
       });
     }
 
     return {
       totalRequests,
       totalTokens,
+      totalCost: roundCost(totalCost),
       period: `Last ${days} days`,
       dailyUsage,
       averageRequestsPerDay: Number((totalRequests / days).toFixed(2)),
+      averageCostPerDay: roundCost(totalCost / days),
       averageTokensPerRequest:
         totalRequests > 0 ? Number((totalTokens / totalRequests).toFixed(0)) : 0,
     };
@@ -74,25 +106,16 @@ export const getUserUsageStats = query({
 /**
  * Get model usage breakdown for analytics
  */
-export const getModelUsageStats = query({
+export const getModelUsageStats = internalQuery({
   args: {
-    clerkId: v.string(),
-    startTimestamp: v.number(),
-    endTimestamp: v.number(),
+    userId: v.id('users'),
+    days: v.number(),
   },
   handler: async (ctx, args) => {
-    const { clerkId, startTimestamp, endTimestamp } = args;
+    const { userId, days } = args;
+    const today = Math.floor(Date.now() / DAY_MS);
 
-    // Get user by clerkId
-    const user = await getUserByClerkId(ctx, clerkId);
-
-    // Get usage events grouped by model
-    const usageEvents = await ctx.db
-      .query('usageEvents')
-      .withIndex('by_user_timestamp', (q: any) =>
-        q.eq('userId', user._id).gte('timestamp', startTimestamp).lte('timestamp', endTimestamp)
-      )
-      .collect();
+    const { summaries, events } = await getUsageRecords(ctx, userId, today - days + 1);
 
     // Group by model
     const modelUsageMap = new Map<
@@ -102,40 +125,265 @@ export const getModelUsageStats = query({
         modelName: string;
         requests: number;
         totalTokens: number;
+        totalCost: number;
+        errorCount: number;
       }
     >();
 
-    usageEvents.forEach(event => {
-      const modelId = event.modelId;
-      const modelName = event.modelName || modelId;
+    const addUsage = (
+      modelId: string,
+      modelName: string,
+      usage: { requests: number; tokens: number; cost: number; errors: number }
+    ) => {
       const existing = modelUsageMap.get(modelId) || {
         modelId,
         modelName,
         requests: 0,
         totalTokens: 0,
+        totalCost: 0,
+        errorCount: 0,
       };
 
       modelUsageMap.set(modelId, {
         ...existing,
-        requests: existing.requests + 1,
-        totalTokens: existing.totalTokens + (event.totalTokens || 0),
+        requests: existing.requests + usage.requests,
+        totalTokens: existing.totalTokens + usage.tokens,
+        totalCost: existing.totalCost + usage.cost,
+        errorCount: existing.errorCount + usage.errors,
+      });
+    };
+
+    // Summaries don't keep the display name, so it comes from the registry
+    summaries.forEach(summary => {
+      summary.modelUsage.forEach(model => {
+        addUsage(model.modelId, getModelById(model.modelId)?.name || model.modelId, {
+          requests: model.requestCount,
+          tokens: model.totalPromptTokens + model.totalCompletionTokens,
+          cost: model.totalCost,
+          errors: model.errorCount,
+        });
+      });
+    });
+
+    events.forEach(event => {
+      addUsage(event.modelId, event.modelName || event.modelId, {
+        requests: 1,
+        tokens: event.totalTokens || 0,
+        cost: getEventCost(event),
+        errors: event.status === 'error' || event.status === 'timeout' ? 1 : 0,
       });
     });
 
     // Calculate totals for percentages
-    const totalRequests = usageEvents.length;
+    const models = Array.from(modelUsageMap.values());
+    const totalRequests = models.reduce((sum, model) => sum + model.requests, 0);
+    const totalCost = models.reduce((sum, model) => sum + model.totalCost, 0);
 
     // Convert to array and add percentages
-    const modelUsage = Array.from(modelUsageMap.values())
+    const modelUsage = models
       .map(model => ({
         ...model,
+        totalCost: roundCost(model.totalCost),
         averageTokensPerRequest:
           model.requests > 0 ? Math.round(model.totalTokens / model.requests) : 0,
         requestsPercentage:
           totalRequests > 0 ? Number(((model.requests / totalRequests) * 100).toFixed(1)) : 0,
+        costPercentage:
+          totalCost > 0 ? Number(((model.totalCost / totalCost) * 100).toFixed(1)) : 0,
       }))
       .sort((a, b) => b.requests - a.requests); // Sort by request count descending
 
     return modelUsage;
   },
 });
+
+/**
+ * Get spend per thread for analytics, most expensive first
+ */
+export const getThreadSpendStats = internalQuery({
+  args: {
+    userId: v.id('users'),
+    startTimestamp: v.number(),
+    endTimestamp: v.number(),
+    limit: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const { userId, startTimestamp, endTimestamp, limit } = args;
+
+    const usageEvents = await ctx.db
+      .query('usageEvents')
+      .withIndex('by_user_timestamp', (q: any) =>
+        q.eq('userId', userId).gte('timestamp', startTimestamp).lte('timestamp', endTimestamp)
+      )
+      .collect();
+
+    // Requests made outside a thread (e.g. the OpenAI-compatible API) are not attributed
+    const threadSpendMap = new Map<
+      string,
+      { threadId: Doc<'threads'>['_id']; requests: number; totalTokens: number; totalCost: number }
+    >();
+
+    usageEvents.forEach(event => {
+      if (!event.threadId || event.status === 'pending') return;
+      const existing = threadSpendMap.get(event.threadId) || {
+        threadId: event.threadId,
+        requests: 0,
+        totalTokens: 0,
+        totalCost: 0,
+      };
+
+      threadSpendMap.set(event.threadId, {
+        ...existing,
+        requests: existing.requests + 1,
+        totalTokens: existing.totalTokens + (event.totalTokens || 0),
+        totalCost: existing.totalCost + getEventCost(event),
+      });
+    });
+
+    const topThreads = Array.from(threadSpendMap.values())
+      .sort((a, b) => b.totalCost - a.totalCost)
+      .slice(0, limit);
+
+    // Deleted threads keep their spend but lose their title
+    return await Promise.all(
+      topThreads.map(async thread => {
+        const doc = await ctx.db.get(thread.threadId);
+        return {
+          ...thread,
+          title: doc?.title ?? 'Deleted chat',
+          totalCost: roundCost(thread.totalCost),
+        };
+      })
+    );
+  },
+});
+
+/**
+ * Get latency percentiles and error rates per model, plus the most common errors
+ * Percentiles are bucket upper bounds, so they read as "at most" values
+ */
+export const getPerformanceStats = internalQuery({
+  args: {
+    userId: v.id('users'),
+    days: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const { userId, days } = args;
+    const today = Math.floor(Date.now() / DAY_MS);
+
+    const { summaries, events } = await getUsageRecords(ctx, userId, today - days + 1);
+
+    const modelStatsMap = new Map<
+      string,
+      {
+        modelName: string;
+        requests: number;
+        errorCount: number;
+        durationHistogram: number[];
+        timeToFirstTokenHistogram: number[];
+      }
+    >();
+    const errors = new Map<string, number>();
+
+    const getModelStats = (modelId: string, modelName: string) => {
+      const existing = modelStatsMap.get(modelId);
+      if (existing) return existing;
+
+      const created = {
+        modelName,
+        requests: 0,
+        errorCount: 0,
+        durationHistogram: createHistogram(),
+        timeToFirstTokenHistogram: createHistogram(),
+      };
+      modelStatsMap.set(modelId, created);
+      return created;
+    };
+
+    summaries.forEach(summary => {
+      summary.modelUsage.forEach(model => {
+        const stats = getModelStats(
+          model.modelId,
+          getModelById(model.modelId)?.name || model.modelId
+        );
+        stats.requests += model.requestCount;
+        stats.errorCount += model.errorCount;
+        mergeHistograms(stats.durationHistogram, model.durationHistogram);
+        mergeHistograms(stats.timeToFirstTokenHistogram, model.timeToFirstTokenHistogram);
+      });
+      summary.topErrors?.forEach(error => countError(errors, error.message, error.count));
+    });
+
+    events.forEach(event => {
+      const stats = getModelStats(event.modelId, event.modelName || event.modelId);
+      const isError = event.status === 'error' || event.status === 'timeout';
+      stats.requests++;
+
+      if (isError) {
+        stats.errorCount++;
+        countError(errors, event.errorMessage || 'Unknown error');
+      }
+      if (event.status === 'success') {
+        if (event.duration !== undefined) {
+          addToHistogram(stats.durationHistogram, event.duration);
+        }
+        if (event.timeToFirstToken !== undefined) {
+          addToHistogram(stats.timeToFirstTokenHistogram, event.timeToFirstToken);
+        }
+      }
+    });
+
+    const models = Array.from(modelStatsMap.entries())
+      .map(([modelId, stats]) => ({
+        modelId,
+        modelName: stats.modelName,
+        requests: stats.requests,
+        errorCount: stats.errorCount,
+        errorRate: toRate(stats.errorCount, stats.requests),
+        timeToFirstToken: getLatencyPercentiles(stats.timeToFirstTokenHistogram),
+        latency: getLatencyPercentiles(stats.durationHistogram),
+      }))
+      .sort((a, b) => b.requests - a.requests);
+
+    const totalRequests = models.reduce((sum, model) => sum + model.requests, 0);
+    const totalErrors = models.reduce((sum, model) => sum + model.errorCount, 0);
+
+    return {
+      models,
+      totalRequests,
+      totalErrors,
+      errorRate: toRate(totalErrors, totalRequests),
+      topErrors: getTopErrors(errors, TOP_ERRORS_LIMIT),
+    };
+  },
+});
+
+/**
+ * Get calls and failures per tool, most used first
+ */
+export const getToolUsageStats = internalQuery({
+  args: {
+    userId: v.id('users'),
+    days: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const { userId, days } = args;
+    const today = Math.floor(Date.now() / DAY_MS);
+
+    const { summaries, events } = await getUsageRecords(ctx, userId, today - days + 1);
+
+    const toolUsage = new Map<string, ToolUsageEntry>();
+    summaries.forEach(summary => mergeToolUsage(toolUsage, summary.toolUsage));
+    events.forEach(event => mergeToolUsage(toolUsage, event.toolUsage));
+
+    return Array.from(toolUsage.values())
+      .map(tool => ({
+        toolName: tool.toolName,
+        calls: tool.calls,
+        failures: tool.failures,
+        failureRate: toRate(tool.failures, tool.calls),
+        scrapes: tool.scrapes ?? 0,
+      }))
+      .sort((a, b) => b.calls - a.calls);
+  },
+});
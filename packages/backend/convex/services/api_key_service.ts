@@ -0,0 +1,76 @@
+import { internalMutation, internalQuery } from '../_generated/server';
+import { v } from 'convex/values';
+import { ConvexError } from 'convex/values';
+import { ApiKeyProvider } from '../schemas/api_key';
+
+/**
+ * Get a user's stored provider keys, still encrypted (internal use - no auth check)
+ */
+export const getUserApiKeys = internalQuery({
+  args: {
+    userId: v.id('users'),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query('userApiKeys')
+      .withIndex('by_user_id', q => q.eq('userId', args.userId))
+      .collect();
+  },
+});
+
+/**
+ * Create or replace a user's key for a provider
+ * The key must already be validated and encrypted by the caller
+ */
+export const saveUserApiKey = internalMutation({
+  args: {
+    userId: v.id('users'),
+    provider: ApiKeyProvider,
+    encryptedKey: v.string(),
+    iv: v.string(),
+    keyHint: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query('userApiKeys')
+      .withIndex('by_user_provider', q => q.eq('userId', args.userId).eq('provider', args.provider))
+      .first();
+
+    const now = Date.now();
+    if (existing) {
+      await ctx.db.patch(existing._id, { ...args, lastValidatedAt: now, updatedAt: now });
+    } else {
+      await ctx.db.insert('userApiKeys', {
+        ...args,
+        lastValidatedAt: now,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    return { provider: args.provider, keyHint: args.keyHint, updatedAt: now };
+  },
+});
+
+/**
+ * Delete a user's key for a provider
+ */
+export const deleteUserApiKey = internalMutation({
+  args: {
+    userId: v.id('users'),
+    provider: ApiKeyProvider,
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query('userApiKeys')
+      .withIndex('by_user_provider', q => q.eq('userId', args.userId).eq('provider', args.provider))
+      .first();
+
+    if (!existing) {
+      throw new ConvexError('API key not found or access denied');
+    }
+
+    await ctx.db.delete(existing._id);
+    return { provider: args.provider };
+  },
+});
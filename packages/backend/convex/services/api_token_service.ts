@@ -0,0 +1,137 @@
+import { internalMutation, internalQuery } from '../_generated/server';
+import { v } from 'convex/values';
+import { ConvexError } from 'convex/values';
+import { ApiTokenScope } from '../schemas/api_token';
+
+const MAX_NAME_LENGTH = 60;
+
+// Most tokens one user can hold at a time
+const MAX_TOKENS_PER_USER = 20;
+
+// lastUsedAt is only rewritten when older than this, so busy clients don't write on every call
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Resolve a token hash to the token and its owner (internal use - no auth check)
+ * Expired tokens resolve to null
+ */
+export const getTokenByHash = internalQuery({
+  args: {
+    tokenHash: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const token = await ctx.db
+      .query('apiTokens')
+      .withIndex('by_token_hash', q => q.eq('tokenHash', args.tokenHash))
+      .unique();
+    if (!token || (token.expiresAt !== undefined && token.expiresAt <= Date.now())) {
+      return null;
+    }
+
+    const user = await ctx.db.get(token.userId);
+    return user ? { token, user } : null;
+  },
+});
+
+/**
+ * Record that a token was just used
+ */
+export const touchApiToken = internalMutation({
+  args: {
+    tokenId: v.id('apiTokens'),
+  },
+  handler: async (ctx, args) => {
+    const token = await ctx.db.get(args.tokenId);
+    const now = Date.now();
+    if (!token || (token.lastUsedAt && now - token.lastUsedAt < LAST_USED_RESOLUTION_MS)) {
+      return;
+    }
+
+    await ctx.db.patch(args.tokenId, { lastUsedAt: now });
+  },
+});
+
+/**
+ * List a user's tokens without their hashes
+ */
+export const getUserApiTokens = internalQuery({
+  args: {
+    userId: v.id('users'),
+  },
+  handler: async (ctx, args) => {
+    const tokens = await ctx.db
+      .query('apiTokens')
+      .withIndex('by_user_id', q => q.eq('userId', args.userId))
+      .order('desc')
+      .collect();
+
+    return tokens.map(({ tokenHash, ...token }) => token);
+  },
+});
+
+/**
+ * Store a new token's hash
+ * The raw token is generated by the caller and never reaches the database
+ */
+export const createApiToken = internalMutation({
+  args: {
+    userId: v.id('users'),
+    name: v.string(),
+    tokenHash: v.string(),
+    tokenPrefix: v.string(),
+    scopes: v.array(ApiTokenScope),
+    expiresAt: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const name = args.name.trim();
+    if (name.length === 0) {
+      throw new ConvexError('Token name cannot be empty');
+    }
+    if (name.length > MAX_NAME_LENGTH) {
+      throw new ConvexError(`Token name cannot exceed ${MAX_NAME_LENGTH} characters`);
+    }
+    if (args.scopes.length === 0) {
+      throw new ConvexError('Token scopes cannot be empty');
+    }
+
+    const existing = await ctx.db
+      .query('apiTokens')
+      .withIndex('by_user_id', q => q.eq('userId', args.userId))
+      .collect();
+    if (existing.length >= MAX_TOKENS_PER_USER) {
+      throw new ConvexError(`Users cannot exceed ${MAX_TOKENS_PER_USER} API tokens`);
+    }
+
+    const scopes = [...new Set(args.scopes)];
+    const now = Date.now();
+    const tokenId = await ctx.db.insert('apiTokens', { ...args, name, scopes, createdAt: now });
+
+    return {
+      _id: tokenId,
+      name,
+      tokenPrefix: args.tokenPrefix,
+      scopes,
+      expiresAt: args.expiresAt,
+      createdAt: now,
+    };
+  },
+});
+
+/**
+ * Revoke a token with user authorization
+ */
+export const revokeApiToken = internalMutation({
+  args: {
+    tokenId: v.id('apiTokens'),
+    userId: v.id('users'),
+  },
+  handler: async (ctx, args) => {
+    const token = await ctx.db.get(args.tokenId);
+    if (!token || token.userId !== args.userId) {
+      throw new ConvexError('API token not found or access denied');
+    }
+
+    await ctx.db.delete(args.tokenId);
+    return { revokedTokenId: args.tokenId };
+  },
+});
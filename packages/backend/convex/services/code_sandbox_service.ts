@@ -0,0 +1,244 @@
+'use node';
+
+import { Worker } from 'node:worker_threads';
+import { v } from 'convex/values';
+import { internalAction } from '../_generated/server';
+import type { SandboxResult } from '../lib/tools/code_interpreter';
+
+// Heap available to the model's code, on top of the worker's own overhead
+const MEMORY_LIMIT_MB = 64;
+
+// Extra time the worker gets to report before it is killed, beyond the script's own timeout
+const TERMINATE_GRACE_MS = 2000;
+
+const MAX_OUTPUT_LENGTH = 10000;
+const MAX_TABLES = 5;
+const MAX_TABLE_ROWS = 200;
+
+/**
+ * Runs inside the context, so console and table() are built from the sandbox's own
+ * objects: the only host value, __emit, is captured here and removed from the global scope,
+ * and it only ever receives strings
+ * Returns the formatter used for the script's result and errors
+ */
+const BOOTSTRAP_SOURCE = `(() => {
+  const emit = globalThis.__emit;
+  delete globalThis.__emit;
+
+  const format = value => {
+    if (typeof value === 'string') return value;
+    if (value instanceof Error) return value.stack || String(value);
+    if (typeof value === 'function') return '[Function' + (value.name ? ': ' + value.name : '') + ']';
+    if (typeof value === 'bigint') return value + 'n';
+    if (typeof value === 'symbol' || value === undefined) return String(value);
+    try {
+      const json = JSON.stringify(value, (key, item) => (typeof item === 'bigint' ? item.toString() : item));
+      return json === undefined ? String(value) : json;
+    } catch {
+      return String(value);
+    }
+  };
+  const line = args => args.map(format).join(' ');
+  const cell = value =>
+    value === undefined ? null : value === null || typeof value === 'number' || typeof value === 'boolean' ? value : format(value);
+
+  const toTable = (data, title) => {
+    if (!data || typeof data !== 'object') {
+      throw new TypeError('table() expects an array or an object');
+    }
+    const isArray = Array.isArray(data);
+    const entries = isArray ? data.map((row, index) => [index, row]) : Object.entries(data);
+    const columns = [];
+    let hasValues = false;
+    for (const [, row] of entries) {
+      if (row && typeof row === 'object') {
+        for (const key of Object.keys(row)) {
+          if (!columns.includes(key)) columns.push(key);
+        }
+      } else {
+        hasValues = true;
+      }
+    }
+    if (hasValues) columns.push('value');
+
+    const rows = entries.map(([key, row]) => {
+      const cells = columns.map(column =>
+        column === 'value' && !(row && typeof row === 'object') ? cell(row) : cell(row && typeof row === 'object' ? row[column] : undefined)
+      );
+      return isArray ? cells : [key, ...cells];
+    });
+    return JSON.stringify({
+      ...(title !== undefined && { title: String(title) }),
+      columns: isArray ? columns : ['key', ...columns],
+      rows,
+    });
+  };
+
+  const log = (...args) => emit('stdout', line(args));
+  const error = (...args) => emit('stderr', line(args));
+  globalThis.console = { log, info: log, debug: log, warn: error, error, table: data => emit('table', toTable(data)) };
+  globalThis.table = (data, title) => emit('table', toTable(data, title));
+
+  return format;
+})()`;
+
+/**
+ * The worker: evaluates the code in a fresh context with no require, process, timers or fetch,
+ * then posts everything it printed back to the action
+ */
+const WORKER_SOURCE = `'use strict';
+const { parentPort, workerData } = require('node:worker_threads');
+const vm = require('node:vm');
+
+const { code, timeoutMs, limits } = workerData;
+const output = { stdout: '', stderr: '', tables: [], truncated: false };
+
+const append = (stream, text) => {
+  const next = output[stream] + text + '\\n';
+  if (next.length > limits.maxOutputLength) {
+    output[stream] = next.substring(0, limits.maxOutputLength);
+    output.truncated = true;
+  } else {
+    output[stream] = next;
+  }
+};
+
+// Never throws, so no host error object can reach the sandbox
+const emit = (kind, text) => {
+  try {
+    if (kind === 'table') {
+      const table = JSON.parse(text);
+      if (output.tables.length >= limits.maxTables) {
+        output.truncated = true;
+        return;
+      }
+      if (table.rows.length > limits.maxTableRows) {
+        table.rows = table.rows.slice(0, limits.maxTableRows);
+        output.truncated = true;
+      }
+      output.tables.push(table);
+    } else {
+      append(kind === 'stderr' ? 'stderr' : 'stdout', String(text));
+    }
+  } catch {}
+};
+
+// A null prototype keeps the host's Object (and through it Function) out of reach of the global
+const sandbox = Object.create(null);
+sandbox.__emit = emit;
+const context = vm.createContext(sandbox, { codeGeneration: { strings: false, wasm: false } });
+const format = vm.runInContext(${JSON.stringify(BOOTSTRAP_SOURCE)}, context);
+
+// Frames from the worker and Node's own code say nothing about the model's script
+const describeError = error => {
+  let text;
+  try {
+    text = format(error);
+  } catch {
+    text = String(error && error.message ? error.message : error);
+  }
+  return text
+    .split('\\n')
+    .filter(line => !line.includes('[worker eval]') && !line.includes('node:'))
+    .join('\\n');
+};
+
+(async () => {
+  const startTime = Date.now();
+  try {
+    let value = vm.runInContext(code, context, { timeout: timeoutMs, filename: 'main.js' });
+    if (value && typeof value.then === 'function') {
+      value = await value;
+    }
+    parentPort.postMessage({
+      success: true,
+      ...output,
+      ...(value !== undefined && { result: format(value) }),
+      durationMs: Date.now() - startTime,
+    });
+  } catch (error) {
+    parentPort.postMessage({
+      success: false,
+      ...output,
+      error: describeError(error),
+      durationMs: Date.now() - startTime,
+    });
+  }
+})();
+`;
+
+/**
+ * Run model-written JavaScript in an isolated worker with time and memory limits and no network
+ */
+export const runCode = internalAction({
+  args: {
+    code: v.string(),
+    timeoutMs: v.number(),
+  },
+  handler: async (_ctx, args): Promise<SandboxResult> => {
+    const startTime = Date.now();
+
+    return await new Promise<SandboxResult>(resolve => {
+      const fail = (error: string) => {
+        resolve({
+          success: false,
+          stdout: '',
+          stderr: '',
+          tables: [],
+          truncated: false,
+          error,
+          durationMs: Date.now() - startTime,
+        });
+      };
+
+      const worker = new Worker(WORKER_SOURCE, {
+        eval: true,
+        workerData: {
+          code: args.code,
+          timeoutMs: args.timeoutMs,
+          limits: {
+            maxOutputLength: MAX_OUTPUT_LENGTH,
+            maxTables: MAX_TABLES,
+            maxTableRows: MAX_TABLE_ROWS,
+          },
+        },
+        // No secrets from the deployment's environment
+        env: {},
+        resourceLimits: {
+          maxOldGenerationSizeMb: MEMORY_LIMIT_MB,
+          maxYoungGenerationSizeMb: 16,
+          stackSizeMb: 4,
+        },
+      });
+
+      // The script timeout only covers synchronous code; this also stops loops in async callbacks
+      const timeout = setTimeout(() => {
+        worker.terminate();
+        fail(`Execution timed out after ${args.timeoutMs / 1000}s`);
+      }, args.timeoutMs + TERMINATE_GRACE_MS);
+
+      worker.once('message', message => {
+        clearTimeout(timeout);
+        worker.terminate();
+        resolve(message);
+      });
+      worker.once('error', error => {
+        clearTimeout(timeout);
+        fail(
+          (error as NodeJS.ErrnoException).code === 'ERR_WORKER_OUT_OF_MEMORY'
+            ? `Ran out of memory (limit ${MEMORY_LIMIT_MB} MB)`
+            : error.message
+        );
+      });
+      worker.once('exit', code => {
+        clearTimeout(timeout);
+        // With no timers or network, an empty event loop means the result can never settle
+        fail(
+          code === 0
+            ? 'The returned promise never settled (timers and network are not available)'
+            : `Sandbox exited unexpectedly (code ${code})`
+        );
+      });
+    });
+  },
+});
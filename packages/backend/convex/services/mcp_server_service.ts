@@ -0,0 +1,172 @@
+import { internalMutation, internalQuery } from '../_generated/server';
+import { v } from 'convex/values';
+import { ConvexError } from 'convex/values';
+import { McpTransportType } from '../schemas/mcp_server';
+
+const MAX_SERVERS_PER_USER = 10;
+
+// Names prefix tool names, which providers limit to letters, digits, _ and -
+const SERVER_NAME_PATTERN = /^[a-z0-9][a-z0-9-]{0,23}$/;
+
+/**
+ * Validate an MCP server's name and URL
+ */
+const validateServerFields = (fields: { name?: string; url?: string }) => {
+  if (fields.name !== undefined && !SERVER_NAME_PATTERN.test(fields.name)) {
+    throw new ConvexError(
+      'Server name must be 1-24 lowercase letters, digits or dashes, starting with a letter or digit'
+    );
+  }
+
+  if (fields.url !== undefined) {
+    let url: URL;
+    try {
+      url = new URL(fields.url);
+    } catch {
+      throw new ConvexError('Server URL is invalid');
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new ConvexError('Server URL must use http or https');
+    }
+  }
+};
+
+/**
+ * Get a user's MCP servers, auth tokens still encrypted (internal use - no auth check)
+ */
+export const getUserMcpServers = internalQuery({
+  args: {
+    userId: v.id('users'),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query('mcpServers')
+      .withIndex('by_user_id', q => q.eq('userId', args.userId))
+      .collect();
+  },
+});
+
+/**
+ * Get a single MCP server with user authorization
+ */
+export const getMcpServer = internalQuery({
+  args: {
+    serverId: v.id('mcpServers'),
+    userId: v.id('users'),
+  },
+  handler: async (ctx, args) => {
+    const server = await ctx.db.get(args.serverId);
+    if (!server || server.userId !== args.userId) {
+      throw new ConvexError('MCP server not found or access denied');
+    }
+
+    return server;
+  },
+});
+
+/**
+ * Register an MCP server
+ * Any auth token must already be encrypted by the caller
+ */
+export const createMcpServer = internalMutation({
+  args: {
+    userId: v.id('users'),
+    name: v.string(),
+    url: v.string(),
+    transport: McpTransportType,
+    encryptedAuthToken: v.optional(v.string()),
+    authTokenIv: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    validateServerFields(args);
+
+    const servers = await ctx.db
+      .query('mcpServers')
+      .withIndex('by_user_id', q => q.eq('userId', args.userId))
+      .collect();
+    if (servers.length >= MAX_SERVERS_PER_USER) {
+      throw new ConvexError(`Cannot exceed ${MAX_SERVERS_PER_USER} MCP servers`);
+    }
+    if (servers.some(server => server.name === args.name)) {
+      throw new ConvexError(`An MCP server named ${args.name} already exists`);
+    }
+
+    const now = Date.now();
+    const serverId = await ctx.db.insert('mcpServers', {
+      ...args,
+      enabled: true,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return await ctx.db.get(serverId);
+  },
+});
+
+/**
+ * Update an MCP server with user authorization
+ * A null auth token removes the stored one
+ */
+export const updateMcpServer = internalMutation({
+  args: {
+    serverId: v.id('mcpServers'),
+    userId: v.id('users'),
+    name: v.optional(v.string()),
+    url: v.optional(v.string()),
+    transport: v.optional(McpTransportType),
+    enabled: v.optional(v.boolean()),
+    authToken: v.optional(
+      v.union(v.null(), v.object({ encryptedAuthToken: v.string(), authTokenIv: v.string() }))
+    ),
+  },
+  handler: async (ctx, args) => {
+    const { serverId, userId, authToken, ...updates } = args;
+
+    const server = await ctx.db.get(serverId);
+    if (!server || server.userId !== userId) {
+      throw new ConvexError('MCP server not found or access denied');
+    }
+
+    validateServerFields(updates);
+
+    if (updates.name !== undefined && updates.name !== server.name) {
+      const existing = await ctx.db
+        .query('mcpServers')
+        .withIndex('by_user_name', q => q.eq('userId', userId).eq('name', updates.name!))
+        .first();
+      if (existing) {
+        throw new ConvexError(`An MCP server named ${updates.name} already exists`);
+      }
+    }
+
+    await ctx.db.patch(serverId, {
+      ...updates,
+      ...(authToken !== undefined && {
+        encryptedAuthToken: authToken?.encryptedAuthToken,
+        authTokenIv: authToken?.authTokenIv,
+      }),
+      updatedAt: Date.now(),
+    });
+
+    return await ctx.db.get(serverId);
+  },
+});
+
+/**
+ * Delete an MCP server with user authorization
+ */
+export const deleteMcpServer = internalMutation({
+  args: {
+    serverId: v.id('mcpServers'),
+    userId: v.id('users'),
+  },
+  handler: async (ctx, args) => {
+    const server = await ctx.db.get(args.serverId);
+    if (!server || server.userId !== args.userId) {
+      throw new ConvexError('MCP server not found or access denied');
+    }
+
+    await ctx.db.delete(args.serverId);
+    return { deletedServerId: args.serverId };
+  },
+});
@@ -1,83 +1,525 @@
-import { query, mutation } from '../_generated/server';
+import { internalQuery, internalMutation, QueryCtx, MutationCtx } from '../_generated/server';
+import { internal } from '../_generated/api';
+import type { Doc, Id } from '../_generated/dataModel';
 import { v } from 'convex/values';
 import { MessageContent } from '../schemas/message';
-import { getUserByClerkId } from './user_service';
 import { ConvexError } from 'convex/values';
 
+// Characters of context kept around the first match in a search snippet
+const SNIPPET_CONTEXT_CHARS = 80;
+
+/**
+ * Extract the searchable text of a message: the string itself or its text parts joined
+ */
+export const getMessageSearchText = (content: Doc<'messages'>['content']): string => {
+  if (typeof content === 'string') {
+    return content;
+  }
+
+  const parts = Array.isArray(content) ? content : [content];
+  return parts
+    .map(part => (part.type === 'text' ? part.text : ''))
+    .filter(text => text.length > 0)
+    .join('\n');
+};
+
+/**
+ * Cut a snippet around the first matching term and mark every term occurrence in it
+ * Highlights are [start, end) character ranges within the snippet
+ */
+const buildSearchSnippet = (text: string, searchQuery: string) => {
+  const flatText = text.replace(/\s+/g, ' ').trim();
+  const lowerText = flatText.toLowerCase();
+  const terms = searchQuery
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(term => term.length > 0);
+
+  const matchPositions = terms.map(term => lowerText.indexOf(term)).filter(index => index >= 0);
+  const firstMatch = matchPositions.length > 0 ? Math.min(...matchPositions) : 0;
+
+  const start = Math.max(0, firstMatch - SNIPPET_CONTEXT_CHARS);
+  const end = Math.min(flatText.length, firstMatch + SNIPPET_CONTEXT_CHARS * 2);
+  const prefix = start > 0 ? '…' : '';
+  const snippet = `${prefix}${flatText.slice(start, end)}${end < flatText.length ? '…' : ''}`;
+
+  const lowerSnippet = snippet.toLowerCase();
+  const ranges: { start: number; end: number }[] = [];
+  for (const term of terms) {
+    let index = lowerSnippet.indexOf(term);
+    while (index >= 0) {
+      ranges.push({ start: index, end: index + term.length });
+      index = lowerSnippet.indexOf(term, index + term.length);
+    }
+  }
+
+  // Merge overlapping ranges so clients can render them in one pass
+  ranges.sort((a, b) => a.start - b.start);
+  const highlights: { start: number; end: number }[] = [];
+  for (const range of ranges) {
+    const last = highlights[highlights.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      highlights.push({ ...range });
+    }
+  }
+
+  return { snippet, highlights };
+};
+
+/**
+ * Get the messages of a thread's active branch, oldest first
+ * Threads created before branching have no leaf and are read as one linear chain
+ */
+export const getActivePath = async (
+  ctx: QueryCtx,
+  thread: Doc<'threads'>
+): Promise<Doc<'messages'>[]> => {
+  if (!thread.activeLeafMessageId) {
+    return await ctx.db
+      .query('messages')
+      .withIndex('by_thread_created', q => q.eq('threadId', thread._id))
+      .order('asc')
+      .filter(q => q.neq(q.field('isDeleted'), true))
+      .collect();
+  }
+
+  return (await getMessagePath(ctx, thread.activeLeafMessageId)).filter(
+    message => !message.isDeleted
+  );
+};
+
+/**
+ * Walk from a message up to the root of its branch, returning the path oldest first
+ */
+export const getMessagePath = async (
+  ctx: QueryCtx,
+  messageId: Id<'messages'>
+): Promise<Doc<'messages'>[]> => {
+  const path: Doc<'messages'>[] = [];
+  let current = await ctx.db.get(messageId);
+
+  while (current) {
+    path.push(current);
+    current = current.parentMessageId ? await ctx.db.get(current.parentMessageId) : null;
+  }
+
+  return path.reverse();
+};
+
+/**
+ * Get the alternatives to a message (edits or retries sharing its parent), oldest first
+ */
+const getSiblings = async (ctx: QueryCtx, message: Doc<'messages'>) => {
+  return await ctx.db
+    .query('messages')
+    .withIndex('by_thread_parent', q =>
+      q.eq('threadId', message.threadId).eq('parentMessageId', message.parentMessageId)
+    )
+    .order('asc')
+    .filter(q => q.neq(q.field('isDeleted'), true))
+    .collect();
+};
+
+/**
+ * Follow the most recent child at each level to find the leaf under a message
+ */
+const getLatestLeaf = async (ctx: QueryCtx, message: Doc<'messages'>) => {
+  let leaf = message;
+
+  while (true) {
+    const child = await ctx.db
+      .query('messages')
+      .withIndex('by_thread_parent', q =>
+        q.eq('threadId', leaf.threadId).eq('parentMessageId', leaf._id)
+      )
+      .order('desc')
+      .filter(q => q.neq(q.field('isDeleted'), true))
+      .first();
+
+    if (!child) return leaf;
+    leaf = child;
+  }
+};
+
+/**
+ * Link a pre-branching thread's messages into a chain so new messages can branch from them
+ * Returns the thread's active leaf
+ */
+const ensureMessageTree = async (
+  ctx: MutationCtx,
+  thread: Doc<'threads'>
+): Promise<Id<'messages'> | undefined> => {
+  if (thread.activeLeafMessageId) {
+    return thread.activeLeafMessageId;
+  }
+
+  const messages = await getActivePath(ctx, thread);
+  for (let i = 1; i < messages.length; i++) {
+    await ctx.db.patch(messages[i]._id, { parentMessageId: messages[i - 1]._id });
+  }
+
+  const leafId = messages[messages.length - 1]?._id;
+  if (leafId) {
+    await ctx.db.patch(thread._id, { activeLeafMessageId: leafId });
+  }
+  return leafId;
+};
+
+/**
+ * Get one page of a thread's active branch, walking back in time from a cursor
+ * Branched threads use the oldest message id of the previous page as the cursor,
+ * linear threads a Convex pagination cursor. Each page is returned oldest first
+ */
+const getActivePathPage = async (
+  ctx: QueryCtx,
+  thread: Doc<'threads'>,
+  limit: number,
+  cursor: string | null
+): Promise<{ messages: Doc<'messages'>[]; nextCursor: string | null }> => {
+  if (!thread.activeLeafMessageId) {
+    const result = await ctx.db
+      .query('messages')
+      .withIndex('by_thread_created', q => q.eq('threadId', thread._id))
+      .order('desc')
+      .filter(q => q.neq(q.field('isDeleted'), true))
+      .paginate({ numItems: limit, cursor });
+
+    return {
+      messages: result.page.reverse(),
+      nextCursor: result.isDone ? null : result.continueCursor,
+    };
+  }
+
+  let current: Doc<'messages'> | null;
+  if (cursor) {
+    const cursorId = ctx.db.normalizeId('messages', cursor);
+    const cursorMessage = cursorId && (await ctx.db.get(cursorId));
+    if (!cursorMessage || cursorMessage.threadId !== thread._id) {
+      throw new ConvexError('Cursor must come from a previous page of this thread');
+    }
+    current = cursorMessage.parentMessageId
+      ? await ctx.db.get(cursorMessage.parentMessageId)
+      : null;
+  } else {
+    current = await ctx.db.get(thread.activeLeafMessageId);
+  }
+
+  const messages: Doc<'messages'>[] = [];
+  while (current && messages.length < limit) {
+    if (!current.isDeleted) {
+      messages.push(current);
+    }
+    current = current.parentMessageId ? await ctx.db.get(current.parentMessageId) : null;
+  }
+
+  messages.reverse();
+  return {
+    messages,
+    // An empty page has no oldest message to continue from
+    nextCursor: current && messages.length > 0 ? messages[0]._id : null,
+  };
+};
+
 /**
- * Get messages for a thread (internal use - no auth check)
+ * Add sibling navigation info to each message on a path
  */
-export const getThreadMessagesInternal = query({
+const withBranchInfo = async (
+  ctx: QueryCtx,
+  thread: Doc<'threads'>,
+  messages: Doc<'messages'>[]
+) => {
+  return await Promise.all(
+    messages.map(async message => {
+      // Unmigrated threads are linear, and every message there looks like a root
+      const siblingIds = thread.activeLeafMessageId
+        ? (await getSiblings(ctx, message)).map(sibling => sibling._id)
+        : [message._id];
+
+      return {
+        ...message,
+        siblingIds,
+        siblingCount: siblingIds.length,
+        siblingIndex: Math.max(siblingIds.indexOf(message._id), 0),
+      };
+    })
+  );
+};
+
+/**
+ * Get the history a new message follows, oldest first (internal use - no auth check)
+ * Ends at anchorMessageId when given (edits, retries, continuations), else at the active leaf.
+ * Starts after afterMessageId, the newest message in the thread's summary, when it is on this
+ * branch. Only the newest `limit` messages are returned; older ones are counted as omitted
+ */
+export const getContextMessages = internalQuery({
   args: {
     threadId: v.id('threads'),
+    anchorMessageId: v.optional(v.id('messages')),
+    afterMessageId: v.optional(v.id('messages')),
     limit: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
-    const { threadId, limit = 100 } = args;
+    const { threadId, anchorMessageId, afterMessageId, limit = 200 } = args;
 
-    const messages = await ctx.db
-      .query('messages')
-      .withIndex('by_thread_created', (q: any) => q.eq('threadId', threadId))
-      .order('asc')
-      .filter((q: any) => q.neq(q.field('isDeleted'), true))
-      .paginate({ numItems: limit, cursor: null })
-      .then((result: any) => result.page);
+    const thread = await ctx.db.get(threadId);
+    if (!thread) {
+      return {
+        messages: [],
+        omittedCount: 0,
+        lastOmittedMessageId: null,
+        foundAfterMessage: false,
+      };
+    }
+
+    const leafId = anchorMessageId ?? thread.activeLeafMessageId;
+    if (!leafId) {
+      // Unmigrated threads are linear, so read them in order
+      const path = await getActivePath(ctx, thread);
+      const afterIndex = afterMessageId
+        ? path.findIndex(message => message._id === afterMessageId)
+        : -1;
+      const pending = path.slice(afterIndex + 1);
+      const omitted = pending.slice(0, Math.max(pending.length - limit, 0));
+
+      return {
+        messages: pending.slice(omitted.length),
+        omittedCount: omitted.length,
+        lastOmittedMessageId: omitted[omitted.length - 1]?._id ?? null,
+        foundAfterMessage: afterIndex >= 0,
+      };
+    }
+
+    // Walk back to the summarized message, keeping the newest messages and counting the rest
+    const messages: Doc<'messages'>[] = [];
+    let omittedCount = 0;
+    let lastOmittedMessageId: Id<'messages'> | null = null;
+    let foundAfterMessage = false;
+    let current = await ctx.db.get(leafId);
+    while (current) {
+      if (current._id === afterMessageId) {
+        foundAfterMessage = true;
+        break;
+      }
+      if (!current.isDeleted) {
+        if (messages.length < limit) {
+          messages.push(current);
+        } else {
+          lastOmittedMessageId ??= current._id;
+          omittedCount++;
+        }
+      }
+      current = current.parentMessageId ? await ctx.db.get(current.parentMessageId) : null;
+    }
 
-    return messages;
+    return {
+      messages: messages.reverse(),
+      omittedCount,
+      lastOmittedMessageId,
+      foundAfterMessage,
+    };
   },
 });
 
 /**
- * Get messages for a thread
+ * Link a pre-branching thread's messages into a chain and return its active leaf
+ * Run before reading a message's parent, which legacy messages don't have yet (no auth check)
  */
-export const getThreadMessages = query({
+export const ensureThreadTree = internalMutation({
+  args: {
+    threadId: v.id('threads'),
+  },
+  handler: async (ctx, args) => {
+    const thread = await ctx.db.get(args.threadId);
+    if (!thread) {
+      throw new ConvexError('Thread not found');
+    }
+
+    return { activeLeafMessageId: await ensureMessageTree(ctx, thread) };
+  },
+});
+
+/**
+ * Get messages for a thread's active branch (internal use - no auth check)
+ */
+export const getThreadMessagesInternal = internalQuery({
   args: {
     threadId: v.id('threads'),
-    clerkId: v.string(),
     limit: v.optional(v.number()),
-    offset: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
-    const { threadId, clerkId, limit = 50, offset = 0 } = args;
+    const { threadId, limit = 100 } = args;
 
-    // Get user by clerkId
-    const user = await getUserByClerkId(ctx, clerkId);
+    const thread = await ctx.db.get(threadId);
+    if (!thread) {
+      return [];
+    }
+
+    const messages = await getActivePath(ctx, thread);
+    return messages.slice(-limit);
+  },
+});
+
+/**
+ * Get a page of messages on a thread's active branch with sibling counts
+ * Pages run from the newest message backwards; pass nextCursor to load older ones
+ */
+export const getThreadMessages = internalQuery({
+  args: {
+    threadId: v.id('threads'),
+    userId: v.id('users'),
+    limit: v.optional(v.number()),
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const { threadId, userId, limit = 50, cursor = null } = args;
 
     // Verify user has access to this thread
     const thread = await ctx.db.get(threadId);
-    if (!thread || thread.userId !== user._id) {
+    if (!thread || thread.userId !== userId) {
       throw new ConvexError('Thread not found or access denied');
     }
 
-    const messages = await ctx.db
-      .query('messages')
-      .withIndex('by_thread_created', (q: any) => q.eq('threadId', threadId))
-      .order('asc')
-      .filter((q: any) => q.neq(q.field('isDeleted'), true))
-      .paginate({ numItems: limit, cursor: null })
-      .then((result: any) => result.page.slice(offset, offset + limit));
+    const page = await getActivePathPage(ctx, thread, limit, cursor);
+    return {
+      messages: await withBranchInfo(ctx, thread, page.messages),
+      nextCursor: page.nextCursor,
+    };
+  },
+});
+
+/**
+ * Get a single message with user authorization
+ */
+export const getMessage = internalQuery({
+  args: {
+    messageId: v.id('messages'),
+    userId: v.id('users'),
+  },
+  handler: async (ctx, args) => {
+    const { messageId, userId } = args;
+
+    const message = await ctx.db.get(messageId);
+    const thread = message && (await ctx.db.get(message.threadId));
+    if (!message || message.isDeleted || !thread || thread.userId !== userId) {
+      throw new ConvexError('Message not found or access denied');
+    }
 
-    return messages;
+    return message;
   },
 });
 
 /**
- * Save a message to the database
+ * Get several messages of a thread in the given order, skipping missing ones (no auth check)
  */
-export const saveMessage = mutation({
+export const getMessagesByIds = internalQuery({
   args: {
     threadId: v.id('threads'),
+    messageIds: v.array(v.id('messages')),
+  },
+  handler: async (ctx, args) => {
+    const messages = await Promise.all(args.messageIds.map(id => ctx.db.get(id)));
+    return messages.filter(
+      (message): message is Doc<'messages'> => !!message && message.threadId === args.threadId
+    );
+  },
+});
+
+/**
+ * Save a message to the database and make it the tip of the active branch
+ * Without a parentMessageId it continues the active branch; null starts a new root
+ */
+export const saveMessage = internalMutation({
+  args: {
+    threadId: v.id('threads'),
+    parentMessageId: v.optional(v.union(v.id('messages'), v.null())),
     role: v.union(v.literal('user'), v.literal('assistant'), v.literal('system')),
     content: MessageContent,
     metadata: v.any(),
     edited: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
+    const { parentMessageId, ...message } = args;
+
+    const thread = await ctx.db.get(args.threadId);
+    if (!thread) {
+      throw new ConvexError('Thread not found');
+    }
+
+    const activeLeafId = await ensureMessageTree(ctx, thread);
+    const parentId = parentMessageId === undefined ? activeLeafId : (parentMessageId ?? undefined);
+
     const messageId = await ctx.db.insert('messages', {
-      ...args,
+      ...message,
+      userId: thread.userId,
+      searchText: getMessageSearchText(message.content),
+      parentMessageId: parentId,
       createdAt: Date.now(),
       updatedAt: Date.now(),
     });
+
+    await ctx.db.patch(args.threadId, { activeLeafMessageId: messageId });
+
+    return { messageId };
+  },
+});
+
+/**
+ * Switch the active branch to the one containing a message
+ * Used for "< 2/3 >" navigation between edits and retries
+ */
+export const selectBranch = internalMutation({
+  args: {
+    messageId: v.id('messages'),
+    userId: v.id('users'),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { messageId, userId, limit = 50 } = args;
+
+    const message = await ctx.db.get(messageId);
+    const thread = message && (await ctx.db.get(message.threadId));
+    if (!message || message.isDeleted || !thread || thread.userId !== userId) {
+      throw new ConvexError('Message not found or access denied');
+    }
+
+    await ensureMessageTree(ctx, thread);
+
+    // Show the most recent continuation of the chosen branch
+    const leaf = await getLatestLeaf(ctx, message);
+    await ctx.db.patch(thread._id, { activeLeafMessageId: leaf._id, updatedAt: Date.now() });
+
+    const updatedThread = { ...thread, activeLeafMessageId: leaf._id };
+    const page = await getActivePathPage(ctx, updatedThread, limit, null);
+    return {
+      threadId: thread._id,
+      messages: await withBranchInfo(ctx, updatedThread, page.messages),
+      nextCursor: page.nextCursor,
+    };
+  },
+});
+
+/**
+ * Replace a generated message's content and metadata (internal use - no auth check)
+ * Used when a stopped answer is continued
+ */
+export const replaceMessageContent = internalMutation({
+  args: {
+    messageId: v.id('messages'),
+    content: MessageContent,
+    metadata: v.any(),
+  },
+  handler: async (ctx, args) => {
+    const { messageId, content, metadata } = args;
+
+    await ctx.db.patch(messageId, {
+      content,
+      searchText: getMessageSearchText(content),
+      metadata,
+      updatedAt: Date.now(),
+    });
+
     return { messageId };
   },
 });
@@ -85,17 +527,31 @@ export const saveMessage = mutation({
 /**
  * Update an existing message
  */
-export const updateMessage = mutation({
+export const updateMessage = internalMutation({
   args: {
     messageId: v.id('messages'),
+    userId: v.id('users'),
     content: MessageContent,
     edited: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
-    const { messageId, content, edited = true } = args;
+    const { messageId, userId, content, edited = true } = args;
+
+    // Get the message and verify access
+    const message = await ctx.db.get(messageId);
+    if (!message) {
+      throw new ConvexError('Message not found');
+    }
+
+    // Get the thread to verify user access
+    const thread = await ctx.db.get(message.threadId);
+    if (!thread || thread.userId !== userId) {
+      throw new ConvexError('Message not found or access denied');
+    }
 
     await ctx.db.patch(messageId, {
       content,
+      searchText: getMessageSearchText(content),
       edited,
       editedAt: Date.now(),
       updatedAt: Date.now(),
@@ -108,31 +564,23 @@ export const updateMessage = mutation({
 /**
  * Delete messages from a specific index onwards (for retry operations)
  */
-export const deleteMessagesFromIndex = mutation({
+export const deleteMessagesFromIndex = internalMutation({
   args: {
     threadId: v.id('threads'),
     fromIndex: v.number(),
-    clerkId: v.string(),
+    userId: v.id('users'),
   },
   handler: async (ctx, args) => {
-    const { threadId, fromIndex, clerkId } = args;
-
-    // Get user by clerkId
-    const user = await getUserByClerkId(ctx, clerkId);
+    const { threadId, fromIndex, userId } = args;
 
     // Verify user has access to this thread
     const thread = await ctx.db.get(threadId);
-    if (!thread || thread.userId !== user._id) {
+    if (!thread || thread.userId !== userId) {
       throw new ConvexError('Thread not found or access denied');
     }
 
-    // Get all messages for the thread
-    const messages = await ctx.db
-      .query('messages')
-      .withIndex('by_thread_created', (q: any) => q.eq('threadId', threadId))
-      .order('asc')
-      .filter((q: any) => q.neq(q.field('isDeleted'), true))
-      .collect();
+    // Indexes refer to the active branch, which is what clients display
+    const messages = await getActivePath(ctx, thread);
 
     // Delete messages from the specified index onwards
     const messagesToDelete = messages.slice(fromIndex);
@@ -152,16 +600,13 @@ export const deleteMessagesFromIndex = mutation({
 /**
  * Soft delete a message
  */
-export const deleteMessage = mutation({
+export const deleteMessage = internalMutation({
   args: {
     messageId: v.id('messages'),
-    clerkId: v.string(),
+    userId: v.id('users'),
   },
   handler: async (ctx, args) => {
-    const { messageId, clerkId } = args;
-
-    // Get user by clerkId
-    const user = await getUserByClerkId(ctx, clerkId);
+    const { messageId, userId } = args;
 
     // Get the message and verify access
     const message = await ctx.db.get(messageId);
@@ -171,8 +616,8 @@ export const deleteMessage = mutation({
 
     // Get the thread to verify user access
     const thread = await ctx.db.get(message.threadId);
-    if (!thread || thread.userId !== user._id) {
-      throw new ConvexError('Access denied');
+    if (!thread || thread.userId !== userId) {
+      throw new ConvexError('Message not found or access denied');
     }
 
     await ctx.db.patch(messageId, {
@@ -183,3 +628,96 @@ export const deleteMessage = mutation({
     return { success: true };
   },
 });
+
+/**
+ * Full-text search over a user's messages, returning snippets with the matched terms marked
+ */
+export const searchMessages = internalQuery({
+  args: {
+    userId: v.id('users'),
+    searchQuery: v.string(),
+    limit: v.optional(v.number()),
+    archived: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const { userId, searchQuery, limit = 20, archived = false } = args;
+
+    if (!searchQuery.trim()) {
+      return [];
+    }
+
+    // Deleted messages and threads in the other archive state are dropped below, so over-fetch
+    const candidates = await ctx.db
+      .query('messages')
+      .withSearchIndex('search_text', q => q.search('searchText', searchQuery).eq('userId', userId))
+      .take(limit * 3);
+
+    const threads = new Map<Id<'threads'>, Doc<'threads'> | null>();
+    const results = [];
+
+    for (const message of candidates) {
+      if (message.isDeleted || !message.searchText) continue;
+
+      if (!threads.has(message.threadId)) {
+        threads.set(message.threadId, await ctx.db.get(message.threadId));
+      }
+      const thread = threads.get(message.threadId);
+      if (!thread || thread.userId !== userId || (thread.isArchived === true) !== archived) {
+        continue;
+      }
+
+      results.push({
+        messageId: message._id,
+        threadId: message.threadId,
+        role: message.role,
+        createdAt: message.createdAt,
+        ...buildSearchSnippet(message.searchText, searchQuery),
+        thread,
+      });
+      if (results.length >= limit) break;
+    }
+
+    return results;
+  },
+});
+
+/**
+ * Fill in userId and searchText on messages saved before full-text search existed
+ * Start with `npx convex run services/message_service:backfillSearchText`; it reschedules
+ * itself until every page is done
+ */
+export const backfillSearchText = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args): Promise<{ updated: number; isDone: boolean }> => {
+    const result = await ctx.db
+      .query('messages')
+      .paginate({ numItems: 200, cursor: args.cursor ?? null });
+
+    const owners = new Map<Id<'threads'>, Id<'users'> | undefined>();
+    let updated = 0;
+
+    for (const message of result.page) {
+      if (message.userId && message.searchText !== undefined) continue;
+
+      if (!owners.has(message.threadId)) {
+        owners.set(message.threadId, (await ctx.db.get(message.threadId))?.userId);
+      }
+
+      await ctx.db.patch(message._id, {
+        userId: owners.get(message.threadId),
+        searchText: getMessageSearchText(message.content),
+      });
+      updated++;
+    }
+
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, internal.services.message_service.backfillSearchText, {
+        cursor: result.continueCursor,
+      });
+    }
+
+    return { updated, isDone: result.isDone };
+  },
+});
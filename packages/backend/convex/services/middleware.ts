@@ -1,49 +1,21 @@
-import { ActionCtx, QueryCtx, MutationCtx } from '../_generated/server';
+import { httpAction, ActionCtx, QueryCtx, MutationCtx } from '../_generated/server';
+import type { Doc } from '../_generated/dataModel';
+import type { UserIdentity } from 'convex/server';
+import type { Infer } from 'convex/values';
+import type { ApiTokenScope as ApiTokenScopeValidator } from '../schemas/api_token';
+
+export type AuthenticatedUser = Doc<'users'>;
 
 /**
- * Get authenticated user ID by looking up clerkId in database
- * Frontend should send clerkId in request body or Authorization header
+ * Get the verified identity for the current request.
+ * Convex validates the JWT sent as `Authorization: Bearer <token>` against
+ * the providers in auth.config.ts, so a raw clerkId is never trusted here.
  */
-export async function getAuthUserId(
-  ctx: ActionCtx | QueryCtx | MutationCtx,
-  request?: Request
-): Promise<string | null> {
+export async function getAuthIdentity(
+  ctx: ActionCtx | QueryCtx | MutationCtx
+): Promise<UserIdentity | null> {
   try {
-    let clerkId: string | null = null;
-
-    // Try to get clerkId from Authorization header first
-    if (request) {
-      const authHeader = request.headers.get('Authorization');
-      if (authHeader && authHeader.startsWith('Bearer ')) {
-        clerkId = authHeader.substring(7); // Remove 'Bearer ' prefix
-      }
-    }
-
-    // If not in header, try to get from request body
-    if (!clerkId && request) {
-      try {
-        const body = await request.json();
-        clerkId = body.clerkId;
-
-        // Reset the request body for later use
-        // Note: We'll need to parse it again in the route handlers
-      } catch (error) {
-        // Request body might not be JSON or already consumed
-      }
-    }
-
-    // Fallback to Clerk's built-in auth if no clerkId provided
-    if (!clerkId) {
-      const identity = await ctx.auth.getUserIdentity();
-      clerkId = identity?.subject || null;
-    }
-
-    if (!clerkId) {
-      return null;
-    }
-
-    // Look up internal userId using clerkId
-    return await getUserIdFromClerkId(ctx, clerkId);
+    return await ctx.auth.getUserIdentity();
   } catch (error) {
     console.error('Auth error:', error);
     return null;
@@ -51,49 +23,142 @@ export async function getAuthUserId(
 }
 
 /**
- * Get userId directly from clerkId - works with all context types
+ * Resolve the verified identity to a row in the users table
  */
-export async function getUserIdFromClerkId(
-  ctx: ActionCtx | QueryCtx | MutationCtx,
-  clerkId: string
-): Promise<any | null> {
+export async function getAuthUser(
+  ctx: ActionCtx | QueryCtx | MutationCtx
+): Promise<AuthenticatedUser | null> {
+  const identity = await getAuthIdentity(ctx);
+  if (!identity) {
+    return null;
+  }
+
   try {
     // If we have direct database access (Query/Mutation), use it
     if ('db' in ctx) {
-      const user = await ctx.db
+      return await ctx.db
         .query('users')
-        .withIndex('by_clerk_id', (q: any) => q.eq('clerkId', clerkId))
+        .withIndex('by_clerk_id', q => q.eq('clerkId', identity.subject))
         .unique();
-
-      return user?._id || null;
     }
 
     // If we're in an Action context, we need to call a query
-    if ('runQuery' in ctx) {
-      const { api } = await import('../_generated/api');
-      const user = await ctx.runQuery(api.auth.getUserByClerkId, { clerkId });
-      return user?._id || null;
-    }
-
-    return null;
+    const { internal } = await import('../_generated/api');
+    return await ctx.runQuery(internal.auth.getUserByClerkId, { clerkId: identity.subject });
   } catch (error) {
-    console.error('Error looking up user by clerkId:', error);
+    console.error('Error looking up authenticated user:', error);
     return null;
   }
 }
 
+type AuthenticatedHandler = (
+  ctx: ActionCtx,
+  request: Request,
+  user: AuthenticatedUser
+) => Promise<Response>;
+
+export type ApiTokenScope = Infer<typeof ApiTokenScopeValidator>;
+
+// Personal access tokens start with this so they are never mistaken for Clerk JWTs
+export const API_TOKEN_PREFIX = 'czo_';
+
+/**
+ * Read a personal access token sent as `Authorization: Bearer czo_...`
+ */
+function getBearerApiToken(request: Request): string | null {
+  const header = request.headers.get('Authorization') ?? '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+  return token.startsWith(API_TOKEN_PREFIX) ? token : null;
+}
+
 /**
- * Ensure user is authenticated or throw error
+ * Resolve a personal access token to its owner, recording when it was last used
+ * Returns null when the token is unknown, expired or lacks the scope
  */
-export async function requireAuth(
-  ctx: ActionCtx | QueryCtx | MutationCtx,
-  request?: Request
-): Promise<string> {
-  const userId = await getAuthUserId(ctx, request);
-  if (!userId) {
-    throw new Error('Authentication required');
+async function getApiTokenUser(
+  ctx: ActionCtx,
+  rawToken: string,
+  scope: ApiTokenScope
+): Promise<AuthenticatedUser | null> {
+  const { internal } = await import('../_generated/api');
+  const { hashSecret } = await import('../lib/crypto');
+
+  const result = await ctx.runQuery(internal.services.api_token_service.getTokenByHash, {
+    tokenHash: await hashSecret(rawToken),
+  });
+  if (!result || !result.token.scopes.includes(scope)) {
+    return null;
   }
-  return userId;
+
+  await ctx.runMutation(internal.services.api_token_service.touchApiToken, {
+    tokenId: result.token._id,
+  });
+  return result.user;
+}
+
+/**
+ * Run a handler for the user behind the request
+ * A personal access token is only accepted when the route has a scope it was granted
+ */
+function authenticate(handler: AuthenticatedHandler, scope?: ApiTokenScope) {
+  return httpAction(async (ctx, request) => {
+    const apiToken = getBearerApiToken(request);
+    if (apiToken) {
+      if (!scope) {
+        return createErrorResponse(
+          'API tokens cannot be used for this endpoint: sign in to the app instead',
+          403,
+          'auth_error'
+        );
+      }
+
+      const user = await getApiTokenUser(ctx, apiToken, scope);
+      if (!user) {
+        return createErrorResponse(
+          `Invalid or expired API token, or it lacks the ${scope} scope`,
+          401,
+          'auth_error'
+        );
+      }
+
+      return handler(ctx, request, user);
+    }
+
+    const identity = await getAuthIdentity(ctx);
+    if (!identity) {
+      return createErrorResponse(
+        'Authentication required: send a valid bearer token',
+        401,
+        'auth_error'
+      );
+    }
+
+    const user = await getAuthUser(ctx);
+    if (!user) {
+      return createErrorResponse(
+        'User not found: sync the account before calling the API',
+        401,
+        'auth_error'
+      );
+    }
+
+    return handler(ctx, request, user);
+  });
+}
+
+/**
+ * Wrap an HTTP handler so it only runs for a verified user.
+ * The resolved users row is injected as the third argument.
+ */
+export function withAuth(handler: AuthenticatedHandler) {
+  return authenticate(handler);
+}
+
+/**
+ * Like withAuth, but personal access tokens granted the scope are accepted too
+ */
+export function withScopedAuth(scope: ApiTokenScope, handler: AuthenticatedHandler) {
+  return authenticate(handler, scope);
 }
 
 /**
@@ -107,6 +172,15 @@ export async function parseRequestBody<T = any>(request: Request): Promise<T> {
   }
 }
 
+/**
+ * Read the `limit` query parameter as a page size between 1 and maxLimit
+ * Missing or non-numeric values fall back to defaultLimit
+ */
+export function parseLimitParam(url: URL, defaultLimit: number, maxLimit: number): number {
+  const limit = parseInt(url.searchParams.get('limit') ?? '', 10);
+  return Number.isNaN(limit) ? defaultLimit : Math.min(Math.max(limit, 1), maxLimit);
+}
+
 /**
  * Create standard error response
  */
@@ -130,6 +204,38 @@ export function createErrorResponse(
   );
 }
 
+/**
+ * Create a 429 response for an exhausted quota, saying which limit was hit and when it resets
+ */
+export function createQuotaExceededResponse(
+  message: string,
+  quota: { name: string; limit: number; used: number; resetAt: number; modelTier: string }
+): Response {
+  const retryAfterSeconds = Math.max(Math.ceil((quota.resetAt - Date.now()) / 1000), 1);
+
+  return new Response(
+    JSON.stringify({
+      error: {
+        message,
+        type: 'rate_limit_exceeded',
+        quota: quota.name,
+        modelTier: quota.modelTier,
+        limit: quota.limit,
+        used: quota.used,
+        resetAt: new Date(quota.resetAt).toISOString(),
+        timestamp: new Date().toISOString(),
+      },
+    }),
+    {
+      status: 429,
+      headers: {
+        'Content-Type': 'application/json',
+        'Retry-After': String(retryAfterSeconds),
+      },
+    }
+  );
+}
+
 /**
  * Create standard success response
  */
@@ -0,0 +1,156 @@
+import { internalMutation, internalQuery } from '../_generated/server';
+import { v } from 'convex/values';
+import { ConvexError } from 'convex/values';
+
+const MAX_NAME_LENGTH = 60;
+const MAX_INSTRUCTIONS_LENGTH = 8000;
+
+/**
+ * Validate persona name and instructions
+ */
+const validatePersonaFields = (fields: { name?: string; instructions?: string }) => {
+  if (fields.name !== undefined) {
+    const trimmedName = fields.name.trim();
+    if (trimmedName.length === 0) {
+      throw new ConvexError('Persona name cannot be empty');
+    }
+    if (trimmedName.length > MAX_NAME_LENGTH) {
+      throw new ConvexError(`Persona name cannot exceed ${MAX_NAME_LENGTH} characters`);
+    }
+  }
+
+  if (fields.instructions !== undefined) {
+    const trimmedInstructions = fields.instructions.trim();
+    if (trimmedInstructions.length === 0) {
+      throw new ConvexError('Persona instructions cannot be empty');
+    }
+    if (trimmedInstructions.length > MAX_INSTRUCTIONS_LENGTH) {
+      throw new ConvexError(
+        `Persona instructions cannot exceed ${MAX_INSTRUCTIONS_LENGTH} characters`
+      );
+    }
+  }
+};
+
+/**
+ * Get personas for a user
+ */
+export const getUserPersonas = internalQuery({
+  args: {
+    userId: v.id('users'),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query('personas')
+      .withIndex('by_user_updated', q => q.eq('userId', args.userId))
+      .order('desc')
+      .collect();
+  },
+});
+
+/**
+ * Get a single persona with user authorization
+ */
+export const getPersona = internalQuery({
+  args: {
+    personaId: v.id('personas'),
+    userId: v.id('users'),
+  },
+  handler: async (ctx, args) => {
+    const { personaId, userId } = args;
+
+    const persona = await ctx.db.get(personaId);
+    if (!persona || persona.userId !== userId) {
+      throw new ConvexError('Persona not found or access denied');
+    }
+
+    return persona;
+  },
+});
+
+/**
+ * Create a new persona
+ */
+export const createPersona = internalMutation({
+  args: {
+    userId: v.id('users'),
+    name: v.string(),
+    description: v.optional(v.string()),
+    instructions: v.string(),
+    defaultModelId: v.optional(v.string()),
+    enabledTools: v.optional(v.array(v.string())),
+  },
+  handler: async (ctx, args) => {
+    validatePersonaFields(args);
+
+    const now = Date.now();
+    const personaId = await ctx.db.insert('personas', {
+      ...args,
+      name: args.name.trim(),
+      instructions: args.instructions.trim(),
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return await ctx.db.get(personaId);
+  },
+});
+
+/**
+ * Update a persona with user authorization
+ */
+export const updatePersona = internalMutation({
+  args: {
+    personaId: v.id('personas'),
+    userId: v.id('users'),
+    name: v.optional(v.string()),
+    description: v.optional(v.string()),
+    instructions: v.optional(v.string()),
+    defaultModelId: v.optional(v.string()),
+    enabledTools: v.optional(v.array(v.string())),
+  },
+  handler: async (ctx, args) => {
+    const { personaId, userId, ...updates } = args;
+
+    // Verify user has access to this persona
+    const persona = await ctx.db.get(personaId);
+    if (!persona || persona.userId !== userId) {
+      throw new ConvexError('Persona not found or access denied');
+    }
+
+    validatePersonaFields(updates);
+
+    await ctx.db.patch(personaId, {
+      ...updates,
+      ...(updates.name !== undefined && { name: updates.name.trim() }),
+      ...(updates.instructions !== undefined && { instructions: updates.instructions.trim() }),
+      updatedAt: Date.now(),
+    });
+
+    return await ctx.db.get(personaId);
+  },
+});
+
+/**
+ * Delete a persona with user authorization
+ * Threads that reference it fall back to the default prompt
+ */
+export const deletePersona = internalMutation({
+  args: {
+    personaId: v.id('personas'),
+    userId: v.id('users'),
+  },
+  handler: async (ctx, args) => {
+    const { personaId, userId } = args;
+
+    // Verify user has access to this persona
+    const persona = await ctx.db.get(personaId);
+    if (!persona || persona.userId !== userId) {
+      throw new ConvexError('Persona not found or access denied');
+    }
+
+    await ctx.db.delete(personaId);
+
+    return { success: true, deletedPersonaId: personaId };
+  },
+});
@@ -0,0 +1,215 @@
+import { internalMutation, internalQuery, type QueryCtx } from '../_generated/server';
+import { v } from 'convex/values';
+import type { Id } from '../_generated/dataModel';
+import { getModelById, type ModelTier } from '../config/models';
+import {
+  DEFAULT_TIER_LIMITS,
+  MODEL_TIERS,
+  OWN_KEY_QUOTAS,
+  type QuotaLimits,
+  type QuotaName,
+} from '../config/quotas';
+import { DAY_MS, getEventCost, getUsageRecords, roundCost } from '../lib/usage';
+import { ModelTier as ModelTierValidator } from '../schemas/quota';
+
+const MINUTE_MS = 60 * 1000;
+
+export type QuotaUsage = {
+  name: QuotaName;
+  limit: number;
+  used: number;
+  remaining: number;
+  resetAt: number;
+};
+
+const isInTier = (modelId: string, tier: ModelTier) => getModelById(modelId)?.tier === tier;
+
+/**
+ * A tier's default limits with the user's overrides applied
+ */
+const getUserLimits = async (
+  ctx: QueryCtx,
+  userId: Id<'users'>,
+  tier: ModelTier
+): Promise<QuotaLimits> => {
+  const override = await ctx.db
+    .query('userQuotas')
+    .withIndex('by_user_tier', q => q.eq('userId', userId).eq('modelTier', tier))
+    .first();
+
+  const defaults = DEFAULT_TIER_LIMITS[tier];
+  const pick = (key: keyof QuotaLimits) =>
+    override?.[key] === undefined ? defaults[key] : override[key];
+
+  return {
+    requestsPerMinute: pick('requestsPerMinute'),
+    tokensPerDay: pick('tokensPerDay'),
+    spendPerMonth: pick('spendPerMonth'),
+  };
+};
+
+/**
+ * Current usage against each of a tier's limits; unlimited measures are left out
+ */
+const getTierUsage = async (
+  ctx: QueryCtx,
+  userId: Id<'users'>,
+  tier: ModelTier,
+  now: number
+): Promise<QuotaUsage[]> => {
+  const limits = await getUserLimits(ctx, userId, tier);
+  const usage: QuotaUsage[] = [];
+
+  const toUsage = (name: QuotaName, limit: number, used: number, resetAt: number) => ({
+    name,
+    limit,
+    used,
+    remaining: Math.max(limit - used, 0),
+    resetAt,
+  });
+
+  if (limits.requestsPerMinute !== null) {
+    // Includes pending events, so requests still generating count from when they started
+    const recent = (
+      await ctx.db
+        .query('usageEvents')
+        .withIndex('by_user_timestamp', q =>
+          q.eq('userId', userId).gte('timestamp', now - MINUTE_MS)
+        )
+        .collect()
+    ).filter(event => isInTier(event.modelId, tier));
+
+    // A request is allowed again once enough of the oldest ones leave the window
+    const freedBy = recent[Math.max(recent.length - limits.requestsPerMinute, 0)];
+    usage.push(
+      toUsage(
+        'requests_per_minute',
+        limits.requestsPerMinute,
+        recent.length,
+        (freedBy?.timestamp ?? now) + MINUTE_MS
+      )
+    );
+  }
+
+  if (limits.tokensPerDay === null && limits.spendPerMonth === null) {
+    return usage;
+  }
+
+  const today = Math.floor(now / DAY_MS);
+  const date = new Date(now);
+  const monthStart = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  const nextMonthStart = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+  const monthStartDay = Math.floor(monthStart / DAY_MS);
+
+  const { summaries, events: monthEvents } = await getUsageRecords(ctx, userId, monthStartDay);
+  const events = monthEvents.filter(event => isInTier(event.modelId, tier));
+
+  if (limits.tokensPerDay !== null) {
+    const tokensToday = events
+      .filter(event => event.daysSinceEpoch === today)
+      .reduce((sum, event) => sum + event.totalTokens, 0);
+    usage.push(toUsage('tokens_per_day', limits.tokensPerDay, tokensToday, (today + 1) * DAY_MS));
+  }
+
+  if (limits.spendPerMonth !== null) {
+    const summarizedSpend = summaries
+      .flatMap(summary => summary.modelUsage)
+      .filter(entry => isInTier(entry.modelId, tier))
+      .reduce((sum, entry) => sum + entry.totalCost, 0);
+    const recentSpend = events.reduce((sum, event) => sum + getEventCost(event), 0);
+    usage.push(
+      toUsage(
+        'spend_per_month',
+        limits.spendPerMonth,
+        roundCost(summarizedSpend + recentSpend),
+        nextMonthStart
+      )
+    );
+  }
+
+  return usage;
+};
+
+/**
+ * Check whether a user may send another request to a model and, if so, record it as a pending
+ * usage event in the same transaction, so concurrent requests can't all pass the check before
+ * any of them counts. chat_service.trackUsage completes the event once the request finishes
+ * ownKey skips the token and spend limits, which only protect the server's provider keys
+ */
+export const reserveRequest = internalMutation({
+  args: {
+    userId: v.id('users'),
+    modelId: v.string(),
+    ownKey: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const model = getModelById(args.modelId);
+
+    if (model) {
+      const usage = (await getTierUsage(ctx, args.userId, model.tier, now)).filter(
+        quota => !args.ownKey || OWN_KEY_QUOTAS.includes(quota.name)
+      );
+      const exceeded = usage.find(quota => quota.used >= quota.limit);
+      if (exceeded) {
+        return { tier: model.tier, exceeded, usageEventId: null };
+      }
+    }
+
+    const usageEventId = await ctx.db.insert('usageEvents', {
+      userId: args.userId,
+      modelId: args.modelId,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      timestamp: now,
+      daysSinceEpoch: Math.floor(now / DAY_MS),
+      status: 'pending',
+    });
+    return { tier: model?.tier ?? null, exceeded: null, usageEventId };
+  },
+});
+
+/**
+ * Get a user's usage against every tier's limits
+ */
+export const getQuotaStatus = internalQuery({
+  args: {
+    userId: v.id('users'),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    return await Promise.all(
+      MODEL_TIERS.map(async tier => ({
+        tier,
+        quotas: await getTierUsage(ctx, args.userId, tier, now),
+      }))
+    );
+  },
+});
+
+/**
+ * Override a user's limits for a tier; run from the dashboard or CLI
+ * Pass null to lift a limit, or leave a field out to keep the tier default
+ */
+export const setUserQuota = internalMutation({
+  args: {
+    userId: v.id('users'),
+    modelTier: ModelTierValidator,
+    requestsPerMinute: v.optional(v.union(v.number(), v.null())),
+    tokensPerDay: v.optional(v.union(v.number(), v.null())),
+    spendPerMonth: v.optional(v.union(v.number(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query('userQuotas')
+      .withIndex('by_user_tier', q => q.eq('userId', args.userId).eq('modelTier', args.modelTier))
+      .first();
+
+    if (existing) {
+      await ctx.db.replace(existing._id, { ...args, updatedAt: Date.now() });
+      return existing._id;
+    }
+    return await ctx.db.insert('userQuotas', { ...args, updatedAt: Date.now() });
+  },
+});
@@ -0,0 +1,180 @@
+import { internalMutation, internalQuery } from '../_generated/server';
+import { v } from 'convex/values';
+import { ConvexError } from 'convex/values';
+import type { Doc } from '../_generated/dataModel';
+import { ContextInfo } from '../schemas/stream';
+
+// A stream that hasn't been written to for this long is assumed to belong to a dead action
+export const STREAM_STALE_AFTER_MS = 2 * 60 * 1000;
+
+/**
+ * Check whether a stream is still being generated
+ */
+export const isStreamActive = (stream: Doc<'streams'>, now: number = Date.now()) =>
+  stream.status === 'streaming' && now - stream.updatedAt < STREAM_STALE_AFTER_MS;
+
+/**
+ * Start a new stream for a generation
+ */
+export const createStream = internalMutation({
+  args: {
+    userId: v.id('users'),
+    threadId: v.id('threads'),
+    modelId: v.string(),
+    context: v.optional(ContextInfo),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const streamId = await ctx.db.insert('streams', {
+      ...args,
+      status: 'streaming',
+      text: '',
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return { streamId };
+  },
+});
+
+/**
+ * Save the text generated so far
+ */
+export const updateStreamText = internalMutation({
+  args: {
+    streamId: v.id('streams'),
+    text: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const stream = await ctx.db.get(args.streamId);
+    if (!stream || stream.status !== 'streaming') {
+      return;
+    }
+
+    await ctx.db.patch(args.streamId, {
+      text: args.text,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Mark a stream as completed or failed
+ */
+export const finishStream = internalMutation({
+  args: {
+    streamId: v.id('streams'),
+    status: v.union(v.literal('completed'), v.literal('error')),
+    text: v.optional(v.string()),
+    messageId: v.optional(v.id('messages')),
+    errorMessage: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { streamId, ...updates } = args;
+
+    const stream = await ctx.db.get(streamId);
+    if (!stream) {
+      return;
+    }
+
+    await ctx.db.patch(streamId, {
+      ...updates,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Ask an in-flight generation to stop; it saves its partial answer once it notices
+ * Returns whether the stream was still being generated
+ */
+export const requestCancel = internalMutation({
+  args: {
+    streamId: v.id('streams'),
+    userId: v.id('users'),
+  },
+  handler: async (ctx, args) => {
+    const stream = await ctx.db.get(args.streamId);
+    if (!stream || stream.userId !== args.userId) {
+      throw new ConvexError('Stream not found or access denied');
+    }
+
+    if (!isStreamActive(stream)) {
+      return { cancelled: false };
+    }
+
+    await ctx.db.patch(args.streamId, { cancelRequested: true });
+    return { cancelled: true };
+  },
+});
+
+/**
+ * Check whether the user asked a generation to stop
+ */
+export const isCancelRequested = internalQuery({
+  args: {
+    streamId: v.id('streams'),
+  },
+  handler: async (ctx, args) => {
+    const stream = await ctx.db.get(args.streamId);
+    return stream?.cancelRequested === true;
+  },
+});
+
+/**
+ * Get a stream with user authorization
+ */
+export const getStream = internalQuery({
+  args: {
+    streamId: v.id('streams'),
+    userId: v.id('users'),
+  },
+  handler: async (ctx, args) => {
+    const stream = await ctx.db.get(args.streamId);
+    if (!stream || stream.userId !== args.userId) {
+      throw new ConvexError('Stream not found or access denied');
+    }
+
+    return stream;
+  },
+});
+
+/**
+ * Get the latest in-flight stream for a thread, if any
+ */
+export const getActiveThreadStream = internalQuery({
+  args: {
+    threadId: v.id('threads'),
+  },
+  handler: async (ctx, args) => {
+    const stream = await ctx.db
+      .query('streams')
+      .withIndex('by_thread_status', q => q.eq('threadId', args.threadId).eq('status', 'streaming'))
+      .order('desc')
+      .first();
+
+    return stream && isStreamActive(stream) ? stream : null;
+  },
+});
+
+/**
+ * Get the most recent generation in a thread with user authorization
+ */
+export const getLatestThreadStream = internalQuery({
+  args: {
+    threadId: v.id('threads'),
+    userId: v.id('users'),
+  },
+  handler: async (ctx, args) => {
+    const thread = await ctx.db.get(args.threadId);
+    if (!thread || thread.userId !== args.userId) {
+      throw new ConvexError('Thread not found or access denied');
+    }
+
+    return await ctx.db
+      .query('streams')
+      .withIndex('by_thread_created', q => q.eq('threadId', args.threadId))
+      .order('desc')
+      .first();
+  },
+});
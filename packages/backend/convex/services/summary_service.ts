@@ -0,0 +1,172 @@
+import { internalAction, internalMutation, internalQuery } from '../_generated/server';
+import { internal } from '../_generated/api';
+import { v } from 'convex/values';
+import type { Doc, Id } from '../_generated/dataModel';
+import { createAIModel } from '../config/models';
+import { SUMMARY_SYSTEM_PROMPT, buildSummaryPrompt } from '../config/summary_prompts';
+import { resolveProviderKeys } from '../lib/provider_keys';
+import { getMessageSearchText } from './message_service';
+
+// Cheap model with a window large enough for a batch of messages
+const SUMMARY_MODEL = 'gemini-2.0-flash';
+
+// Messages folded into the summary per model call
+const SUMMARY_BATCH_SIZE = 40;
+
+// Characters kept from each message in the summarizer's transcript
+const MAX_MESSAGE_CHARS = 2000;
+
+// Messages loaded per query when collecting the ones to summarize
+const SUMMARY_PAGE_SIZE = 1000;
+
+/**
+ * Get a thread's rolling summary (internal use - no auth check)
+ */
+export const getThreadSummary = internalQuery({
+  args: {
+    threadId: v.id('threads'),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query('threadSummaries')
+      .withIndex('by_thread_id', q => q.eq('threadId', args.threadId))
+      .first();
+  },
+});
+
+/**
+ * Create or replace a thread's rolling summary
+ * Only saves when the stored summary still ends at expectedCoveredMessageId (none when
+ * undefined), so concurrent runs can't overwrite each other's progress
+ */
+export const saveThreadSummary = internalMutation({
+  args: {
+    threadId: v.id('threads'),
+    text: v.string(),
+    coveredMessageId: v.id('messages'),
+    coveredMessageCount: v.number(),
+    modelId: v.string(),
+    expectedCoveredMessageId: v.optional(v.id('messages')),
+  },
+  handler: async (ctx, args) => {
+    const { expectedCoveredMessageId, ...summary } = args;
+
+    // The thread may have been deleted while the summary was being written
+    if (!(await ctx.db.get(args.threadId))) return { saved: false };
+
+    const existing = await ctx.db
+      .query('threadSummaries')
+      .withIndex('by_thread_id', q => q.eq('threadId', args.threadId))
+      .first();
+    if (existing?.coveredMessageId !== expectedCoveredMessageId) {
+      return { saved: false };
+    }
+
+    const now = Date.now();
+    if (existing) {
+      await ctx.db.patch(existing._id, { ...summary, updatedAt: now });
+    } else {
+      await ctx.db.insert('threadSummaries', { ...summary, createdAt: now, updatedAt: now });
+    }
+    return { saved: true };
+  },
+});
+
+/**
+ * Fold every message up to upToMessageId into the thread's summary
+ * Scheduled when a completion had to leave messages out of its context; only messages
+ * after the last covered one are sent to the model
+ */
+export const extendThreadSummary = internalAction({
+  args: {
+    userId: v.id('users'),
+    threadId: v.id('threads'),
+    upToMessageId: v.id('messages'),
+  },
+  handler: async (ctx, args) => {
+    const { userId, threadId, upToMessageId } = args;
+
+    const summary = await ctx.runQuery(internal.services.summary_service.getThreadSummary, {
+      threadId,
+    });
+
+    // Everything between the summary and upToMessageId, loaded a page at a time from the newest
+    const pending: Doc<'messages'>[] = [];
+    let pageAnchorId: Id<'messages'> | null = upToMessageId;
+    let extendsSummary = false;
+    while (pageAnchorId) {
+      const page: {
+        messages: Doc<'messages'>[];
+        lastOmittedMessageId: Id<'messages'> | null;
+        foundAfterMessage: boolean;
+      } = await ctx.runQuery(internal.services.message_service.getContextMessages, {
+        threadId,
+        anchorMessageId: pageAnchorId,
+        afterMessageId: summary?.coveredMessageId,
+        limit: SUMMARY_PAGE_SIZE,
+      });
+      pending.unshift(...page.messages);
+      extendsSummary = page.foundAfterMessage;
+      pageAnchorId = page.lastOmittedMessageId;
+    }
+
+    // A summary from another branch is rebuilt for this one, unless it already covers more
+    // (a concurrent run got further along the same thread)
+    if (summary && !extendsSummary && summary.coveredMessageCount >= pending.length) {
+      return;
+    }
+
+    let text = extendsSummary && summary ? summary.text : '';
+    let coveredMessageCount = extendsSummary && summary ? summary.coveredMessageCount : 0;
+    // The summary this run read, which must still be stored when each batch is saved
+    let expectedCoveredMessageId = summary?.coveredMessageId;
+
+    const { generateText } = await import('ai');
+    const providerKeys = await resolveProviderKeys(ctx, userId);
+    const googleKey = providerKeys.google;
+    if (!googleKey) {
+      console.error('Summary generation skipped: no Google API key available');
+      return;
+    }
+
+    for (let i = 0; i < pending.length; i += SUMMARY_BATCH_SIZE) {
+      const batch = pending.slice(i, i + SUMMARY_BATCH_SIZE);
+      const transcript = batch
+        .map(message => {
+          const content = getMessageSearchText(message.content).slice(0, MAX_MESSAGE_CHARS);
+          return `${message.role}: ${content || '[attachment]'}`;
+        })
+        .join('\n\n');
+
+      try {
+        const result = await generateText({
+          model: createAIModel(SUMMARY_MODEL, undefined, googleKey),
+          system: SUMMARY_SYSTEM_PROMPT,
+          prompt: buildSummaryPrompt(text, transcript),
+          maxTokens: 800,
+          temperature: 0.3,
+        });
+        text = result.text.trim();
+      } catch (error) {
+        // Keep what was summarized so far; the next trimmed completion schedules another run
+        console.error('Summary generation failed:', error);
+        return;
+      }
+
+      coveredMessageCount += batch.length;
+      const { saved } = await ctx.runMutation(internal.services.summary_service.saveThreadSummary, {
+        threadId,
+        text,
+        coveredMessageId: batch[batch.length - 1]._id,
+        coveredMessageCount,
+        modelId: SUMMARY_MODEL,
+        expectedCoveredMessageId,
+      });
+      if (!saved) {
+        // Another run moved the summary on first; its result stands
+        return;
+      }
+      expectedCoveredMessageId = batch[batch.length - 1]._id;
+    }
+  },
+});
@@ -1,28 +1,36 @@
-import { action, mutation, query } from '../_generated/server';
+import { internalAction, internalMutation, internalQuery } from '../_generated/server';
 import { v } from 'convex/values';
-import { getUserByClerkId } from './user_service';
 import { ConvexError } from 'convex/values';
-import { api } from '../_generated/api';
+import type { Id } from '../_generated/dataModel';
+import { ThreadSettings } from '../schemas/thread';
+import { getMessagePath, getMessageSearchText } from './message_service';
 
 /**
  * Generate title for a chat thread - with multimodal support (Cloudinary URLs only)
  */
-export const generateThreadTitle = action({
+export const generateThreadTitle = internalAction({
   args: {
     messages: v.array(v.any()), // Accept full message objects (can include images and PDFs)
+    userId: v.id('users'),
   },
   handler: async (ctx, args) => {
-    const { messages } = args;
+    const { messages, userId } = args;
 
     try {
       const { generateText } = await import('ai');
-      const { google } = await import('@ai-sdk/google');
+      const { createAIModel } = await import('../config/models');
+      const { requireProviderKey, resolveProviderKeys } = await import('../lib/provider_keys');
       const { TITLE_GENERATION_SYSTEM_PROMPT, FALLBACK_TITLE } = await import(
         '../config/title_prompts'
       );
 
-      // Always use gemini-2.0-flash for title generation
-      const model = google('gemini-2.0-flash');
+      // Always use gemini-2.0-flash for title generation, billed to the user's key when they have one
+      const providerKeys = await resolveProviderKeys(ctx, userId);
+      const model = createAIModel(
+        'gemini-2.0-flash',
+        undefined,
+        requireProviderKey(providerKeys, 'google')
+      );
 
       // Convert messages to AI SDK format for title generation
       const titleMessages = messages.map((msg: any) => {
@@ -83,33 +91,40 @@ export const generateThreadTitle = action({
 /**
  * Create a new thread
  */
-export const createOrGetThread = mutation({
+export const createOrGetThread = internalMutation({
   args: {
-    clerkId: v.string(),
+    userId: v.id('users'),
     title: v.optional(v.string()),
+    settings: v.optional(ThreadSettings),
   },
   handler: async (ctx, args) => {
-    const { clerkId, title = 'New Chat' } = args;
+    const { userId, title = 'New Chat', settings } = args;
 
-    // Get user by clerkId
-    const user = await getUserByClerkId(ctx, clerkId);
+    if (settings?.personaId) {
+      const persona = await ctx.db.get(settings.personaId);
+      if (!persona || persona.userId !== userId) {
+        throw new ConvexError('Persona not found or access denied');
+      }
+    }
 
     const now = Date.now();
     const threadId = await ctx.db.insert('threads', {
-      userId: user._id, // Use convex user ID instead of clerkId
+      userId,
       title,
       createdAt: now,
       updatedAt: now,
       messageCount: 0,
+      settings,
     });
 
     return {
       id: threadId,
-      userId: user._id,
+      userId,
       title,
       createdAt: now,
       updatedAt: now,
       messageCount: 0,
+      settings,
     };
   },
 });
@@ -117,7 +132,7 @@ export const createOrGetThread = mutation({
 /**
  * Update thread with generated title
  */
-export const updateThreadTitle = mutation({
+export const updateThreadTitle = internalMutation({
   args: {
     threadId: v.id('threads'),
     title: v.string(),
@@ -137,21 +152,18 @@ export const updateThreadTitle = mutation({
 /**
  * Update thread title with user authorization
  */
-export const updateThreadTitleWithAuth = mutation({
+export const updateThreadTitleWithAuth = internalMutation({
   args: {
     threadId: v.id('threads'),
     title: v.string(),
-    clerkId: v.string(),
+    userId: v.id('users'),
   },
   handler: async (ctx, args) => {
-    const { threadId, title, clerkId } = args;
-
-    // Get user by clerkId
-    const user = await getUserByClerkId(ctx, clerkId);
+    const { threadId, title, userId } = args;
 
     // Verify user has access to this thread
     const thread = await ctx.db.get(threadId);
-    if (!thread || thread.userId !== user._id) {
+    if (!thread || thread.userId !== userId) {
       throw new ConvexError('Thread not found or access denied');
     }
 
@@ -173,25 +185,79 @@ export const updateThreadTitleWithAuth = mutation({
   },
 });
 
+/**
+ * Update thread settings with user authorization
+ * Provided fields are merged into the existing settings
+ */
+export const updateThreadSettings = internalMutation({
+  args: {
+    threadId: v.id('threads'),
+    settings: v.object({
+      ...ThreadSettings.fields,
+      // null detaches the thread from its persona
+      personaId: v.optional(v.union(v.id('personas'), v.null())),
+    }),
+    userId: v.id('users'),
+  },
+  handler: async (ctx, args) => {
+    const { threadId, settings, userId } = args;
+    const { personaId, ...otherSettings } = settings;
+
+    // Verify user has access to this thread
+    const thread = await ctx.db.get(threadId);
+    if (!thread || thread.userId !== userId) {
+      throw new ConvexError('Thread not found or access denied');
+    }
+
+    if (
+      settings.temperature !== undefined &&
+      (settings.temperature < 0 || settings.temperature > 2)
+    ) {
+      throw new ConvexError('Temperature must be between 0 and 2');
+    }
+    if (settings.maxTokens !== undefined && settings.maxTokens <= 0) {
+      throw new ConvexError('Max tokens must be a positive number');
+    }
+
+    if (personaId) {
+      const persona = await ctx.db.get(personaId);
+      if (!persona || persona.userId !== userId) {
+        throw new ConvexError('Persona not found or access denied');
+      }
+    }
+
+    const mergedSettings = { ...thread.settings, ...otherSettings };
+    if (personaId === null) {
+      delete mergedSettings.personaId;
+    } else if (personaId !== undefined) {
+      mergedSettings.personaId = personaId;
+    }
+
+    await ctx.db.patch(threadId, {
+      settings: mergedSettings,
+      updatedAt: Date.now(),
+    });
+
+    return { threadId, settings: mergedSettings };
+  },
+});
+
 /**
  * Get threads for a user
  */
-export const getUserThreads = query({
+export const getUserThreads = internalQuery({
   args: {
-    clerkId: v.string(),
+    userId: v.id('users'),
     limit: v.optional(v.number()),
-    offset: v.optional(v.number()),
+    cursor: v.optional(v.union(v.string(), v.null())),
     archived: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
-    const { clerkId, limit = 20, offset = 0, archived = false } = args;
-
-    // Get user by clerkId
-    const user = await getUserByClerkId(ctx, clerkId);
+    const { userId, limit = 20, cursor = null, archived = false } = args;
 
     let query = ctx.db
       .query('threads')
-      .withIndex('by_user_updated', (q: any) => q.eq('userId', user._id))
+      .withIndex('by_user_updated', (q: any) => q.eq('userId', userId))
       .order('desc');
 
     if (archived === true) {
@@ -202,18 +268,39 @@ export const getUserThreads = query({
       query = query.filter((q: any) => q.neq(q.field('isArchived'), true));
     }
 
-    const threads = await query
-      .paginate({ numItems: limit, cursor: null })
-      .then((result: any) => result.page.slice(offset, offset + limit));
+    const result = await query.paginate({ numItems: limit, cursor });
 
-    return threads;
+    return {
+      threads: result.page,
+      nextCursor: result.isDone ? null : result.continueCursor,
+    };
+  },
+});
+
+/**
+ * Get a single thread with user authorization
+ */
+export const getThread = internalQuery({
+  args: {
+    threadId: v.id('threads'),
+    userId: v.id('users'),
+  },
+  handler: async (ctx, args) => {
+    const { threadId, userId } = args;
+
+    const thread = await ctx.db.get(threadId);
+    if (!thread || thread.userId !== userId) {
+      throw new ConvexError('Thread not found or access denied');
+    }
+
+    return thread;
   },
 });
 
 /**
  * Update thread activity
  */
-export const updateThreadActivity = mutation({
+export const updateThreadActivity = internalMutation({
   args: {
     threadId: v.id('threads'),
   },
@@ -236,20 +323,17 @@ export const updateThreadActivity = mutation({
  * Delete a thread and all its associated messages
  * Note: Usage data is preserved for analytics
  */
-export const deleteThread = mutation({
+export const deleteThread = internalMutation({
   args: {
     threadId: v.id('threads'),
-    clerkId: v.string(),
+    userId: v.id('users'),
   },
   handler: async (ctx, args) => {
-    const { threadId, clerkId } = args;
-
-    // Get user by clerkId
-    const user = await getUserByClerkId(ctx, clerkId);
+    const { threadId, userId } = args;
 
     // Verify user has access to this thread
     const thread = await ctx.db.get(threadId);
-    if (!thread || thread.userId !== user._id) {
+    if (!thread || thread.userId !== userId) {
       throw new ConvexError('Thread not found or access denied');
     }
 
@@ -263,6 +347,21 @@ export const deleteThread = mutation({
     const deletePromises = messages.map(message => ctx.db.delete(message._id));
     await Promise.all(deletePromises);
 
+    // Saved streams hold copies of the generated text, so remove them too
+    const streams = await ctx.db
+      .query('streams')
+      .withIndex('by_thread_status', q => q.eq('threadId', threadId))
+      .collect();
+    await Promise.all(streams.map(stream => ctx.db.delete(stream._id)));
+
+    const summary = await ctx.db
+      .query('threadSummaries')
+      .withIndex('by_thread_id', q => q.eq('threadId', threadId))
+      .first();
+    if (summary) {
+      await ctx.db.delete(summary._id);
+    }
+
     // Delete the thread itself
     await ctx.db.delete(threadId);
 
@@ -277,12 +376,70 @@ export const deleteThread = mutation({
   },
 });
 
+/**
+ * Copy the branch ending at a message into a new thread
+ */
+export const forkThread = internalMutation({
+  args: {
+    messageId: v.id('messages'),
+    userId: v.id('users'),
+  },
+  handler: async (ctx, args) => {
+    const { messageId, userId } = args;
+
+    const message = await ctx.db.get(messageId);
+    const thread = message && (await ctx.db.get(message.threadId));
+    if (!message || message.isDeleted || !thread || thread.userId !== userId) {
+      throw new ConvexError('Message not found or access denied');
+    }
+
+    // Pre-branching threads have no parent links, so their path is everything up to the message
+    const path = thread.activeLeafMessageId
+      ? await getMessagePath(ctx, messageId)
+      : await ctx.db
+          .query('messages')
+          .withIndex('by_thread_created', q =>
+            q.eq('threadId', thread._id).lte('createdAt', message.createdAt)
+          )
+          .order('asc')
+          .collect();
+    const messages = path.filter(pathMessage => !pathMessage.isDeleted);
+
+    const now = Date.now();
+    const newThreadId = await ctx.db.insert('threads', {
+      userId,
+      title: `${thread.title} (fork)`,
+      createdAt: now,
+      updatedAt: now,
+      lastMessageAt: now,
+      messageCount: messages.length,
+      settings: thread.settings,
+    });
+
+    let parentMessageId: Id<'messages'> | undefined;
+    for (const pathMessage of messages) {
+      const { _id, _creationTime, threadId, ...copy } = pathMessage;
+      parentMessageId = await ctx.db.insert('messages', {
+        ...copy,
+        threadId: newThreadId,
+        userId,
+        searchText: getMessageSearchText(copy.content),
+        parentMessageId,
+      });
+    }
+
+    await ctx.db.patch(newThreadId, { activeLeafMessageId: parentMessageId });
+
+    return await ctx.db.get(newThreadId);
+  },
+});
+
 /**
  * Search threads for a user
  */
-export const searchUserThreads = query({
+export const searchUserThreads = internalQuery({
   args: {
-    clerkId: v.string(),
+    userId: v.id('users'),
     searchQuery: v.string(),
     limit: v.optional(v.number()),
     offset: v.optional(v.number()),
@@ -296,10 +453,7 @@ export const searchUserThreads = query({
     total: number;
     hasMore: boolean;
   }> => {
-    const { clerkId, searchQuery, limit = 20, offset = 0, archived = false } = args;
-
-    // Get user by clerkId
-    const user = await getUserByClerkId(ctx, clerkId);
+    const { userId, searchQuery, limit = 20, offset = 0, archived = false } = args;
 
     // If search query is empty, return empty results (not regular threads)
     if (!searchQuery.trim()) {
@@ -317,7 +471,7 @@ export const searchUserThreads = query({
     // Get all threads for the user first
     let baseQuery = ctx.db
       .query('threads')
-      .withIndex('by_user_updated', (q: any) => q.eq('userId', user._id))
+      .withIndex('by_user_updated', (q: any) => q.eq('userId', userId))
       .order('desc');
 
     // Apply archived filter
@@ -0,0 +1,284 @@
+import {
+  internalAction,
+  internalMutation,
+  internalQuery,
+  type ActionCtx,
+} from '../_generated/server';
+import { internal } from '../_generated/api';
+import { v } from 'convex/values';
+import type { Id } from '../_generated/dataModel';
+import { paginationOptsValidator } from 'convex/server';
+import {
+  DAY_MS,
+  addToHistogram,
+  countError,
+  createHistogram,
+  getEventCost,
+  getTopErrors,
+  mergeToolUsage,
+  roundCost,
+  type ToolUsageEntry,
+} from '../lib/usage';
+
+// Users summarized per page while rolling up a day
+const USER_PAGE_SIZE = 100;
+
+// Distinct error messages kept per day; rarer ones only count towards errorCount
+const TOP_ERRORS_PER_DAY = 10;
+
+// Most missed days the nightly rollup makes up; older gaps need backfillDailyUsage
+const MAX_CATCH_UP_DAYS = 31;
+
+/**
+ * Page through user IDs for the rollup
+ */
+export const listUserIds = internalQuery({
+  args: {
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const result = await ctx.db.query('users').paginate(args.paginationOpts);
+    return { ...result, page: result.page.map(user => user._id) };
+  },
+});
+
+/**
+ * Roll one user's usage events for a day into their daily summary
+ * Safe to re-run: the summary is rebuilt from the events every time
+ */
+export const summarizeUserDay = internalMutation({
+  args: {
+    userId: v.id('users'),
+    daysSinceEpoch: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const { userId, daysSinceEpoch } = args;
+
+    // Requests still generating (or that never finished) have no usage to summarize
+    const events = (
+      await ctx.db
+        .query('usageEvents')
+        .withIndex('by_user_days_since_epoch', q =>
+          q.eq('userId', userId).eq('daysSinceEpoch', daysSinceEpoch)
+        )
+        .collect()
+    ).filter(event => event.status !== 'pending');
+
+    const existing = await ctx.db
+      .query('dailyUsageSummaries')
+      .withIndex('by_user_days_since_epoch', q =>
+        q.eq('userId', userId).eq('daysSinceEpoch', daysSinceEpoch)
+      )
+      .first();
+
+    if (events.length === 0) {
+      if (existing) await ctx.db.delete(existing._id);
+      return null;
+    }
+
+    // Group by model
+    const modelUsageMap = new Map<
+      string,
+      {
+        requestCount: number;
+        totalPromptTokens: number;
+        totalCompletionTokens: number;
+        totalDuration: number;
+        timedRequests: number;
+        errorCount: number;
+        totalCost: number;
+        durationHistogram: number[];
+        timeToFirstTokenHistogram: number[];
+      }
+    >();
+    const toolUsage = new Map<string, ToolUsageEntry>();
+    const errors = new Map<string, number>();
+
+    events.forEach(event => {
+      const existingModel = modelUsageMap.get(event.modelId) || {
+        requestCount: 0,
+        totalPromptTokens: 0,
+        totalCompletionTokens: 0,
+        totalDuration: 0,
+        timedRequests: 0,
+        errorCount: 0,
+        totalCost: 0,
+        durationHistogram: createHistogram(),
+        timeToFirstTokenHistogram: createHistogram(),
+      };
+      const isError = event.status === 'error' || event.status === 'timeout';
+
+      // Latency percentiles only describe requests that completed
+      if (event.status === 'success') {
+        if (event.duration !== undefined) {
+          addToHistogram(existingModel.durationHistogram, event.duration);
+        }
+        if (event.timeToFirstToken !== undefined) {
+          addToHistogram(existingModel.timeToFirstTokenHistogram, event.timeToFirstToken);
+        }
+      }
+      mergeToolUsage(toolUsage, event.toolUsage);
+      if (isError) {
+        countError(errors, event.errorMessage || 'Unknown error');
+      }
+
+      modelUsageMap.set(event.modelId, {
+        ...existingModel,
+        requestCount: existingModel.requestCount + 1,
+        totalPromptTokens: existingModel.totalPromptTokens + event.promptTokens,
+        totalCompletionTokens: existingModel.totalCompletionTokens + event.completionTokens,
+        totalDuration: existingModel.totalDuration + (event.duration ?? 0),
+        timedRequests: existingModel.timedRequests + (event.duration !== undefined ? 1 : 0),
+        errorCount: existingModel.errorCount + (isError ? 1 : 0),
+        totalCost: existingModel.totalCost + getEventCost(event),
+      });
+    });
+
+    const modelUsage = Array.from(modelUsageMap.entries()).map(([modelId, usage]) => ({
+      modelId,
+      requestCount: usage.requestCount,
+      totalPromptTokens: usage.totalPromptTokens,
+      totalCompletionTokens: usage.totalCompletionTokens,
+      averageDuration:
+        usage.timedRequests > 0 ? Math.round(usage.totalDuration / usage.timedRequests) : 0,
+      errorCount: usage.errorCount,
+      totalCost: roundCost(usage.totalCost),
+      durationHistogram: usage.durationHistogram,
+      timeToFirstTokenHistogram: usage.timeToFirstTokenHistogram,
+    }));
+
+    const now = Date.now();
+    const summary = {
+      userId,
+      date: new Date(daysSinceEpoch * DAY_MS).toISOString().split('T')[0],
+      daysSinceEpoch,
+      modelUsage,
+      totalRequests: events.length,
+      totalTokens: events.reduce((sum, event) => sum + event.totalTokens, 0),
+      totalCost: roundCost(modelUsage.reduce((sum, model) => sum + model.totalCost, 0)),
+      errorCount: modelUsage.reduce((sum, model) => sum + model.errorCount, 0),
+      toolUsage: toolUsage.size > 0 ? Array.from(toolUsage.values()) : undefined,
+      topErrors: errors.size > 0 ? getTopErrors(errors, TOP_ERRORS_PER_DAY) : undefined,
+      updatedAt: now,
+    };
+
+    if (existing) {
+      await ctx.db.patch(existing._id, summary);
+      return existing._id;
+    }
+    return await ctx.db.insert('dailyUsageSummaries', { ...summary, createdAt: now });
+  },
+});
+
+/**
+ * Latest day that has a usage summary, or null before the first rollup
+ */
+export const getLastSummarizedDay = internalQuery({
+  args: {},
+  handler: async ctx => {
+    const latest = await ctx.db
+      .query('dailyUsageSummaries')
+      .withIndex('by_date')
+      .order('desc')
+      .first();
+    return latest?.daysSinceEpoch ?? null;
+  },
+});
+
+/**
+ * Day of the oldest usage event, or null when there are none
+ */
+export const getFirstUsageDay = internalQuery({
+  args: {},
+  handler: async ctx => {
+    const first = await ctx.db.query('usageEvents').order('asc').first();
+    return first?.daysSinceEpoch ?? null;
+  },
+});
+
+/**
+ * Summarize one day for every user
+ */
+const rollupDay = async (ctx: ActionCtx, daysSinceEpoch: number) => {
+  let cursor: string | null = null;
+  let summarized = 0;
+  for (;;) {
+    const result: { page: Id<'users'>[]; isDone: boolean; continueCursor: string } =
+      await ctx.runQuery(internal.services.usage_summary_service.listUserIds, {
+        paginationOpts: { numItems: USER_PAGE_SIZE, cursor },
+      });
+
+    // One mutation per user keeps each transaction to a single user's events
+    for (const userId of result.page) {
+      const summaryId = await ctx.runMutation(
+        internal.services.usage_summary_service.summarizeUserDay,
+        { userId, daysSinceEpoch }
+      );
+      if (summaryId) summarized++;
+    }
+
+    if (result.isDone) break;
+    cursor = result.continueCursor;
+  }
+
+  console.log(`Rolled up usage for ${summarized} users on day ${daysSinceEpoch}`);
+  return summarized;
+};
+
+/**
+ * Roll finished days' usage into daily summaries for every user
+ * The nightly cron passes no day and catches up on every day since the last summary, so a
+ * missed run is made up the next night; pass daysSinceEpoch to redo a single day
+ */
+export const rollupDailyUsage = internalAction({
+  args: {
+    daysSinceEpoch: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const yesterday = Math.floor(Date.now() / DAY_MS) - 1;
+    let firstDay = yesterday;
+    let lastDay = yesterday;
+    if (args.daysSinceEpoch !== undefined) {
+      firstDay = lastDay = args.daysSinceEpoch;
+    } else {
+      const lastSummarizedDay = await ctx.runQuery(
+        internal.services.usage_summary_service.getLastSummarizedDay,
+        {}
+      );
+      if (lastSummarizedDay !== null) {
+        firstDay = Math.max(lastSummarizedDay + 1, yesterday - MAX_CATCH_UP_DAYS + 1);
+      }
+    }
+
+    let summarized = 0;
+    for (let day = firstDay; day <= lastDay; day++) {
+      summarized += await rollupDay(ctx, day);
+    }
+    return { firstDay, lastDay, summarized };
+  },
+});
+
+/**
+ * Summarize every finished day from the first usage event on; run once from the dashboard or CLI
+ * for usage recorded before the rollup existed. Each day runs as its own scheduled action so a
+ * long history doesn't hit the action time limit
+ */
+export const backfillDailyUsage = internalAction({
+  args: {
+    daysSinceEpoch: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const yesterday = Math.floor(Date.now() / DAY_MS) - 1;
+    const day =
+      args.daysSinceEpoch ??
+      (await ctx.runQuery(internal.services.usage_summary_service.getFirstUsageDay, {}));
+    if (day === null || day > yesterday) return;
+
+    await rollupDay(ctx, day);
+    if (day < yesterday) {
+      await ctx.scheduler.runAfter(0, internal.services.usage_summary_service.backfillDailyUsage, {
+        daysSinceEpoch: day + 1,
+      });
+    }
+  },
+});
@@ -0,0 +1,84 @@
+import { internalMutation, internalQuery } from '../_generated/server';
+import { v } from 'convex/values';
+import { SearchProviderId, ToolSettingValues } from '../schemas/user_settings';
+
+/**
+ * Get a user's settings, or null when they have never changed any (internal use - no auth check)
+ */
+export const getUserSettings = internalQuery({
+  args: {
+    userId: v.id('users'),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query('userSettings')
+      .withIndex('by_user_id', q => q.eq('userId', args.userId))
+      .first();
+  },
+});
+
+/**
+ * Update a user's settings, creating the row on first use
+ * A null searchProvider clears the preference; tool IDs must already be validated by the caller
+ */
+export const updateUserSettings = internalMutation({
+  args: {
+    userId: v.id('users'),
+    searchProvider: v.optional(v.union(SearchProviderId, v.null())),
+    enabledTools: v.optional(v.array(v.string())),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query('userSettings')
+      .withIndex('by_user_id', q => q.eq('userId', args.userId))
+      .first();
+
+    const updates = {
+      ...(args.searchProvider !== undefined && {
+        searchProvider: args.searchProvider ?? undefined,
+      }),
+      ...(args.enabledTools !== undefined && { enabledTools: args.enabledTools }),
+      updatedAt: Date.now(),
+    };
+
+    if (existing) {
+      await ctx.db.patch(existing._id, updates);
+      return { ...existing, ...updates };
+    }
+
+    const settings = { userId: args.userId, ...updates };
+    const settingsId = await ctx.db.insert('userSettings', settings);
+    return { _id: settingsId, ...settings };
+  },
+});
+
+/**
+ * Merge values into one tool's settings; values must already be validated by the caller
+ */
+export const updateToolSettings = internalMutation({
+  args: {
+    userId: v.id('users'),
+    toolId: v.string(),
+    values: ToolSettingValues,
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query('userSettings')
+      .withIndex('by_user_id', q => q.eq('userId', args.userId))
+      .first();
+
+    const toolSettings = {
+      ...existing?.toolSettings,
+      [args.toolId]: { ...existing?.toolSettings?.[args.toolId], ...args.values },
+    };
+    const now = Date.now();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, { toolSettings, updatedAt: now });
+    } else {
+      await ctx.db.insert('userSettings', { userId: args.userId, toolSettings, updatedAt: now });
+    }
+
+    return toolSettings[args.toolId];
+  },
+});
@@ -0,0 +1,56 @@
+import { createServer, type IncomingHttpHeaders, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+export type MockHandler = (request: MockRequest, response: ServerResponse) => void | Promise<void>;
+
+/**
+ * Local HTTP server standing in for a search provider or MCP server in tests
+ * Every request is recorded; the handler writes the response
+ */
+export const startMockServer = async (handler: MockHandler) => {
+  const requests: MockRequest[] = [];
+
+  const server = createServer(async (req, res) => {
+    let body = '';
+    for await (const chunk of req) {
+      body += chunk;
+    }
+    const request = {
+      method: req.method ?? 'GET',
+      path: req.url ?? '/',
+      headers: req.headers,
+      body,
+    };
+    requests.push(request);
+
+    try {
+      await handler(request, res);
+    } catch (error) {
+      res.writeHead(500).end(error instanceof Error ? error.message : 'Mock handler failed');
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () =>
+      new Promise<void>(resolve => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+};
+
+export const sendJson = (response: ServerResponse, status: number, body: unknown) => {
+  response.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+};